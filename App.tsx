@@ -9,19 +9,28 @@ import { ActiveSignals } from './components/ActiveSignals';
 import { PositionsPanel } from './components/PositionsPanel';
 import { TradeJournal } from './components/TradeJournal';
 import { BacktestPanel } from './components/BacktestPanel';
+import { TapeDeck } from './components/TapeDeck';
 import { AggrOrderFlow } from './components/AggrOrderFlow';
 import { AiCommandCenter } from './components/AiCommandCenter';
 import { startMarketDataSync, fetchChartData } from './services/marketData';
 import { calculateRSI, calculateATR, calculateADX, calculateEMA, calculateMACD } from './utils/technicalAnalysis';
-import { BinancePriceFeed } from './services/websocket';
+import { BinancePriceFeed, pairPriceFeed } from './services/websocket';
 import { useStore } from './store/useStore';
-import { TradeSignal } from './types';
+import { TradeSignal, EnhancedTradeSignal } from './types';
 import { BlockedBanner } from './components/BlockedBanner';
 import { usePositionMonitor } from './hooks/usePositionMonitor';
 import { aggrService } from './services/aggrService';
+import { orderFlowManager } from './services/orderFlowManager';
+import { recordSync } from './services/recordSync';
+import { paperExchange } from './services/paperExchange';
+import { workingOrders } from './services/workingOrders';
+import { signalTracker } from './services/signalTracker';
+import { startPeriodicReconciliation, stopPeriodicReconciliation } from './services/compliance';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import { captureError } from './services/errorMonitor';
 import { checkRiskVeto, TradeProposal } from './services/riskOfficer';
+import { buildPortfolioRiskContext } from './services/portfolioRisk';
+import { getActiveRiskPolicy } from './services/riskPolicy';
 import { safeParseFloat } from './utils/safeParseFloat';
 
 type ViewMode = 'TERMINAL' | 'SWARM' | 'CORTEX' | 'JOURNAL' | 'BACKTEST' | 'LIVEFEED';
@@ -31,6 +40,7 @@ function App() {
   const {
     chartData,
     timeframe,
+    activeSymbol,
     setTechnicals,
     setActiveTradeSetup,
     isLiveMode
@@ -61,6 +71,32 @@ function App() {
     };
   }, [isLiveMode]);
 
+  // Paper exchange funding clock (charges only while not in live mode)
+  useEffect(() => {
+    paperExchange.start();
+    return () => paperExchange.stop();
+  }, []);
+
+  // Resting limit / stop / ladder entries: paper triggers and signal-linked expiry
+  useEffect(() => {
+    workingOrders.start();
+    return () => workingOrders.stop();
+  }, []);
+
+  // Forward-test every emitted signal and feed the outcome into pattern learning
+  useEffect(() => {
+    signalTracker.start();
+    return () => signalTracker.stop();
+  }, []);
+
+  // Exchange position reconciliation (live mode only - paper positions never reach the exchange)
+  useEffect(() => {
+    if (!isLiveMode) return;
+
+    startPeriodicReconciliation(() => useStore.getState().positions);
+    return () => stopPeriodicReconciliation();
+  }, [isLiveMode]);
+
   // Refs
   const binanceWS = useRef(new BinancePriceFeed());
 
@@ -83,10 +119,18 @@ function App() {
     return cleanup;
   }, []);
 
-  // Fetch Chart Data when timeframe changes
+  // Server-side journal / positions / outcomes sync (local store stays the offline cache)
   useEffect(() => {
-    fetchChartData();
-  }, [timeframe]);
+    recordSync.start().catch((error) => {
+      console.error('[App] Record sync failed to start:', error);
+    });
+    return () => recordSync.stop();
+  }, []);
+
+  // Fetch Chart Data when timeframe or symbol changes
+  useEffect(() => {
+    fetchChartData(activeSymbol);
+  }, [timeframe, activeSymbol]);
 
   // WebSocket Connection
   useEffect(() => {
@@ -111,6 +155,18 @@ function App() {
     };
   }, []);
 
+  // Live prices for non-charted pairs with positions or working orders
+  useEffect(() => {
+    pairPriceFeed.start();
+    return () => pairPriceFeed.stop();
+  }, []);
+
+  // Re-point price ticker and order flow streams when the active symbol changes
+  useEffect(() => {
+    binanceWS.current.setSymbol(activeSymbol);
+    orderFlowManager.setSymbol(activeSymbol);
+  }, [activeSymbol]);
+
   // Aggr Order Flow Connection (Real-time liquidations, CVD, market pressure)
   useEffect(() => {
     aggrService.connect((stats) => {
@@ -225,9 +281,12 @@ function App() {
         dailyPnL,
         dailyLossLimit,
         balance,
-        positions
+        positions,
+        journal: state.journal,
+        policy: getActiveRiskPolicy(state.riskPolicies, state.activeRiskPolicyId)
       },
-      riskOfficer
+      riskOfficer,
+      buildPortfolioRiskContext(signal.pair, state)
     );
 
     // CRITICAL: If risk check blocks, do NOT set trade setup
@@ -261,9 +320,13 @@ function App() {
     });
 
     setActiveTradeSetup({
+      signalId: signal.id,
+      pair: signal.pair,
       type: signal.type,
       stopLoss: stopLoss,
-      takeProfit: takeProfit
+      takeProfit: takeProfit,
+      // V3.3 signals carry the multi-target plan used for exchange brackets
+      targetLevels: 'targetLevels' in signal ? (signal as EnhancedTradeSignal).targetLevels : undefined
     });
   }, [setActiveTradeSetup]);
 
@@ -383,6 +446,9 @@ function App() {
 
         {/* Right Side Controls - Premium Status */}
         <div className="flex items-center gap-4 relative z-10">
+          {/* Tape recorder / replay */}
+          <TapeDeck />
+
           {/* Elite Status Indicators */}
           <div className="flex items-center gap-2 text-xs font-medium">
             <div className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-white/5 border border-white/10 hover:border-green-500/30 transition-all duration-300 group">
@@ -1,11 +1,13 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { Activity, RefreshCw, Zap, ArrowUp, ArrowDown, Play, ChevronDown, ChevronUp, ShieldCheck, AlertTriangle, Clock } from 'lucide-react';
-import { TradeSignal } from '../types';
+import { EnhancedTradeSignal, TradeSignal } from '../types';
 import { useSignalsData } from '../store/selectors';
+import { useShallow } from 'zustand/react/shallow';
 import { useStore } from '../store/useStore';
 import { fetchSignals } from '../services/marketData';
 import { ConfidenceBreakdown } from './ConfidenceBreakdown';
 import { safeParseFloat } from '../utils/safeParseFloat';
+import { getStrategy, getStrategyState, listStrategies } from '../services/strategyRegistry';
 
 interface ActiveSignalsProps {
   onTrade?: (signal: TradeSignal) => void;
@@ -15,13 +17,22 @@ export const ActiveSignals: React.FC<ActiveSignalsProps> = ({ onTrade }) => {
   const { signals, isScanning } = useSignalsData();
   const currentPrice = useStore((state) => state.price);
   const approveSignal = useStore((state) => state.approveSignal);
+  const enabledStrategyIds = useStore((state) => state.enabledStrategyIds);
+  const setEnabledStrategies = useStore((state) => state.setEnabledStrategies);
+  // Forward-tracked results per strategy, for side-by-side comparison
+  const strategies = listStrategies();
+  const strategyLearning = useStore(useShallow((state) =>
+    strategies.map(strategy => getStrategyState(state, strategy.id).patternLearning)
+  ));
+  const [strategyFilter, setStrategyFilter] = useState<string | null>(null);
   // FILTER: Only show signals with Risk:Reward >= 1:1.5 and not invalidated/expired
   // Note: Tactical signals produce ~2:1 R:R by default (3x ATR target / 1.5x ATR stop)
   const safeSignals = (signals || []).filter(signal =>
     signal.riskRewardRatio &&
     signal.riskRewardRatio >= 1.5 &&
     signal.status !== 'INVALIDATED' &&
-    signal.status !== 'EXPIRED'
+    signal.status !== 'EXPIRED' &&
+    (!strategyFilter || signal.strategyId === strategyFilter)
   );
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
@@ -91,6 +102,12 @@ export const ActiveSignals: React.FC<ActiveSignalsProps> = ({ onTrade }) => {
     return 'text-red-400';
   };
 
+  const toggleStrategy = (id: string) => {
+    setEnabledStrategies(enabledStrategyIds.includes(id)
+      ? enabledStrategyIds.filter(enabled => enabled !== id)
+      : [...enabledStrategyIds, id]);
+  };
+
   const toggleExpand = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setExpandedId(expandedId === id ? null : id);
@@ -122,6 +139,34 @@ export const ActiveSignals: React.FC<ActiveSignalsProps> = ({ onTrade }) => {
         </div>
       </div>
 
+      {/* Strategies: click to run on SCAN, double-click to filter the list */}
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-terminal-border bg-terminal-card/50 overflow-x-auto">
+        {strategies.map((strategy, index) => {
+          const enabled = enabledStrategyIds.includes(strategy.id);
+          const learning = strategyLearning[index];
+          return (
+            <button
+              key={strategy.id}
+              onClick={() => toggleStrategy(strategy.id)}
+              onDoubleClick={() => setStrategyFilter(strategyFilter === strategy.id ? null : strategy.id)}
+              title={`${strategy.name}: ${strategy.description}`}
+              className={`text-[8px] font-mono px-1.5 py-0.5 rounded border whitespace-nowrap transition-colors ${
+                enabled
+                  ? 'bg-blue-500/15 border-blue-500/40 text-blue-300'
+                  : 'bg-transparent border-terminal-border text-gray-600 hover:text-gray-400'
+              } ${strategyFilter === strategy.id ? 'ring-1 ring-blue-400' : ''}`}
+            >
+              {strategy.shortName}
+              {learning.totalTrades > 0 && (
+                <span className={learning.expectancy >= 0 ? 'text-green-400' : 'text-red-400'}>
+                  {' '}{(learning.winRate * 100).toFixed(0)}% {learning.expectancy.toFixed(2)}R
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
       {/* Data Grid */}
       <div className="flex-1 overflow-y-auto custom-scrollbar">
         <table className="w-full text-left border-collapse">
@@ -177,6 +222,11 @@ export const ActiveSignals: React.FC<ActiveSignalsProps> = ({ onTrade }) => {
                           <span className={`text-[8px] px-1 py-0.5 rounded border ${sourceBadge.bg} ${sourceBadge.border} ${sourceBadge.text}`}>
                             {sourceBadge.label}
                           </span>
+                          {signal.strategyId && (
+                            <span className="ml-0.5 text-[8px] text-gray-500" title={getStrategy(signal.strategyId)?.name}>
+                              {getStrategy(signal.strategyId)?.shortName ?? signal.strategyId}
+                            </span>
+                          )}
                         </td>
 
                         {/* Side */}
@@ -270,6 +320,7 @@ export const ActiveSignals: React.FC<ActiveSignalsProps> = ({ onTrade }) => {
                                             baseScore={baseScore} 
                                             adjustments={adjustments} 
                                             finalScore={signal.confidence} 
+                                            higherTimeframes={(signal as Partial<EnhancedTradeSignal>).higherTimeframes}
                                         />
                                     </div>
                                     <div className="flex-1 border-l border-white/5 pl-4">
@@ -11,6 +11,7 @@ import { generateConsensus } from '../../services/agentConsensus';
 import { TacticalSignalResult } from '../../services/tacticalSignals';
 import { runAgentWithTimeout } from '../../utils/agentTimeout';
 import { ConfluenceWeightsPanel } from './ConfluenceWeightsPanel';
+import { RiskPolicyPanel } from '../RiskPolicyPanel';
 
 export const AgentSwarm: React.FC = () => {
     const agents = useStore((state) => state.agents) || [];
@@ -191,6 +192,11 @@ export const AgentSwarm: React.FC = () => {
                     <ConfluenceWeightsPanel />
                 </div>
 
+                {/* RISK POLICY PROFILES */}
+                <div className="hidden lg:block w-56">
+                    <RiskPolicyPanel />
+                </div>
+
                 <div className="flex items-center gap-4">
                     <div className="text-right hidden sm:block">
                         <div className="text-xs text-terminal-muted uppercase tracking-widest">Active Agents</div>
@@ -1,10 +1,11 @@
 /**
  * BACKTEST PANEL V3.3.1
- * Test Tactical V3.3.1 strategy on historical data
- * Collapsible panel with multi-target TP analysis
+ * Test Tactical V3.3.1 (or any registered strategy) on historical data
+ * Collapsible panel with multi-target TP analysis, A/B strategy comparison,
+ * two-parameter sensitivity heatmaps and a persisted run history
  */
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   Activity,
   PlayCircle,
@@ -14,15 +15,92 @@ import {
   Target,
   TrendingUp,
   Clock,
-  BarChart3
+  BarChart3,
+  Layers,
+  Plus,
+  Trash2,
+  History,
+  RotateCcw,
+  Download
 } from 'lucide-react';
 import { fetchHistoricalCandles } from '../services/backtestingService';
 import { BacktestEngine, BacktestResults, DEFAULT_BACKTEST_CONFIG } from '../services/backtestEngine';
-import { DEFAULT_CONFIG_V33 } from '../types';
+import { ChartDataPoint, DEFAULT_CONFIG_V33 } from '../types';
+import { AggrStats } from '../types/aggrTypes';
 import { setBacktestResults } from '../services/backtestIntegration';
+import {
+  runWalkForward,
+  WalkForwardResults,
+  WalkForwardProgress,
+  WalkForwardSearchMode,
+  DEFAULT_WALK_FORWARD_CONFIG
+} from '../services/walkForwardOptimizer';
+import { runMonteCarlo, MonteCarloResults } from '../services/monteCarloAnalysis';
+import { MonteCarloCard } from './MonteCarloCard';
+import { orderFlowRecorder } from '../services/orderFlowRecorder';
+import { useActiveSymbol } from '../store/selectors';
+import {
+  DEFAULT_STRATEGY_ID,
+  getStrategy,
+  getStrategyState,
+  listStrategies,
+  resolveStrategyConfig
+} from '../services/strategyRegistry';
+import {
+  runStrategyComparison,
+  parseConfigOverrides,
+  saveComparison,
+  loadComparison,
+  deleteComparison,
+  listSavedComparisons,
+  StrategyComparison,
+  ComparisonProgress
+} from '../services/strategyComparison';
+import { StrategyComparisonCard, VARIANT_COLORS } from './StrategyComparisonCard';
+import {
+  runSensitivitySweep,
+  parseAxisValues,
+  DEFAULT_SENSITIVITY_AXES,
+  MAX_SENSITIVITY_CELLS,
+  SensitivityAxis,
+  SensitivityCell,
+  SensitivityResults,
+  SensitivityProgress
+} from '../services/parameterSensitivity';
+import { OptimizableParam } from '../services/walkForwardOptimizer';
+import { SensitivityHeatmap } from './SensitivityHeatmap';
+import { useStore } from '../store/useStore';
+import {
+  recordBacktestRun,
+  loadBacktestRun,
+  deleteBacktestRun,
+  listBacktestRuns,
+  exportBacktestRun,
+  loadRunOrderFlow,
+  closedCandles,
+  BacktestRunRecord,
+  BacktestRunSummary,
+  RecordRunInput
+} from '../services/backtestHistory';
+
+type BacktestMode = 'SINGLE' | 'WALK_FORWARD' | 'COMPARE' | 'SENSITIVITY';
+
+// Editable comparison variant; overrides is a JSON object of TacticalConfigV33 fields
+interface VariantDraft {
+  strategyId: string;
+  overrides: string;
+}
+
+const MAX_VARIANTS = 4;
+
+const axisDraft = (axis: SensitivityAxis) => ({ key: axis.key, values: axis.values.join(', ') });
+const variantLabel = (index: number) => String.fromCharCode(65 + index);
 
 export const BacktestPanel: React.FC = () => {
   const [results, setResults] = useState<BacktestResults | null>(null);
+  const [wfResults, setWfResults] = useState<WalkForwardResults | null>(null);
+  const [wfProgress, setWfProgress] = useState<WalkForwardProgress | null>(null);
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloResults | null>(null);
   const [isRunning, setIsRunning] = useState(false);
   const [isCollapsed, setIsCollapsed] = useState(false);
 
@@ -32,14 +110,232 @@ export const BacktestPanel: React.FC = () => {
   const [riskPercent, setRiskPercent] = useState(1);
   const [minConfidence, setMinConfidence] = useState(50);
   const [usePartialExits, setUsePartialExits] = useState(true);
+  const [replayOrderFlow, setReplayOrderFlow] = useState(true);
+  const [strategyId, setStrategyId] = useState(DEFAULT_STRATEGY_ID);
+  const activeSymbol = useActiveSymbol();
+
+  // Walk-forward state
+  const [mode, setMode] = useState<BacktestMode>('SINGLE');
+  const [trainBars, setTrainBars] = useState(DEFAULT_WALK_FORWARD_CONFIG.trainBars);
+  const [testBars, setTestBars] = useState(DEFAULT_WALK_FORWARD_CONFIG.testBars);
+  const [searchMode, setSearchMode] = useState<WalkForwardSearchMode>(DEFAULT_WALK_FORWARD_CONFIG.searchMode);
+
+  // A/B comparison state
+  const [variants, setVariants] = useState<VariantDraft[]>([
+    { strategyId: DEFAULT_STRATEGY_ID, overrides: '' },
+    { strategyId: 'tactical-v33-ltf', overrides: '' }
+  ]);
+  const [comparison, setComparison] = useState<StrategyComparison | null>(null);
+  const [comparisonSaved, setComparisonSaved] = useState(false);
+  const [compareProgress, setCompareProgress] = useState<ComparisonProgress | null>(null);
+  const [xAxisDraft, setXAxisDraft] = useState(axisDraft(DEFAULT_SENSITIVITY_AXES[0]));
+  const [yAxisDraft, setYAxisDraft] = useState(axisDraft(DEFAULT_SENSITIVITY_AXES[1]));
+  const [sensitivity, setSensitivity] = useState<SensitivityResults | null>(null);
+  const [sensitivityProgress, setSensitivityProgress] = useState<SensitivityProgress | null>(null);
+  const [runHistory, setRunHistory] = useState<BacktestRunSummary[]>([]);
+  const [activeRun, setActiveRun] = useState<BacktestRunRecord | null>(null);
+  // Set after a rerun: the run it reproduced and whether the candles matched
+  const [rerunCheck, setRerunCheck] = useState<{ original: BacktestRunRecord; sameData: boolean; sameOrderFlow: boolean } | null>(null);
+  const [savedComparisons, setSavedComparisons] = useState<Awaited<ReturnType<typeof listSavedComparisons>>>([]);
+
+  const refreshSavedComparisons = useCallback(() => {
+    listSavedComparisons().then(setSavedComparisons).catch(error => {
+      console.warn('[Backtest] Could not list saved comparisons:', error);
+    });
+  }, []);
+
+  const refreshRunHistory = useCallback(() => {
+    listBacktestRuns().then(setRunHistory).catch(error => {
+      console.warn('[Backtest] Could not list run history:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    refreshSavedComparisons();
+    refreshRunHistory();
+  }, [refreshSavedComparisons, refreshRunHistory]);
+
+  const updateVariant = (index: number, patch: Partial<VariantDraft>) => {
+    setVariants(prev => prev.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+  };
+
+  const handleSaveComparison = async () => {
+    if (!comparison) return;
+    try {
+      await saveComparison(comparison);
+      setComparisonSaved(true);
+      refreshSavedComparisons();
+    } catch (error) {
+      console.error('[Backtest] Save comparison failed:', error);
+      alert('Could not save comparison. Check console for details.');
+    }
+  };
+
+  const changeAxisKey = (setDraft: typeof setXAxisDraft, key: OptimizableParam) => {
+    const preset = DEFAULT_SENSITIVITY_AXES.find(a => a.key === key);
+    setDraft(prev => ({ key, values: preset ? preset.values.join(', ') : prev.values }));
+  };
+
+  const handleApplySensitivityCell = (cell: SensitivityCell) => {
+    if (!sensitivity) return;
+    useStore.getState().applyStrategyConfig(sensitivity.strategyId, {
+      [sensitivity.xAxis.key]: cell.xValue,
+      [sensitivity.yAxis.key]: cell.yValue
+    });
+    console.log(`[Backtest] Applied ${sensitivity.xAxis.key}=${cell.xValue}, ${sensitivity.yAxis.key}=${cell.yValue} to ${sensitivity.strategyId}`);
+  };
+
+  // Run one in-sample pass, publish it to other panels and add it to the run history
+  const runSinglePass = async (
+    candles: ChartDataPoint[],
+    orderFlowSeries: (AggrStats | null)[],
+    run: Omit<RecordRunInput, 'candles' | 'orderFlowSeries' | 'results'>
+  ): Promise<BacktestRunRecord | null> => {
+    const btResults = new BacktestEngine(
+      candles,
+      {},  // App state
+      run.backtestConfig,
+      run.tacticalConfig,
+      orderFlowSeries
+    ).run();
+    setResults(btResults);
+    if (btResults.trades.length > 0) {
+      setMonteCarlo(runMonteCarlo(btResults.trades, { initialCapital: run.backtestConfig.initialCapital }));
+    }
+
+    // Store results in integration service for cross-component access
+    setBacktestResults(btResults, {
+      days: run.days,
+      timeframe: run.timeframe,
+      riskPercent: run.backtestConfig.riskPerTrade,
+      minConfidence: run.backtestConfig.minConfidence
+    });
+
+    console.log(`[Backtest V3.3.1] Completed: ${btResults.totalTrades} trades, ${(btResults.winRate * 100).toFixed(1)}% win rate`);
+
+    try {
+      const record = await recordBacktestRun({ ...run, candles, orderFlowSeries, results: btResults });
+      setActiveRun(record);
+      refreshRunHistory();
+      return record;
+    } catch (error) {
+      console.warn('[Backtest] Could not record run history:', error);
+      return null;
+    }
+  };
+
+  const clearResults = () => {
+    setResults(null);
+    setWfResults(null);
+    setWfProgress(null);
+    setMonteCarlo(null);
+    setComparison(null);
+    setComparisonSaved(false);
+    setSensitivity(null);
+    setActiveRun(null);
+    setRerunCheck(null);
+  };
+
+  const handleReopenRun = async (id: string) => {
+    const record = await loadBacktestRun(id);
+    if (!record) {
+      refreshRunHistory();
+      return;
+    }
+    clearResults();
+    setResults(record.results);
+    if (record.results.trades.length > 0) {
+      setMonteCarlo(runMonteCarlo(record.results.trades, { initialCapital: record.backtestConfig.initialCapital }));
+    }
+    setActiveRun(record);
+  };
+
+  // Replay a stored run's exact configs over the same candle range
+  const handleRerunRun = async (id: string) => {
+    const original = await loadBacktestRun(id);
+    if (!original) {
+      refreshRunHistory();
+      return;
+    }
+    setIsRunning(true);
+    clearResults();
+
+    try {
+      const candles = closedCandles(await fetchHistoricalCandles(
+        original.symbol,
+        original.timeframe,
+        original.days,
+        original.dataRange.endTime * 1000
+      ), original.timeframe);
+      if (candles.length < 200) {
+        alert('Could not refetch the original candles. Check your connection.');
+        return;
+      }
+      // The run's own copy first: the recorder prunes old snapshots
+      const orderFlowSeries = original.replayOrderFlow
+        ? (await loadRunOrderFlow(original.id)) ?? await orderFlowRecorder.loadForBars(original.symbol, candles)
+        : [];
+
+      const record = await runSinglePass(candles, orderFlowSeries, {
+        symbol: original.symbol,
+        timeframe: original.timeframe,
+        days: original.days,
+        replayOrderFlow: original.replayOrderFlow,
+        // Runs stored before backtests took a timeframe fall back to the record's
+        backtestConfig: { ...original.backtestConfig, timeframe: original.timeframe },
+        tacticalConfig: original.tacticalConfig,
+        rerunOf: original.id
+      });
+      if (record) {
+        setRerunCheck({
+          original,
+          sameData: record.dataHash === original.dataHash,
+          sameOrderFlow: record.orderFlowHash === (original.orderFlowHash ?? null)
+        });
+      }
+    } catch (error) {
+      console.error('[Backtest V3.3.1] Rerun failed:', error);
+      alert('Rerun failed. Check console for details.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleDeleteRun = async (id: string) => {
+    await deleteBacktestRun(id);
+    if (activeRun?.id === id) setActiveRun(null);
+    refreshRunHistory();
+  };
+
+  const handleExportRun = async (id: string) => {
+    const record = activeRun?.id === id ? activeRun : await loadBacktestRun(id);
+    if (record) exportBacktestRun(record);
+  };
+
+  const handleLoadComparison = async (id: string) => {
+    const loaded = await loadComparison(id);
+    if (!loaded) {
+      refreshSavedComparisons();
+      return;
+    }
+    clearResults();
+    setComparison(loaded);
+    setComparisonSaved(true);
+  };
+
+  const handleDeleteComparison = async (id: string) => {
+    await deleteComparison(id);
+    if (comparison?.id === id) setComparisonSaved(false);
+    refreshSavedComparisons();
+  };
 
   const runBacktest = async () => {
     setIsRunning(true);
-    setResults(null);
+    clearResults();
 
     try {
-      // Fetch historical data
-      const candles = await fetchHistoricalCandles('BTCUSDT', timeframe, days);
+      // Fetch historical data, without the bar that is still forming
+      const candles = closedCandles(await fetchHistoricalCandles(activeSymbol, timeframe, days), timeframe);
 
       if (!candles || candles.length < 200) {
         alert('Insufficient data. Try fewer days or check your connection.');
@@ -47,45 +343,120 @@ export const BacktestPanel: React.FC = () => {
         return;
       }
 
+      // Recorded AggrStats snapshots, aligned bar-by-bar (empty = technicals only)
+      const orderFlowSeries = replayOrderFlow
+        ? await orderFlowRecorder.loadForBars(activeSymbol, candles)
+        : [];
+
       console.log(`[Backtest V3.3.1] Running with ${candles.length} candles`);
 
-      // Create backtest engine with V3.3.1
-      const engine = new BacktestEngine(
-        candles,
-        {},  // App state
-        {
-          ...DEFAULT_BACKTEST_CONFIG,
-          riskPerTrade: riskPercent,
-          minConfidence,
-          usePartialExits,
-          enableLearningFeedback: true
-        },
-        {
-          ...DEFAULT_CONFIG_V33,
-          assetType: 'CRYPTO',
-          disableWeekendPenalty: true,
-          disableSessionPenalty: true
-        }
-      );
+      const backtestConfig = {
+        ...DEFAULT_BACKTEST_CONFIG,
+        strategyId,
+        timeframe,
+        riskPerTrade: riskPercent,
+        minConfidence,
+        usePartialExits,
+        enableLearningFeedback: true
+      };
+      const tacticalConfig = {
+        ...resolveStrategyConfig(getStrategy(strategyId) ?? getStrategy(DEFAULT_STRATEGY_ID)!),
+        assetType: 'CRYPTO' as const,
+        disableWeekendPenalty: true,
+        disableSessionPenalty: true
+      };
 
-      // Run backtest
-      const btResults = engine.run();
-      setResults(btResults);
+      // Comparison variants and sweeps share the crypto session settings
+      const sessionConfig = {
+        assetType: tacticalConfig.assetType,
+        disableWeekendPenalty: tacticalConfig.disableWeekendPenalty,
+        disableSessionPenalty: tacticalConfig.disableSessionPenalty
+      };
 
-      // Store results in integration service for cross-component access
-      setBacktestResults(btResults, {
-        days,
+      if (mode === 'COMPARE') {
+        // Each variant then applies its own overrides
+        const comparisonVariants = variants.map((v, i) => {
+          const label = `${variantLabel(i)}: ${getStrategy(v.strategyId)?.shortName ?? v.strategyId}`;
+          try {
+            return {
+              id: variantLabel(i),
+              label,
+              strategyId: v.strategyId,
+              tacticalConfig: { ...sessionConfig, ...parseConfigOverrides(v.overrides) }
+            };
+          } catch (error) {
+            throw new Error(`Variant ${label}: ${(error as Error).message}`);
+          }
+        });
+
+        const report = await runStrategyComparison(
+          candles,
+          comparisonVariants,
+          { symbol: activeSymbol, timeframe },
+          {},
+          backtestConfig,
+          orderFlowSeries,
+          setCompareProgress
+        );
+        setComparison(report);
+        console.log(`[Backtest V3.3.1] Comparison completed: ${report.name}`);
+        return;
+      }
+
+      if (mode === 'SENSITIVITY') {
+        const xAxis = { key: xAxisDraft.key, values: parseAxisValues(xAxisDraft.values) };
+        const yAxis = { key: yAxisDraft.key, values: parseAxisValues(yAxisDraft.values) };
+        // Sweep on top of the strategy's live config so applied cells change only the two axes
+        const liveConfig = getStrategyState(useStore.getState(), strategyId).config;
+        const sweep = await runSensitivitySweep(
+          candles,
+          xAxis,
+          yAxis,
+          backtestConfig,
+          { ...liveConfig, ...sessionConfig },
+          orderFlowSeries,
+          setSensitivityProgress
+        );
+        setSensitivity(sweep);
+        return;
+      }
+
+      if (mode === 'WALK_FORWARD') {
+        const wf = await runWalkForward(
+          candles,
+          {},
+          backtestConfig,
+          { trainBars, testBars, searchMode },
+          tacticalConfig,
+          setWfProgress,
+          orderFlowSeries
+        );
+        setWfResults(wf);
+        if (wf.trades.length > 0) {
+          setMonteCarlo(runMonteCarlo(wf.trades, { initialCapital: backtestConfig.initialCapital }));
+        }
+        console.log(`[Backtest V3.3.1] Walk-forward completed: ${wf.windows.length} windows, OOS ${wf.outOfSample.expectancy.toFixed(2)}R`);
+        return;
+      }
+
+      await runSinglePass(candles, orderFlowSeries, {
+        symbol: activeSymbol,
         timeframe,
-        riskPercent,
-        minConfidence
+        days,
+        replayOrderFlow,
+        backtestConfig,
+        tacticalConfig
       });
-
-      console.log(`[Backtest V3.3.1] Completed: ${btResults.totalTrades} trades, ${(btResults.winRate * 100).toFixed(1)}% win rate`);
     } catch (error) {
       console.error('[Backtest V3.3.1] Error:', error);
-      alert('Backtest failed. Check console for details.');
+      alert(error instanceof Error && mode !== 'SINGLE'
+        ? error.message
+        : 'Backtest failed. Check console for details.');
     } finally {
       setIsRunning(false);
+      setWfProgress(null);
+      setCompareProgress(null);
+      setSensitivityProgress(null);
     }
   };
 
@@ -107,6 +478,13 @@ export const BacktestPanel: React.FC = () => {
                 {(results.winRate * 100).toFixed(1)}% WR | {results.totalTrades} trades
               </span>
             )}
+            {wfResults && (
+              <span className={`text-xs font-medium px-2 py-0.5 rounded ${
+                wfResults.outOfSample.expectancy >= 0 ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'
+              }`}>
+                OOS {wfResults.outOfSample.expectancy.toFixed(2)}R | {wfResults.windows.length} windows
+              </span>
+            )}
           </div>
           <ChevronDown size={16} className="text-gray-500" />
         </div>
@@ -170,6 +548,22 @@ export const BacktestPanel: React.FC = () => {
             />
           </div>
 
+          {mode !== 'COMPARE' && (
+            <div className="space-y-2">
+              <label className="text-[10px] font-medium text-gray-500 block">Strategy</label>
+              <select
+                value={strategyId}
+                onChange={(e) => setStrategyId(e.target.value)}
+                title={getStrategy(strategyId)?.description}
+                className="w-full bg-black/40 border border-white/10 rounded px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-green-500/50"
+              >
+                {listStrategies().map(strategy => (
+                  <option key={strategy.id} value={strategy.id}>{strategy.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <label className="text-[10px] font-medium text-gray-500 block">Timeframe</label>
             <select
@@ -220,11 +614,233 @@ export const BacktestPanel: React.FC = () => {
               Multi-target TPs (partial exits)
             </label>
           </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="replayOrderFlow"
+              checked={replayOrderFlow}
+              onChange={(e) => setReplayOrderFlow(e.target.checked)}
+              className="rounded border-white/20"
+            />
+            <label htmlFor="replayOrderFlow" className="text-[10px] font-medium text-gray-400">
+              Replay recorded order flow
+            </label>
+          </div>
+
+          <div className="space-y-2 pt-2 border-t border-white/5">
+            <label className="text-[10px] font-medium text-gray-500 block">Mode</label>
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as BacktestMode)}
+              className="w-full bg-black/40 border border-white/10 rounded px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-green-500/50"
+            >
+              <option value="SINGLE">Single pass (in-sample)</option>
+              <option value="WALK_FORWARD">Walk-forward (out-of-sample)</option>
+              <option value="COMPARE">A/B comparison</option>
+              <option value="SENSITIVITY">Parameter sensitivity</option>
+            </select>
+          </div>
+
+          {mode === 'SENSITIVITY' && (
+            <div className="space-y-2">
+              {([
+                ['X', xAxisDraft, setXAxisDraft],
+                ['Y', yAxisDraft, setYAxisDraft]
+              ] as const).map(([label, draft, setDraft]) => (
+                <div key={label} className="space-y-1">
+                  <div className="flex items-center gap-1">
+                    <span className="text-[10px] font-bold text-gray-500 w-3">{label}</span>
+                    <select
+                      value={draft.key}
+                      onChange={(e) => changeAxisKey(setDraft, e.target.value as OptimizableParam)}
+                      className="flex-1 bg-black/40 border border-white/10 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500/50"
+                    >
+                      {DEFAULT_SENSITIVITY_AXES.map(axis => (
+                        <option key={axis.key} value={axis.key}>{axis.key}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <input
+                    type="text"
+                    value={draft.values}
+                    onChange={(e) => setDraft(prev => ({ ...prev, values: e.target.value }))}
+                    placeholder="Values, e.g. 4, 4.5, 5"
+                    className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-[10px] font-mono text-gray-300 focus:outline-none focus:border-green-500/50"
+                  />
+                </div>
+              ))}
+              <div className="text-[9px] text-gray-600">Max {MAX_SENSITIVITY_CELLS} cells, run on background workers</div>
+            </div>
+          )}
+
+          {mode === 'COMPARE' && (
+            <div className="space-y-2">
+              {variants.map((variant, i) => (
+                <div key={i} className="space-y-1">
+                  <div className="flex items-center gap-1">
+                    <span className="text-[10px] font-bold w-3" style={{ color: VARIANT_COLORS[i % VARIANT_COLORS.length] }}>
+                      {variantLabel(i)}
+                    </span>
+                    <select
+                      value={variant.strategyId}
+                      onChange={(e) => updateVariant(i, { strategyId: e.target.value })}
+                      className="flex-1 bg-black/40 border border-white/10 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500/50"
+                    >
+                      {listStrategies().map(strategy => (
+                        <option key={strategy.id} value={strategy.id}>{strategy.name}</option>
+                      ))}
+                    </select>
+                    {variants.length > 2 && (
+                      <button
+                        onClick={() => setVariants(prev => prev.filter((_, j) => j !== i))}
+                        className="p-1 text-gray-600 hover:text-red-400"
+                        title="Remove variant"
+                      >
+                        <Trash2 size={10} />
+                      </button>
+                    )}
+                  </div>
+                  <input
+                    type="text"
+                    value={variant.overrides}
+                    onChange={(e) => updateVariant(i, { overrides: e.target.value })}
+                    placeholder='Overrides, e.g. {"htfTrendGate": false}'
+                    className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-[10px] font-mono text-gray-300 focus:outline-none focus:border-green-500/50"
+                  />
+                </div>
+              ))}
+              {variants.length < MAX_VARIANTS && (
+                <button
+                  onClick={() => setVariants(prev => [...prev, { strategyId: DEFAULT_STRATEGY_ID, overrides: '' }])}
+                  className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-gray-300"
+                >
+                  <Plus size={10} /> Add variant
+                </button>
+              )}
+
+              {savedComparisons.length > 0 && (
+                <div className="pt-2 border-t border-white/5 space-y-1">
+                  <label className="text-[10px] font-medium text-gray-500 block">Saved comparisons</label>
+                  <div className="max-h-32 overflow-y-auto space-y-1">
+                    {savedComparisons.map(saved => (
+                      <div key={saved.id} className="flex items-center gap-1 text-[10px]">
+                        <button
+                          onClick={() => handleLoadComparison(saved.id)}
+                          className={`flex-1 text-left truncate hover:text-white ${comparison?.id === saved.id ? 'text-green-400' : 'text-gray-400'}`}
+                          title={`${saved.symbol} ${saved.timeframe} | ${new Date(saved.createdAt).toLocaleString()}`}
+                        >
+                          {saved.name}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteComparison(saved.id)}
+                          className="p-0.5 text-gray-600 hover:text-red-400"
+                          title="Delete saved comparison"
+                        >
+                          <Trash2 size={10} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {mode === 'WALK_FORWARD' && (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <label className="text-[10px] font-medium text-gray-500 block">Train Bars</label>
+                  <input
+                    type="number"
+                    value={trainBars}
+                    onChange={(e) => setTrainBars(parseInt(e.target.value, 10) || DEFAULT_WALK_FORWARD_CONFIG.trainBars)}
+                    min={100}
+                    step={50}
+                    className="w-full bg-black/40 border border-white/10 rounded px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-green-500/50"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-[10px] font-medium text-gray-500 block">Test Bars</label>
+                  <input
+                    type="number"
+                    value={testBars}
+                    onChange={(e) => setTestBars(parseInt(e.target.value, 10) || DEFAULT_WALK_FORWARD_CONFIG.testBars)}
+                    min={50}
+                    step={50}
+                    className="w-full bg-black/40 border border-white/10 rounded px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-green-500/50"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] font-medium text-gray-500 block">Search</label>
+                <select
+                  value={searchMode}
+                  onChange={(e) => setSearchMode(e.target.value as WalkForwardSearchMode)}
+                  className="w-full bg-black/40 border border-white/10 rounded px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-green-500/50"
+                >
+                  <option value="RANDOM">Random ({DEFAULT_WALK_FORWARD_CONFIG.randomSamples} samples)</option>
+                  <option value="GRID">Grid (max {DEFAULT_WALK_FORWARD_CONFIG.maxGridCombinations})</option>
+                </select>
+              </div>
+            </>
+          )}
+
+          {mode === 'SINGLE' && runHistory.length > 0 && (
+            <div className="pt-2 border-t border-white/5 space-y-1">
+              <label className="text-[10px] font-medium text-gray-500 flex items-center gap-1">
+                <History size={10} /> Run history ({runHistory.length})
+              </label>
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {runHistory.map(run => (
+                  <div key={run.id} className="flex items-center gap-1 text-[10px]">
+                    <button
+                      onClick={() => handleReopenRun(run.id)}
+                      disabled={isRunning}
+                      className={`flex-1 text-left truncate hover:text-white ${activeRun?.id === run.id ? 'text-green-400' : 'text-gray-400'}`}
+                      title={`${run.symbol} ${run.timeframe} | ${run.candleCount} bars | ${run.dataHash}`
+                        + (run.changeCount > 0 ? ` | ${run.changeCount} config changes` : '')}
+                    >
+                      {new Date(run.createdAt).toLocaleString()} {getStrategy(run.strategyId)?.shortName ?? run.strategyId}{' '}
+                      <span className={run.expectancy >= 0 ? 'text-green-500' : 'text-red-500'}>
+                        {run.expectancy.toFixed(2)}R
+                      </span>
+                      {run.rerunOf && <span className="text-gray-600"> (rerun)</span>}
+                    </button>
+                    <button
+                      onClick={() => handleRerunRun(run.id)}
+                      disabled={isRunning}
+                      className="p-0.5 text-gray-600 hover:text-green-400"
+                      title="Rerun with the same configs and candle range"
+                    >
+                      <RotateCcw size={10} />
+                    </button>
+                    <button
+                      onClick={() => handleExportRun(run.id)}
+                      className="p-0.5 text-gray-600 hover:text-gray-300"
+                      title="Export as JSON"
+                    >
+                      <Download size={10} />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteRun(run.id)}
+                      className="p-0.5 text-gray-600 hover:text-red-400"
+                      title="Delete run"
+                    >
+                      <Trash2 size={10} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Results */}
         <div className="col-span-8">
-          {!results && !isRunning && (
+          {!results && !wfResults && !comparison && !sensitivity && !isRunning && (
             <div className="h-48 flex flex-col items-center justify-center text-gray-500 opacity-60">
               <BarChart3 size={32} className="mb-2 opacity-50" />
               <span className="text-xs font-medium">Configure and run backtest</span>
@@ -238,11 +854,158 @@ export const BacktestPanel: React.FC = () => {
               <span className="text-[10px] text-gray-500 mt-1">
                 Analyzing {days} days | {timeframe} timeframe
               </span>
+              {wfProgress && (
+                <span className="text-[10px] text-gray-500 mt-1">
+                  Window {wfProgress.window + 1}/{wfProgress.totalWindows} |{' '}
+                  {wfProgress.phase === 'TRAIN'
+                    ? `Training ${wfProgress.candidate + 1}/${wfProgress.totalCandidates}`
+                    : 'Testing'}
+                </span>
+              )}
+              {sensitivityProgress && (
+                <span className="text-[10px] text-gray-500 mt-1">
+                  Cell {sensitivityProgress.completed}/{sensitivityProgress.total}
+                </span>
+              )}
+              {compareProgress && (
+                <span className="text-[10px] text-gray-500 mt-1">
+                  Variant {compareProgress.variant + 1}/{compareProgress.totalVariants} | {compareProgress.label}
+                </span>
+              )}
+            </div>
+          )}
+
+          {sensitivity && (
+            <SensitivityHeatmap results={sensitivity} onApply={handleApplySensitivityCell} />
+          )}
+
+          {comparison && (
+            <StrategyComparisonCard
+              comparison={comparison}
+              isSaved={comparisonSaved}
+              onSave={handleSaveComparison}
+            />
+          )}
+
+          {wfResults && (
+            <div className="space-y-3">
+              {/* Out-of-sample vs default */}
+              <div className="grid grid-cols-4 gap-2">
+                {[
+                  {
+                    label: 'OOS EXPECTANCY',
+                    value: `${wfResults.outOfSample.expectancy.toFixed(2)}R`,
+                    good: wfResults.outOfSample.expectancy >= 0,
+                    sub: `Default ${wfResults.baseline.expectancy.toFixed(2)}R`
+                  },
+                  {
+                    label: 'OOS WIN RATE',
+                    value: `${(wfResults.outOfSample.winRate * 100).toFixed(1)}%`,
+                    good: wfResults.outOfSample.winRate >= 0.5,
+                    sub: `${wfResults.outOfSample.totalTrades} trades`
+                  },
+                  {
+                    label: 'OOS P&L',
+                    value: `${wfResults.outOfSample.totalPnLPercent.toFixed(1)}%`,
+                    good: wfResults.outOfSample.totalPnL >= 0,
+                    sub: `Default ${wfResults.baseline.totalPnLPercent.toFixed(1)}%`
+                  },
+                  {
+                    label: 'WF EFFICIENCY',
+                    value: `${(wfResults.walkForwardEfficiency * 100).toFixed(0)}%`,
+                    good: wfResults.walkForwardEfficiency >= 0.5,
+                    sub: 'OOS / IS expectancy'
+                  }
+                ].map(({ label, value, good, sub }) => (
+                  <div key={label} className="bg-white/5 border border-white/10 rounded p-2">
+                    <div className="text-[9px] font-medium text-gray-500 mb-0.5">{label}</div>
+                    <div className={`text-lg font-bold ${good ? 'text-green-400' : 'text-red-400'}`}>
+                      {value}
+                    </div>
+                    <div className="text-[9px] text-gray-500">{sub}</div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Per-window breakdown */}
+              <div className="bg-white/5 border border-white/10 rounded p-3">
+                <div className="flex items-center gap-2 mb-2">
+                  <Layers size={12} className="text-green-400" />
+                  <span className="text-[10px] font-bold text-gray-400 uppercase">
+                    Windows ({wfResults.windows.length}) | Default won {wfResults.baselineSelectedCount}
+                  </span>
+                </div>
+                <div className="space-y-1 text-[10px] max-h-40 overflow-y-auto">
+                  {wfResults.windows.map(w => (
+                    <div key={w.index} className="flex justify-between">
+                      <span className="text-gray-500">
+                        #{w.index + 1} {new Date(w.trainStartTime).toLocaleDateString()}
+                      </span>
+                      <span className="text-gray-400">
+                        IS {w.inSample.expectancy.toFixed(2)}R
+                      </span>
+                      <span className={`font-medium ${w.outOfSample.expectancy >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        OOS {w.outOfSample.expectancy.toFixed(2)}R ({w.outOfSample.totalTrades})
+                      </span>
+                      <span className="text-gray-500">
+                        Default {w.baselineOutOfSample.expectancy.toFixed(2)}R
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {monteCarlo && <MonteCarloCard monteCarlo={monteCarlo} />}
+
+              {/* Most frequently selected parameters */}
+              <div className="bg-white/5 border border-white/10 rounded p-2">
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-[10px]">
+                  {Object.entries(wfResults.recommendedParams).map(([key, value]) => (
+                    <div key={key} className="flex justify-between">
+                      <span className="text-gray-500">{key}:</span>
+                      <span className={`font-medium ${
+                        DEFAULT_CONFIG_V33[key as keyof typeof DEFAULT_CONFIG_V33] === value ? 'text-gray-300' : 'text-yellow-400'
+                      }`}>
+                        {value}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
             </div>
           )}
 
           {results && (
             <div className="space-y-3">
+              {/* Stored run provenance */}
+              {activeRun && (
+                <div className="bg-white/5 border border-white/10 rounded p-2 text-[10px] space-y-0.5">
+                  <div className="flex justify-between text-gray-500">
+                    <span>
+                      {activeRun.symbol} {activeRun.timeframe} | {new Date(activeRun.dataRange.startTime * 1000).toLocaleString()}
+                      {' - '}{new Date(activeRun.dataRange.endTime * 1000).toLocaleString()}
+                    </span>
+                    <span className="font-mono">{activeRun.dataHash}</span>
+                  </div>
+                  {rerunCheck && (
+                    <div className={rerunCheck.sameData && rerunCheck.sameOrderFlow ? 'text-green-400' : 'text-yellow-400'}>
+                      Rerun of {new Date(rerunCheck.original.createdAt).toLocaleString()}:{' '}
+                      {rerunCheck.sameData ? 'identical candles' : `candles differ (was ${rerunCheck.original.dataHash})`}
+                      {activeRun.replayOrderFlow && (rerunCheck.sameOrderFlow
+                        ? ', identical order flow'
+                        : `, order flow differs (was ${rerunCheck.original.orderFlowHash ?? 'not hashed'})`)}
+                      {' | '}expectancy {rerunCheck.original.results.expectancy.toFixed(2)}R → {activeRun.results.expectancy.toFixed(2)}R
+                    </div>
+                  )}
+                  {!rerunCheck && activeRun.changesFromPrevious.length > 0 && (
+                    <div className="text-gray-400">
+                      Changed since previous run:{' '}
+                      {activeRun.changesFromPrevious.map(c => `${c.key} ${JSON.stringify(c.from)} → ${JSON.stringify(c.to)}`).join(', ')}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Primary Metrics */}
               <div className="grid grid-cols-4 gap-2">
                 <div className="bg-white/5 border border-white/10 rounded p-2">
@@ -323,6 +1086,8 @@ export const BacktestPanel: React.FC = () => {
                 </div>
               </div>
 
+              {monteCarlo && <MonteCarloCard monteCarlo={monteCarlo} />}
+
               {/* Secondary Metrics */}
               <div className="grid grid-cols-2 gap-2">
                 <div className="bg-white/5 border border-white/10 rounded p-2">
@@ -341,6 +1106,12 @@ export const BacktestPanel: React.FC = () => {
                       <span className="text-gray-500">Avg Win/Loss:</span>
                       <span className="text-blue-400 font-medium">{results.payoffRatio.toFixed(2)}</span>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">OF Coverage:</span>
+                      <span className={`font-medium ${results.orderFlowCoverage > 0.5 ? 'text-green-400' : 'text-gray-500'}`}>
+                        {(results.orderFlowCoverage * 100).toFixed(0)}%
+                      </span>
+                    </div>
                   </div>
                 </div>
 
@@ -1,9 +1,46 @@
 import React, { useState, useEffect } from 'react';
-import { AlertTriangle, ChevronDown, ChevronUp, RefreshCw, CheckCircle } from 'lucide-react';
+import { AlertTriangle, ChevronDown, ChevronUp, RefreshCw, CheckCircle, Timer } from 'lucide-react';
 import { useFeedsWithUpdater } from '../store/selectors';
+import { useStore } from '../store/useStore';
 import { FEED_SOURCES, checkFeedHealth } from '../services/feedRegistry';
 
-export const BlockedBanner: React.FC = () => {
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}h ${mmss}` : mmss;
+};
+
+// Risk Officer cooldown (loss streak, daily loss, weekly drawdown lockout) with live countdown
+const CooldownBanner: React.FC = () => {
+  const cooldown = useStore(state => state.riskOfficer.cooldown);
+  const [now, setNow] = useState(Date.now());
+  const isActive = !!cooldown?.active && cooldown.endsAt > now;
+
+  useEffect(() => {
+    if (!cooldown?.active) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [cooldown?.active, cooldown?.endsAt]);
+
+  if (!isActive || !cooldown) return null;
+
+  return (
+    <div className="bg-amber-500/10 border-b border-amber-500/20 px-4 py-2 flex items-center justify-between animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center gap-3">
+        <Timer size={18} className="text-amber-400" />
+        <span className="text-sm font-medium text-amber-200">Trading paused: {cooldown.reason}</span>
+      </div>
+      <span className="text-sm font-mono text-amber-300 tabular-nums">
+        Resumes in {formatCountdown(cooldown.endsAt - now)}
+      </span>
+    </div>
+  );
+};
+
+const FeedBlockedBanner: React.FC = () => {
   const { feeds, updateFeedStatus } = useFeedsWithUpdater();
   const [expanded, setExpanded] = useState(false);
   const [retrying, setRetrying] = useState(false);
@@ -121,3 +158,10 @@ export const BlockedBanner: React.FC = () => {
     </div>
   );
 };
+
+export const BlockedBanner: React.FC = () => (
+  <>
+    <CooldownBanner />
+    <FeedBlockedBanner />
+  </>
+);
@@ -11,7 +11,7 @@ import {
   ISeriesApi,
   IPriceLine
 } from 'lightweight-charts';
-import { Code, Eye, EyeOff, Activity, Layers, ZoomIn, ZoomOut, Maximize2, Target } from 'lucide-react';
+import { Code, Eye, EyeOff, Activity, Layers, ZoomIn, ZoomOut, Maximize2, Target, Flame, Rows3, BarChartHorizontal, Waves, Magnet } from 'lucide-react';
 import { PineScriptModal } from './PineScriptModal';
 import {
   calculateSMA,
@@ -21,12 +21,29 @@ import {
   calculateRMA,
   calculateStdev
 } from '../utils/technicalAnalysis';
-import { useChartState, usePositions } from '../store/selectors';
+import { useChartState, usePositions, useSymbolPicker } from '../store/selectors';
+import { getSymbolConfig } from '../services/symbolRegistry';
 import {
   subscribeToBacktest,
   getTradeMarkersForChart
 } from '../services/backtestIntegration';
 import { BacktestResults } from '../services/backtestEngine';
+import { orderBookDepth, buildHeatmapColumns } from '../services/orderBookDepth';
+import { OrderBookStats } from '../types/aggrTypes';
+import { LiquidityHeatmapPrimitive } from './chart/LiquidityHeatmapPrimitive';
+import { footprintService, buildChartFootprints } from '../services/footprintService';
+import { FootprintPrimitive } from './chart/FootprintPrimitive';
+import {
+  buildVolumeProfile,
+  sessionVolumeProfile,
+  weeklyVolumeProfile,
+  anchoredVWAP,
+  anchorStart,
+  VWAPAnchor
+} from '../services/volumeProfile';
+import { VolumeProfilePrimitive } from './chart/VolumeProfilePrimitive';
+import { liquidationMapService } from '../services/liquidationMap';
+import { LiquidationMapPrimitive } from './chart/LiquidationMapPrimitive';
 
 // Helper: Parse Price
 const parsePrice = (priceStr: string): number | null => {
@@ -38,8 +55,13 @@ const parsePrice = (priceStr: string): number | null => {
 export const ChartPanel: React.FC = () => {
   const { chartData: data, timeframe, setTimeframe: onTimeframeChange, signals } = useChartState();
   const positions = usePositions();
+  const { activeSymbol, watchedSymbols, setActiveSymbol } = useSymbolPicker();
   const safeData = data || [];
-  const safePositions = positions || [];
+  // Only overlay positions on the chart of the symbol they were opened on
+  const safePositions = useMemo(
+    () => (positions || []).filter(p => !p.pair || p.pair === activeSymbol),
+    [positions, activeSymbol]
+  );
 
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
@@ -54,6 +76,11 @@ export const ChartPanel: React.FC = () => {
   const activePriceLinesRef = useRef<IPriceLine[]>([]);
   const positionLinesRef = useRef<IPriceLine[]>([]);
   const clusterLinesRef = useRef<IPriceLine[]>([]);
+  const heatmapRef = useRef<LiquidityHeatmapPrimitive | null>(null);
+  const footprintRef = useRef<FootprintPrimitive | null>(null);
+  const volumeProfileRef = useRef<VolumeProfilePrimitive | null>(null);
+  const liquidationMapRef = useRef<LiquidationMapPrimitive | null>(null);
+  const vwapSeriesRef = useRef<ISeriesApi<"Line">[]>([]); // VWAP, +1σ, -1σ, +2σ, -2σ
 
   // UI State
   const [isScriptModalOpen, setIsScriptModalOpen] = useState(false);
@@ -61,6 +88,12 @@ export const ChartPanel: React.FC = () => {
   const [showPositions, setShowPositions] = useState(true);
   const [showTactical, setShowTactical] = useState(true);
   const [showBacktestTrades, setShowBacktestTrades] = useState(false);
+  const [showDepth, setShowDepth] = useState(false);
+  const [depth, setDepth] = useState<OrderBookStats | null>(null);
+  const [showFootprint, setShowFootprint] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
+  const [vwapAnchor, setVwapAnchor] = useState<VWAPAnchor | null>(null);
+  const [showLiquidationMap, setShowLiquidationMap] = useState(false);
   const [backtestMarkers, setBacktestMarkers] = useState<Array<{
     time: number;
     price: number;
@@ -179,8 +212,39 @@ export const ChartPanel: React.FC = () => {
     const emaSlow = chart.addLineSeries({ color: '#f97316', lineWidth: 1 });
     const ema200 = chart.addLineSeries({ color: '#a855f7', lineWidth: 1, lineStyle: LineStyle.Dotted });
 
+    // Order book heatmap, drawn behind the candles
+    const heatmap = new LiquidityHeatmapPrimitive();
+    candleSeries.attachPrimitive(heatmap);
+
+    // Footprint cells, drawn over the (hollowed) candles in footprint mode
+    const footprint = new FootprintPrimitive();
+    candleSeries.attachPrimitive(footprint);
+
+    // Volume profile histogram + session/weekly key levels
+    const volumeProfile = new VolumeProfilePrimitive();
+    candleSeries.attachPrimitive(volumeProfile);
+
+    // Estimated liquidation clusters (OI history x leverage tiers)
+    const liquidationMap = new LiquidationMapPrimitive();
+    candleSeries.attachPrimitive(liquidationMap);
+
+    // Anchored VWAP and its 1σ / 2σ bands
+    const bandOptions = { color: 'rgba(234, 179, 8, 0.45)', lineWidth: 1 as const, priceLineVisible: false, lastValueVisible: false };
+    const vwapSeries = [
+      chart.addLineSeries({ color: '#eab308', lineWidth: 2 }),
+      chart.addLineSeries({ ...bandOptions, lineStyle: LineStyle.Dashed }),
+      chart.addLineSeries({ ...bandOptions, lineStyle: LineStyle.Dashed }),
+      chart.addLineSeries({ ...bandOptions, lineStyle: LineStyle.Dotted }),
+      chart.addLineSeries({ ...bandOptions, lineStyle: LineStyle.Dotted })
+    ];
+
     chartRef.current = chart;
     candleSeriesRef.current = candleSeries;
+    heatmapRef.current = heatmap;
+    footprintRef.current = footprint;
+    volumeProfileRef.current = volumeProfile;
+    liquidationMapRef.current = liquidationMap;
+    vwapSeriesRef.current = vwapSeries;
     emaFastSeriesRef.current = emaFast;
     emaSlowSeriesRef.current = emaSlow;
     ema200SeriesRef.current = ema200;
@@ -436,6 +500,114 @@ export const ChartPanel: React.FC = () => {
 
     }, [safeData, showTactical, adaptiveFastData, adaptiveSlowData, ema200Data, markers, clusterLines]);
 
+  // --- ORDER BOOK HEATMAP ---
+  useEffect(() => {
+    if (!showDepth) {
+      heatmapRef.current?.setColumns([]);
+      setDepth(null);
+      return;
+    }
+
+    const barTimes = safeData.map(d => d.time as number);
+    return orderBookDepth.subscribe((update) => {
+      // Books from the previous symbol until the worker resubscribes
+      if (update.symbol !== activeSymbol) return;
+      setDepth(update);
+      heatmapRef.current?.setColumns(buildHeatmapColumns(orderBookDepth.getHistory(), barTimes));
+    });
+  }, [showDepth, safeData, activeSymbol]);
+
+  // --- FOOTPRINT MODE ---
+  useEffect(() => {
+    const series = candleSeriesRef.current;
+    if (!series) return;
+
+    // Hollow candles so the volume-at-price cells show through the bodies
+    series.applyOptions(showFootprint
+      ? { upColor: 'rgba(0, 0, 0, 0)', downColor: 'rgba(0, 0, 0, 0)', borderVisible: true, borderUpColor: '#10b981', borderDownColor: '#ef4444' }
+      : { upColor: '#10b981', downColor: '#ef4444', borderVisible: false });
+
+    if (!showFootprint) {
+      footprintRef.current?.setCandles([]);
+      return;
+    }
+
+    const barTimes = safeData.map(d => d.time as number);
+    return footprintService.subscribe((symbol) => {
+      if (symbol !== activeSymbol) return;
+      footprintRef.current?.setCandles(buildChartFootprints(footprintService.getMinuteBars(), barTimes));
+    });
+  }, [showFootprint, safeData, activeSymbol]);
+
+  // --- VOLUME PROFILE ---
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || !showProfile || safeData.length === 0) {
+      volumeProfileRef.current?.setProfiles({ visible: null, session: null, weekly: null });
+      return;
+    }
+
+    const session = sessionVolumeProfile(safeData);
+    const weekly = weeklyVolumeProfile(safeData);
+
+    // Visible-range profile follows scrolling and zooming
+    const updateVisible = () => {
+      const range = chart.timeScale().getVisibleLogicalRange();
+      const from = range ? Math.max(0, Math.floor(range.from)) : 0;
+      const to = range ? Math.min(safeData.length - 1, Math.ceil(range.to)) : safeData.length - 1;
+      const visible = to >= from ? buildVolumeProfile(safeData.slice(from, to + 1), 'VISIBLE') : null;
+      volumeProfileRef.current?.setProfiles({ visible, session, weekly });
+    };
+
+    updateVisible();
+    chart.timeScale().subscribeVisibleLogicalRangeChange(updateVisible);
+    return () => chart.timeScale().unsubscribeVisibleLogicalRangeChange(updateVisible);
+  }, [showProfile, safeData]);
+
+  // --- LIQUIDATION MAP ---
+  useEffect(() => {
+    if (!showLiquidationMap) {
+      liquidationMapRef.current?.setMap(null);
+      return;
+    }
+
+    liquidationMapRef.current?.setMap(liquidationMapService.getCached(activeSymbol));
+    const unsubscribe = liquidationMapService.subscribe((map) => {
+      if (map.symbol === activeSymbol) liquidationMapRef.current?.setMap(map);
+    });
+
+    // getMap only re-estimates once the cached map is stale
+    const refresh = () => {
+      liquidationMapService.getMap(activeSymbol).catch(e => console.warn('[Chart] Liquidation map failed:', e));
+    };
+    refresh();
+    const interval = setInterval(refresh, 60000);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [showLiquidationMap, activeSymbol]);
+
+  // --- ANCHORED VWAP ---
+  useEffect(() => {
+    const [vwapLine, upper1, lower1, upper2, lower2] = vwapSeriesRef.current;
+    if (!vwapLine) return;
+
+    if (!vwapAnchor || safeData.length === 0) {
+      vwapSeriesRef.current.forEach(series => series.setData([]));
+      return;
+    }
+
+    const points = anchoredVWAP(safeData, anchorStart(vwapAnchor, safeData[safeData.length - 1].time));
+    const band = (k: number) => points.map(p => ({ time: p.time as Time, value: p.vwap + k * p.stdDev }));
+    vwapLine.setData(band(0));
+    upper1.setData(band(1));
+    lower1.setData(band(-1));
+    upper2.setData(band(2));
+    lower2.setData(band(-2));
+  }, [vwapAnchor, safeData]);
+
   // --- AI OVERLAY (V3.3.1 MULTI-TARGET SUPPORT) ---
   useEffect(() => {
     if (!candleSeriesRef.current) return;
@@ -640,7 +812,18 @@ export const ChartPanel: React.FC = () => {
         <div className="flex items-center gap-4">
           <h2 className="text-gray-400 font-sans text-xs uppercase tracking-wider flex items-center gap-2">
             <Activity size={12} className="text-green-400" />
-            BTCUSDT.P
+            <select
+              value={activeSymbol}
+              onChange={(e) => setActiveSymbol(e.target.value)}
+              className="bg-transparent text-gray-300 font-sans text-xs uppercase tracking-wider outline-none cursor-pointer hover:text-white"
+              title="Switch symbol"
+            >
+              {watchedSymbols.map((symbol) => (
+                <option key={symbol} value={symbol} className="bg-terminal-card text-gray-300">
+                  {getSymbolConfig(symbol).displayName}
+                </option>
+              ))}
+            </select>
             <span className="text-gray-500 font-semibold hidden sm:inline">
               • {timeframes.find(t => t.value === timeframe)?.label}
             </span>
@@ -741,6 +924,93 @@ export const ChartPanel: React.FC = () => {
             <span className="text-[10px] font-medium uppercase">POS</span>
           </button>
 
+          {/* ORDER BOOK HEATMAP TOGGLE */}
+          {showDepth && depth && (
+            <span
+              className="text-[10px] font-medium text-gray-400 whitespace-nowrap"
+              title={[
+                `Depth ±2%: bids $${(depth.bidDepthUsd / 1e6).toFixed(1)}M / asks $${(depth.askDepthUsd / 1e6).toFixed(1)}M (${depth.exchanges.join(', ')})`,
+                ...depth.walls.slice(0, 5).map(w => `${w.exchange} ${w.side} wall $${(w.sizeUsd / 1e6).toFixed(2)}M @ ${w.price}`),
+                ...depth.spoofEvents.slice(-5).map(e => `Pulled ${e.side} $${(e.sizeUsd / 1e6).toFixed(2)}M @ ${e.price} (${e.exchange})`)
+              ].join('\n')}
+            >
+              <span className={depth.imbalance >= 0 ? 'text-green-400' : 'text-red-400'}>
+                {depth.imbalance >= 0 ? '+' : ''}{(depth.imbalance * 100).toFixed(0)}%
+              </span>
+              {depth.spoofEvents.length > 0 && (
+                <span className="text-yellow-400 ml-1">{depth.spoofEvents.length} pulled</span>
+              )}
+            </span>
+          )}
+          <button
+            onClick={() => setShowDepth(!showDepth)}
+            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-sm transition-all duration-200 border whitespace-nowrap ${
+              showDepth
+                ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/40'
+                : 'bg-transparent text-gray-500 border-transparent hover:text-emerald-400 hover:bg-emerald-500/10'
+            }`}
+            title="Toggle Order Book Liquidity Heatmap (Binance Futures + Bybit)"
+          >
+            <Flame size={12} />
+            <span className="text-[10px] font-medium uppercase">DEPTH</span>
+          </button>
+
+          {/* FOOTPRINT TOGGLE */}
+          <button
+            onClick={() => setShowFootprint(!showFootprint)}
+            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-sm transition-all duration-200 border whitespace-nowrap ${
+              showFootprint
+                ? 'bg-amber-500/20 text-amber-400 border-amber-500/40'
+                : 'bg-transparent text-gray-500 border-transparent hover:text-amber-400 hover:bg-amber-500/10'
+            }`}
+            title="Toggle Footprint Candles (volume at price, POC, stacked imbalances; builds from live trades)"
+          >
+            <Rows3 size={12} />
+            <span className="text-[10px] font-medium uppercase">FP</span>
+          </button>
+
+          {/* VOLUME PROFILE TOGGLE */}
+          <button
+            onClick={() => setShowProfile(!showProfile)}
+            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-sm transition-all duration-200 border whitespace-nowrap ${
+              showProfile
+                ? 'bg-blue-500/20 text-blue-400 border-blue-500/40'
+                : 'bg-transparent text-gray-500 border-transparent hover:text-blue-400 hover:bg-blue-500/10'
+            }`}
+            title="Toggle Volume Profile (visible range histogram, session/weekly POC, VAH, VAL)"
+          >
+            <BarChartHorizontal size={12} />
+            <span className="text-[10px] font-medium uppercase">VP</span>
+          </button>
+
+          {/* ANCHORED VWAP: off -> session -> week -> month */}
+          <button
+            onClick={() => setVwapAnchor(vwapAnchor === null ? 'SESSION' : vwapAnchor === 'SESSION' ? 'WEEK' : vwapAnchor === 'WEEK' ? 'MONTH' : null)}
+            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-sm transition-all duration-200 border whitespace-nowrap ${
+              vwapAnchor
+                ? 'bg-yellow-500/20 text-yellow-400 border-yellow-500/40'
+                : 'bg-transparent text-gray-500 border-transparent hover:text-yellow-400 hover:bg-yellow-500/10'
+            }`}
+            title="Cycle Anchored VWAP with 1σ/2σ bands (Off / Session / Week / Month, UTC)"
+          >
+            <Waves size={12} />
+            <span className="text-[10px] font-medium uppercase">VWAP{vwapAnchor && ` ${vwapAnchor[0]}`}</span>
+          </button>
+
+          {/* LIQUIDATION MAP TOGGLE */}
+          <button
+            onClick={() => setShowLiquidationMap(!showLiquidationMap)}
+            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-sm transition-all duration-200 border whitespace-nowrap ${
+              showLiquidationMap
+                ? 'bg-violet-500/20 text-violet-400 border-violet-500/40'
+                : 'bg-transparent text-gray-500 border-transparent hover:text-violet-400 hover:bg-violet-500/10'
+            }`}
+            title="Toggle Estimated Liquidation Map (Binance OI history x typical leverage; amber = longs, violet = shorts)"
+          >
+            <Magnet size={12} />
+            <span className="text-[10px] font-medium uppercase">LIQ</span>
+          </button>
+
           {/* BACKTEST TRADES TOGGLE */}
           {backtestMarkers.length > 0 && (
             <button
@@ -1,4 +1,5 @@
 import React from 'react';
+import { HigherTimeframeTrend } from '../types';
 
 interface Adjustment {
   label: string;
@@ -10,12 +11,16 @@ interface ConfidenceBreakdownProps {
   baseScore: number;
   adjustments: Adjustment[];
   finalScore: number;
+  higherTimeframes?: HigherTimeframeTrend[];
 }
 
+const TREND_ARROW: Record<HigherTimeframeTrend['direction'], string> = { UP: '▲', DOWN: '▼', NEUTRAL: '–' };
+
 export const ConfidenceBreakdown: React.FC<ConfidenceBreakdownProps> = ({ 
   baseScore, 
   adjustments, 
-  finalScore 
+  finalScore,
+  higherTimeframes = []
 }) => {
   return (
     <div className="space-y-2 text-xs">
@@ -24,6 +29,27 @@ export const ConfidenceBreakdown: React.FC<ConfidenceBreakdownProps> = ({
         <span className="font-mono">{baseScore}</span>
       </div>
 
+      {higherTimeframes.length > 0 && (
+        <div className="flex justify-between items-center text-terminal-muted">
+          <span>HTF Trend</span>
+          <span className="flex gap-2 font-mono">
+            {higherTimeframes.map((htf) => (
+              <span
+                key={htf.timeframe}
+                title={`EMA21 ${htf.emaFast.toFixed(2)} / EMA55 ${htf.emaSlow.toFixed(2)}`}
+                className={
+                  htf.alignment === 'ALIGNED' ? 'text-terminal-success' :
+                  htf.alignment === 'OPPOSED' ? 'text-terminal-danger' :
+                  'text-terminal-muted'
+                }
+              >
+                {htf.timeframe} {TREND_ARROW[htf.direction]}
+              </span>
+            ))}
+          </span>
+        </div>
+      )}
+
       {adjustments.length > 0 && (
         <div className="space-y-1 py-2 border-y border-terminal-border">
           {adjustments.map((adj, i) => (
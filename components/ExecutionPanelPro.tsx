@@ -2,8 +2,16 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Target, Shield, AlertTriangle, ChevronDown, ChevronUp, Calculator, Download, Loader2 } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { checkRiskVeto, TradeProposal } from '../services/riskOfficer';
+import { assessPortfolioRisk, buildPortfolioRiskContext } from '../services/portfolioRisk';
+import { getActiveRiskPolicy } from '../services/riskPolicy';
 import { exportAuditLog } from '../services/auditService';
 import { binanceApi } from '../services/binanceApi';
+import { binanceWS, isTerminalOrderStatus } from '../services/binanceWebSocket';
+import { paperExchange } from '../services/paperExchange';
+import { getSymbolConfig } from '../services/symbolRegistry';
+import { livePairPrice } from '../services/pairPrices';
+import { workingOrders, buildEntryOrders, parseEntryZone, EntryOrderMode } from '../services/workingOrders';
+import { PendingOrdersList } from './PendingOrdersList';
 import {
   TradingMachineState,
   INITIAL_MACHINE_STATE,
@@ -16,25 +24,37 @@ import {
 
 export const ExecutionPanelPro: React.FC = () => {
   const { 
-    price, 
+    price: activePrice, 
+    activeSymbol,
+    marketBySymbol,
     activeTradeSetup, 
     balance, 
     positions, 
-    addPosition, 
     setActiveTradeSetup,
     dailyLossLimit,
     dailyPnL,
-    riskOfficer
+    riskOfficer,
+    signals,
+    tacticalConfig,
+    journal,
+    riskPolicies,
+    activeRiskPolicyId
   } = useStore();
+  const riskPolicy = getActiveRiskPolicy(riskPolicies, activeRiskPolicyId);
+
+  // Trade the setup's pair if it came from a signal, otherwise the charted symbol
+  const tradeSymbol = activeTradeSetup?.pair || activeSymbol;
+  const symbolConfig = getSymbolConfig(tradeSymbol);
+  // 0 until the pair feed delivers a live price for a non-charted pair
+  const price = livePairPrice({ activeSymbol, price: activePrice, marketBySymbol }, tradeSymbol);
+  const hasPrice = price > 0;
 
   // Local State
-  const [riskPercent, setRiskPercent] = useState(1.0);
+  const [riskPercent, setRiskPercent] = useState(riskPolicy.riskPerTradePct);
   const [leverage, setLeverage] = useState(5);
   const [isLong, setIsLong] = useState(true);
-  
-  // Risk Override State
-  const [showRiskWarning, setShowRiskWarning] = useState(false);
-  const [riskWarningAck, setRiskWarningAck] = useState(false);
+  const [orderMode, setOrderMode] = useState<EntryOrderMode>('MARKET');
+  const [ladderRungs, setLadderRungs] = useState(3);
   
   // Audit Log State
   const [showAudit, setShowAudit] = useState(false);
@@ -42,6 +62,8 @@ export const ExecutionPanelPro: React.FC = () => {
   // Trading State Machine
   const [machineState, setMachineState] = useState<TradingMachineState>(INITIAL_MACHINE_STATE);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Live mode: client order id awaiting a terminal user data stream update
+  const pendingOrderIdRef = useRef<string | null>(null);
 
   // Derived execution state from state machine
   const isExecuting = !canStartTrade(machineState) && !isTerminal(machineState.state);
@@ -71,6 +93,19 @@ export const ExecutionPanelPro: React.FC = () => {
     };
   }, [machineState, dispatch]);
 
+  // Live fills come from the user data stream, not the REST response
+  useEffect(() => binanceWS.onOrderUpdate((update) => {
+    if (update.clientOrderId !== pendingOrderIdRef.current) return;
+    if (!isTerminalOrderStatus(update.status)) return;
+
+    pendingOrderIdRef.current = null;
+    if (update.cumulativeFilledQty > 0) {
+      dispatch({ type: 'ORDER_FILLED', exchangeOrderId: update.orderId });
+    } else {
+      dispatch({ type: 'ORDER_REJECTED', reason: `Order ${update.status} by exchange` });
+    }
+  }), [dispatch]);
+
   // Reset state machine when in terminal state after delay
   useEffect(() => {
     if (isTerminal(machineState.state)) {
@@ -88,27 +123,27 @@ export const ExecutionPanelPro: React.FC = () => {
     }
   }, [activeTradeSetup]);
 
-  // Handle Risk Change
-  const handleRiskChange = (val: number) => {
-    setRiskPercent(val);
-    if (val > 1.0) { // Default is 1.0
-        setShowRiskWarning(true);
-        setRiskWarningAck(false);
-    } else {
-        setShowRiskWarning(false);
-        setRiskWarningAck(true);
-    }
-  };
+  // Switching policy resets risk to the policy's cap (checkRiskVeto blocks anything above it)
+  useEffect(() => {
+    setRiskPercent(riskPolicy.riskPerTradePct);
+  }, [riskPolicy.id, riskPolicy.riskPerTradePct]);
 
   // Calculations
   const riskAmount = (balance * riskPercent) / 100;
-  const entryPrice = price; // Market order for now
+  // Working orders are placed across the originating signal's entry zone
+  const setupSignal = signals.find(s => s.id === activeTradeSetup?.signalId);
+  const entryZone = parseEntryZone(setupSignal?.entryZone, price);
+  const entryPrice =
+    orderMode === 'LIMIT' ? (isLong ? entryZone.low : entryZone.high) :
+    orderMode === 'STOP' ? (isLong ? entryZone.high : entryZone.low) :
+    orderMode === 'LADDER' ? (entryZone.low + entryZone.high) / 2 :
+    price;
   const stopLoss = activeTradeSetup?.stopLoss || (isLong ? price * 0.99 : price * 1.01);
   const takeProfit = activeTradeSetup?.takeProfit || (isLong ? price * 1.03 : price * 0.97);
   
   const stopDistance = Math.abs(entryPrice - stopLoss);
-  const positionSizeBTC = stopDistance > 0 ? riskAmount / stopDistance : 0;
-  const positionSizeUSD = positionSizeBTC * entryPrice;
+  const positionSizeBase = stopDistance > 0 ? riskAmount / stopDistance : 0;
+  const positionSizeUSD = positionSizeBase * entryPrice;
   const marginRequired = positionSizeUSD / leverage;
 
   // Risk Veto Check
@@ -117,17 +152,18 @@ export const ExecutionPanelPro: React.FC = () => {
     entryPrice,
     stopLoss,
     takeProfit,
-    size: positionSizeBTC,
+    size: positionSizeBase,
     leverage
   };
   
-  const riskCheck = checkRiskVeto(proposal, { dailyPnL, dailyLossLimit, balance, positions }, riskOfficer);
+  const portfolioContext = buildPortfolioRiskContext(tradeSymbol, useStore.getState());
+  const riskCheck = checkRiskVeto(proposal, { dailyPnL, dailyLossLimit, balance, positions, journal, policy: riskPolicy }, riskOfficer, portfolioContext);
+  const portfolioMetrics = showAudit ? assessPortfolioRisk(proposal, positions, balance, portfolioContext).metrics : null;
 
   const handleExecute = useCallback(async () => {
     // State machine prevents double execution
     if (!canStartTrade(machineState)) return;
-    if (riskCheck.blocked) return;
-    if (showRiskWarning && !riskWarningAck) return;
+    if (riskCheck.blocked || !hasPrice) return;
 
     // Generate idempotent order ID
     const orderId = crypto.randomUUID();
@@ -156,8 +192,10 @@ export const ExecutionPanelPro: React.FC = () => {
           dailyPnL: useStore.getState().dailyPnL,
           dailyLossLimit: useStore.getState().dailyLossLimit,
           balance: freshBalance,
-          positions: useStore.getState().positions
-        }, useStore.getState().riskOfficer);
+          positions: useStore.getState().positions,
+          journal: useStore.getState().journal,
+          policy: riskPolicy
+        }, useStore.getState().riskOfficer, buildPortfolioRiskContext(tradeSymbol, useStore.getState()));
 
         if (freshRiskCheck.blocked) {
           dispatch({
@@ -178,22 +216,75 @@ export const ExecutionPanelPro: React.FC = () => {
       // Step 5: Start execution (EXECUTING -> CONFIRMING_FILL)
       dispatch({ type: 'EXECUTION_STARTED' });
 
-      const newPosition = {
-        id: orderId,
-        pair: 'BTCUSDT',
-        type: (isLong ? 'LONG' : 'SHORT') as 'LONG' | 'SHORT',
-        entryPrice,
-        size: positionSizeBTC,
-        leverage,
-        liquidationPrice: isLong ? entryPrice * (1 - 1/leverage) : entryPrice * (1 + 1/leverage),
-        stopLoss,
-        takeProfit,
-        pnl: 0,
-        pnlPercent: 0,
-        timestamp: Date.now()
-      };
-
-      addPosition(newPosition);
+      if (orderMode !== 'MARKET') {
+        // Resting entries expire with the signal they came from
+        const orders = buildEntryOrders(orderMode, entryZone, {
+          pair: tradeSymbol,
+          type: isLong ? 'LONG' : 'SHORT',
+          size: positionSizeBase,
+          leverage,
+          stopLoss,
+          takeProfit,
+          targetLevels: activeTradeSetup?.targetLevels,
+          signalId: setupSignal?.id,
+          expiresAt: setupSignal ? setupSignal.timestamp + tacticalConfig.signalMaxAgeSeconds * 1000 : null
+        }, { rungs: ladderRungs, quantityPrecision: symbolConfig.quantityPrecision, live: isLiveMode });
+
+        await workingOrders.submit(orders);
+        setActiveTradeSetup(null);
+        dispatch({ type: 'ORDER_FILLED', exchangeOrderId: orders[0]?.id });
+        return;
+      }
+
+      if (isLiveMode) {
+        // Track before sending - the fill event can arrive before the REST response.
+        // The position is created from ORDER_TRADE_UPDATE fills (real price, size, fees).
+        const quantity = Number(positionSizeBase.toFixed(symbolConfig.quantityPrecision));
+        pendingOrderIdRef.current = orderId;
+        binanceWS.trackEntryOrder(orderId, {
+          type: isLong ? 'LONG' : 'SHORT',
+          leverage,
+          stopLoss,
+          takeProfit,
+          targetLevels: activeTradeSetup?.targetLevels,
+          signalId: activeTradeSetup?.signalId
+        });
+
+        try {
+          await binanceApi.placeOrder(tradeSymbol, isLong ? 'BUY' : 'SELL', 'MARKET', quantity, undefined, leverage, orderId);
+          setActiveTradeSetup(null);
+        } catch (error) {
+          pendingOrderIdRef.current = null;
+          binanceWS.untrackEntryOrder(orderId);
+          throw error;
+        }
+        return;
+      }
+
+      // Paper mode: simulated fills with fees, slippage and volume-capped partial fills.
+      // The order counts as filled once the position opens on its first slice - the rest
+      // keeps filling in the background, which can outlast the state machine's timeout.
+      const opened = await new Promise<boolean>((resolve, reject) => {
+        paperExchange.submitMarketOrder({
+          id: orderId,
+          pair: tradeSymbol,
+          type: isLong ? 'LONG' : 'SHORT',
+          size: positionSizeBase,
+          leverage,
+          stopLoss,
+          takeProfit,
+          targetLevels: activeTradeSetup?.targetLevels,
+          signalId: activeTradeSetup?.signalId
+        }, () => resolve(true))
+          .then(fill => resolve(fill.status !== 'REJECTED'))
+          .catch(reject);
+      });
+
+      if (!opened) {
+        dispatch({ type: 'ORDER_REJECTED', reason: 'Paper order unfilled - no price or liquidity' });
+        return;
+      }
+
       setActiveTradeSetup(null);
 
       // Step 6: Order filled (CONFIRMING_FILL -> COMPLETED)
@@ -206,7 +297,7 @@ export const ExecutionPanelPro: React.FC = () => {
         reason: error.message || 'Execution failed'
       });
     }
-  }, [machineState, riskCheck, showRiskWarning, riskWarningAck, proposal, isLong, entryPrice, positionSizeBTC, leverage, stopLoss, takeProfit, addPosition, setActiveTradeSetup, dispatch]);
+  }, [machineState, riskCheck, hasPrice, proposal, isLong, entryPrice, positionSizeBase, tradeSymbol, symbolConfig, leverage, stopLoss, takeProfit, activeTradeSetup, setActiveTradeSetup, dispatch, orderMode, entryZone, setupSignal, tacticalConfig, ladderRungs, riskPolicy]);
 
   return (
     <div className="h-full flex flex-col bg-gray-900/50 rounded-lg border border-white/5 overflow-hidden">
@@ -215,6 +306,7 @@ export const ExecutionPanelPro: React.FC = () => {
         <div className="flex items-center gap-2">
           <Target size={14} className="text-blue-400" />
           <span className="font-bold text-xs tracking-wider text-gray-300">EXECUTION</span>
+          <span className="text-[10px] font-mono text-blue-300/80">{symbolConfig.displayName}</span>
         </div>
         <div className="flex items-center gap-2">
             <span className="text-[10px] text-gray-500">Balance:</span>
@@ -243,6 +335,48 @@ export const ExecutionPanelPro: React.FC = () => {
           </button>
         </div>
 
+        {/* Order Type */}
+        <div className="space-y-2">
+          <div className="flex bg-black/40 rounded-lg p-1 border border-white/5">
+            {(['MARKET', 'LIMIT', 'STOP', 'LADDER'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setOrderMode(mode)}
+                className={`flex-1 py-1 text-[10px] font-bold rounded transition-all ${
+                  orderMode === mode ? 'bg-blue-500/20 text-blue-400 shadow-sm' : 'text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          {orderMode !== 'MARKET' && (
+            <div className="flex justify-between items-center text-[10px] text-gray-400">
+              <span>
+                Zone {entryZone.low.toFixed(symbolConfig.pricePrecision)}
+                {entryZone.high !== entryZone.low && ` - ${entryZone.high.toFixed(symbolConfig.pricePrecision)}`}
+              </span>
+              {orderMode === 'LADDER' ? (
+                <label className="flex items-center gap-1">
+                  Rungs
+                  <input
+                    type="number"
+                    min={2}
+                    max={10}
+                    value={ladderRungs}
+                    onChange={(e) => setLadderRungs(Math.min(10, Math.max(2, parseInt(e.target.value) || 2)))}
+                    className="w-10 bg-black/40 border border-white/10 rounded px-1 font-mono text-gray-200"
+                  />
+                </label>
+              ) : (
+                <span className="font-mono text-gray-200">
+                  {orderMode === 'LIMIT' ? 'Limit' : 'Trigger'} @ {entryPrice.toFixed(symbolConfig.pricePrecision)}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Risk Settings */}
         <div className="space-y-2">
           <div className="flex justify-between text-[10px] text-gray-400 uppercase tracking-wider">
@@ -252,47 +386,24 @@ export const ExecutionPanelPro: React.FC = () => {
           <div className="flex items-center gap-2">
             <input
               type="range"
-              min="0.5"
-              max="5"
-              step="0.5"
+              min="0.1"
+              max={riskPolicy.riskPerTradePct}
+              step="0.1"
               value={riskPercent}
-              onChange={(e) => handleRiskChange(parseFloat(e.target.value))}
+              onChange={(e) => setRiskPercent(parseFloat(e.target.value))}
               className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
             />
-            <span className={`text-xs font-mono font-bold w-12 text-right ${riskPercent > 1 ? 'text-yellow-400' : 'text-blue-400'}`}>
+            <span className="text-xs font-mono font-bold w-12 text-right text-blue-400">
                 {riskPercent}%
             </span>
           </div>
-          
-          {/* Risk Override Warning */}
-          {showRiskWarning && (
-            <div className="bg-yellow-500/10 border border-yellow-500/20 rounded p-2 mt-2 animate-in fade-in">
-                <div className="flex items-start gap-2">
-                    <AlertTriangle size={12} className="text-yellow-400 mt-0.5 shrink-0" />
-                    <div className="space-y-2">
-                        <p className="text-[10px] text-yellow-200 leading-tight">
-                            Risk increased above default (1%). This is {riskPercent}x your standard risk.
-                        </p>
-                        <label className="flex items-center gap-2 cursor-pointer">
-                            <input 
-                                type="checkbox" 
-                                checked={riskWarningAck}
-                                onChange={(e) => setRiskWarningAck(e.target.checked)}
-                                className="rounded border-yellow-500/30 bg-black/20 text-yellow-500 focus:ring-0 w-3 h-3"
-                            />
-                            <span className="text-[10px] text-yellow-400/80">I understand the risk</span>
-                        </label>
-                    </div>
-                </div>
-            </div>
-          )}
         </div>
 
         {/* Position Size Preview */}
         <div className="bg-black/20 rounded border border-white/5 p-2 space-y-1">
             <div className="flex justify-between text-xs">
-                <span className="text-gray-500">Size (BTC)</span>
-                <span className="font-mono text-gray-200">{positionSizeBTC.toFixed(4)} BTC</span>
+                <span className="text-gray-500">Size ({symbolConfig.baseAsset})</span>
+                <span className="font-mono text-gray-200">{positionSizeBase.toFixed(4)} {symbolConfig.baseAsset}</span>
             </div>
             <div className="flex justify-between text-xs">
                 <span className="text-gray-500">Notional</span>
@@ -333,8 +444,24 @@ export const ExecutionPanelPro: React.FC = () => {
                 </div>
                 <div className="flex justify-between border-t border-white/10 pt-1 mt-1">
                     <span>Raw Size:</span>
-                    <span>{riskAmount.toFixed(2)} / {stopDistance.toFixed(0)} = {positionSizeBTC.toFixed(4)}</span>
+                    <span>{riskAmount.toFixed(2)} / {stopDistance.toFixed(0)} = {positionSizeBase.toFixed(4)}</span>
                 </div>
+                {portfolioMetrics && (
+                    <>
+                        <div className="flex justify-between border-t border-white/10 pt-1 mt-1">
+                            <span>Net Exposure:</span>
+                            <span>${portfolioMetrics.netExposure.toFixed(0)} (corr ${portfolioMetrics.correlatedExposure.toFixed(0)})</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span>1d VaR/CVaR 95%:</span>
+                            <span>
+                                {portfolioMetrics.historical && portfolioMetrics.parametric
+                                    ? `H $${portfolioMetrics.historical.var.toFixed(0)}/$${portfolioMetrics.historical.cvar.toFixed(0)} · N $${portfolioMetrics.parametric.var.toFixed(0)}/$${portfolioMetrics.parametric.cvar.toFixed(0)}`
+                                    : 'insufficient history'}
+                            </span>
+                        </div>
+                    </>
+                )}
                 
                 <button 
                     onClick={exportAuditLog}
@@ -399,9 +526,9 @@ export const ExecutionPanelPro: React.FC = () => {
         {/* Execute Button */}
         <button
           onClick={handleExecute}
-          disabled={riskCheck.blocked || (showRiskWarning && !riskWarningAck) || isExecuting}
+          disabled={riskCheck.blocked || !hasPrice || isExecuting}
           className={`w-full py-3 rounded-lg font-bold text-sm tracking-wide transition-all flex items-center justify-center gap-2 ${
-            riskCheck.blocked || (showRiskWarning && !riskWarningAck) || isExecuting
+            riskCheck.blocked || !hasPrice || isExecuting
               ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
               : isLong
                 ? 'bg-green-500 hover:bg-green-400 text-black shadow-[0_0_15px_rgba(34,197,94,0.4)]'
@@ -414,9 +541,14 @@ export const ExecutionPanelPro: React.FC = () => {
               <span>EXECUTING...</span>
             </>
           ) : (
-            isLong ? 'BUY / LONG' : 'SELL / SHORT'
+            orderMode === 'MARKET'
+              ? (isLong ? 'BUY / LONG' : 'SELL / SHORT')
+              : `PLACE ${orderMode} ${isLong ? 'LONG' : 'SHORT'}`
           )}
         </button>
+
+        {/* Resting entries */}
+        <PendingOrdersList />
       </div>
     </div>
   );
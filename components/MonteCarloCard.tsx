@@ -0,0 +1,123 @@
+/**
+ * MONTE CARLO CARD
+ * Backtest equity curve with resampled percentile bands,
+ * plus drawdown / final-equity distributions and ruin probability
+ */
+
+import React from 'react';
+import { Shuffle } from 'lucide-react';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip
+} from 'recharts';
+import { MonteCarloResults } from '../services/monteCarloAnalysis';
+
+interface MonteCarloCardProps {
+  monteCarlo: MonteCarloResults;
+}
+
+const formatUsd = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+export const MonteCarloCard: React.FC<MonteCarloCardProps> = ({ monteCarlo }) => {
+  const { finalEquity, maxDrawdownPercent, totalReturnPercent } = monteCarlo;
+
+  // Range areas take [low, high] tuples
+  const chartData = monteCarlo.equityBands.map(point => ({
+    trade: point.trade,
+    outer: [point.p5, point.p95],
+    inner: [point.p25, point.p75],
+    median: point.p50,
+    actual: point.actual
+  }));
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded p-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Shuffle size={12} className="text-blue-400" />
+          <span className="text-[10px] font-bold text-gray-400 uppercase">
+            Monte Carlo ({monteCarlo.iterations.toLocaleString()} {monteCarlo.method.toLowerCase()} runs)
+          </span>
+        </div>
+        <span className="text-[9px] text-gray-500">
+          Bands: 5-95% / 25-75%
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {/* Equity curve with percentile bands */}
+        <div className="col-span-2 h-36">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+              <XAxis dataKey="trade" tick={{ fontSize: 9, fill: '#6b7280' }} tickLine={false} axisLine={false} />
+              <YAxis
+                tick={{ fontSize: 9, fill: '#6b7280' }}
+                tickLine={false}
+                axisLine={false}
+                width={48}
+                domain={['auto', 'auto']}
+                tickFormatter={(v: number) => `${(v / 1000).toFixed(1)}k`}
+              />
+              <Tooltip
+                contentStyle={{ background: '#0a0a0a', border: '1px solid rgba(255,255,255,0.1)', fontSize: 10 }}
+                labelFormatter={(label) => `Trade ${label}`}
+                formatter={(value) => Array.isArray(value)
+                  ? `${formatUsd(Number(value[0]))} - ${formatUsd(Number(value[1]))}`
+                  : formatUsd(Number(value))}
+              />
+              <Area dataKey="outer" name="5-95%" stroke="none" fill="#3b82f6" fillOpacity={0.12} isAnimationActive={false} />
+              <Area dataKey="inner" name="25-75%" stroke="none" fill="#3b82f6" fillOpacity={0.25} isAnimationActive={false} />
+              <Line dataKey="median" name="Median" stroke="#60a5fa" strokeDasharray="3 3" dot={false} strokeWidth={1} isAnimationActive={false} />
+              <Line dataKey="actual" name="Backtest" stroke="#4ade80" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Distributions */}
+        <div className="space-y-1.5 text-[10px]">
+          <div className="flex justify-between">
+            <span className="text-gray-500">Risk of Ruin:</span>
+            <span className={`font-medium ${monteCarlo.ruinProbability > 0.05 ? 'text-red-400' : 'text-green-400'}`}>
+              {(monteCarlo.ruinProbability * 100).toFixed(1)}%
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">P(Loss):</span>
+            <span className={`font-medium ${monteCarlo.lossProbability > 0.25 ? 'text-yellow-400' : 'text-gray-300'}`}>
+              {(monteCarlo.lossProbability * 100).toFixed(1)}%
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Max DD (med):</span>
+            <span className="text-red-400 font-medium">{maxDrawdownPercent.p50.toFixed(1)}%</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Max DD (95%):</span>
+            <span className="text-red-400 font-medium">{maxDrawdownPercent.p95.toFixed(1)}%</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Return 5-95%:</span>
+            <span className="text-gray-300 font-medium">
+              {totalReturnPercent.p5.toFixed(0)}% / {totalReturnPercent.p95.toFixed(0)}%
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Equity (med):</span>
+            <span className="text-blue-400 font-medium">{formatUsd(finalEquity.p50)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Actual DD pct:</span>
+            <span className="text-gray-300 font-medium">
+              {(monteCarlo.actualMaxDrawdownPercentile * 100).toFixed(0)}th
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
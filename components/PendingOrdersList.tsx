@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Clock, X, Pencil, Check } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { PendingOrder } from '../types';
+import { workingOrders } from '../services/workingOrders';
+import { getSymbolConfig } from '../services/symbolRegistry';
+
+const formatExpiry = (expiresAt: number | null, now: number): string => {
+    if (expiresAt === null) return 'GTC';
+    const minutes = Math.max(0, Math.round((expiresAt - now) / 60000));
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60}m` : `${minutes}m`;
+};
+
+const PendingOrderRow: React.FC<{ order: PendingOrder; onError: (message: string) => void }> = ({ order, onError }) => {
+    const [editing, setEditing] = useState(false);
+    const [draftPrice, setDraftPrice] = useState(String(order.price));
+    const [busy, setBusy] = useState(false);
+    const { pricePrecision } = getSymbolConfig(order.pair);
+    const isLong = order.type === 'LONG';
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        try {
+            await action();
+        } catch (error) {
+            onError(error instanceof Error ? error.message : String(error));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleSave = () => {
+        const price = parseFloat(draftPrice);
+        setEditing(false);
+        if (!Number.isFinite(price) || price <= 0 || price === order.price) return;
+        void run(() => workingOrders.modify(order.id, { price }));
+    };
+
+    return (
+        <div className="flex items-center gap-2 text-[10px] font-mono bg-black/30 rounded px-2 py-1 border border-white/5">
+            <span className={`font-bold ${isLong ? 'text-green-400' : 'text-red-400'}`}>
+                {order.orderType}{order.ladderId ? '·L' : ''}
+            </span>
+            <span className="text-gray-400">{order.size.toFixed(4)}</span>
+            {editing ? (
+                <input
+                    type="number"
+                    value={draftPrice}
+                    onChange={(e) => setDraftPrice(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                    autoFocus
+                    className="w-20 bg-black/40 border border-blue-500/40 rounded px-1 text-gray-200"
+                />
+            ) : (
+                <span className="text-gray-200">@ {order.price.toFixed(pricePrecision)}</span>
+            )}
+            <span className="text-gray-500 flex items-center gap-0.5 ml-auto">
+                <Clock size={9} /> {order.status === 'TRIGGERED' ? 'FILLING' : formatExpiry(order.expiresAt, Date.now())}
+            </span>
+            {order.status === 'WORKING' && (
+                editing ? (
+                    <button onClick={handleSave} className="text-blue-400 hover:text-blue-300" title="Save price">
+                        <Check size={10} />
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => { setDraftPrice(String(order.price)); setEditing(true); }}
+                        disabled={busy}
+                        className="text-gray-400 hover:text-white disabled:opacity-50"
+                        title="Modify price"
+                    >
+                        <Pencil size={10} />
+                    </button>
+                )
+            )}
+            {order.status === 'WORKING' && (
+                <button
+                    onClick={() => run(() => workingOrders.cancel(order.id))}
+                    disabled={busy}
+                    className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                    title="Cancel order"
+                >
+                    <X size={10} />
+                </button>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Resting limit / stop / ladder entries with modify and cancel
+ */
+export const PendingOrdersList: React.FC = () => {
+    const pendingOrders = useStore(state => state.pendingOrders);
+    const [error, setError] = useState<string | null>(null);
+
+    if (pendingOrders.length === 0) return null;
+
+    return (
+        <div className="space-y-1">
+            <div className="flex justify-between text-[10px] text-gray-400 uppercase tracking-wider">
+                <span>Working Orders</span>
+                <span>{pendingOrders.length}</span>
+            </div>
+            {pendingOrders.map(order => (
+                <PendingOrderRow key={order.id} order={order} onError={setError} />
+            ))}
+            {error && (
+                <div className="text-[10px] text-orange-300/80 leading-tight" onClick={() => setError(null)}>
+                    {error}
+                </div>
+            )}
+        </div>
+    );
+};
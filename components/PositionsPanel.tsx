@@ -2,22 +2,30 @@ import React from 'react';
 import { TrendingUp, TrendingDown, X, AlertTriangle, Shield, Wallet } from 'lucide-react';
 import { usePositionsWithActions } from '../store/selectors';
 import { calculatePositionPnL } from '../utils/tradingCalculations';
+import { ReconciliationAlerts } from './ReconciliationAlerts';
+import { paperExchange } from '../services/paperExchange';
+import { useStore } from '../store/useStore';
 
 export const PositionsPanel: React.FC = () => {
-    const { positions, price, closePosition, addJournalEntry } = usePositionsWithActions();
+    const { positions, price, closePosition, recordTradeClose } = usePositionsWithActions();
     const safePositions = positions || [];
 
     const handleClose = (positionId: string) => {
         const position = safePositions.find(p => p.id === positionId);
         if (!position) return;
 
+        if (!useStore.getState().isLiveMode) {
+            paperExchange.closePosition(positionId, 'MANUAL');
+            return;
+        }
+
         const { pnlUSD, pnlPercent } = calculatePositionPnL(position, price);
 
         // Close in store
         closePosition(positionId, pnlUSD);
 
         // Add to journal
-        addJournalEntry({
+        recordTradeClose({
             id: `journal-${Date.now()}`,
             date: Date.now(),
             pair: position.pair,
@@ -39,15 +47,19 @@ export const PositionsPanel: React.FC = () => {
 
     if (safePositions.length === 0) {
         return (
-            <div className="h-full flex flex-col items-center justify-center text-terminal-muted opacity-60">
-                <Wallet size={32} className="mb-2 opacity-50" />
-                <span className="text-xs font-mono">NO OPEN POSITIONS</span>
+            <div className="h-full flex flex-col gap-2 p-1">
+                <ReconciliationAlerts />
+                <div className="flex-1 flex flex-col items-center justify-center text-terminal-muted opacity-60">
+                    <Wallet size={32} className="mb-2 opacity-50" />
+                    <span className="text-xs font-mono">NO OPEN POSITIONS</span>
+                </div>
             </div>
         );
     }
 
     return (
         <div className="h-full flex flex-col gap-2 overflow-y-auto custom-scrollbar p-1">
+            <ReconciliationAlerts />
             {safePositions.map((pos) => {
                 const { pnlUSD, pnlPercent } = calculatePositionPnL(pos, price);
                 const isProfit = pnlUSD >= 0;
@@ -91,7 +103,7 @@ export const PositionsPanel: React.FC = () => {
                             <div className="flex justify-between items-end border-t border-white/5 pt-1.5 mt-0.5">
                                 <div className="flex flex-col">
                                     <span className="text-[9px] text-gray-500 flex items-center gap-1">
-                                        <AlertTriangle size={8} /> LIQ: <span className="text-terminal-warn">${pos.liquidationPrice.toLocaleString()}</span>
+                                        <AlertTriangle size={8} /> LIQ: <span className="text-terminal-warn">{pos.liquidationPrice > 0 ? `$${pos.liquidationPrice.toLocaleString()}` : '—'}</span>
                                     </span>
                                 </div>
                                 <div className={`text-right font-mono font-bold ${isProfit ? 'text-green-400' : 'text-red-400'}`}>
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Download, X, Flag, RefreshCw } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import {
+    getLastReconciliation,
+    getReconciliationIssues,
+    onReconciliation,
+    resolveReconciliationIssue,
+    triggerReconciliation,
+    type ReconciliationAction,
+    type ReconciliationIssue,
+    type ReconciliationResult
+} from '../services/compliance';
+
+const ACTION_META: Record<ReconciliationAction, { label: string; icon: React.ReactNode; className: string }> = {
+    ADOPT_REMOTE: { label: 'ADOPT', icon: <Download size={10} />, className: 'text-blue-300 border-blue-500/40 hover:bg-blue-500/20' },
+    CLOSE_LOCAL: { label: 'CLOSE LOCAL', icon: <X size={10} />, className: 'text-red-300 border-red-500/40 hover:bg-red-500/20' },
+    FLAG_FOR_REVIEW: { label: 'FLAG', icon: <Flag size={10} />, className: 'text-yellow-300 border-yellow-500/40 hover:bg-yellow-500/20' }
+};
+
+const describeIssue = (issue: ReconciliationIssue): { title: string; detail: string } => {
+    switch (issue.kind) {
+        case 'MISMATCH': {
+            const { localPosition, discrepancies } = issue.mismatch;
+            return {
+                title: `${localPosition.pair} ${localPosition.type} differs from exchange`,
+                detail: discrepancies.map(d => `${d.field}: ${String(d.localValue)} → ${String(d.remoteValue)}`).join(', ')
+            };
+        }
+        case 'ORPHANED_LOCAL':
+            return {
+                title: `${issue.localPosition.pair} ${issue.localPosition.type} not on exchange`,
+                detail: `Local size ${issue.localPosition.size} @ $${issue.localPosition.entryPrice.toLocaleString()}`
+            };
+        case 'ORPHANED_REMOTE':
+            return {
+                title: `Untracked ${issue.remotePosition.symbol} ${issue.remotePosition.side} on exchange`,
+                detail: `Size ${issue.remotePosition.quantity} @ $${issue.remotePosition.entryPrice.toLocaleString()}`
+            };
+    }
+};
+
+/**
+ * Live-mode reconciliation issues with adopt / close / flag actions
+ */
+export const ReconciliationAlerts: React.FC = () => {
+    const isLiveMode = useStore(state => state.isLiveMode);
+    const [result, setResult] = useState<ReconciliationResult | null>(getLastReconciliation());
+    const [checking, setChecking] = useState(false);
+
+    useEffect(() => onReconciliation(setResult), []);
+
+    if (!isLiveMode || !result) return null;
+
+    // Fetch failures carry no issues - only actionable discrepancies render here
+    const issues = getReconciliationIssues(result);
+    if (issues.length === 0) return null;
+
+    const handleRecheck = async () => {
+        setChecking(true);
+        try {
+            await triggerReconciliation(useStore.getState().positions);
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    return (
+        <div className="bg-red-500/10 border border-red-500/30 rounded p-2 flex flex-col gap-1.5">
+            <div className="flex justify-between items-center">
+                <span className="text-[10px] font-bold text-red-300 flex items-center gap-1">
+                    <AlertTriangle size={10} /> RECONCILIATION: {result.summary.toUpperCase()}
+                </span>
+                <button
+                    onClick={handleRecheck}
+                    disabled={checking}
+                    className="text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                    title="Re-check against exchange"
+                >
+                    <RefreshCw size={10} className={checking ? 'animate-spin' : ''} />
+                </button>
+            </div>
+
+            {issues.map(issue => {
+                const { title, detail } = describeIssue(issue);
+                return (
+                    <div key={issue.id} className="bg-black/30 rounded p-1.5 flex flex-col gap-1">
+                        <div className="text-[10px] text-gray-200 font-mono">
+                            {title}
+                            {issue.flagged && <span className="ml-1 text-yellow-400">[FLAGGED]</span>}
+                        </div>
+                        <div className="text-[9px] text-gray-500 font-mono">{detail}</div>
+                        <div className="flex gap-1">
+                            {issue.actions.map(action => (
+                                <button
+                                    key={action}
+                                    onClick={() => resolveReconciliationIssue(issue, action)}
+                                    disabled={action === 'FLAG_FOR_REVIEW' && issue.flagged}
+                                    className={`text-[9px] font-bold px-1.5 py-0.5 rounded border flex items-center gap-1 transition-colors disabled:opacity-40 ${ACTION_META[action].className}`}
+                                >
+                                    {ACTION_META[action].icon} {ACTION_META[action].label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
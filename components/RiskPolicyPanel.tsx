@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Shield, ChevronDown, ChevronUp, Copy, Trash2, RotateCcw } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import {
+  RiskPolicy,
+  RISK_POLICY_FIELDS,
+  DEFAULT_RISK_POLICIES,
+  getActiveRiskPolicy
+} from '../services/riskPolicy';
+
+interface PolicyFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onCommit: (value: number) => void;
+}
+
+// Commits on blur / Enter so each edit is one audited change, not one per keystroke
+const PolicyField: React.FC<PolicyFieldProps> = ({ label, value, min, max, step, onCommit }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    if (!Number.isFinite(parsed)) {
+      setDraft(String(value));
+      return;
+    }
+    const clamped = Math.min(max, Math.max(min, parsed));
+    setDraft(String(clamped));
+    if (clamped !== value) onCommit(clamped);
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-2 text-xs">
+      <span className="text-terminal-muted truncate">{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        className="w-16 bg-black/40 border border-white/10 rounded px-1 text-right font-mono text-terminal-accent tabular-nums"
+      />
+    </label>
+  );
+};
+
+export const RiskPolicyPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const riskPolicies = useStore((state) => state.riskPolicies);
+  const activeRiskPolicyId = useStore((state) => state.activeRiskPolicyId);
+  const setActiveRiskPolicy = useStore((state) => state.setActiveRiskPolicy);
+  const updateRiskPolicy = useStore((state) => state.updateRiskPolicy);
+  const createRiskPolicy = useStore((state) => state.createRiskPolicy);
+  const deleteRiskPolicy = useStore((state) => state.deleteRiskPolicy);
+
+  const policy = getActiveRiskPolicy(riskPolicies, activeRiskPolicyId);
+  const builtInDefaults = DEFAULT_RISK_POLICIES.find(p => p.id === policy.id);
+
+  const handleCopy = () => {
+    const id = createRiskPolicy(`${policy.name} copy`, policy.id);
+    setActiveRiskPolicy(id);
+  };
+
+  const handleReset = () => {
+    if (!builtInDefaults) return;
+    const { id: _id, builtIn: _builtIn, ...defaults } = builtInDefaults;
+    updateRiskPolicy(policy.id, defaults);
+  };
+
+  const handleRename = (name: string) => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== policy.name) updateRiskPolicy(policy.id, { name: trimmed });
+  };
+
+  return (
+    <div className="bg-black/30 rounded-lg border border-white/5 overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-3 py-2 hover:bg-white/5 transition-colors"
+      >
+        <div className="flex items-center gap-2 text-xs text-terminal-muted uppercase tracking-wider">
+          <Shield size={12} />
+          Risk Policy
+          <span className="text-terminal-accent normal-case">{policy.name}</span>
+        </div>
+        {isExpanded ? <ChevronUp size={12} className="text-gray-500" /> : <ChevronDown size={12} className="text-gray-500" />}
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-2 border-t border-white/5 pt-2">
+          <div className="flex items-center gap-1">
+            <select
+              value={policy.id}
+              onChange={(e) => setActiveRiskPolicy(e.target.value)}
+              className="flex-1 bg-black/40 border border-white/10 rounded px-1 py-0.5 text-xs text-terminal-text"
+            >
+              {riskPolicies.map((p: RiskPolicy) => (
+                <option key={p.id} value={p.id}>{p.name}{p.builtIn ? '' : ' *'}</option>
+              ))}
+            </select>
+            <button onClick={handleCopy} className="text-terminal-muted hover:text-terminal-accent p-1" title="Copy as new profile">
+              <Copy size={10} />
+            </button>
+            {policy.builtIn ? (
+              <button onClick={handleReset} className="text-terminal-muted hover:text-terminal-accent p-1" title="Reset to built-in defaults">
+                <RotateCcw size={10} />
+              </button>
+            ) : (
+              <button onClick={() => deleteRiskPolicy(policy.id)} className="text-terminal-muted hover:text-terminal-danger p-1" title="Delete profile">
+                <Trash2 size={10} />
+              </button>
+            )}
+          </div>
+
+          {!policy.builtIn && (
+            <input
+              key={policy.id}
+              defaultValue={policy.name}
+              onBlur={(e) => handleRename(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename(e.currentTarget.value)}
+              className="w-full bg-black/40 border border-white/10 rounded px-1 py-0.5 text-xs text-terminal-text"
+            />
+          )}
+
+          {RISK_POLICY_FIELDS.map(field => (
+            <PolicyField
+              key={`${policy.id}-${field.key}`}
+              label={field.label}
+              value={policy[field.key]}
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              onCommit={(value) => updateRiskPolicy(policy.id, { [field.key]: value })}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+/**
+ * SENSITIVITY HEATMAP
+ * Two-parameter sweep grid coloured by profit factor, expectancy or drawdown.
+ * Click a cell to inspect it, then apply its values to the live tactical config
+ */
+
+import React, { useState } from 'react';
+import { Grid3x3, Check } from 'lucide-react';
+import {
+  SensitivityResults,
+  SensitivityCell,
+  SensitivityMetric,
+  MIN_TRADES_FOR_RANKING,
+  findBestCell,
+  higherIsBetter,
+  metricValue
+} from '../services/parameterSensitivity';
+import { getStrategy } from '../services/strategyRegistry';
+
+interface SensitivityHeatmapProps {
+  results: SensitivityResults;
+  onApply: (cell: SensitivityCell) => void;
+}
+
+const METRIC_LABELS: Record<SensitivityMetric, string> = {
+  PROFIT_FACTOR: 'Profit Factor',
+  EXPECTANCY: 'Expectancy (R)',
+  MAX_DRAWDOWN: 'Max DD (%)'
+};
+
+const formatValue = (value: number, metric: SensitivityMetric) =>
+  metric === 'MAX_DRAWDOWN' ? `${value.toFixed(1)}%` : value.toFixed(2);
+
+// Red (worst) -> amber -> green (best)
+const heatColor = (t: number) => `hsla(${Math.round(t * 120)}, 70%, 45%, 0.55)`;
+
+export const SensitivityHeatmap: React.FC<SensitivityHeatmapProps> = ({ results, onApply }) => {
+  const [metric, setMetric] = useState<SensitivityMetric>('PROFIT_FACTOR');
+  const [selected, setSelected] = useState<SensitivityCell | null>(null);
+  const [applied, setApplied] = useState<SensitivityCell | null>(null);
+
+  const { xAxis, yAxis, cells } = results;
+  const best = findBestCell(results, metric);
+
+  const ranked = cells.flat().filter(c => c.metrics && c.metrics.totalTrades >= MIN_TRADES_FOR_RANKING);
+  const values = ranked.map(c => metricValue(c.metrics!, metric));
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  const cellColor = (cell: SensitivityCell) => {
+    if (!cell.metrics || cell.metrics.totalTrades < MIN_TRADES_FOR_RANKING) return 'rgba(255,255,255,0.03)';
+    if (max === min) return heatColor(0.5);
+    const t = (metricValue(cell.metrics, metric) - min) / (max - min);
+    return heatColor(higherIsBetter(metric) ? t : 1 - t);
+  };
+
+  const isSame = (a: SensitivityCell | null, b: SensitivityCell) =>
+    !!a && a.xValue === b.xValue && a.yValue === b.yValue;
+
+  const handleApply = () => {
+    if (!selected) return;
+    onApply(selected);
+    setApplied(selected);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-white/5 border border-white/10 rounded p-3">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Grid3x3 size={12} className="text-green-400" />
+            <span className="text-[10px] font-bold text-gray-400 uppercase">
+              {xAxis.key} x {yAxis.key}
+            </span>
+            <span className="text-[9px] text-gray-500">
+              {getStrategy(results.strategyId)?.shortName ?? results.strategyId} | {results.candleCount} bars |{' '}
+              {(results.durationMs / 1000).toFixed(1)}s
+            </span>
+          </div>
+          <div className="flex gap-1">
+            {(Object.keys(METRIC_LABELS) as SensitivityMetric[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`text-[9px] px-2 py-0.5 rounded border ${
+                  metric === m ? 'border-green-500/50 text-green-400' : 'border-white/10 text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {METRIC_LABELS[m]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="text-[10px] border-separate border-spacing-0.5">
+            <thead>
+              <tr>
+                <th className="text-[9px] text-gray-600 font-medium pr-1 text-right">{yAxis.key} \ {xAxis.key}</th>
+                {xAxis.values.map(x => (
+                  <th key={x} className="text-gray-500 font-medium px-1">{x}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {cells.map((row, yi) => (
+                <tr key={yAxis.values[yi]}>
+                  <td className="text-gray-500 font-medium pr-1 text-right">{yAxis.values[yi]}</td>
+                  {row.map(cell => (
+                    <td
+                      key={cell.xValue}
+                      onClick={() => setSelected(cell)}
+                      title={cell.error ?? (cell.metrics ? `${cell.metrics.totalTrades} trades` : undefined)}
+                      style={{ background: cellColor(cell) }}
+                      className={`min-w-[44px] text-center py-1 rounded cursor-pointer text-gray-100 ${
+                        isSame(selected, cell) ? 'ring-1 ring-white' : isSame(best, cell) ? 'ring-1 ring-green-400' : ''
+                      }`}
+                    >
+                      {cell.metrics
+                        ? cell.metrics.totalTrades < MIN_TRADES_FOR_RANKING
+                          ? <span className="text-gray-600">{cell.metrics.totalTrades}t</span>
+                          : formatValue(metricValue(cell.metrics, metric), metric)
+                        : <span className="text-red-400">ERR</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="text-[9px] text-gray-600 mt-1">
+          Cells with fewer than {MIN_TRADES_FOR_RANKING} trades are greyed out. Best cell outlined in green.
+        </div>
+      </div>
+
+      {selected && (
+        <div className="bg-white/5 border border-white/10 rounded p-3 flex items-center justify-between gap-3">
+          <div className="text-[10px] space-y-0.5">
+            <div className="text-gray-300 font-medium">
+              {xAxis.key} = {selected.xValue} | {yAxis.key} = {selected.yValue}
+            </div>
+            {selected.metrics ? (
+              <div className="text-gray-500">
+                {selected.metrics.totalTrades} trades | WR {(selected.metrics.winRate * 100).toFixed(1)}% |{' '}
+                PF {selected.metrics.profitFactor.toFixed(2)} | {selected.metrics.expectancy.toFixed(2)}R |{' '}
+                DD {selected.metrics.maxDrawdownPercent.toFixed(1)}% | P&L {selected.metrics.totalPnLPercent.toFixed(1)}%
+              </div>
+            ) : (
+              <div className="text-red-400">{selected.error}</div>
+            )}
+          </div>
+          <button
+            onClick={handleApply}
+            disabled={!selected.metrics || isSame(applied, selected)}
+            className="flex items-center gap-1 text-[10px] px-3 py-1 rounded bg-green-500 text-black font-bold hover:bg-green-400 disabled:bg-white/5 disabled:text-gray-500 disabled:cursor-default"
+          >
+            <Check size={10} />
+            {isSame(applied, selected) ? 'APPLIED' : 'APPLY TO LIVE'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
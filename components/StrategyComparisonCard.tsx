@@ -0,0 +1,226 @@
+/**
+ * STRATEGY COMPARISON CARD
+ * Side-by-side A/B backtest report: overlaid equity curves, per-metric deltas
+ * against the baseline, expectancy significance and the trades where variants disagreed
+ */
+
+import React from 'react';
+import { GitCompare, Save } from 'lucide-react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend
+} from 'recharts';
+import { StrategyComparison, TradeDiffKind, SIGNIFICANCE_LEVEL } from '../services/strategyComparison';
+
+interface StrategyComparisonCardProps {
+  comparison: StrategyComparison;
+  isSaved: boolean;
+  onSave: () => void;
+}
+
+export const VARIANT_COLORS = ['#4ade80', '#60a5fa', '#f59e0b', '#f472b6'];
+
+const MAX_DIFF_ROWS = 100;
+
+const DIFF_LABELS: Record<TradeDiffKind, string> = {
+  ONLY_BASELINE: 'Baseline only',
+  ONLY_CHALLENGER: 'Challenger only',
+  OPPOSITE_SIDE: 'Opposite side',
+  DIFFERENT_EXIT: 'Different exit'
+};
+
+const formatMetric = (key: string, value: number) => {
+  if (key === 'winRate') return `${(value * 100).toFixed(1)}%`;
+  if (key === 'totalTrades') return value.toFixed(0);
+  return value.toFixed(2);
+};
+
+export const StrategyComparisonCard: React.FC<StrategyComparisonCardProps> = ({ comparison, isSaved, onSave }) => {
+  const { variants } = comparison;
+  const labelOf = (id: string) => variants.find(v => v.id === id)?.label ?? id;
+
+  const chartData = comparison.equityOverlay.map(point => ({
+    time: point.time,
+    ...Object.fromEntries(variants.map((v, i) => [v.id, point.equity[i]]))
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-white/5 border border-white/10 rounded p-3">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <GitCompare size={12} className="text-green-400" />
+            <span className="text-[10px] font-bold text-gray-400 uppercase">{comparison.name}</span>
+            <span className="text-[9px] text-gray-500">
+              {comparison.symbol} {comparison.timeframe} | {comparison.candleCount} bars | {new Date(comparison.createdAt).toLocaleString()}
+            </span>
+          </div>
+          <button
+            onClick={onSave}
+            disabled={isSaved}
+            className="flex items-center gap-1 text-[9px] px-2 py-0.5 rounded border border-white/10 text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-default"
+          >
+            <Save size={10} />
+            {isSaved ? 'SAVED' : 'SAVE'}
+          </button>
+        </div>
+
+        {/* Equity overlay */}
+        <div className="h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+              <XAxis
+                dataKey="time"
+                tick={{ fontSize: 9, fill: '#6b7280' }}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(t: number) => new Date(t).toLocaleDateString()}
+                minTickGap={40}
+              />
+              <YAxis
+                tick={{ fontSize: 9, fill: '#6b7280' }}
+                tickLine={false}
+                axisLine={false}
+                width={48}
+                domain={['auto', 'auto']}
+                tickFormatter={(v: number) => `${(v / 1000).toFixed(1)}k`}
+              />
+              <Tooltip
+                contentStyle={{ background: '#0a0a0a', border: '1px solid rgba(255,255,255,0.1)', fontSize: 10 }}
+                labelFormatter={(label) => new Date(Number(label)).toLocaleString()}
+                formatter={(value) => `$${Math.round(Number(value)).toLocaleString()}`}
+              />
+              <Legend wrapperStyle={{ fontSize: 9 }} />
+              {variants.map((variant, i) => (
+                <Line
+                  key={variant.id}
+                  dataKey={variant.id}
+                  name={variant.label}
+                  stroke={VARIANT_COLORS[i % VARIANT_COLORS.length]}
+                  dot={false}
+                  strokeWidth={i === 0 ? 1.5 : 1}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Metric deltas */}
+      <div className="bg-white/5 border border-white/10 rounded p-3">
+        <table className="w-full text-[10px]">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium pb-1">Metric</th>
+              {variants.map((variant, i) => (
+                <th key={variant.id} className="text-right font-medium pb-1" style={{ color: VARIANT_COLORS[i % VARIANT_COLORS.length] }}>
+                  {variant.label}{i === 0 ? ' (base)' : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.metrics.map(metric => (
+              <tr key={metric.key}>
+                <td className="text-gray-500 py-0.5">{metric.label}</td>
+                {metric.values.map((value, i) => {
+                  const delta = metric.deltas[i];
+                  const improved = metric.higherIsBetter ? delta > 0 : delta < 0;
+                  return (
+                    <td key={variants[i].id} className="text-right text-gray-300 py-0.5">
+                      {formatMetric(metric.key, value)}
+                      {i > 0 && delta !== 0 && (
+                        <span className={`ml-1 ${improved ? 'text-green-400' : 'text-red-400'}`}>
+                          ({delta > 0 ? '+' : ''}{formatMetric(metric.key, delta)})
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Welch's t-test on per-trade R */}
+        <div className="mt-2 pt-2 border-t border-white/5 space-y-1 text-[10px]">
+          {comparison.expectancyTests.map((test, i) => {
+            const challenger = variants[i + 1];
+            return (
+              <div key={challenger.id} className="flex justify-between">
+                <span className="text-gray-500">Expectancy {challenger.label} vs {variants[0].label}:</span>
+                {test ? (
+                  <span className={test.significant ? 'text-yellow-400 font-medium' : 'text-gray-400'}>
+                    {test.difference >= 0 ? '+' : ''}{test.difference.toFixed(2)}R | t={test.tStatistic.toFixed(2)} | p={test.pValue.toFixed(3)}
+                    {test.significant ? ` (significant at ${SIGNIFICANCE_LEVEL})` : ' (not significant)'}
+                  </span>
+                ) : (
+                  <span className="text-gray-600">Not enough trades</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Trade-by-trade disagreements */}
+      <div className="bg-white/5 border border-white/10 rounded p-3">
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2 text-[10px]">
+          {comparison.diffSummaries.map(summary => (
+            <span key={summary.challengerId} className="text-gray-500">
+              <span className="text-gray-300">{labelOf(summary.challengerId)}</span>: {summary.agreed} agreed,{' '}
+              {summary.onlyBaseline} base only, {summary.onlyChallenger} only, {summary.oppositeSide} opposite,{' '}
+              {summary.differentExit} diff. exit
+            </span>
+          ))}
+        </div>
+        <div className="max-h-48 overflow-y-auto">
+          <table className="w-full text-[10px]">
+            <thead className="sticky top-0 bg-[#111]">
+              <tr className="text-gray-500">
+                <th className="text-left font-medium">Entry</th>
+                <th className="text-left font-medium">Variant</th>
+                <th className="text-left font-medium">Diff</th>
+                <th className="text-right font-medium">Baseline</th>
+                <th className="text-right font-medium">Challenger</th>
+                <th className="text-right font-medium">ΔR</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.tradeDiffs.slice(0, MAX_DIFF_ROWS).map((diff, i) => (
+                <tr key={`${diff.challengerId}-${diff.entryTime}-${i}`}>
+                  <td className="text-gray-500">{new Date(diff.entryTime).toLocaleString()}</td>
+                  <td className="text-gray-400">{labelOf(diff.challengerId)}</td>
+                  <td className="text-gray-400">{DIFF_LABELS[diff.kind]}</td>
+                  <td className="text-right text-gray-300">
+                    {diff.baseline ? `${diff.baseline.direction} ${diff.baseline.exitReason} ${diff.baseline.rMultiple.toFixed(2)}R` : '-'}
+                  </td>
+                  <td className="text-right text-gray-300">
+                    {diff.challenger ? `${diff.challenger.direction} ${diff.challenger.exitReason} ${diff.challenger.rMultiple.toFixed(2)}R` : '-'}
+                  </td>
+                  <td className={`text-right font-medium ${diff.rDelta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {diff.rDelta >= 0 ? '+' : ''}{diff.rDelta.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {comparison.tradeDiffs.length > MAX_DIFF_ROWS && (
+            <div className="text-[9px] text-gray-600 mt-1">
+              Showing first {MAX_DIFF_ROWS} of {comparison.tradeDiffs.length} disagreements
+            </div>
+          )}
+          {comparison.tradeDiffs.length === 0 && (
+            <div className="text-[10px] text-gray-600">Variants took identical trades</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
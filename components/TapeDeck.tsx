@@ -0,0 +1,205 @@
+/**
+ * TAPE DECK
+ * Header control for the tape recorder and replay:
+ * - REC records the worker's trades, liquidations, cascades, price ticks and stats to IndexedDB
+ * - Pick a recorded session and play it back through the terminal at 1x-100x
+ * - While replaying: pause, speed, progress, and LIVE to hand back to the live feeds
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Circle, Pause, Play, Radio, Trash2 } from 'lucide-react';
+import { aggrService } from '../services/aggrService';
+import { tapeRecorder, TapeSession } from '../services/tapeRecorder';
+import { tapeReplay, ReplayStatus, REPLAY_SPEEDS } from '../services/tapeReplay';
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+const formatCount = (n: number): string => n >= 1000 ? `${(n / 1000).toFixed(n >= 10000 ? 0 : 1)}k` : String(n);
+
+const sessionLabel = (session: TapeSession): string => {
+  const start = new Date(session.startTime);
+  const date = start.toLocaleDateString(undefined, { month: '2-digit', day: '2-digit' });
+  const time = start.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  return `${session.symbol} ${date} ${time} · ${formatDuration(session.endTime - session.startTime)} · ${formatCount(session.tradeCount)} trades`;
+};
+
+export const TapeDeck: React.FC = () => {
+  const [recording, setRecording] = useState<TapeSession | null>(tapeRecorder.getSession());
+  const [replay, setReplay] = useState<ReplayStatus | null>(tapeReplay.getStatus());
+  const [sessions, setSessions] = useState<TapeSession[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [speed, setSpeed] = useState<number>(REPLAY_SPEEDS[0]);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const refreshSessions = useCallback(() => {
+    tapeRecorder.listSessions()
+      .then(list => {
+        setSessions(list);
+        setSelectedId(current => list.some(s => s.id === current) ? current : (list[0]?.id ?? ''));
+      })
+      .catch(error => console.error('[TapeDeck] Failed to list sessions:', error));
+  }, []);
+
+  // Services mutate their status objects in place; copy so React sees a change
+  useEffect(() => {
+    refreshSessions();
+    return tapeRecorder.subscribe(session => {
+      setRecording(session ? { ...session } : null);
+      if (!session) refreshSessions();
+    });
+  }, [refreshSessions]);
+
+  useEffect(() => tapeReplay.subscribe(status => setReplay(status ? { ...status } : null)), []);
+
+  const recordingId = recording?.id;
+  useEffect(() => {
+    if (!recordingId) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [recordingId]);
+
+  if (!tapeRecorder.isEnabled()) return null;
+
+  const toggleRecording = () => {
+    if (recording) void aggrService.stopRecording();
+    else aggrService.startRecording();
+  };
+
+  const startReplay = () => {
+    if (!selectedId) return;
+    setReplayError(null);
+    tapeReplay.start(selectedId, speed)
+      .then(started => {
+        if (!started) {
+          setReplayError('Could not replay the session');
+          refreshSessions();
+        }
+      })
+      .catch(error => {
+        console.error('[TapeDeck] Replay failed:', error);
+        setReplayError('Could not replay the session');
+      });
+  };
+
+  const deleteSelected = () => {
+    if (!selectedId) return;
+    tapeRecorder.deleteSession(selectedId)
+      .then(refreshSessions)
+      .catch(error => console.error('[TapeDeck] Failed to delete session:', error));
+  };
+
+  const changeSpeed = (value: number) => {
+    setSpeed(value);
+    tapeReplay.setSpeed(value);
+  };
+
+  if (replay) {
+    const { session, clock } = replay;
+    const span = Math.max(1, session.endTime - session.startTime);
+    const progress = Math.min(1, Math.max(0, (clock - session.startTime) / span));
+
+    return (
+      <div className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-amber-500/10 border border-amber-500/30 text-xs font-medium">
+        <span className="text-amber-400 font-bold tracking-wider">REPLAY</span>
+        <span className="text-gray-400 font-mono text-[10px]">{session.symbol}</span>
+        <button
+          onClick={() => replay.playing ? tapeReplay.pause() : tapeReplay.resume()}
+          disabled={replay.loading || replay.ended}
+          className="p-1 rounded hover:bg-white/10 text-amber-300 disabled:opacity-40"
+          title={replay.playing ? 'Pause' : 'Resume'}
+        >
+          {replay.playing ? <Pause size={12} /> : <Play size={12} />}
+        </button>
+        <select
+          value={replay.speed}
+          onChange={(e) => changeSpeed(Number(e.target.value))}
+          className="bg-black/40 border border-white/10 rounded px-1 py-0.5 text-[10px] font-mono text-gray-300"
+          title="Playback speed"
+        >
+          {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+        </select>
+        <div className="w-24 h-1.5 rounded bg-white/10 overflow-hidden" title={`${Math.round(progress * 100)}%`}>
+          <div className="h-full bg-amber-400" style={{ width: `${progress * 100}%` }} />
+        </div>
+        <span className="text-gray-400 font-mono text-[10px] tabular-nums">
+          {replay.loading ? 'loading…' : new Date(clock).toLocaleTimeString()}
+        </span>
+        <button
+          onClick={() => tapeReplay.stop()}
+          className="flex items-center gap-1 px-2 py-0.5 rounded bg-green-500/15 border border-green-500/30 text-green-400 hover:bg-green-500/25"
+          title="Stop replay and return to the live feeds"
+        >
+          <Radio size={11} />
+          <span className="text-[10px] font-bold">LIVE</span>
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-white/5 border border-white/10 text-xs font-medium">
+      <button
+        onClick={toggleRecording}
+        className={`flex items-center gap-1 px-2 py-0.5 rounded border transition-all ${
+          recording
+            ? 'bg-red-500/20 border-red-500/40 text-red-400'
+            : 'bg-transparent border-white/10 text-gray-400 hover:text-red-400 hover:border-red-500/30'
+        }`}
+        title={recording ? 'Stop recording' : 'Record trades, liquidations, cascades, ticks and order flow stats'}
+      >
+        <Circle size={10} className={recording ? 'fill-red-500 animate-pulse' : ''} />
+        <span className="text-[10px] font-bold">REC</span>
+        {recording && (
+          <span className="font-mono text-[10px] tabular-nums">
+            {formatDuration(now - recording.startTime)} · {formatCount(tapeRecorder.getSession()?.tradeCount ?? recording.tradeCount)}
+          </span>
+        )}
+      </button>
+
+      <select
+        value={selectedId}
+        onChange={(e) => setSelectedId(e.target.value)}
+        onFocus={refreshSessions}
+        disabled={sessions.length === 0}
+        className="max-w-[220px] bg-black/40 border border-white/10 rounded px-1 py-0.5 text-[10px] font-mono text-gray-300 disabled:opacity-40"
+        title="Recorded sessions"
+      >
+        {sessions.length === 0 && <option value="">No recordings</option>}
+        {sessions.map(s => <option key={s.id} value={s.id}>{sessionLabel(s)}</option>)}
+      </select>
+      <select
+        value={speed}
+        onChange={(e) => setSpeed(Number(e.target.value))}
+        className="bg-black/40 border border-white/10 rounded px-1 py-0.5 text-[10px] font-mono text-gray-300"
+        title="Playback speed"
+      >
+        {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+      </select>
+      <button
+        onClick={startReplay}
+        disabled={!selectedId}
+        className="p-1 rounded hover:bg-white/10 text-amber-300 disabled:opacity-40"
+        title="Replay the session through the terminal"
+      >
+        <Play size={12} />
+      </button>
+      <button
+        onClick={deleteSelected}
+        disabled={!selectedId}
+        className="p-1 rounded hover:bg-white/10 text-gray-500 hover:text-red-400 disabled:opacity-40"
+        title="Delete the session"
+      >
+        <Trash2 size={12} />
+      </button>
+      {replayError && <span className="text-red-400 text-[10px]">{replayError}</span>}
+    </div>
+  );
+};
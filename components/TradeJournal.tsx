@@ -30,7 +30,7 @@ export const TradeJournal: React.FC = () => {
       notes: newEntry.notes || '',
       tags: newEntry.tags || [],
       mood: newEntry.mood || 'NEUTRAL',
-      result: Number(newEntry.pnl) > 0 ? 'WIN' : 'LOSS',
+      result: Number(newEntry.pnl) > 0 ? 'WIN' : Number(newEntry.pnl) < 0 ? 'LOSS' : 'BE',
       entryTime: Date.now() - 3600000,
       exitTime: Date.now(),
       pnlPercent: newEntry.entryPrice ? ((newEntry.type === 'LONG' ? newEntry.exitPrice - newEntry.entryPrice : newEntry.entryPrice - newEntry.exitPrice) / newEntry.entryPrice) * 100 : 0
@@ -0,0 +1,124 @@
+/**
+ * FOOTPRINT PRIMITIVE
+ * lightweight-charts series primitive that paints volume-at-price per candle:
+ * cells shaded by delta, the POC outlined, stacked imbalances as edge bars,
+ * and sell x buy volumes printed once candles are wide enough
+ */
+
+import {
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  SeriesAttachedParameter,
+  Time
+} from 'lightweight-charts';
+import { FootprintCandle } from '../../types/aggrTypes';
+
+type RenderTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+const MIN_TEXT_BAR_SPACING = 56;
+const MIN_TEXT_ROW_HEIGHT = 9;
+
+const formatUsd = (usd: number) =>
+  usd >= 1e6 ? `${(usd / 1e6).toFixed(1)}M` : usd >= 1e3 ? `${(usd / 1e3).toFixed(0)}k` : usd.toFixed(0);
+
+class FootprintRenderer implements ISeriesPrimitivePaneRenderer {
+  constructor(private source: FootprintPrimitive) {}
+
+  draw(target: RenderTarget): void {
+    const attached = this.source.attachedParams;
+    const candles = this.source.candles;
+    if (!attached || candles.length === 0) return;
+
+    const { chart, series } = attached;
+    const timeScale = chart.timeScale();
+    const barSpacing = timeScale.options().barSpacing;
+    const width = Math.max(2, barSpacing * 0.9);
+    const showText = barSpacing >= MIN_TEXT_BAR_SPACING;
+
+    target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+      context.font = '9px monospace';
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+
+      for (const candle of candles) {
+        const x = timeScale.timeToCoordinate((candle.time / 1000) as Time);
+        if (x === null || x < -barSpacing || x > mediaSize.width + barSpacing) continue;
+        const left = x - width / 2;
+
+        // Shade relative to the candle's own busiest level
+        const maxTotal = Math.max(...candle.levels.map(l => l.buyVolume + l.sellVolume));
+        if (maxTotal <= 0) continue;
+
+        for (const level of candle.levels) {
+          const yTop = series.priceToCoordinate(level.price + candle.tickSize);
+          const yBottom = series.priceToCoordinate(level.price);
+          if (yTop === null || yBottom === null) continue;
+          const height = Math.max(1, yBottom - yTop);
+
+          const total = level.buyVolume + level.sellVolume;
+          const alpha = 0.1 + (total / maxTotal) * 0.5;
+          context.fillStyle = level.buyVolume >= level.sellVolume
+            ? `rgba(16, 185, 129, ${alpha.toFixed(3)})`
+            : `rgba(239, 68, 68, ${alpha.toFixed(3)})`;
+          context.fillRect(left, yTop, width, height);
+
+          if (level.price === candle.poc) {
+            context.strokeStyle = 'rgba(250, 204, 21, 0.9)';
+            context.lineWidth = 1;
+            context.strokeRect(left + 0.5, yTop + 0.5, width - 1, height - 1);
+          }
+
+          if (showText && height >= MIN_TEXT_ROW_HEIGHT) {
+            context.fillStyle = 'rgba(229, 231, 235, 0.9)';
+            context.fillText(`${formatUsd(level.sellVolume)} x ${formatUsd(level.buyVolume)}`, x, yTop + height / 2);
+          }
+        }
+
+        // Buy stacks on the right edge, sell stacks on the left
+        for (const stack of candle.stackedImbalances) {
+          const yTop = series.priceToCoordinate(stack.toPrice + candle.tickSize);
+          const yBottom = series.priceToCoordinate(stack.fromPrice);
+          if (yTop === null || yBottom === null) continue;
+          context.fillStyle = stack.side === 'buy' ? 'rgba(16, 185, 129, 0.95)' : 'rgba(239, 68, 68, 0.95)';
+          context.fillRect(stack.side === 'buy' ? left + width - 2 : left, yTop, 2, Math.max(1, yBottom - yTop));
+        }
+      }
+    });
+  }
+}
+
+class FootprintPaneView implements ISeriesPrimitivePaneView {
+  private rendererInstance: FootprintRenderer;
+
+  constructor(source: FootprintPrimitive) {
+    this.rendererInstance = new FootprintRenderer(source);
+  }
+
+  renderer(): ISeriesPrimitivePaneRenderer {
+    return this.rendererInstance;
+  }
+}
+
+export class FootprintPrimitive implements ISeriesPrimitive<Time> {
+  public attachedParams: SeriesAttachedParameter<Time> | null = null;
+  public candles: FootprintCandle[] = [];
+  private views: FootprintPaneView[] = [new FootprintPaneView(this)];
+
+  attached(param: SeriesAttachedParameter<Time>): void {
+    this.attachedParams = param;
+  }
+
+  detached(): void {
+    this.attachedParams = null;
+  }
+
+  paneViews(): readonly ISeriesPrimitivePaneView[] {
+    return this.views;
+  }
+
+  setCandles(candles: FootprintCandle[]): void {
+    this.candles = candles;
+    this.attachedParams?.requestUpdate();
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * LIQUIDATION MAP PRIMITIVE
+ * lightweight-charts series primitive that paints estimated liquidation
+ * clusters as horizontal bands (amber = longs, violet = shorts) with a
+ * histogram on the left edge and the two magnets labelled
+ */
+
+import {
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  SeriesAttachedParameter,
+  Time
+} from 'lightweight-charts';
+import { LiquidationMap } from '../../types/aggrTypes';
+
+type RenderTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+const MAX_BAND_ALPHA = 0.3;
+const MAX_HISTOGRAM_WIDTH = 120;
+
+const formatUsd = (usd: number) => usd >= 1e9 ? `$${(usd / 1e9).toFixed(2)}B` : `$${(usd / 1e6).toFixed(1)}M`;
+
+class LiquidationMapRenderer implements ISeriesPrimitivePaneRenderer {
+  constructor(private source: LiquidationMapPrimitive) {}
+
+  draw(target: RenderTarget): void {
+    const attached = this.source.attachedParams;
+    const map = this.source.map;
+    if (!attached || !map || map.bins.length === 0) return;
+
+    const { series } = attached;
+    const maxUsd = Math.max(...map.bins.map(b => Math.max(b.longUsd, b.shortUsd)));
+    if (maxUsd <= 0) return;
+
+    target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+      const histogramWidth = Math.min(MAX_HISTOGRAM_WIDTH, mediaSize.width * 0.15);
+
+      for (const bin of map.bins) {
+        const yTop = series.priceToCoordinate(bin.price + map.binSize);
+        const yBottom = series.priceToCoordinate(bin.price);
+        if (yTop === null || yBottom === null) continue;
+        const height = Math.max(1, yBottom - yTop);
+
+        for (const [usd, rgb] of [[bin.longUsd, '245, 158, 11'], [bin.shortUsd, '139, 92, 246']] as const) {
+          if (usd <= 0) continue;
+          const share = usd / maxUsd;
+          context.fillStyle = `rgba(${rgb}, ${(Math.sqrt(share) * MAX_BAND_ALPHA).toFixed(3)})`;
+          context.fillRect(0, yTop, mediaSize.width, height);
+          context.fillStyle = `rgba(${rgb}, 0.75)`;
+          context.fillRect(0, yTop, share * histogramWidth, height);
+        }
+      }
+
+      context.font = '10px sans-serif';
+      context.textBaseline = 'bottom';
+      for (const [magnet, label, color] of [
+        [map.magnetAbove, 'Short liqs', 'rgb(167, 139, 250)'],
+        [map.magnetBelow, 'Long liqs', 'rgb(251, 191, 36)']
+      ] as const) {
+        if (!magnet) continue;
+        const y = series.priceToCoordinate(magnet.price);
+        if (y === null) continue;
+        context.fillStyle = color;
+        context.fillText(`${label} ~${formatUsd(magnet.usd)}`, histogramWidth + 4, y - 2);
+      }
+    });
+  }
+}
+
+class LiquidationMapPaneView implements ISeriesPrimitivePaneView {
+  private rendererInstance: LiquidationMapRenderer;
+
+  constructor(source: LiquidationMapPrimitive) {
+    this.rendererInstance = new LiquidationMapRenderer(source);
+  }
+
+  zOrder() {
+    return 'bottom' as const;
+  }
+
+  renderer(): ISeriesPrimitivePaneRenderer {
+    return this.rendererInstance;
+  }
+}
+
+export class LiquidationMapPrimitive implements ISeriesPrimitive<Time> {
+  public attachedParams: SeriesAttachedParameter<Time> | null = null;
+  public map: LiquidationMap | null = null;
+  private views: LiquidationMapPaneView[] = [new LiquidationMapPaneView(this)];
+
+  attached(param: SeriesAttachedParameter<Time>): void {
+    this.attachedParams = param;
+  }
+
+  detached(): void {
+    this.attachedParams = null;
+  }
+
+  paneViews(): readonly ISeriesPrimitivePaneView[] {
+    return this.views;
+  }
+
+  setMap(map: LiquidationMap | null): void {
+    this.map = map;
+    this.attachedParams?.requestUpdate();
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * LIQUIDITY HEATMAP PRIMITIVE
+ * lightweight-charts series primitive that paints resting order book
+ * liquidity per candle behind the series (green = bids, red = asks)
+ */
+
+import {
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  SeriesAttachedParameter,
+  Time
+} from 'lightweight-charts';
+import { HeatmapColumn } from '../../services/orderBookDepth';
+
+type RenderTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+const MAX_ALPHA = 0.65;
+
+class HeatmapRenderer implements ISeriesPrimitivePaneRenderer {
+  constructor(private source: LiquidityHeatmapPrimitive) {}
+
+  draw(target: RenderTarget): void {
+    const attached = this.source.attachedParams;
+    const columns = this.source.columns;
+    if (!attached || columns.length === 0) return;
+
+    const { chart, series } = attached;
+    const timeScale = chart.timeScale();
+    const barSpacing = timeScale.options().barSpacing;
+
+    // Scale intensity to the heaviest cell so thin books still show structure
+    let maxUsd = 0;
+    for (const column of columns) {
+      for (const cell of column.cells) maxUsd = Math.max(maxUsd, cell.bidUsd + cell.askUsd);
+    }
+    if (maxUsd <= 0) return;
+
+    target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+      for (const column of columns) {
+        const x = timeScale.timeToCoordinate(column.time as Time);
+        if (x === null || x < -barSpacing || x > mediaSize.width + barSpacing) continue;
+
+        for (const cell of column.cells) {
+          const yTop = series.priceToCoordinate(cell.price + column.bandSize);
+          const yBottom = series.priceToCoordinate(cell.price);
+          if (yTop === null || yBottom === null) continue;
+
+          const total = cell.bidUsd + cell.askUsd;
+          const alpha = Math.sqrt(total / maxUsd) * MAX_ALPHA;
+          if (alpha < 0.02) continue;
+
+          context.fillStyle = cell.bidUsd >= cell.askUsd
+            ? `rgba(16, 185, 129, ${alpha.toFixed(3)})`
+            : `rgba(239, 68, 68, ${alpha.toFixed(3)})`;
+          context.fillRect(x - barSpacing / 2, yTop, barSpacing, Math.max(1, yBottom - yTop));
+        }
+      }
+    });
+  }
+}
+
+class HeatmapPaneView implements ISeriesPrimitivePaneView {
+  private rendererInstance: HeatmapRenderer;
+
+  constructor(source: LiquidityHeatmapPrimitive) {
+    this.rendererInstance = new HeatmapRenderer(source);
+  }
+
+  zOrder() {
+    return 'bottom' as const;
+  }
+
+  renderer(): ISeriesPrimitivePaneRenderer {
+    return this.rendererInstance;
+  }
+}
+
+export class LiquidityHeatmapPrimitive implements ISeriesPrimitive<Time> {
+  public attachedParams: SeriesAttachedParameter<Time> | null = null;
+  public columns: HeatmapColumn[] = [];
+  private views: HeatmapPaneView[] = [new HeatmapPaneView(this)];
+
+  attached(param: SeriesAttachedParameter<Time>): void {
+    this.attachedParams = param;
+  }
+
+  detached(): void {
+    this.attachedParams = null;
+  }
+
+  paneViews(): readonly ISeriesPrimitivePaneView[] {
+    return this.views;
+  }
+
+  setColumns(columns: HeatmapColumn[]): void {
+    this.columns = columns;
+    this.attachedParams?.requestUpdate();
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * VOLUME PROFILE PRIMITIVE
+ * lightweight-charts series primitive that paints the visible-range profile as
+ * a histogram on the right edge, and session / weekly POC, VAH and VAL as
+ * dashed lines from the profile's start
+ */
+
+import {
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  SeriesAttachedParameter,
+  Time
+} from 'lightweight-charts';
+import { VolumeProfile } from '../../services/volumeProfile';
+
+type RenderTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+type DrawContext = CanvasRenderingContext2D;
+
+export interface ChartVolumeProfiles {
+  visible: VolumeProfile | null;
+  session: VolumeProfile | null;
+  weekly: VolumeProfile | null;
+}
+
+const MAX_HISTOGRAM_WIDTH = 160;
+
+const KEY_LEVEL_STYLES: Record<'session' | 'weekly', { color: string; prefix: string }> = {
+  session: { color: 'rgba(249, 115, 22, 0.85)', prefix: 's' },
+  weekly: { color: 'rgba(168, 85, 247, 0.85)', prefix: 'w' }
+};
+
+class VolumeProfileRenderer implements ISeriesPrimitivePaneRenderer {
+  constructor(private source: VolumeProfilePrimitive) {}
+
+  draw(target: RenderTarget): void {
+    const attached = this.source.attachedParams;
+    if (!attached) return;
+    const { visible, session, weekly } = this.source.profiles;
+
+    target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+      if (visible) this.drawHistogram(context, mediaSize.width, visible);
+      if (session) this.drawKeyLevels(context, mediaSize.width, session, 'session');
+      if (weekly) this.drawKeyLevels(context, mediaSize.width, weekly, 'weekly');
+    });
+  }
+
+  private drawHistogram(context: DrawContext, paneWidth: number, profile: VolumeProfile): void {
+    const { series } = this.source.attachedParams!;
+    const maxVolume = Math.max(...profile.bins.map(b => b.volume));
+    if (maxVolume <= 0) return;
+
+    const maxWidth = Math.min(MAX_HISTOGRAM_WIDTH, paneWidth * 0.22);
+    const pocBin = Math.floor((profile.poc - profile.bins[0].price) / profile.binSize);
+
+    profile.bins.forEach((bin, i) => {
+      const yTop = series.priceToCoordinate(bin.price + profile.binSize);
+      const yBottom = series.priceToCoordinate(bin.price);
+      if (yTop === null || yBottom === null) return;
+
+      const length = (bin.volume / maxVolume) * maxWidth;
+      context.fillStyle = i === pocBin
+        ? 'rgba(250, 204, 21, 0.55)'
+        : bin.inValueArea ? 'rgba(59, 130, 246, 0.35)' : 'rgba(148, 163, 184, 0.18)';
+      context.fillRect(paneWidth - length, yTop + 0.5, length, Math.max(1, yBottom - yTop - 1));
+    });
+  }
+
+  private drawKeyLevels(context: DrawContext, paneWidth: number, profile: VolumeProfile, kind: 'session' | 'weekly'): void {
+    const { chart, series } = this.source.attachedParams!;
+    const { color, prefix } = KEY_LEVEL_STYLES[kind];
+
+    // Profiles that started before the loaded data are drawn from the left edge
+    const startX = Math.max(0, chart.timeScale().timeToCoordinate(profile.startTime as Time) ?? 0);
+
+    context.save();
+    context.strokeStyle = color;
+    context.fillStyle = color;
+    context.lineWidth = 1;
+    context.font = '9px sans-serif';
+    context.textBaseline = 'bottom';
+
+    const lines: Array<[string, number, number[]]> = [
+      ['POC', profile.poc, [6, 3]],
+      ['VAH', profile.vah, [2, 3]],
+      ['VAL', profile.val, [2, 3]]
+    ];
+    for (const [label, price, dash] of lines) {
+      const y = series.priceToCoordinate(price);
+      if (y === null) continue;
+      context.setLineDash(dash);
+      context.beginPath();
+      context.moveTo(startX, Math.round(y) + 0.5);
+      context.lineTo(paneWidth, Math.round(y) + 0.5);
+      context.stroke();
+      context.fillText(`${prefix}${label}`, startX + 2, y - 1);
+    }
+    context.restore();
+  }
+}
+
+class VolumeProfilePaneView implements ISeriesPrimitivePaneView {
+  private rendererInstance: VolumeProfileRenderer;
+
+  constructor(source: VolumeProfilePrimitive) {
+    this.rendererInstance = new VolumeProfileRenderer(source);
+  }
+
+  zOrder() {
+    return 'bottom' as const;
+  }
+
+  renderer(): ISeriesPrimitivePaneRenderer {
+    return this.rendererInstance;
+  }
+}
+
+export class VolumeProfilePrimitive implements ISeriesPrimitive<Time> {
+  public attachedParams: SeriesAttachedParameter<Time> | null = null;
+  public profiles: ChartVolumeProfiles = { visible: null, session: null, weekly: null };
+  private views: VolumeProfilePaneView[] = [new VolumeProfilePaneView(this)];
+
+  attached(param: SeriesAttachedParameter<Time>): void {
+    this.attachedParams = param;
+  }
+
+  detached(): void {
+    this.attachedParams = null;
+  }
+
+  paneViews(): readonly ISeriesPrimitivePaneView[] {
+    return this.views;
+  }
+
+  setProfiles(profiles: ChartVolumeProfiles): void {
+    this.profiles = profiles;
+    this.attachedParams?.requestUpdate();
+  }
+}
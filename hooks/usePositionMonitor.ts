@@ -1,12 +1,21 @@
 /**
  * POSITION MONITORING HOOK
- * Runs in background, updates PnL, auto-closes positions on SL/TP
+ * Runs in background, updates PnL, scales out at targets, trails stops and auto-closes on SL/TP
  * This is the "heartbeat" of the trading engine.
  */
 
 import { useEffect, useRef } from 'react';
 import { useStore } from '../store/useStore';
 import { calculatePositionPnL, checkPositionClose } from '../utils/tradingCalculations';
+import { paperExchange } from '../services/paperExchange';
+import {
+  evaluatePositionManagement,
+  applyPositionManagement,
+  closeLivePosition,
+  DEFAULT_POSITION_MANAGEMENT_CONFIG
+} from '../services/positionManagement';
+import { getSymbolConfig } from '../services/symbolRegistry';
+import { livePairPrice } from '../services/pairPrices';
 
 const MONITOR_INTERVAL_MS = 1000; // Check every 1 second
 
@@ -20,7 +29,19 @@ export function usePositionMonitor() {
     console.log('[Position Monitor] Starting...');
 
     intervalRef.current = setInterval(() => {
-      const { positions, price, updatePositionPnl, closePosition, addJournalEntry } = useStore.getState();
+      const { positions, price, isLiveMode, isReplaying, tacticalConfig, updatePositionPnl } = useStore.getState();
+      const managementConfig = {
+        ...DEFAULT_POSITION_MANAGEMENT_CONFIG,
+        moveStopToBreakevenAtTp: tacticalConfig.moveStopToBreakevenAtTp
+      };
+
+      // Top-level price / technicals follow the charted symbol; other pairs read their own
+      // market, with no price (skipped) until the pair feed has a fresh tick
+      const marketFor = (pair: string) => {
+        const state = useStore.getState();
+        if (pair === state.activeSymbol) return { price, atr: state.technicals.atr };
+        return { price: livePairPrice(state, pair), atr: state.marketBySymbol[pair]?.technicals.atr || 0 };
+      };
 
       if (!positions || positions.length === 0) {
         // No positions, no work to do
@@ -32,68 +53,65 @@ export function usePositionMonitor() {
         return;
       }
 
+      if (isReplaying) {
+        // Replayed prices must never manage or close real positions
+        return;
+      }
+
       // Process each position
-      positions.forEach((position) => {
+      positions.forEach((snapshot) => {
         // Skip if position is already being closed (mutex check)
-        if (closingPositionsRef.current.has(position.id)) {
+        if (closingPositionsRef.current.has(snapshot.id)) {
           return;
         }
 
-        // 1. Calculate current PnL
+        const { price, atr } = marketFor(snapshot.pair);
+        if (price === 0) return;
+
+        // 1. Scale out at targets, move stop to breakeven, trail by ATR
+        const { quantityPrecision } = getSymbolConfig(snapshot.pair);
+        const update = evaluatePositionManagement(snapshot, price, atr, quantityPrecision, managementConfig);
+        const finalTargetHit = update ? applyPositionManagement(snapshot, update, price, isLiveMode) : false;
+        const position = useStore.getState().positions.find(p => p.id === snapshot.id);
+        if (!position) return;
+
+        // 2. Calculate current PnL
         const { pnlUSD, pnlPercent } = calculatePositionPnL(position, price);
 
-        // 2. Update PnL in state
+        // 3. Update PnL in state
         updatePositionPnl(position.id, pnlUSD, pnlPercent);
 
-        // 3. Check if position should close
-        const { shouldClose, reason } = checkPositionClose(position, price);
+        // 4. Exchange-bracketed live positions are closed by their resting orders, not here
+        if (position.bracket) return;
+
+        // 5. Check if position should close. With a target plan, the last target replaces the single TP.
+        const hasTargets = !!position.targetLevels?.length;
+        const closeCheck = checkPositionClose(hasTargets ? { ...position, takeProfit: 0 } : position, price);
+        const shouldClose = closeCheck.shouldClose || finalTargetHit;
+        const reason = closeCheck.reason ?? (finalTargetHit ? 'TAKE_PROFIT' : null);
 
         if (shouldClose && reason) {
           // Add to mutex BEFORE closing to prevent race condition
           closingPositionsRef.current.add(position.id);
 
-          // Close the position
-          closePosition(position.id, pnlUSD);
-
-          // Add to journal
-          addJournalEntry({
-            id: `journal-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
-            date: Date.now(),
-            pair: position.pair,
-            type: position.type,
-            entryPrice: position.entryPrice,
-            exitPrice: price,
-            size: position.size,
-            leverage: position.leverage,
-            pnl: pnlUSD,
-            pnlPercent: pnlPercent,
-            entryTime: position.timestamp,
-            exitTime: Date.now(),
-            notes: `Auto-closed: ${reason.replace('_', ' ')}`,
-            tags: [reason, position.type],
-            mood: pnlUSD > 0 ? 'CONFIDENT' : 'FRUSTRATED',
-            result: pnlUSD > 0 ? 'WIN' : pnlUSD < 0 ? 'LOSS' : 'BE'
-          });
-
-          // Log the close
-          const emoji = reason === 'TAKE_PROFIT' ? '[TP]' : reason === 'STOP_LOSS' ? '[SL]' : '[LIQ]';
-          console.log(
-            `[Position Monitor] ${emoji} CLOSED ${position.type} @ $${price.toFixed(2)} | ` +
-            `Reason: ${reason} | PnL: ${pnlUSD > 0 ? '+' : ''}$${pnlUSD.toFixed(2)} (${pnlPercent > 0 ? '+' : ''}${pnlPercent.toFixed(2)}%)`
-          );
-
-          // Remove from mutex after close is complete
-          closingPositionsRef.current.delete(position.id);
+          // Paper positions exit through the simulator so fees, slippage and funding reach the journal
+          if (!isLiveMode) {
+            paperExchange.closePosition(position.id, reason);
+            closingPositionsRef.current.delete(position.id);
+            return;
+          }
+
+          // Live positions close with a reduce-only market order, booked at its fill.
+          // The mutex holds until the order returns; a failed order leaves the position open.
+          void closeLivePosition(position, price, reason)
+            .finally(() => closingPositionsRef.current.delete(position.id));
         }
       });
 
       // Log status periodically (every 10 seconds)
       const now = Date.now();
       if (now - lastLogRef.current > 10000) {
-        const totalPnL = positions.reduce((sum, p) => {
-          const { pnlUSD } = calculatePositionPnL(p, price);
-          return sum + pnlUSD;
-        }, 0);
+        const totalPnL = useStore.getState().positions.reduce((sum, p) => sum + p.pnl, 0);
 
         console.log(
           `[Position Monitor] Active: ${positions.length} | ` +
@@ -29,5 +29,17 @@ export const config = {
         apiKey: keyManager.getKey('BINANCE_TESTNET_KEY'),
         apiSecret: keyManager.getKey('BINANCE_TESTNET_SECRET'),
         baseUrl: 'https://testnet.binancefuture.com'
+    },
+    // Perpetual pairs the order flow proxy will serve (comma-separated env override)
+    symbols: {
+        default: 'BTCUSDT',
+        allowed: (process.env.ORDERFLOW_SYMBOLS || 'BTCUSDT,ETHUSDT,SOLUSDT')
+            .split(',')
+            .map(s => s.trim().toUpperCase())
+            .filter(Boolean)
+    },
+    // SQLite file backing /api/journal, /api/positions and /api/outcomes
+    database: {
+        path: process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'ipcha.db')
     }
 };
@@ -8,6 +8,7 @@ import { tradingRoutes } from './routes/trading';
 import { macroRoutes } from './routes/macro';
 import { keyRoutes } from './routes/keys';
 import { aiRoutes } from './routes/ai';
+import { journalRoutes, positionRoutes, outcomeRoutes } from './routes/records';
 
 // WebSocket Security Configuration
 const WS_MAX_CONNECTIONS_PER_IP = 5;
@@ -76,8 +77,17 @@ const wss = new WebSocket.Server({
             }
         }
 
+        // Symbol to proxy: /ws/orderflow?symbol=ETHUSDT (defaults to BTCUSDT)
+        const symbol = resolveSymbol(url.searchParams.get('symbol') ?? undefined);
+        if (!symbol) {
+            console.warn(`[WS Security] Rejecting connection: Unsupported symbol ${url.searchParams.get('symbol')}`);
+            callback(false, 400, 'Unsupported symbol');
+            return;
+        }
+
         // Store client IP for tracking
         (info.req as any)._clientIp = clientIp;
+        (info.req as any)._symbol = symbol;
 
         callback(true);
     }
@@ -111,13 +121,36 @@ app.use('/api/trading', tradingRoutes);
 app.use('/api/macro', macroRoutes);
 app.use('/api/keys', keyRoutes);
 app.use('/api/ai', aiRoutes);
+app.use('/api/journal', journalRoutes);
+app.use('/api/positions', positionRoutes);
+app.use('/api/outcomes', outcomeRoutes);
 
 // ==================== ORDER FLOW REST API ====================
 
+/**
+ * Resolve the ?symbol= query against the configured allow-list.
+ * Returns null for anything not explicitly allowed so it is never forwarded upstream.
+ */
+function resolveSymbol(raw: unknown): string | null {
+    if (raw === undefined || raw === '') return config.symbols.default;
+    if (typeof raw !== 'string') return null;
+    const symbol = raw.toUpperCase();
+    return config.symbols.allowed.includes(symbol) ? symbol : null;
+}
+
+app.use('/api/orderflow', (req, res, next) => {
+    const symbol = resolveSymbol(req.query.symbol);
+    if (!symbol) {
+        return res.status(400).json({ error: `Unsupported symbol. Allowed: ${config.symbols.allowed.join(', ')}` });
+    }
+    res.locals.symbol = symbol;
+    next();
+});
+
 // Open Interest endpoint
 app.get('/api/orderflow/open-interest', async (req, res) => {
     try {
-        const response = await fetch('https://fapi.binance.com/fapi/v1/openInterest?symbol=BTCUSDT');
+        const response = await fetch(`https://fapi.binance.com/fapi/v1/openInterest?symbol=${res.locals.symbol}`);
         const data = await response.json();
         res.json(data);
     } catch (error) {
@@ -128,7 +161,7 @@ app.get('/api/orderflow/open-interest', async (req, res) => {
 // Long/Short Ratio endpoint
 app.get('/api/orderflow/long-short-ratio', async (req, res) => {
     try {
-        const response = await fetch('https://fapi.binance.com/futures/data/globalLongShortAccountRatio?symbol=BTCUSDT&period=5m&limit=1');
+        const response = await fetch(`https://fapi.binance.com/futures/data/globalLongShortAccountRatio?symbol=${res.locals.symbol}&period=5m&limit=1`);
         const data = await response.json();
         res.json(data);
     } catch (error) {
@@ -139,7 +172,7 @@ app.get('/api/orderflow/long-short-ratio', async (req, res) => {
 // Top Trader Long/Short Ratio (Positions)
 app.get('/api/orderflow/top-trader-ratio', async (req, res) => {
     try {
-        const response = await fetch('https://fapi.binance.com/futures/data/topLongShortPositionRatio?symbol=BTCUSDT&period=5m&limit=1');
+        const response = await fetch(`https://fapi.binance.com/futures/data/topLongShortPositionRatio?symbol=${res.locals.symbol}&period=5m&limit=1`);
         const data = await response.json();
         res.json(data);
     } catch (error) {
@@ -150,7 +183,7 @@ app.get('/api/orderflow/top-trader-ratio', async (req, res) => {
 // Taker Buy/Sell Volume
 app.get('/api/orderflow/taker-volume', async (req, res) => {
     try {
-        const response = await fetch('https://fapi.binance.com/futures/data/takerlongshortRatio?symbol=BTCUSDT&period=5m&limit=1');
+        const response = await fetch(`https://fapi.binance.com/futures/data/takerlongshortRatio?symbol=${res.locals.symbol}&period=5m&limit=1`);
         const data = await response.json();
         res.json(data);
     } catch (error) {
@@ -161,7 +194,7 @@ app.get('/api/orderflow/taker-volume', async (req, res) => {
 // Funding Rate endpoint
 app.get('/api/orderflow/funding-rate', async (req, res) => {
     try {
-        const response = await fetch('https://fapi.binance.com/fapi/v1/fundingRate?symbol=BTCUSDT&limit=1');
+        const response = await fetch(`https://fapi.binance.com/fapi/v1/fundingRate?symbol=${res.locals.symbol}&limit=1`);
         const data = await response.json();
         res.json(data);
     } catch (error) {
@@ -172,7 +205,7 @@ app.get('/api/orderflow/funding-rate', async (req, res) => {
 // Recent Trades (for aggregation)
 app.get('/api/orderflow/recent-trades', async (req, res) => {
     try {
-        const response = await fetch('https://fapi.binance.com/fapi/v1/trades?symbol=BTCUSDT&limit=500');
+        const response = await fetch(`https://fapi.binance.com/fapi/v1/trades?symbol=${res.locals.symbol}&limit=500`);
         const data = await response.json();
         res.json(data);
     } catch (error) {
@@ -185,7 +218,7 @@ app.get('/api/orderflow/agg-trades', async (req, res) => {
     try {
         const endTime = Date.now();
         const startTime = endTime - 60000; // 1 minute
-        const response = await fetch(`https://fapi.binance.com/fapi/v1/aggTrades?symbol=BTCUSDT&startTime=${startTime}&endTime=${endTime}&limit=1000`);
+        const response = await fetch(`https://fapi.binance.com/fapi/v1/aggTrades?symbol=${res.locals.symbol}&startTime=${startTime}&endTime=${endTime}&limit=1000`);
         const data = await response.json();
         res.json(data);
     } catch (error) {
@@ -196,7 +229,7 @@ app.get('/api/orderflow/agg-trades', async (req, res) => {
 // Liquidation Orders (forced orders)
 app.get('/api/orderflow/liquidations', async (req, res) => {
     try {
-        const response = await fetch('https://fapi.binance.com/fapi/v1/allForceOrders?symbol=BTCUSDT&limit=50');
+        const response = await fetch(`https://fapi.binance.com/fapi/v1/allForceOrders?symbol=${res.locals.symbol}&limit=50`);
         const data = await response.json();
         res.json(data);
     } catch (error) {
@@ -246,7 +279,11 @@ wss.on('connection', (clientWs, req) => {
     const clientIp = (req as any)._clientIp || 'unknown';
     (clientWs as any)._clientIp = clientIp;
 
-    console.log(`[WS Proxy] Client connected from ${clientIp}`);
+    // Symbol was validated during verifyClient
+    const symbol: string = (req as any)._symbol || config.symbols.default;
+    const stream = symbol.toLowerCase();
+
+    console.log(`[WS Proxy] Client connected from ${clientIp} (${symbol})`);
 
     const connections: WebSocket[] = [];
 
@@ -255,7 +292,7 @@ wss.on('connection', (clientWs, req) => {
         clientWs,
         'binance_futures',
         'wss://fstream.binance.com/ws',
-        { method: 'SUBSCRIBE', params: ['btcusdt@aggTrade', 'btcusdt@forceOrder'], id: 1 }
+        { method: 'SUBSCRIBE', params: [`${stream}@aggTrade`, `${stream}@forceOrder`], id: 1 }
     );
     connections.push(binanceFutures);
 
@@ -264,7 +301,7 @@ wss.on('connection', (clientWs, req) => {
         clientWs,
         'bybit',
         'wss://stream.bybit.com/v5/public/linear',
-        { op: 'subscribe', args: ['publicTrade.BTCUSDT', 'liquidation.BTCUSDT'] }
+        { op: 'subscribe', args: [`publicTrade.${symbol}`, `liquidation.${symbol}`] }
     );
     connections.push(bybit);
 
@@ -0,0 +1,148 @@
+import express from 'express';
+import rateLimit from 'express-rate-limit';
+import * as crypto from 'crypto';
+import { recordStore, RecordCollection } from '../services/recordStore';
+
+// SECURITY: Client ids are used as primary keys - keep them short and boring
+const VALID_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const recordRateLimiter = rateLimit({
+    windowMs: 60 * 1000, // 1 minute window
+    max: 300, // Sync bursts after reconnect can be large
+    message: { error: 'Rate Limited', details: 'Too many requests. Max 300 per minute.' },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+// Same shared key as /api/trading - journal and positions are account data
+const authMiddleware = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const clientKey = req.headers['x-trading-key'];
+    const serverKey = process.env.TRADING_API_KEY;
+
+    if (!serverKey) {
+        console.error('SECURITY: TRADING_API_KEY not configured. Blocking request.');
+        return res.status(503).json({
+            error: 'Service Unavailable',
+            details: 'Record API not configured. Set TRADING_API_KEY environment variable.'
+        });
+    }
+
+    if (clientKey !== serverKey) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'Invalid Trading Key' });
+    }
+    next();
+};
+
+function sendError(res: express.Response, error: any, context: string) {
+    const correlationId = crypto.randomBytes(8).toString('hex');
+    console.error(`[${new Date().toISOString()}] [${correlationId}] ${context}:`, error?.message || error);
+    res.status(500).json({ error: 'Internal Error', correlationId });
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * CRUD router for one record collection:
+ *   GET    /?since=<ms>  list (incremental pulls include tombstones)
+ *   GET    /:id          fetch one
+ *   POST   /             create (body.id or generated)
+ *   PUT    /:id          create or replace
+ *   DELETE /:id          tombstone
+ */
+function createRecordRouter(collection: RecordCollection) {
+    const router = express.Router();
+
+    router.use(authMiddleware);
+    router.use(recordRateLimiter);
+
+    router.get('/', (req, res) => {
+        const rawSince = req.query.since;
+        let since: number | undefined;
+
+        if (rawSince !== undefined) {
+            since = Number(rawSince);
+            if (!Number.isFinite(since) || since < 0) {
+                return res.status(400).json({ error: 'since must be a non-negative timestamp (ms)' });
+            }
+        }
+
+        try {
+            res.json({ records: recordStore.list(collection, since), serverTime: Date.now() });
+        } catch (error) {
+            sendError(res, error, `List ${collection}`);
+        }
+    });
+
+    router.get('/:id', (req, res) => {
+        if (!VALID_ID_PATTERN.test(req.params.id)) {
+            return res.status(400).json({ error: 'Invalid id' });
+        }
+
+        try {
+            const record = recordStore.get(collection, req.params.id);
+            if (!record) return res.status(404).json({ error: 'Not Found' });
+            res.json(record);
+        } catch (error) {
+            sendError(res, error, `Get ${collection}`);
+        }
+    });
+
+    router.post('/', (req, res) => {
+        if (!isPlainObject(req.body)) {
+            return res.status(400).json({ error: 'Body must be a JSON object' });
+        }
+
+        const id = req.body.id === undefined
+            ? `${collection}-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`
+            : String(req.body.id);
+        if (!VALID_ID_PATTERN.test(id)) {
+            return res.status(400).json({ error: 'Invalid id' });
+        }
+
+        try {
+            if (recordStore.get(collection, id)) {
+                return res.status(409).json({ error: 'Conflict', details: `${id} already exists` });
+            }
+            res.status(201).json(recordStore.upsert(collection, id, { ...req.body, id }));
+        } catch (error) {
+            sendError(res, error, `Create ${collection}`);
+        }
+    });
+
+    router.put('/:id', (req, res) => {
+        const { id } = req.params;
+        if (!VALID_ID_PATTERN.test(id)) {
+            return res.status(400).json({ error: 'Invalid id' });
+        }
+        if (!isPlainObject(req.body)) {
+            return res.status(400).json({ error: 'Body must be a JSON object' });
+        }
+
+        try {
+            res.json(recordStore.upsert(collection, id, { ...req.body, id }));
+        } catch (error) {
+            sendError(res, error, `Upsert ${collection}`);
+        }
+    });
+
+    router.delete('/:id', (req, res) => {
+        if (!VALID_ID_PATTERN.test(req.params.id)) {
+            return res.status(400).json({ error: 'Invalid id' });
+        }
+
+        try {
+            // Idempotent: deleting an unknown id is not an error for a syncing client
+            recordStore.remove(collection, req.params.id);
+            res.status(204).end();
+        } catch (error) {
+            sendError(res, error, `Delete ${collection}`);
+        }
+    });
+
+    return router;
+}
+
+export const journalRoutes = createRecordRouter('journal');
+export const positionRoutes = createRecordRouter('positions');
+export const outcomeRoutes = createRecordRouter('outcomes');
@@ -13,7 +13,10 @@ const VALID_SIDES = ['BUY', 'SELL'] as const;
 const VALID_ORDER_TYPES = ['MARKET', 'LIMIT', 'STOP_MARKET', 'TAKE_PROFIT_MARKET'] as const;
 const VALID_TIME_IN_FORCE = ['GTC', 'IOC', 'FOK'] as const;
 const VALID_SYMBOL_PATTERN = /^[A-Z]{2,10}USDT?$/; // e.g., BTCUSDT, ETHUSDT
+const VALID_CLIENT_ORDER_ID_PATTERN = /^[.A-Z:/a-z0-9_-]{1,36}$/; // Binance newClientOrderId rule
+const VALID_ORDER_ID_PATTERN = /^\d{1,20}$/;
 const MAX_QUANTITY = 100; // Max 100 BTC per order (safety limit)
+const BINANCE_UNKNOWN_ORDER = -2011; // Cancel of an order that is filled, cancelled or never arrived
 
 /**
  * SECURITY: Generate correlation ID for error tracking
@@ -109,7 +112,7 @@ router.use(authMiddleware);
 // Place Order (rate limited: 10/min)
 router.post('/order', orderRateLimiter, async (req, res) => {
     try {
-        const { symbol, side, type, quantity, price, timeInForce } = req.body;
+        const { symbol, side, type, quantity, price, stopPrice, timeInForce, newClientOrderId, reduceOnly } = req.body;
 
         // SECURITY: Strict input validation with whitelisting
         if (!symbol || !side || !type || quantity === undefined) {
@@ -151,6 +154,14 @@ router.post('/order', orderRateLimiter, async (req, res) => {
             }
         }
 
+        // Validate trigger price for stop / take-profit orders
+        if (upperType === 'STOP_MARKET' || upperType === 'TAKE_PROFIT_MARKET') {
+            const numStopPrice = Number(stopPrice);
+            if (!Number.isFinite(numStopPrice) || numStopPrice <= 0) {
+                return res.status(400).json({ error: `stopPrice is required and must be positive for ${upperType} orders` });
+            }
+        }
+
         // Validate timeInForce if provided
         if (timeInForce) {
             const upperTIF = String(timeInForce).toUpperCase();
@@ -159,6 +170,16 @@ router.post('/order', orderRateLimiter, async (req, res) => {
             }
         }
 
+        // Validate client order id if provided (used to match user data stream fills)
+        if (newClientOrderId !== undefined && !VALID_CLIENT_ORDER_ID_PATTERN.test(String(newClientOrderId))) {
+            return res.status(400).json({ error: 'Invalid newClientOrderId' });
+        }
+
+        // reduceOnly exits can only shrink a position, never open or flip one
+        if (reduceOnly !== undefined && typeof reduceOnly !== 'boolean') {
+            return res.status(400).json({ error: 'reduceOnly must be a boolean' });
+        }
+
         const params: any = {
             symbol: upperSymbol,
             side: upperSide,
@@ -166,7 +187,10 @@ router.post('/order', orderRateLimiter, async (req, res) => {
             quantity: numQuantity
         };
         if (price) params.price = Number(price);
+        if (stopPrice) params.stopPrice = Number(stopPrice);
         if (timeInForce) params.timeInForce = String(timeInForce).toUpperCase();
+        if (newClientOrderId) params.newClientOrderId = String(newClientOrderId);
+        if (reduceOnly) params.reduceOnly = true;
 
         const result = await binanceRequest('POST', '/fapi/v1/order', params);
 
@@ -176,7 +200,7 @@ router.post('/order', orderRateLimiter, async (req, res) => {
             symbol: upperSymbol,
             side: upperSide,
             quantity: numQuantity,
-            price: params.price,
+            price: params.price ?? params.stopPrice,
             orderId: result.orderId,
             status: 'SUCCESS'
         });
@@ -207,25 +231,33 @@ router.post('/order', orderRateLimiter, async (req, res) => {
 // Cancel Order (rate limited: 10/min)
 router.delete('/order', orderRateLimiter, async (req, res) => {
     try {
-        const { symbol, orderId } = req.body;
+        const { symbol, orderId, origClientOrderId } = req.body;
 
-        // Validate inputs
-        if (!symbol || !orderId) {
-            return res.status(400).json({ error: 'Missing required fields: symbol, orderId' });
+        // Validate inputs - the order is identified by exchange id or by the client id it was placed with
+        if (!symbol || (!orderId && !origClientOrderId)) {
+            return res.status(400).json({ error: 'Missing required fields: symbol, orderId or origClientOrderId' });
         }
 
         const upperSymbol = String(symbol).toUpperCase();
         if (!VALID_SYMBOL_PATTERN.test(upperSymbol)) {
             return res.status(400).json({ error: 'Invalid symbol format' });
         }
+        if (orderId && !VALID_ORDER_ID_PATTERN.test(String(orderId))) {
+            return res.status(400).json({ error: 'Invalid orderId' });
+        }
+        if (!orderId && !VALID_CLIENT_ORDER_ID_PATTERN.test(String(origClientOrderId))) {
+            return res.status(400).json({ error: 'Invalid origClientOrderId' });
+        }
 
-        const result = await binanceRequest('DELETE', '/fapi/v1/order', { symbol: upperSymbol, orderId });
+        const result = await binanceRequest('DELETE', '/fapi/v1/order', orderId
+            ? { symbol: upperSymbol, orderId }
+            : { symbol: upperSymbol, origClientOrderId });
 
         // Audit Log: Success
         auditService.logOrderAction({
             action: 'ORDER_CANCELLED',
             symbol: upperSymbol,
-            orderId,
+            orderId: String(orderId || origClientOrderId),
             status: 'SUCCESS'
         });
 
@@ -235,11 +267,16 @@ router.delete('/order', orderRateLimiter, async (req, res) => {
         auditService.logOrderAction({
             action: 'ERROR',
             symbol: req.body.symbol,
-            orderId: req.body.orderId,
+            orderId: String(req.body.orderId || req.body.origClientOrderId),
             status: 'FAILURE',
-            error: error.message || 'Unknown error'
+            error: error.msg || error.message || 'Unknown error'
         });
 
+        // Filled, already cancelled, or never reached the exchange
+        if (error.code === BINANCE_UNKNOWN_ORDER) {
+            return res.status(404).json({ error: 'Unknown Order' });
+        }
+
         // SECURITY: Return sanitized error
         const sanitized = sanitizeError(error, 'Cancel Failed');
         res.status(500).json({
@@ -250,6 +287,267 @@ router.delete('/order', orderRateLimiter, async (req, res) => {
     }
 });
 
+// Bracket Orders (rate limited: 30 exchange calls/min)
+// Exchange-native protection for a filled entry: one STOP_MARKET closePosition stop
+// plus a reduce-only TAKE_PROFIT_MARKET per target. Survives the browser tab closing.
+const MAX_BRACKET_TARGETS = 4;
+
+// Each bracket request fans out into several exchange calls, so the bracket routes share
+// their own budget counted in exchange calls (worst case per request), not HTTP requests
+const BRACKET_CALLS_PER_MINUTE = 30;
+const bracketCalls: { at: number; calls: number }[] = [];
+
+const bracketRateLimiter = (callsFor: (req: express.Request) => number): express.RequestHandler =>
+    (req, res, next) => {
+        const now = Date.now();
+        while (bracketCalls.length > 0 && now - bracketCalls[0].at >= 60 * 1000) bracketCalls.shift();
+
+        const calls = callsFor(req);
+        const used = bracketCalls.reduce((sum, entry) => sum + entry.calls, 0);
+        if (used + calls > BRACKET_CALLS_PER_MINUTE) {
+            const retryAfterMs = bracketCalls.length > 0 ? bracketCalls[0].at + 60 * 1000 - now : 60 * 1000;
+            res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+            return res.status(429).json({
+                error: 'Rate Limited',
+                details: `Too many bracket orders. Max ${BRACKET_CALLS_PER_MINUTE} exchange calls per minute.`
+            });
+        }
+
+        bracketCalls.push({ at: now, calls });
+        next();
+    };
+
+// Stop plus one take-profit per target
+const bracketCallsFor = (req: express.Request) =>
+    1 + (Array.isArray(req.body?.targets) ? Math.min(req.body.targets.length, MAX_BRACKET_TARGETS) : 0);
+
+// Cancel, place and - if the new stop is rejected - restore the old one
+const stopReplaceCallsFor = (req: express.Request) =>
+    req.body?.cancelOrderId !== undefined ? 3 : 1;
+
+const exitSideFor = (positionSide: unknown): 'BUY' | 'SELL' | null =>
+    positionSide === 'LONG' ? 'SELL' : positionSide === 'SHORT' ? 'BUY' : null;
+
+const placeStopOrder = (symbol: string, exitSide: 'BUY' | 'SELL', stopPrice: number) =>
+    binanceRequest('POST', '/fapi/v1/order', {
+        symbol,
+        side: exitSide,
+        type: 'STOP_MARKET',
+        stopPrice,
+        closePosition: true,
+        workingType: 'MARK_PRICE'
+    });
+
+router.post('/bracket', bracketRateLimiter(bracketCallsFor), async (req, res) => {
+    const { symbol, side, stopLoss, targets } = req.body;
+
+    const upperSymbol = String(symbol || '').toUpperCase();
+    if (!VALID_SYMBOL_PATTERN.test(upperSymbol)) {
+        return res.status(400).json({ error: 'Invalid symbol format' });
+    }
+
+    const exitSide = exitSideFor(side);
+    if (!exitSide) {
+        return res.status(400).json({ error: 'side must be LONG or SHORT' });
+    }
+
+    const numStop = Number(stopLoss);
+    if (!Number.isFinite(numStop) || numStop <= 0) {
+        return res.status(400).json({ error: 'stopLoss must be a positive number' });
+    }
+
+    if (!Array.isArray(targets) || targets.length > MAX_BRACKET_TARGETS) {
+        return res.status(400).json({ error: `targets must be an array of at most ${MAX_BRACKET_TARGETS}` });
+    }
+    const parsedTargets = targets.map((t: any) => ({ price: Number(t?.price), quantity: Number(t?.quantity) }));
+    if (parsedTargets.some(t => !Number.isFinite(t.price) || t.price <= 0 || !Number.isFinite(t.quantity) || t.quantity <= 0 || t.quantity > MAX_QUANTITY)) {
+        return res.status(400).json({ error: 'Each target needs a positive price and quantity' });
+    }
+
+    // Stop first: a position with targets but no stop is the worst partial outcome
+    let stopOrder: any;
+    try {
+        stopOrder = await placeStopOrder(upperSymbol, exitSide, numStop);
+        auditService.logOrderAction({
+            action: 'ORDER_PLACED',
+            symbol: upperSymbol,
+            side: exitSide,
+            price: numStop,
+            orderId: stopOrder.orderId,
+            status: 'SUCCESS'
+        });
+    } catch (error: any) {
+        auditService.logOrderAction({
+            action: 'ORDER_FAILED',
+            symbol: upperSymbol,
+            side: exitSide,
+            price: numStop,
+            status: 'FAILURE',
+            error: error.message || 'Stop placement failed'
+        });
+        const sanitized = sanitizeError(error, 'Bracket Stop Failed');
+        return res.status(500).json({
+            error: 'Bracket Stop Failed',
+            correlationId: sanitized.correlationId,
+            message: sanitized.message
+        });
+    }
+
+    const takeProfitOrders: any[] = [];
+    const failedTargets: number[] = [];
+    for (let i = 0; i < parsedTargets.length; i++) {
+        const target = parsedTargets[i];
+        try {
+            const order = await binanceRequest('POST', '/fapi/v1/order', {
+                symbol: upperSymbol,
+                side: exitSide,
+                type: 'TAKE_PROFIT_MARKET',
+                stopPrice: target.price,
+                quantity: target.quantity,
+                reduceOnly: true,
+                workingType: 'MARK_PRICE'
+            });
+            takeProfitOrders.push(order);
+            auditService.logOrderAction({
+                action: 'ORDER_PLACED',
+                symbol: upperSymbol,
+                side: exitSide,
+                quantity: target.quantity,
+                price: target.price,
+                orderId: order.orderId,
+                status: 'SUCCESS'
+            });
+        } catch (error: any) {
+            failedTargets.push(i);
+            takeProfitOrders.push(null);
+            auditService.logOrderAction({
+                action: 'ORDER_FAILED',
+                symbol: upperSymbol,
+                side: exitSide,
+                quantity: target.quantity,
+                price: target.price,
+                status: 'FAILURE',
+                error: error.message || 'Take-profit placement failed'
+            });
+        }
+    }
+
+    res.json({ stopOrder, takeProfitOrders, failedTargets });
+});
+
+// Replace the bracket stop (e.g. breakeven after TP1). Binance allows one closePosition stop
+// per direction (-4130), so the old stop is cancelled first; if the new one is rejected the
+// old one goes back in at its previous price and the response reports replaced: false.
+router.post('/bracket/stop', bracketRateLimiter(stopReplaceCallsFor), async (req, res) => {
+    const { symbol, side, stopPrice, cancelOrderId } = req.body;
+
+    const upperSymbol = String(symbol || '').toUpperCase();
+    if (!VALID_SYMBOL_PATTERN.test(upperSymbol)) {
+        return res.status(400).json({ error: 'Invalid symbol format' });
+    }
+
+    const exitSide = exitSideFor(side);
+    if (!exitSide) {
+        return res.status(400).json({ error: 'side must be LONG or SHORT' });
+    }
+
+    const numStop = Number(stopPrice);
+    if (!Number.isFinite(numStop) || numStop <= 0) {
+        return res.status(400).json({ error: 'stopPrice must be a positive number' });
+    }
+
+    if (cancelOrderId !== undefined && !VALID_ORDER_ID_PATTERN.test(String(cancelOrderId))) {
+        return res.status(400).json({ error: 'cancelOrderId must be a numeric order id' });
+    }
+
+    let previousStopPrice: number | null = null;
+    if (cancelOrderId !== undefined) {
+        try {
+            const cancelled = await binanceRequest('DELETE', '/fapi/v1/order', { symbol: upperSymbol, orderId: cancelOrderId });
+            previousStopPrice = Number(cancelled.stopPrice) || null;
+            auditService.logOrderAction({
+                action: 'ORDER_CANCELLED',
+                symbol: upperSymbol,
+                orderId: String(cancelOrderId),
+                status: 'SUCCESS'
+            });
+        } catch (error: any) {
+            auditService.logOrderAction({
+                action: 'ERROR',
+                symbol: upperSymbol,
+                orderId: String(cancelOrderId),
+                status: 'FAILURE',
+                error: error.msg || error.message || 'Old stop cancel failed'
+            });
+            // Unknown order: the old stop is already gone, so place the new one. Anything else
+            // leaves the old stop resting and the new one would be rejected behind it.
+            if (error.code !== BINANCE_UNKNOWN_ORDER) {
+                const sanitized = sanitizeError(error, 'Stop Replace Failed');
+                return res.status(500).json({
+                    error: 'Stop Replace Failed',
+                    correlationId: sanitized.correlationId,
+                    message: sanitized.message
+                });
+            }
+        }
+    }
+
+    try {
+        const stopOrder = await placeStopOrder(upperSymbol, exitSide, numStop);
+        auditService.logOrderAction({
+            action: 'ORDER_PLACED',
+            symbol: upperSymbol,
+            side: exitSide,
+            price: numStop,
+            orderId: stopOrder.orderId,
+            status: 'SUCCESS'
+        });
+
+        res.json({ stopOrder, replaced: true });
+    } catch (error: any) {
+        auditService.logOrderAction({
+            action: 'ORDER_FAILED',
+            symbol: upperSymbol,
+            side: exitSide,
+            price: numStop,
+            status: 'FAILURE',
+            error: error.msg || error.message || 'Stop replacement failed'
+        });
+
+        if (previousStopPrice !== null) {
+            try {
+                const stopOrder = await placeStopOrder(upperSymbol, exitSide, previousStopPrice);
+                auditService.logOrderAction({
+                    action: 'ORDER_PLACED',
+                    symbol: upperSymbol,
+                    side: exitSide,
+                    price: previousStopPrice,
+                    orderId: stopOrder.orderId,
+                    status: 'SUCCESS'
+                });
+                return res.json({ stopOrder, replaced: false });
+            } catch (restoreError: any) {
+                auditService.logOrderAction({
+                    action: 'ORDER_FAILED',
+                    symbol: upperSymbol,
+                    side: exitSide,
+                    price: previousStopPrice,
+                    status: 'FAILURE',
+                    error: restoreError.msg || restoreError.message || 'Old stop restore failed'
+                });
+            }
+        }
+
+        // No stop is resting for this position now
+        const sanitized = sanitizeError(error, 'Stop Replace Failed');
+        res.status(500).json({
+            error: 'Stop Replace Failed',
+            correlationId: sanitized.correlationId,
+            message: sanitized.message
+        });
+    }
+});
+
 // Get Positions (rate limited: 60/min)
 router.get('/positions', readRateLimiter, async (req, res) => {
     try {
@@ -0,0 +1,110 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+
+/**
+ * SQLite-backed record store for data the dashboard must not lose when a
+ * browser is cleared: journal entries, open positions and trade outcomes.
+ *
+ * Records are stored as JSON documents keyed by the client id. Deletes are
+ * tombstones so other desks pick them up on their next `?since=` pull.
+ */
+
+export const RECORD_COLLECTIONS = ['journal', 'positions', 'outcomes'] as const;
+export type RecordCollection = typeof RECORD_COLLECTIONS[number];
+
+export interface StoredRecord {
+    id: string;
+    data: unknown;
+    updatedAt: number;
+    deleted: boolean;
+}
+
+interface RecordRow {
+    id: string;
+    data: string;
+    updated_at: number;
+    deleted: number;
+}
+
+const toRecord = (row: RecordRow): StoredRecord => ({
+    id: row.id,
+    data: JSON.parse(row.data),
+    updatedAt: row.updated_at,
+    deleted: row.deleted === 1
+});
+
+class RecordStore {
+    private db: Database.Database;
+
+    constructor(dbPath: string) {
+        fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+        this.db = new Database(dbPath);
+        this.db.pragma('journal_mode = WAL');
+
+        // Table names come from the fixed RECORD_COLLECTIONS list, never from requests
+        for (const collection of RECORD_COLLECTIONS) {
+            this.db.exec(`
+                CREATE TABLE IF NOT EXISTS ${collection} (
+                    id TEXT PRIMARY KEY,
+                    data TEXT NOT NULL,
+                    updated_at INTEGER NOT NULL,
+                    deleted INTEGER NOT NULL DEFAULT 0
+                );
+                CREATE INDEX IF NOT EXISTS idx_${collection}_updated_at ON ${collection} (updated_at);
+            `);
+        }
+
+        console.log(`[RecordStore] SQLite ready at ${dbPath}`);
+    }
+
+    /**
+     * List records changed after `since` (ms). Tombstones are only included
+     * for incremental pulls - a full listing returns live records.
+     */
+    list(collection: RecordCollection, since?: number): StoredRecord[] {
+        const rows = since !== undefined
+            ? this.db.prepare(`SELECT * FROM ${collection} WHERE updated_at > ? ORDER BY updated_at ASC`).all(since)
+            : this.db.prepare(`SELECT * FROM ${collection} WHERE deleted = 0 ORDER BY updated_at ASC`).all();
+        return (rows as RecordRow[]).map(toRecord);
+    }
+
+    get(collection: RecordCollection, id: string): StoredRecord | null {
+        const row = this.db.prepare(`SELECT * FROM ${collection} WHERE id = ? AND deleted = 0`).get(id) as RecordRow | undefined;
+        return row ? toRecord(row) : null;
+    }
+
+    upsert(collection: RecordCollection, id: string, data: unknown): StoredRecord {
+        const updatedAt = this.nextTimestamp(collection);
+        this.db.prepare(`
+            INSERT INTO ${collection} (id, data, updated_at, deleted) VALUES (?, ?, ?, 0)
+            ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at, deleted = 0
+        `).run(id, JSON.stringify(data), updatedAt);
+
+        return { id, data, updatedAt, deleted: false };
+    }
+
+    /**
+     * Tombstone a record. Returns false if it never existed.
+     */
+    remove(collection: RecordCollection, id: string): boolean {
+        const result = this.db.prepare(`
+            UPDATE ${collection} SET deleted = 1, data = '{}', updated_at = ? WHERE id = ?
+        `).run(this.nextTimestamp(collection), id);
+        return result.changes > 0;
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    // Strictly increasing per collection so `?since=` cursors never skip a write made in the same ms
+    private nextTimestamp(collection: RecordCollection): number {
+        const row = this.db.prepare(`SELECT MAX(updated_at) AS latest FROM ${collection}`).get() as { latest: number | null };
+        return Math.max(Date.now(), (row.latest ?? 0) + 1);
+    }
+}
+
+export const recordStore = new RecordStore(config.database.path);
@@ -2,6 +2,9 @@ import { AggrStats, AggrLiquidation, AggrTrade, CascadeEvent } from '../types/ag
 import { workerManager } from './workers/WorkerManager';
 import { soundEngine } from './audio/SoundEngine';
 import { dataSyncAgent } from './dataSyncAgent';
+import { orderBookDepth } from './orderBookDepth';
+import { footprintService } from './footprintService';
+import { tapeRecorder } from './tapeRecorder';
 
 // Re-export types for compatibility
 export * from '../types/aggrTypes';
@@ -40,6 +43,18 @@ export class AggrTradeService {
       // Maybe add cascade sound later
       if (this.onCascade) this.onCascade(cascade);
     });
+
+    // L2 books -> heatmap history
+    workerManager.onDepthUpdateEvent((depth) => orderBookDepth.update(depth));
+
+    // Trade stream -> footprint candles
+    workerManager.onFootprintUpdateEvent(({ symbol, candles }) => footprintService.update(symbol, candles));
+
+    // Normalized stream -> tape (only sent while recording); the recorder stops itself at its size cap
+    workerManager.onTapeBatchEvent((batch) => {
+      tapeRecorder.append(batch);
+      if (!tapeRecorder.isRecording()) workerManager.setRecording(false);
+    });
   }
 
   /**
@@ -65,6 +80,28 @@ export class AggrTradeService {
     workerManager.disconnect();
   }
 
+  /**
+   * Re-subscribe the worker feeds to another symbol
+   */
+  setSymbol(symbol: string): void {
+    this.latestStats = null;
+    workerManager.setSymbol(symbol);
+  }
+
+  /**
+   * Record trades, liquidations, price ticks and stats to IndexedDB for replay
+   */
+  startRecording(): boolean {
+    if (!tapeRecorder.start(workerManager.getSymbol())) return false;
+    workerManager.setRecording(true);
+    return true;
+  }
+
+  async stopRecording(): Promise<void> {
+    workerManager.setRecording(false);
+    await tapeRecorder.stop();
+  }
+
   /**
    * Get current stats (from local cache)
    */
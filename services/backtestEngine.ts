@@ -8,6 +8,9 @@
  * - Drawdown and equity curve analysis
  * - Setup quality grading
  * - AI learning feedback loop
+ * - Bar-by-bar replay of recorded order flow (see orderFlowRecorder)
+ * - Any registered strategy (see strategyRegistry), selected by config.strategyId
+ * - Higher-timeframe context resampled from the backtest's own bars (see higherTimeframes)
  *
  * @version 3.3.0
  */
@@ -15,7 +18,6 @@
 import {
   ChartDataPoint,
   TacticalConfigV33,
-  DEFAULT_CONFIG_V33,
   SignalHistoryState,
   EMPTY_SIGNAL_HISTORY,
   PatternLearningState,
@@ -25,18 +27,28 @@ import {
   TargetLevel,
   TacticalResultV33
 } from '../types';
+import { addTradeOutcome } from './tacticalSignalsV33';
 import {
-  generateTacticalSignalV33,
-  addTradeOutcome
-} from './tacticalSignalsV33';
+  Strategy,
+  DEFAULT_STRATEGY_ID,
+  getStrategy,
+  resolveStrategyConfig,
+  runStrategy
+} from './strategyRegistry';
 import { AppState } from '../store/useStore';
+import { AggrStats } from '../types/aggrTypes';
+import { HIGHER_TIMEFRAMES, HigherTimeframeSeries } from './higherTimeframes';
 
 // ============================================================================
 // BACKTEST CONFIGURATION
 // ============================================================================
 
 export interface BacktestConfig {
+  // Strategy
+  strategyId: string;           // Registered strategy to replay (tacticalConfig overrides its defaults)
+
   // Data
+  timeframe: string;            // Bar size of the candles, picks the higher timeframes
   startIndex: number;           // Where to start (need 200+ prior candles)
   endIndex: number;             // Where to end (-1 for all data)
 
@@ -65,6 +77,9 @@ export interface BacktestConfig {
 }
 
 export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  strategyId: DEFAULT_STRATEGY_ID,
+
+  timeframe: '15m',
   startIndex: 200,
   endIndex: -1,
 
@@ -171,6 +186,8 @@ export interface BacktestState {
 // ============================================================================
 
 export interface BacktestResults {
+  strategyId: string;
+
   // Overview
   totalTrades: number;
   winningTrades: number;
@@ -239,6 +256,9 @@ export interface BacktestResults {
 
   // Learning
   patternLearningState: PatternLearningState;
+
+  // Order flow replay
+  orderFlowCoverage: number;  // Fraction of bars that had a recorded AggrStats snapshot
 }
 
 // ============================================================================
@@ -247,21 +267,42 @@ export interface BacktestResults {
 
 export class BacktestEngine {
   private config: BacktestConfig;
+  private strategy: Strategy;
   private tacticalConfig: TacticalConfigV33;
   private state: BacktestState;
   private chartData: ChartDataPoint[];
   private appState: Partial<AppState>;
+  private orderFlowSeries: (AggrStats | null)[];
+  private higherTimeframes: HigherTimeframeSeries;
+  private barsProcessed: number = 0;
+  private barsWithOrderFlow: number = 0;
 
+  /**
+   * @param orderFlowSeries Recorded AggrStats aligned to chartData indices
+   *   (see alignOrderFlowToBars). Empty = no order flow, as before.
+   */
   constructor(
     chartData: ChartDataPoint[],
     appState: Partial<AppState> = {},
     config: Partial<BacktestConfig> = {},
-    tacticalConfig: Partial<TacticalConfigV33> = {}
+    tacticalConfig: Partial<TacticalConfigV33> = {},
+    orderFlowSeries: (AggrStats | null)[] = []
   ) {
     this.chartData = chartData;
     this.appState = appState;
+    this.orderFlowSeries = orderFlowSeries;
     this.config = { ...DEFAULT_BACKTEST_CONFIG, ...config };
-    this.tacticalConfig = { ...DEFAULT_CONFIG_V33, ...tacticalConfig };
+
+    const strategy = getStrategy(this.config.strategyId);
+    if (!strategy) {
+      throw new Error(`Unknown strategy: ${this.config.strategyId}`);
+    }
+    this.strategy = strategy;
+    this.tacticalConfig = resolveStrategyConfig(strategy, tacticalConfig);
+    this.higherTimeframes = new HigherTimeframeSeries(
+      chartData,
+      this.tacticalConfig.useHigherTimeframes ? HIGHER_TIMEFRAMES[this.config.timeframe] ?? [] : []
+    );
 
     this.state = {
       equity: this.config.initialCapital,
@@ -315,16 +356,21 @@ export class BacktestEngine {
     // 2. Generate signals
     const chartSlice = this.chartData.slice(0, index + 1);
     const referenceTime = timestamp;
-
-    const result = generateTacticalSignalV33(
-      chartSlice,
-      this.appState,
-      null,  // No order flow in backtest
-      this.state.signalHistory,
-      this.state.patternLearning,
-      this.tacticalConfig,
-      referenceTime
-    );
+    const orderFlowStats = this.orderFlowSeries[index] ?? null;
+
+    this.barsProcessed++;
+    if (orderFlowStats) this.barsWithOrderFlow++;
+
+    const result = runStrategy(this.strategy, {
+      chartData: chartSlice,
+      state: this.appState,
+      orderFlowStats,  // Replayed snapshot, null when nothing was recorded for this bar
+      signalHistory: this.state.signalHistory,
+      patternLearning: this.state.patternLearning,
+      config: this.tacticalConfig,
+      referenceTime,
+      higherTimeframes: this.higherTimeframes.at(index)
+    });
 
     // Update signal history
     this.state.signalHistory = result.updatedHistory;
@@ -716,6 +762,8 @@ export class BacktestEngine {
     const calmarRatio = this.state.maxDrawdown > 0 ? totalReturn / this.state.maxDrawdown : 0;
 
     return {
+      strategyId: this.strategy.id,
+
       totalTrades: trades.length,
       winningTrades: wins.length,
       losingTrades: losses.length,
@@ -782,7 +830,9 @@ export class BacktestEngine {
 
       trades,
 
-      patternLearningState: this.state.patternLearning
+      patternLearningState: this.state.patternLearning,
+
+      orderFlowCoverage: this.barsProcessed > 0 ? this.barsWithOrderFlow / this.barsProcessed : 0
     };
   }
 
@@ -866,6 +916,7 @@ export function formatBacktestResults(results: BacktestResults): string {
   lines.push('');
 
   lines.push('OVERVIEW');
+  lines.push(`   Strategy: ${getStrategy(results.strategyId)?.name ?? results.strategyId}`);
   lines.push(`   Total Trades: ${results.totalTrades}`);
   lines.push(`   Win Rate: ${(results.winRate * 100).toFixed(1)}% (${results.winningTrades}W / ${results.losingTrades}L)`);
   lines.push(`   Profit Factor: ${results.profitFactor.toFixed(2)}`);
@@ -928,6 +979,10 @@ export function formatBacktestResults(results: BacktestResults): string {
   lines.push(`   Worst Day: ${days[results.worstDay]}`);
   lines.push('');
 
+  lines.push('ORDER FLOW REPLAY');
+  lines.push(`   Bars with recorded order flow: ${(results.orderFlowCoverage * 100).toFixed(1)}%`);
+  lines.push('');
+
   lines.push('PATTERN LEARNING');
   const pl = results.patternLearningState;
   lines.push(`   Patterns Learned: ${pl.totalTrades}`);
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { closedCandles, diffRunConfigs, hashCandles, hashOrderFlow } from './backtestHistory';
+import { DEFAULT_BACKTEST_CONFIG } from './backtestEngine';
+import { ChartDataPoint, DEFAULT_CONFIG_V33 } from '../types';
+import { AggrStats } from '../types/aggrTypes';
+
+const candle = (time: number, close: number) =>
+  ({ time, open: close, high: close + 1, low: close - 1, close, volume: 10 }) as ChartDataPoint;
+
+describe('backtest run history', () => {
+  it('hashes candles deterministically and detects any change', () => {
+    const candles = [candle(1, 100), candle(2, 101), candle(3, 102)];
+
+    expect(hashCandles(candles)).toBe(hashCandles(candles.map(c => ({ ...c }))));
+    expect(hashCandles(candles)).toMatch(/^data-[0-9a-f]{8}-3$/);
+    expect(hashCandles([candle(1, 100), candle(2, 101), candle(3, 102.5)])).not.toBe(hashCandles(candles));
+    expect(hashCandles(candles.slice(1))).not.toBe(hashCandles(candles));
+  });
+
+  it('hashes the replayed order flow, null when there is none', () => {
+    const stats = (delta: number) => ({ cvd: { delta } } as unknown as AggrStats);
+    const series = [null, stats(5), stats(-2)];
+
+    expect(hashOrderFlow([])).toBeNull();
+    expect(hashOrderFlow(series)).toMatch(/^flow-[0-9a-f]{8}-2$/);
+    expect(hashOrderFlow(series)).toBe(hashOrderFlow([null, stats(5), stats(-2)]));
+    expect(hashOrderFlow([null, stats(5), stats(-3)])).not.toBe(hashOrderFlow(series));
+  });
+
+  it('drops the candle that is still forming', () => {
+    const candles = [candle(0, 100), candle(900, 101), candle(1800, 102)];
+
+    expect(closedCandles(candles, '15m', 2700 * 1000)).toBe(candles);
+    expect(closedCandles(candles, '15m', 2699 * 1000)).toEqual(candles.slice(0, 2));
+  });
+
+  it('lists config fields that changed between runs', () => {
+    const previous = { backtestConfig: DEFAULT_BACKTEST_CONFIG, tacticalConfig: DEFAULT_CONFIG_V33 };
+    const next = {
+      backtestConfig: { ...DEFAULT_BACKTEST_CONFIG, riskPerTrade: 2 },
+      tacticalConfig: { ...DEFAULT_CONFIG_V33, minScoreNormal: 5 }
+    };
+
+    expect(diffRunConfigs(previous, previous)).toEqual([]);
+    expect(diffRunConfigs(previous, next)).toEqual([
+      { key: 'backtest.riskPerTrade', from: DEFAULT_BACKTEST_CONFIG.riskPerTrade, to: 2 },
+      { key: 'tactical.minScoreNormal', from: DEFAULT_CONFIG_V33.minScoreNormal, to: 5 }
+    ]);
+  });
+});
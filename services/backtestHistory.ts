@@ -0,0 +1,283 @@
+/**
+ * BACKTEST RUN HISTORY
+ *
+ * Every single-pass backtest is stored in IndexedDB with everything needed to
+ * reproduce and audit it:
+ * - The exact BacktestConfig and resolved TacticalConfigV33 that ran
+ * - Symbol, timeframe and candle range, plus hashes of the candles and the
+ *   replayed order flow so a rerun can tell whether it saw the same data
+ * - The replayed order flow itself, so a rerun replays it even after the
+ *   recorder has pruned it
+ * - The config fields that changed since the previous run of the same strategy
+ * - Full results for reopening, and a small summary for listing
+ *
+ * Records live under 'backtest-run:<id>', summaries under 'backtest-run-summary:<id>',
+ * order flow under 'backtest-run-orderflow:<id>'.
+ *
+ * @version 1.0.0
+ */
+
+import { ChartDataPoint, TacticalConfigV33 } from '../types';
+import { AggrStats } from '../types/aggrTypes';
+import { BacktestConfig, BacktestResults } from './backtestEngine';
+import { timeframeSeconds } from './higherTimeframes';
+import { get, set, remove, getAllKeys } from './storage/indexedDB';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ConfigChange {
+  key: string;                  // 'backtest.riskPerTrade' / 'tactical.minScoreNormal'
+  from: unknown;
+  to: unknown;
+}
+
+export interface BacktestRunRecord {
+  id: string;
+  createdAt: number;
+  symbol: string;
+  timeframe: string;
+  days: number;
+  dataRange: {
+    startTime: number;          // First candle time (chart seconds)
+    endTime: number;            // Last candle time (chart seconds)
+    candleCount: number;
+  };
+  dataHash: string;
+  orderFlowHash: string | null;  // null when no order flow was replayed
+  replayOrderFlow: boolean;
+  backtestConfig: BacktestConfig;
+  tacticalConfig: TacticalConfigV33;
+  changesFromPrevious: ConfigChange[];
+  previousRunId: string | null;
+  rerunOf: string | null;       // Set when this run reproduces an earlier one
+  results: BacktestResults;
+}
+
+export interface BacktestRunSummary {
+  id: string;
+  createdAt: number;
+  symbol: string;
+  timeframe: string;
+  strategyId: string;
+  candleCount: number;
+  dataHash: string;
+  rerunOf: string | null;
+  changeCount: number;
+  totalTrades: number;
+  winRate: number;
+  expectancy: number;
+  profitFactor: number;
+  totalPnLPercent: number;
+  maxDrawdownPercent: number;
+}
+
+export interface RecordRunInput {
+  symbol: string;
+  timeframe: string;
+  days: number;
+  candles: ChartDataPoint[];
+  orderFlowSeries: (AggrStats | null)[];
+  replayOrderFlow: boolean;
+  backtestConfig: BacktestConfig;
+  tacticalConfig: TacticalConfigV33;
+  results: BacktestResults;
+  rerunOf?: string;
+}
+
+const RUN_PREFIX = 'backtest-run';
+const SUMMARY_PREFIX = 'backtest-run-summary';
+const ORDER_FLOW_PREFIX = 'backtest-run-orderflow';
+
+/** Oldest runs are pruned past this many */
+export const MAX_STORED_RUNS = 200;
+
+// ============================================================================
+// HASHING & DIFFS
+// ============================================================================
+
+const fnv1a = (hash: number, text: string): number => {
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash;
+};
+
+const FNV_OFFSET = 0x811c9dc5;
+const hex = (hash: number) => (hash >>> 0).toString(16).padStart(8, '0');
+
+/**
+ * Hash of the OHLCV series (FNV-1a over the serialized bars). Two runs with the
+ * same hash replayed identical candles.
+ */
+export function hashCandles(candles: ChartDataPoint[]): string {
+  let hash = FNV_OFFSET;
+  for (const c of candles) {
+    hash = fnv1a(hash, `${c.time}|${c.open}|${c.high}|${c.low}|${c.close}|${c.volume};`);
+  }
+  return `data-${hex(hash)}-${candles.length}`;
+}
+
+/**
+ * Hash of a bar-aligned order flow series, null when there is none. The
+ * suffix counts the bars that had a snapshot.
+ */
+export function hashOrderFlow(series: (AggrStats | null)[]): string | null {
+  if (series.length === 0) return null;
+  let hash = FNV_OFFSET;
+  for (const stats of series) {
+    hash = fnv1a(hash, `${JSON.stringify(stats)};`);
+  }
+  return `flow-${hex(hash)}-${series.filter(s => s !== null).length}`;
+}
+
+/**
+ * Candles whose bar has closed by now. The newest kline Binance returns is
+ * still forming, and would make every rerun see different data.
+ */
+export function closedCandles(candles: ChartDataPoint[], timeframe: string, now: number = Date.now()): ChartDataPoint[] {
+  const barSeconds = timeframeSeconds(timeframe);
+  let end = candles.length;
+  while (end > 0 && candles[end - 1].time + barSeconds > now / 1000) end--;
+  return end === candles.length ? candles : candles.slice(0, end);
+}
+
+const diffObjects = (prefix: string, from: object, to: object): ConfigChange[] => {
+  const a = from as Record<string, unknown>;
+  const b = to as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+  return keys
+    .filter(key => JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+    .map(key => ({ key: `${prefix}.${key}`, from: a[key], to: b[key] }));
+};
+
+/**
+ * Config fields that differ between two runs
+ */
+export function diffRunConfigs(
+  previous: Pick<BacktestRunRecord, 'backtestConfig' | 'tacticalConfig'>,
+  next: Pick<BacktestRunRecord, 'backtestConfig' | 'tacticalConfig'>
+): ConfigChange[] {
+  return [
+    ...diffObjects('backtest', previous.backtestConfig, next.backtestConfig),
+    ...diffObjects('tactical', previous.tacticalConfig, next.tacticalConfig)
+  ];
+}
+
+export function summarizeRun(record: BacktestRunRecord): BacktestRunSummary {
+  const { results } = record;
+  return {
+    id: record.id,
+    createdAt: record.createdAt,
+    symbol: record.symbol,
+    timeframe: record.timeframe,
+    strategyId: record.backtestConfig.strategyId,
+    candleCount: record.dataRange.candleCount,
+    dataHash: record.dataHash,
+    rerunOf: record.rerunOf,
+    changeCount: record.changesFromPrevious.length,
+    totalTrades: results.totalTrades,
+    winRate: results.winRate,
+    expectancy: results.expectancy,
+    profitFactor: results.profitFactor,
+    totalPnLPercent: results.totalPnLPercent,
+    maxDrawdownPercent: results.maxDrawdownPercent
+  };
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Saved runs, newest first
+ */
+export async function listBacktestRuns(): Promise<BacktestRunSummary[]> {
+  const keys = (await getAllKeys()).filter(key => key.startsWith(`${SUMMARY_PREFIX}:`));
+  const summaries = await Promise.all(keys.map(key => get<BacktestRunSummary>(key)));
+
+  return summaries
+    .filter((s): s is BacktestRunSummary => !!s)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function loadBacktestRun(id: string): Promise<BacktestRunRecord | null> {
+  return get<BacktestRunRecord>(`${RUN_PREFIX}:${id}`);
+}
+
+/**
+ * Order flow a run replayed, null when it replayed none or predates storing it
+ */
+export async function loadRunOrderFlow(id: string): Promise<(AggrStats | null)[] | null> {
+  return get<(AggrStats | null)[]>(`${ORDER_FLOW_PREFIX}:${id}`);
+}
+
+export async function deleteBacktestRun(id: string): Promise<void> {
+  await Promise.all([
+    remove(`${RUN_PREFIX}:${id}`),
+    remove(`${SUMMARY_PREFIX}:${id}`),
+    remove(`${ORDER_FLOW_PREFIX}:${id}`)
+  ]);
+}
+
+/**
+ * Store a finished run, diffing its config against the previous run of the
+ * same strategy, and prune the oldest runs past MAX_STORED_RUNS
+ */
+export async function recordBacktestRun(input: RecordRunInput): Promise<BacktestRunRecord> {
+  const { candles, orderFlowSeries } = input;
+  const existing = await listBacktestRuns();
+
+  const previousSummary = existing.find(s => s.strategyId === input.backtestConfig.strategyId);
+  const previous = previousSummary ? await loadBacktestRun(previousSummary.id) : null;
+
+  const record: BacktestRunRecord = {
+    id: `bt-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    createdAt: Date.now(),
+    symbol: input.symbol,
+    timeframe: input.timeframe,
+    days: input.days,
+    dataRange: {
+      startTime: candles[0]?.time ?? 0,
+      endTime: candles[candles.length - 1]?.time ?? 0,
+      candleCount: candles.length
+    },
+    dataHash: hashCandles(candles),
+    orderFlowHash: hashOrderFlow(orderFlowSeries),
+    replayOrderFlow: input.replayOrderFlow,
+    backtestConfig: input.backtestConfig,
+    tacticalConfig: input.tacticalConfig,
+    changesFromPrevious: previous ? diffRunConfigs(previous, input) : [],
+    previousRunId: previous?.id ?? null,
+    rerunOf: input.rerunOf ?? null,
+    results: input.results
+  };
+
+  await set(`${RUN_PREFIX}:${record.id}`, record);
+  await set(`${SUMMARY_PREFIX}:${record.id}`, summarizeRun(record));
+  if (orderFlowSeries.length > 0) await set(`${ORDER_FLOW_PREFIX}:${record.id}`, orderFlowSeries);
+
+  const stale = existing.slice(MAX_STORED_RUNS - 1);
+  await Promise.all(stale.map(s => deleteBacktestRun(s.id)));
+
+  console.log(`[BacktestHistory] Recorded ${record.id} (${record.dataHash}, ${record.changesFromPrevious.length} config changes)`);
+  return record;
+}
+
+/**
+ * Download a run as JSON
+ */
+export function exportBacktestRun(record: BacktestRunRecord): void {
+  const blob = new Blob([JSON.stringify(record, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `backtest-${record.symbol}-${record.timeframe}-${new Date(record.createdAt).toISOString().split('T')[0]}-${record.id}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -35,14 +35,17 @@ export interface BacktestResults {
 
 /**
  * Fetch historical candles from Binance
+ * @param endTime Last candle open time in ms (omit for the latest candles)
  */
 export async function fetchHistoricalCandles(
   symbol: string = 'BTCUSDT',
   interval: string = '15m',
-  days: number = 30
+  days: number = 30,
+  endTime?: number
 ): Promise<ChartDataPoint[]> {
   const limit = Math.min(1000, days * 96); // 96 15-min candles per day
-  const url = `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`;
+  const url = `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`
+    + (endTime !== undefined ? `&endTime=${endTime}` : '');
 
   if (import.meta.env.DEV) {
     console.log(`[Backtest] Fetching ${limit} candles (${days} days) for ${symbol}...`);
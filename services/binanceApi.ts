@@ -10,7 +10,7 @@ let lastFailureTime = 0;
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-class ApiError extends Error {
+export class ApiError extends Error {
     status: number;
     constructor(message: string, status: number) {
         super(message);
@@ -64,7 +64,9 @@ export const binanceApi = {
                 const isRetryable = !status || status === 429 || status >= 500;
 
                 if (!isRetryable || attempt > maxRetries) {
-                    failureCount++;
+                    // 404 is an expected answer (e.g. cancelling an order that already filled),
+                    // not a sign the backend or exchange is failing
+                    if (status !== 404) failureCount++;
                     console.error(`Backend API Error [${endpoint}] (Attempt ${attempt}):`, error);
                     throw error;
                 }
@@ -81,10 +83,12 @@ export const binanceApi = {
     },
 
     // Trading Actions
-    placeOrder: async (symbol: string, side: 'BUY' | 'SELL', type: 'MARKET' | 'LIMIT', quantity: number, price?: number, leverage: number = 10) => {
+    // For STOP_MARKET entries `price` is the trigger (stopPrice)
+    placeOrder: async (symbol: string, side: 'BUY' | 'SELL', type: 'MARKET' | 'LIMIT' | 'STOP_MARKET', quantity: number, price?: number, leverage: number = 10, clientOrderId?: string) => {
         // Input validation
         if (quantity <= 0) throw new Error('Quantity must be greater than 0');
         if (type === 'LIMIT' && (!price || price <= 0)) throw new Error('Price is required for LIMIT orders');
+        if (type === 'STOP_MARKET' && (!price || price <= 0)) throw new Error('Trigger price is required for STOP_MARKET orders');
 
         // CRITICAL: Fresh balance check BEFORE placing order
         // Never rely on stale cached balance - always fetch real-time
@@ -124,7 +128,11 @@ export const binanceApi = {
             side,
             type,
             quantity,
-            price
+            price: type === 'LIMIT' ? price : undefined,
+            stopPrice: type === 'STOP_MARKET' ? price : undefined,
+            timeInForce: type === 'LIMIT' ? 'GTC' : undefined,
+            // Lets user data stream fills be matched back to this order
+            newClientOrderId: clientOrderId
         });
 
         // CRITICAL: Validate order was accepted by exchange before returning
@@ -146,6 +154,18 @@ export const binanceApi = {
         return orderResponse;
     },
 
+    // Market exit of part of a live position. reduceOnly, so no margin check is needed
+    reducePosition: async (symbol: string, positionSide: 'LONG' | 'SHORT', quantity: number): Promise<{ orderId: number; status: string; avgPrice?: string }> => {
+        if (quantity <= 0) throw new Error('Quantity must be greater than 0');
+        return binanceApi.request('/order', 'POST', {
+            symbol,
+            side: positionSide === 'LONG' ? 'SELL' : 'BUY',
+            type: 'MARKET',
+            quantity,
+            reduceOnly: true
+        });
+    },
+
     // Verify order status on exchange (for state sync)
     getOrderStatus: async (symbol: string, orderId: number): Promise<{ status: string; executedQty: string; avgPrice: string }> => {
         // This would call a backend endpoint that queries Binance order status
@@ -188,6 +208,29 @@ export const binanceApi = {
         });
     },
 
+    // For orders whose placement response never arrived. 404: the exchange doesn't know the order
+    cancelOrderByClientId: async (symbol: string, clientOrderId: string) => {
+        return binanceApi.request('/order', 'DELETE', {
+            symbol,
+            origClientOrderId: clientOrderId
+        });
+    },
+
+    // Exchange-native stop + reduce-only take-profits for a filled position
+    placeBracket: async (
+        symbol: string,
+        side: 'LONG' | 'SHORT',
+        stopLoss: number,
+        targets: { price: number; quantity: number }[]
+    ): Promise<{ stopOrder: { orderId: number }; takeProfitOrders: ({ orderId: number } | null)[]; failedTargets: number[] }> => {
+        return binanceApi.request('/bracket', 'POST', { symbol, side, stopLoss, targets });
+    },
+
+    // replaced: false means the new stop was rejected and the old one re-placed as stopOrder
+    replaceStop: async (symbol: string, side: 'LONG' | 'SHORT', stopPrice: number, cancelOrderId?: string): Promise<{ stopOrder: { orderId: number }; replaced: boolean }> => {
+        return binanceApi.request('/bracket/stop', 'POST', { symbol, side, stopPrice, cancelOrderId });
+    },
+
     getPositions: async () => {
         return binanceApi.request('/positions');
     },
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { parseOrderTradeUpdate, isTerminalOrderStatus } from './binanceWebSocket';
+
+// Trimmed ORDER_TRADE_UPDATE as sent on the futures user data stream
+const event = {
+  e: 'ORDER_TRADE_UPDATE',
+  E: 1700000000123,
+  T: 1700000000120,
+  o: {
+    s: 'BTCUSDT',
+    c: 'c0a8f1e2-5b9e-4c7f-9a7d-3b2f1e0d9c8b',
+    S: 'BUY',
+    o: 'MARKET',
+    q: '0.010',
+    X: 'PARTIALLY_FILLED',
+    x: 'TRADE',
+    i: 8886774,
+    l: '0.004',
+    z: '0.004',
+    L: '60010.5',
+    ap: '60010.50000',
+    N: 'USDT',
+    n: '0.09601680',
+    R: false,
+    rp: '0'
+  }
+};
+
+describe('parseOrderTradeUpdate', () => {
+  it('maps short field names and converts numeric strings', () => {
+    const update = parseOrderTradeUpdate(event);
+
+    expect(update.clientOrderId).toBe(event.o.c);
+    expect(update.orderId).toBe('8886774');
+    expect(update.status).toBe('PARTIALLY_FILLED');
+    expect(update.lastFilledQty).toBe(0.004);
+    expect(update.cumulativeFilledQty).toBe(0.004);
+    expect(update.averagePrice).toBe(60010.5);
+    expect(update.commission).toBeCloseTo(0.0960168);
+    expect(update.commissionAsset).toBe('USDT');
+    expect(update.eventTime).toBe(1700000000123);
+  });
+});
+
+describe('isTerminalOrderStatus', () => {
+  it('treats only finished orders as terminal', () => {
+    expect(isTerminalOrderStatus('NEW')).toBe(false);
+    expect(isTerminalOrderStatus('PARTIALLY_FILLED')).toBe(false);
+    expect(isTerminalOrderStatus('FILLED')).toBe(true);
+    expect(isTerminalOrderStatus('CANCELED')).toBe(true);
+    expect(isTerminalOrderStatus('EXPIRED')).toBe(true);
+  });
+});
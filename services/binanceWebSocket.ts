@@ -1,31 +1,119 @@
 import { useStore } from '../store/useStore';
 import { binanceApi } from './binanceApi';
+import { logOrderEvent } from './audit/auditLogger';
+import { Position, TargetLevel } from '../types';
+import { attachBracket, handleBracketFill } from './bracketOrders';
+
+/**
+ * BINANCE USER DATA STREAM
+ * Drives live positions from exchange events instead of optimistic local writes.
+ *
+ * - ORDER_TRADE_UPDATE: fills set real entry price, size and fees on tracked entry orders,
+ *   then the exchange bracket (stop + targets) is attached; bracket fills reduce/close the position
+ * - ACCOUNT_UPDATE: wallet balance and exchange unrealized P&L
+ * - ListenKey is kept alive every 30 min and the stream reconnects if it expires
+ */
+
+// Binance expires listenKeys after 60 min without a keep-alive
+const KEEP_ALIVE_MS = 30 * 60 * 1000;
+const RECONNECT_DELAY_MS = 5000;
 
 let ws: WebSocket | null = null;
-let keepAliveInterval: any = null;
+let keepAliveInterval: ReturnType<typeof setInterval> | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let manualDisconnect = false;
+
+export type OrderStatus = 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'EXPIRED' | 'REJECTED' | 'EXPIRED_IN_MATCH';
+
+/**
+ * Parsed ORDER_TRADE_UPDATE payload (the `o` object, numbers converted)
+ */
+export interface OrderTradeUpdate {
+    clientOrderId: string;
+    orderId: string;
+    symbol: string;
+    side: 'BUY' | 'SELL';
+    orderType: string;
+    status: OrderStatus;
+    executionType: string;
+    lastFilledQty: number;
+    lastFilledPrice: number;
+    cumulativeFilledQty: number;
+    averagePrice: number;
+    commission: number;
+    commissionAsset: string;
+    realizedProfit: number;
+    reduceOnly: boolean;
+    eventTime: number;
+}
+
+interface TrackedEntry {
+    type: 'LONG' | 'SHORT';
+    leverage: number;
+    stopLoss: number;
+    takeProfit: number;
+    targetLevels?: TargetLevel[];
+    signalId?: string;
+    fees: number;
+}
+
+// Entry orders placed by this client, keyed by newClientOrderId
+const trackedEntries = new Map<string, TrackedEntry>();
+let orderListeners: ((update: OrderTradeUpdate) => void)[] = [];
+
+export const isTerminalOrderStatus = (status: OrderStatus): boolean =>
+    status === 'FILLED' || status === 'CANCELED' || status === 'EXPIRED' ||
+    status === 'REJECTED' || status === 'EXPIRED_IN_MATCH';
+
+export function parseOrderTradeUpdate(data: any): OrderTradeUpdate {
+    const o = data.o;
+    return {
+        clientOrderId: String(o.c),
+        orderId: String(o.i),
+        symbol: o.s,
+        side: o.S,
+        orderType: o.o,
+        status: o.X,
+        executionType: o.x,
+        lastFilledQty: parseFloat(o.l) || 0,
+        lastFilledPrice: parseFloat(o.L) || 0,
+        cumulativeFilledQty: parseFloat(o.z) || 0,
+        averagePrice: parseFloat(o.ap) || 0,
+        commission: parseFloat(o.n) || 0,
+        commissionAsset: o.N || 'USDT',
+        realizedProfit: parseFloat(o.rp) || 0,
+        reduceOnly: !!o.R,
+        eventTime: data.E || Date.now()
+    };
+}
 
 export const binanceWS = {
     connect: async () => {
         try {
             const { isLiveMode } = useStore.getState();
             if (!isLiveMode) return;
+            if (ws) return;
 
+            manualDisconnect = false;
             console.log('[Binance WS] Requesting ListenKey...');
             const listenKey = await binanceApi.createListenKey();
-            
+
             const wsUrl = `wss://stream.binancefuture.com/ws/${listenKey}`;
             ws = new WebSocket(wsUrl);
 
             ws.onopen = () => {
                 console.log('[Binance WS] Connected to User Data Stream');
-                
-                // Keep-alive every 50 mins (Binance requires every 60m)
+
                 if (keepAliveInterval) clearInterval(keepAliveInterval);
                 keepAliveInterval = setInterval(() => {
                     binanceApi.keepAliveListenKey(listenKey)
                         .then(() => console.log('[Binance WS] ListenKey kept alive'))
-                        .catch(e => console.error('[Binance WS] Keep-alive failed', e));
-                }, 50 * 60 * 1000);
+                        .catch(e => {
+                            // Key is likely gone - a fresh connection gets a new one
+                            console.error('[Binance WS] Keep-alive failed, reconnecting', e);
+                            reconnect();
+                        });
+                }, KEEP_ALIVE_MS);
             };
 
             ws.onmessage = (event) => {
@@ -43,16 +131,27 @@ export const binanceWS = {
 
             ws.onclose = () => {
                 console.log('[Binance WS] Disconnected');
-                if (keepAliveInterval) clearInterval(keepAliveInterval);
-                // Simple reconnect logic could go here
+                ws = null;
+                if (keepAliveInterval) {
+                    clearInterval(keepAliveInterval);
+                    keepAliveInterval = null;
+                }
+                if (!manualDisconnect) scheduleReconnect();
             };
 
         } catch (error) {
             console.error('[Binance WS] Connection Failed:', error);
+            ws = null;
+            scheduleReconnect();
         }
     },
 
     disconnect: () => {
+        manualDisconnect = true;
+        if (reconnectTimer) {
+            clearTimeout(reconnectTimer);
+            reconnectTimer = null;
+        }
         if (ws) {
             ws.close();
             ws = null;
@@ -61,59 +160,174 @@ export const binanceWS = {
             clearInterval(keepAliveInterval);
             keepAliveInterval = null;
         }
+    },
+
+    /**
+     * Register an entry order before it is sent so its fills open the local position.
+     * Must happen first - the fill event can beat the REST response.
+     */
+    trackEntryOrder: (clientOrderId: string, entry: Omit<TrackedEntry, 'fees'>) => {
+        trackedEntries.set(clientOrderId, { ...entry, fees: 0 });
+    },
+
+    untrackEntryOrder: (clientOrderId: string) => {
+        trackedEntries.delete(clientOrderId);
+    },
+
+    onOrderUpdate: (listener: (update: OrderTradeUpdate) => void): (() => void) => {
+        orderListeners.push(listener);
+        return () => {
+            orderListeners = orderListeners.filter(l => l !== listener);
+        };
     }
 };
 
-function handleMessage(data: any) {
-    const { updateBalance, updatePositionPnl, addPosition, closePosition } = useStore.getState();
+function reconnect() {
+    if (ws) {
+        // onclose schedules the reconnect
+        ws.close();
+    } else {
+        scheduleReconnect();
+    }
+}
+
+function scheduleReconnect() {
+    if (manualDisconnect || reconnectTimer || !useStore.getState().isLiveMode) return;
+
+    reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        binanceWS.connect();
+    }, RECONNECT_DELAY_MS);
+}
 
-    // Event: ORDER_TRADE_UPDATE
+function handleMessage(data: any) {
     if (data.e === 'ORDER_TRADE_UPDATE') {
-        const order = data.o;
-        const orderId = order.i.toString(); // Use Client Order ID or Exchange Order ID?
-        // Note: Our local IDs are timestamps. We might need to map them or just use exchange IDs.
-        
-        console.log('[Binance WS] Order Update:', order.s, order.S, order.X);
-
-        // If filled, we might want to refresh positions from API to be safe
-        if (order.X === 'FILLED') {
-            // For POC, let's just re-fetch all positions to sync state
-            binanceApi.getPositions().then(positions => {
-                // We need to map Binance positions to our App's Position type
-                // This is a bit complex because we need to merge with existing state
-                // For now, let's just log it.
-                console.log('[Binance WS] Positions Synced:', positions);
-            });
-        }
+        handleOrderUpdate(parseOrderTradeUpdate(data));
     }
 
-    // Event: ACCOUNT_UPDATE (Balance & PnL)
     if (data.e === 'ACCOUNT_UPDATE') {
-        const update = data.a;
-        
-        // Update Balance
-        const walletBalance = parseFloat(update.B[0].wb);
-        useStore.setState({ balance: walletBalance });
-
-        // Update Positions PnL
-        update.P.forEach((pos: any) => {
-            const symbol = pos.s;
-            const unrealizedPnL = parseFloat(pos.up);
-            const amount = parseFloat(pos.pa);
-            
-            // Find matching position in store (by symbol)
-            // This is imperfect if we have multiple positions per symbol (hedge mode), 
-            // but for One-Way mode it works.
-            const storePositions = useStore.getState().positions;
-            const match = storePositions.find(p => p.pair.replace('/', '') === symbol || p.pair === symbol);
-            
-            if (match) {
-                // Calculate % PnL roughly
-                const margin = (match.entryPrice * match.size) / match.leverage;
-                const pnlPercent = margin > 0 ? (unrealizedPnL / margin) * 100 : 0;
-                
-                updatePositionPnl(match.id, unrealizedPnL, pnlPercent);
+        handleAccountUpdate(data.a);
+    }
+
+    if (data.e === 'listenKeyExpired') {
+        console.warn('[Binance WS] ListenKey expired, reconnecting');
+        reconnect();
+    }
+}
+
+function handleOrderUpdate(update: OrderTradeUpdate) {
+    console.log('[Binance WS] Order Update:', update.symbol, update.side, update.status);
+
+    const entry = trackedEntries.get(update.clientOrderId);
+    if (entry) {
+        applyEntryFill(update, entry);
+
+        if (isTerminalOrderStatus(update.status)) {
+            trackedEntries.delete(update.clientOrderId);
+            if (update.cumulativeFilledQty > 0) {
+                void attachBracket(update.clientOrderId);
             }
+            logOrderEvent(update.cumulativeFilledQty > 0 ? 'FILLED' : 'REJECTED', {
+                orderId: update.orderId,
+                symbol: update.symbol,
+                side: update.side,
+                type: update.orderType,
+                quantity: update.cumulativeFilledQty,
+                price: update.averagePrice,
+                reason: update.status
+            });
+        }
+    } else if (!handleBracketFill(update) && update.lastFilledQty > 0) {
+        // Exits and exchange-side brackets: charge the fee to the open position on that symbol
+        const { positions } = useStore.getState();
+        const match = positions.find(p => p.pair === update.symbol);
+        if (match) {
+            useStore.setState({
+                positions: positions.map(p => p.id === match.id
+                    ? { ...p, fees: (p.fees || 0) + commissionInQuote(update) }
+                    : p)
+            });
+        }
+    }
+
+    for (const listener of orderListeners) {
+        try {
+            listener(update);
+        } catch (error) {
+            console.error('[Binance WS] Order listener error:', error);
+        }
+    }
+}
+
+function applyEntryFill(update: OrderTradeUpdate, entry: TrackedEntry) {
+    if (update.lastFilledQty <= 0) return;
+
+    entry.fees += commissionInQuote(update);
+
+    const { positions, addPosition } = useStore.getState();
+    const existing = positions.find(p => p.id === update.clientOrderId);
+    const entryPrice = update.averagePrice || update.lastFilledPrice;
+    const isLong = entry.type === 'LONG';
+
+    const filled: Position = {
+        id: update.clientOrderId,
+        pair: update.symbol,
+        type: entry.type,
+        entryPrice,
+        size: update.cumulativeFilledQty,
+        leverage: entry.leverage,
+        liquidationPrice: isLong ? entryPrice * (1 - 1 / entry.leverage) : entryPrice * (1 + 1 / entry.leverage),
+        stopLoss: entry.stopLoss,
+        takeProfit: entry.takeProfit,
+        targetLevels: entry.targetLevels?.map(t => ({ ...t })),
+        signalId: entry.signalId,
+        pnl: existing?.pnl ?? 0,
+        pnlPercent: existing?.pnlPercent ?? 0,
+        fees: entry.fees,
+        exchangeOrderId: update.orderId,
+        timestamp: existing?.timestamp ?? update.eventTime
+    };
+
+    if (existing) {
+        useStore.setState({
+            positions: positions.map(p => p.id === filled.id ? filled : p)
         });
+    } else {
+        addPosition(filled);
+    }
+}
+
+// Fees in BNB (discount mode) can't be priced here - count only quote-asset commission
+function commissionInQuote(update: OrderTradeUpdate): number {
+    return update.commissionAsset === 'USDT' || update.commissionAsset === 'USDC'
+        ? update.commission
+        : 0;
+}
+
+function handleAccountUpdate(update: any) {
+    const { updatePositionPnl } = useStore.getState();
+
+    // Wallet balance
+    const usdt = (update.B || []).find((b: any) => b.a === 'USDT');
+    if (usdt) {
+        useStore.setState({ balance: parseFloat(usdt.wb) });
     }
+
+    // Exchange-marked unrealized P&L
+    (update.P || []).forEach((pos: any) => {
+        const symbol = pos.s;
+        const unrealizedPnL = parseFloat(pos.up);
+        const amount = parseFloat(pos.pa);
+        if (amount === 0) return;
+
+        const side = pos.ps === 'LONG' || pos.ps === 'SHORT' ? pos.ps : amount > 0 ? 'LONG' : 'SHORT';
+        const match = useStore.getState().positions.find(p => p.pair === symbol && p.type === side);
+
+        if (match) {
+            const margin = (match.entryPrice * match.size) / match.leverage;
+            const pnlPercent = margin > 0 ? (unrealizedPnL / margin) * 100 : 0;
+
+            updatePositionPnl(match.id, unrealizedPnL, pnlPercent);
+        }
+    });
 }
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { splitBracketQuantities } from './bracketOrders';
+import { TargetLevel } from '../types';
+
+const target = (price: number, positionPct: number): TargetLevel => ({
+  price,
+  rMultiple: 1,
+  positionPct,
+  status: 'PENDING'
+});
+
+// Default V3.3 split: 25 / 35 / 25 / 15
+const targets = [target(101, 25), target(102, 35), target(103, 25), target(104, 15)];
+
+describe('splitBracketQuantities', () => {
+  it('splits by positionPct and gives the last target the remainder', () => {
+    const split = splitBracketQuantities(1, targets, 3);
+
+    expect(split.map(t => t.quantity)).toEqual([0.25, 0.35, 0.25, 0.15]);
+    expect(split.map(t => t.index)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('never allocates more than the filled size after rounding down', () => {
+    const split = splitBracketQuantities(0.013, targets, 3);
+    const total = split.reduce((sum, t) => sum + t.quantity, 0);
+
+    expect(total).toBeCloseTo(0.013, 6);
+    split.forEach(t => expect(t.quantity).toBeGreaterThan(0));
+  });
+
+  it('rolls slices below the exchange step into the next target', () => {
+    // 3 contracts at 0 decimals: 0.75 rounds to 0 and carries into TP2
+    const split = splitBracketQuantities(3, targets, 0);
+
+    expect(split[0].index).toBe(1);
+    expect(split.reduce((sum, t) => sum + t.quantity, 0)).toBe(3);
+  });
+});
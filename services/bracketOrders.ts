@@ -0,0 +1,340 @@
+/**
+ * EXCHANGE BRACKET ORDERS
+ * Live positions get their stop and targets as resting exchange orders, so they
+ * stay protected when the tab closes. usePositionMonitor only marks them to market.
+ *
+ * - Stop: STOP_MARKET closePosition (always covers whatever size remains)
+ * - Targets: reduce-only TAKE_PROFIT_MARKET per targetLevel, sized by positionPct
+ * - Stop moves to entry on the exchange once the configured TP fills
+ * - Trailing stop moves from positionManagement replace the exchange stop
+ */
+
+import { useStore } from '../store/useStore';
+import { Position, TargetLevel } from '../types';
+import { binanceApi } from './binanceApi';
+import { getSymbolConfig } from './symbolRegistry';
+import { logPositionEvent, logRiskAlert } from './audit/auditLogger';
+import type { OrderTradeUpdate } from './binanceWebSocket';
+
+export interface BracketTarget {
+  index: number; // Position in targetLevels
+  price: number;
+  quantity: number;
+}
+
+const roundTo = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+/**
+ * Split a filled size across targets by positionPct, rounded to the exchange step.
+ * Slices that round to zero roll into the next target; the last target takes the remainder.
+ */
+export function splitBracketQuantities(
+  size: number,
+  targetLevels: TargetLevel[],
+  quantityPrecision: number
+): BracketTarget[] {
+  const totalPct = targetLevels.reduce((sum, t) => sum + t.positionPct, 0);
+  if (totalPct <= 0 || size <= 0) return [];
+
+  const result: BracketTarget[] = [];
+  let allocated = 0;
+  let carried = 0;
+
+  targetLevels.forEach((target, index) => {
+    const isLast = index === targetLevels.length - 1;
+    const raw = isLast ? size - allocated : size * (target.positionPct / totalPct) + carried;
+    const quantity = roundTo(Math.floor(raw * 10 ** quantityPrecision + 1e-9) / 10 ** quantityPrecision, quantityPrecision);
+
+    if (quantity <= 0) {
+      carried = raw;
+      return;
+    }
+
+    carried = 0;
+    allocated = roundTo(allocated + quantity, quantityPrecision);
+    result.push({ index, price: target.price, quantity });
+  });
+
+  return result;
+}
+
+function patchPosition(id: string, patch: (p: Position) => Position): Position | undefined {
+  const { positions } = useStore.getState();
+  let updated: Position | undefined;
+
+  useStore.setState({
+    positions: positions.map(p => {
+      if (p.id !== id) return p;
+      updated = patch(p);
+      return updated;
+    })
+  });
+
+  return updated;
+}
+
+/**
+ * Attach exchange stop + targets to a live position whose entry has filled
+ */
+export async function attachBracket(positionId: string): Promise<void> {
+  const position = useStore.getState().positions.find(p => p.id === positionId);
+  if (!position || position.bracket) return;
+
+  const { pricePrecision, quantityPrecision } = getSymbolConfig(position.pair);
+
+  // Manual trades without a signal plan get a single full-size target
+  const targetLevels: TargetLevel[] = position.targetLevels?.length
+    ? position.targetLevels
+    : [{ price: position.takeProfit, rMultiple: 0, positionPct: 100, status: 'PENDING' }];
+
+  const targets = splitBracketQuantities(position.size, targetLevels, quantityPrecision)
+    .filter(t => t.price > 0)
+    .map(t => ({ ...t, price: roundTo(t.price, pricePrecision) }));
+
+  try {
+    const response = await binanceApi.placeBracket(
+      position.pair,
+      position.type,
+      roundTo(position.stopLoss, pricePrecision),
+      targets.map(({ price, quantity }) => ({ price, quantity }))
+    );
+
+    const takeProfitOrderIds: (string | null)[] = targetLevels.map(() => null);
+    targets.forEach((target, i) => {
+      const order = response.takeProfitOrders[i];
+      takeProfitOrderIds[target.index] = order ? String(order.orderId) : null;
+    });
+
+    patchPosition(positionId, p => ({
+      ...p,
+      targetLevels,
+      bracket: {
+        stopOrderId: String(response.stopOrder.orderId),
+        stopPrice: roundTo(position.stopLoss, pricePrecision),
+        entrySize: position.size,
+        takeProfitOrderIds,
+        breakevenApplied: false
+      }
+    }));
+
+    if (response.failedTargets.length > 0) {
+      logRiskAlert('BRACKET_TARGETS_FAILED', 'HIGH', {
+        positionId,
+        symbol: position.pair,
+        failedTargets: response.failedTargets.map(i => targets[i]?.index)
+      });
+    }
+
+    console.log(`[Bracket] Attached stop + ${targets.length - response.failedTargets.length} targets to ${position.pair} ${position.type}`);
+  } catch (error) {
+    // No exchange stop: the local monitor keeps enforcing SL/TP for this position
+    console.error('[Bracket] Failed to attach bracket:', error);
+    logRiskAlert('BRACKET_ATTACH_FAILED', 'CRITICAL', {
+      positionId,
+      symbol: position.pair,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Apply a stop / take-profit execution from the user data stream.
+ * Returns false if the update doesn't belong to any bracket.
+ */
+export function handleBracketFill(update: OrderTradeUpdate): boolean {
+  const { positions } = useStore.getState();
+  const position = positions.find(p =>
+    p.bracket && (p.bracket.stopOrderId === update.orderId || p.bracket.takeProfitOrderIds.includes(update.orderId))
+  );
+  if (!position || !position.bracket) return false;
+  if (update.lastFilledQty <= 0) return true;
+
+  const isStop = position.bracket.stopOrderId === update.orderId;
+  const fee = update.commissionAsset === 'USDT' || update.commissionAsset === 'USDC' ? update.commission : 0;
+  const remainingSize = Math.max(0, position.size - update.lastFilledQty);
+  const { quantityPrecision } = getSymbolConfig(position.pair);
+
+  const updated = patchPosition(position.id, p => ({
+    ...p,
+    size: roundTo(remainingSize, quantityPrecision),
+    fees: (p.fees || 0) + fee,
+    realizedPnl: (p.realizedPnl || 0) + update.realizedProfit,
+    targetLevels: isStop ? p.targetLevels : p.targetLevels?.map((t, i) =>
+      p.bracket?.takeProfitOrderIds[i] === update.orderId && update.status === 'FILLED'
+        ? { ...t, status: 'HIT' as const, hitTime: update.eventTime, hitPrice: update.averagePrice }
+        : t
+    )
+  }));
+  if (!updated) return true;
+
+  if ((isStop && update.status === 'FILLED') || updated.size <= 0) {
+    finalizeBracketClose(updated, update, isStop ? 'STOP_LOSS' : 'TAKE_PROFIT');
+    return true;
+  }
+
+  if (update.status === 'FILLED') {
+    // Keyed on the target level: a slice too small to place rolls into the next target,
+    // so the order filling at TP2 can carry TP1's slice as well
+    const tpNumber = updated.bracket!.takeProfitOrderIds.indexOf(update.orderId) + 1;
+    const breakevenAt = useStore.getState().tacticalConfig.moveStopToBreakevenAtTp;
+    if (tpNumber > 0 && breakevenAt > 0 && tpNumber >= breakevenAt && !updated.bracket!.breakevenApplied) {
+      void moveStopToBreakeven(updated);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Swap the exchange stop for one at stopPrice and return its order id. If the exchange
+ * rejects the new stop the old one is re-placed under a new id, recorded here, and this throws.
+ */
+async function replaceExchangeStop(position: Position, stopPrice: number): Promise<string> {
+  const { stopOrder, replaced } = await binanceApi.replaceStop(position.pair, position.type, stopPrice, position.bracket?.stopOrderId);
+  const stopOrderId = String(stopOrder.orderId);
+
+  if (!replaced) {
+    patchPosition(position.id, p => ({ ...p, bracket: p.bracket && { ...p.bracket, stopOrderId } }));
+    throw new Error(`Stop @ ${stopPrice} rejected - previous stop restored`);
+  }
+  return stopOrderId;
+}
+
+async function moveStopToBreakeven(position: Position): Promise<void> {
+  if (!position.bracket) return;
+  const { pricePrecision } = getSymbolConfig(position.pair);
+  const stopPrice = roundTo(position.entryPrice, pricePrecision);
+
+  try {
+    const stopOrderId = await replaceExchangeStop(position, stopPrice);
+
+    patchPosition(position.id, p => ({
+      ...p,
+      stopLoss: stopPrice,
+      bracket: p.bracket && {
+        ...p.bracket,
+        stopOrderId,
+        stopPrice,
+        breakevenApplied: true
+      }
+    }));
+
+    logPositionEvent('MODIFIED', {
+      positionId: position.id,
+      symbol: position.pair,
+      side: position.type,
+      quantity: position.size,
+      entryPrice: position.entryPrice,
+      reason: 'BRACKET_BREAKEVEN'
+    });
+    console.log(`[Bracket] Stop moved to breakeven @ ${stopPrice} for ${position.pair}`);
+  } catch (error) {
+    // Original stop is still resting - the position stays protected, just not at breakeven
+    console.error('[Bracket] Breakeven move failed:', error);
+    logRiskAlert('BRACKET_BREAKEVEN_FAILED', 'HIGH', {
+      positionId: position.id,
+      symbol: position.pair,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+// One stop replacement per position at a time; the monitor asks again on its next tick.
+// After a failure the position waits out a doubling backoff instead of retrying every tick.
+const trailsInFlight = new Set<string>();
+const trailBackoff = new Map<string, { failures: number; retryAt: number }>();
+const TRAIL_RETRY_BASE_MS = 5 * 1000;
+const TRAIL_RETRY_MAX_MS = 5 * 60 * 1000;
+
+/**
+ * Replace the exchange stop with a tighter trailing stop
+ */
+export async function trailBracketStop(position: Position, stopPrice: number): Promise<void> {
+  if (!position.bracket || trailsInFlight.has(position.id)) return;
+  const backoff = trailBackoff.get(position.id);
+  if (backoff && Date.now() < backoff.retryAt) return;
+  const { pricePrecision } = getSymbolConfig(position.pair);
+  const roundedStop = roundTo(stopPrice, pricePrecision);
+  if (roundedStop === position.bracket.stopPrice) return;
+
+  trailsInFlight.add(position.id);
+  try {
+    const stopOrderId = await replaceExchangeStop(position, roundedStop);
+
+    patchPosition(position.id, p => ({
+      ...p,
+      stopLoss: roundedStop,
+      trailingStopActive: true,
+      bracket: p.bracket && { ...p.bracket, stopOrderId, stopPrice: roundedStop }
+    }));
+    trailBackoff.delete(position.id);
+    console.log(`[Bracket] Trailing stop moved to ${roundedStop} for ${position.pair}`);
+  } catch (error) {
+    // Previous stop is still resting, so the position stays protected at the older level
+    const failures = (backoff?.failures ?? 0) + 1;
+    const delay = Math.min(TRAIL_RETRY_BASE_MS * 2 ** (failures - 1), TRAIL_RETRY_MAX_MS);
+    trailBackoff.set(position.id, { failures, retryAt: Date.now() + delay });
+    console.error(`[Bracket] Trailing stop move failed (retry in ${delay / 1000}s):`, error);
+    logRiskAlert('BRACKET_TRAIL_FAILED', 'MEDIUM', {
+      positionId: position.id,
+      symbol: position.pair,
+      failures,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  } finally {
+    trailsInFlight.delete(position.id);
+  }
+}
+
+function finalizeBracketClose(
+  position: Position,
+  update: OrderTradeUpdate,
+  reason: 'STOP_LOSS' | 'TAKE_PROFIT'
+): void {
+  const { closePosition, recordTradeClose } = useStore.getState();
+  const bracket = position.bracket!;
+  trailBackoff.delete(position.id);
+
+  // Leftover resting orders would otherwise fire against a future position
+  const leftovers = [bracket.stopOrderId, ...bracket.takeProfitOrderIds]
+    .filter((id): id is string => !!id && id !== update.orderId);
+  for (const orderId of leftovers) {
+    binanceApi.cancelOrder(position.pair, Number(orderId))
+      .catch(() => { /* already filled or cancelled */ });
+  }
+
+  const pnl = (position.realizedPnl || 0) - (position.fees || 0);
+  const margin = (position.entryPrice * bracket.entrySize) / position.leverage;
+  const pnlPercent = margin > 0 ? (pnl / margin) * 100 : 0;
+
+  closePosition(position.id, pnl);
+  recordTradeClose({
+    id: `journal-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+    date: Date.now(),
+    pair: position.pair,
+    type: position.type,
+    entryPrice: position.entryPrice,
+    exitPrice: update.averagePrice,
+    size: bracket.entrySize,
+    leverage: position.leverage,
+    pnl,
+    pnlPercent,
+    entryTime: position.timestamp,
+    exitTime: update.eventTime,
+    notes: `Exchange ${reason === 'STOP_LOSS' ? 'stop' : 'take-profit'} filled`,
+    tags: [reason, position.type, 'EXCHANGE_BRACKET'],
+    mood: pnl > 0 ? 'CONFIDENT' : 'FRUSTRATED',
+    result: pnl > 0 ? 'WIN' : pnl < 0 ? 'LOSS' : 'BE'
+  });
+
+  logPositionEvent('CLOSED', {
+    positionId: position.id,
+    symbol: position.pair,
+    side: position.type,
+    quantity: bracket.entrySize,
+    entryPrice: position.entryPrice,
+    exitPrice: update.averagePrice,
+    pnl,
+    reason: `BRACKET_${reason}`
+  });
+}
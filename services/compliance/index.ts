@@ -28,6 +28,13 @@ export {
   stopPeriodicReconciliation,
   triggerReconciliation,
   getReconciliationHealth,
+  onReconciliation,
+  mapPositionRisk,
+  getReconciliationIssues,
+  resolveReconciliationIssue,
   type ExchangePosition,
-  type ReconciliationResult
+  type BinancePositionRisk,
+  type ReconciliationResult,
+  type ReconciliationIssue,
+  type ReconciliationAction
 } from './positionReconciler';
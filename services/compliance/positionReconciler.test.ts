@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { mapPositionRisk, getReconciliationIssues, BinancePositionRisk, ReconciliationResult } from './positionReconciler';
+import { Position } from '../../types';
+
+const row = (overrides: Partial<BinancePositionRisk>): BinancePositionRisk => ({
+  symbol: 'BTCUSDT',
+  positionAmt: '0.010',
+  entryPrice: '60000.0',
+  unRealizedProfit: '12.5',
+  leverage: '10',
+  liquidationPrice: '54500.0',
+  positionSide: 'BOTH',
+  updateTime: 1700000000000,
+  ...overrides
+});
+
+const local = (id: string): Position => ({
+  id,
+  pair: 'BTCUSDT',
+  type: 'LONG',
+  entryPrice: 60000,
+  size: 0.01,
+  leverage: 10,
+  liquidationPrice: 54500,
+  stopLoss: 59000,
+  takeProfit: 62000,
+  pnl: 0,
+  pnlPercent: 0,
+  timestamp: 1700000000000
+});
+
+describe('mapPositionRisk', () => {
+  it('parses string fields and derives side from the amount in one-way mode', () => {
+    expect(mapPositionRisk(row({}))).toEqual({
+      symbol: 'BTCUSDT',
+      side: 'LONG',
+      quantity: 0.01,
+      entryPrice: 60000,
+      unrealizedPnl: 12.5,
+      leverage: 10,
+      liquidationPrice: 54500,
+      timestamp: 1700000000000
+    });
+
+    const short = mapPositionRisk(row({ positionAmt: '-0.5' }));
+    expect(short?.side).toBe('SHORT');
+    expect(short?.quantity).toBe(0.5);
+  });
+
+  it('uses positionSide in hedge mode', () => {
+    expect(mapPositionRisk(row({ positionSide: 'SHORT', positionAmt: '-0.2' }))?.side).toBe('SHORT');
+  });
+
+  it('leaves the liquidation price unset when the exchange reports 0', () => {
+    expect(mapPositionRisk(row({ positionAmt: '-0.5', liquidationPrice: '0' }))?.liquidationPrice).toBeUndefined();
+  });
+
+  it('skips flat rows', () => {
+    expect(mapPositionRisk(row({ positionAmt: '0.000' }))).toBeNull();
+  });
+});
+
+describe('getReconciliationIssues', () => {
+  it('offers adopt only for remote positions and close only for local ones', () => {
+    const remote = mapPositionRisk(row({ symbol: 'ETHUSDT' }))!;
+    const result: ReconciliationResult = {
+      matched: [],
+      mismatched: [],
+      orphanedLocal: [local('p1')],
+      orphanedRemote: [remote],
+      lastReconciled: 0,
+      isClean: false,
+      summary: ''
+    };
+
+    const [orphanLocal, orphanRemote] = getReconciliationIssues(result);
+    expect(orphanLocal.kind).toBe('ORPHANED_LOCAL');
+    expect(orphanLocal.actions).toEqual(['CLOSE_LOCAL', 'FLAG_FOR_REVIEW']);
+    expect(orphanRemote.kind).toBe('ORPHANED_REMOTE');
+    expect(orphanRemote.actions).toEqual(['ADOPT_REMOTE', 'FLAG_FOR_REVIEW']);
+  });
+});
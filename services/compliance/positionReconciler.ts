@@ -4,7 +4,9 @@
  */
 
 import { Position } from '../../types';
-import { logRiskAlert } from '../audit/auditLogger';
+import { logRiskAlert, logPositionEvent } from '../audit/auditLogger';
+import { binanceApi } from '../binanceApi';
+import { useStore } from '../../store/useStore';
 import { getSyncedTime } from './timeSync';
 
 export interface ExchangePosition {
@@ -14,10 +16,25 @@ export interface ExchangePosition {
   entryPrice: number;
   unrealizedPnl: number;
   leverage: number;
-  liquidationPrice: number;
+  liquidationPrice?: number;     // Undefined when the exchange reports none (0)
   timestamp: number;
 }
 
+/**
+ * Raw row from GET /api/trading/positions (Binance /fapi/v2/positionRisk).
+ * Numbers arrive as strings.
+ */
+export interface BinancePositionRisk {
+  symbol: string;
+  positionAmt: string;
+  entryPrice: string;
+  unRealizedProfit: string;
+  leverage: string;
+  liquidationPrice: string;
+  positionSide?: 'BOTH' | 'LONG' | 'SHORT';
+  updateTime?: number;
+}
+
 export interface ReconciliationResult {
   matched: ReconciliationMatch[];
   mismatched: ReconciliationMismatch[];
@@ -28,6 +45,13 @@ export interface ReconciliationResult {
   summary: string;
 }
 
+export type ReconciliationAction = 'ADOPT_REMOTE' | 'CLOSE_LOCAL' | 'FLAG_FOR_REVIEW';
+
+export type ReconciliationIssue =
+  | { id: string; kind: 'MISMATCH'; mismatch: ReconciliationMismatch; actions: ReconciliationAction[]; flagged: boolean }
+  | { id: string; kind: 'ORPHANED_LOCAL'; localPosition: Position; actions: ReconciliationAction[]; flagged: boolean }
+  | { id: string; kind: 'ORPHANED_REMOTE'; remotePosition: ExchangePosition; actions: ReconciliationAction[]; flagged: boolean };
+
 interface ReconciliationMatch {
   localPosition: Position;
   remotePosition: ExchangePosition;
@@ -35,7 +59,7 @@ interface ReconciliationMatch {
   priceMatch: boolean;
 }
 
-interface ReconciliationMismatch {
+export interface ReconciliationMismatch {
   localPosition: Position;
   remotePosition: ExchangePosition;
   discrepancies: {
@@ -51,16 +75,46 @@ const QUANTITY_TOLERANCE = 0.00001; // Tiny quantity tolerance for floating poin
 
 let lastReconciliation: ReconciliationResult | null = null;
 let reconciliationInterval: number | null = null;
+let reconciliationListeners: ((result: ReconciliationResult) => void)[] = [];
+const flaggedIssues = new Set<string>();
+
+/**
+ * Map a positionRisk row to an ExchangePosition. Flat rows (positionAmt 0) return null.
+ * One-way mode reports positionSide BOTH, so the side comes from the sign of the amount.
+ */
+export function mapPositionRisk(raw: BinancePositionRisk): ExchangePosition | null {
+  const amount = parseFloat(raw.positionAmt);
+  if (!Number.isFinite(amount) || Math.abs(amount) < QUANTITY_TOLERANCE) return null;
+
+  const liquidationPrice = parseFloat(raw.liquidationPrice);
+  const side: ExchangePosition['side'] = raw.positionSide === 'LONG' || raw.positionSide === 'SHORT'
+    ? raw.positionSide
+    : amount > 0 ? 'LONG' : 'SHORT';
+
+  return {
+    symbol: raw.symbol,
+    side,
+    quantity: Math.abs(amount),
+    entryPrice: parseFloat(raw.entryPrice) || 0,
+    unrealizedPnl: parseFloat(raw.unRealizedProfit) || 0,
+    leverage: parseFloat(raw.leverage) || 1,
+    liquidationPrice: liquidationPrice > 0 ? liquidationPrice : undefined,
+    timestamp: raw.updateTime || getSyncedTime()
+  };
+}
 
 /**
- * Fetch positions from exchange (mock implementation)
- * In production, this would call the actual exchange API
+ * Fetch open positions from the exchange via the backend proxy
  */
 async function fetchExchangePositions(): Promise<ExchangePosition[]> {
-  // Mock implementation - returns empty array
-  // Real implementation would call Binance Futures API
-  console.log('[PositionReconciler] Fetching exchange positions (mock)');
-  return [];
+  const rows: BinancePositionRisk[] = await binanceApi.getPositions();
+  if (!Array.isArray(rows)) {
+    throw new Error('Unexpected /positions response');
+  }
+
+  return rows
+    .map(mapPositionRisk)
+    .filter((p): p is ExchangePosition => p !== null);
 }
 
 /**
@@ -165,7 +219,7 @@ export async function reconcilePositions(
       logReconciliationAlerts(result);
     }
 
-    lastReconciliation = result;
+    setLastReconciliation(result);
     return result;
 
   } catch (error) {
@@ -181,7 +235,7 @@ export async function reconcilePositions(
       summary: `Reconciliation failed: ${error}`
     };
 
-    lastReconciliation = errorResult;
+    setLastReconciliation(errorResult);
     return errorResult;
   }
 }
@@ -257,6 +311,31 @@ function logReconciliationAlerts(result: ReconciliationResult): void {
   }
 }
 
+/**
+ * Store the latest result and notify subscribers
+ */
+function setLastReconciliation(result: ReconciliationResult): void {
+  lastReconciliation = result;
+
+  for (const listener of reconciliationListeners) {
+    try {
+      listener(result);
+    } catch (error) {
+      console.error('[PositionReconciler] Listener error:', error);
+    }
+  }
+}
+
+/**
+ * Subscribe to reconciliation results
+ */
+export function onReconciliation(callback: (result: ReconciliationResult) => void): () => void {
+  reconciliationListeners.push(callback);
+  return () => {
+    reconciliationListeners = reconciliationListeners.filter(cb => cb !== callback);
+  };
+}
+
 /**
  * Get last reconciliation result
  */
@@ -284,12 +363,10 @@ export function startPeriodicReconciliation(
     clearInterval(reconciliationInterval);
   }
 
-  reconciliationInterval = window.setInterval(() => {
-    const positions = getPositions();
-    if (positions.length > 0) {
-      reconcilePositions(positions);
-    }
-  }, intervalMs);
+  // Run even with no local positions - untracked exchange positions are the critical case
+  const run = () => { void reconcilePositions(getPositions()); };
+  run();
+  reconciliationInterval = window.setInterval(run, intervalMs);
 
   console.log('[PositionReconciler] Started periodic reconciliation');
 }
@@ -351,3 +428,192 @@ export function getReconciliationHealth(): {
     lastCheck: lastReconciliation.lastReconciled
   };
 }
+
+// ============================================================================
+// RESOLUTION ACTIONS
+// ============================================================================
+
+/**
+ * Flatten a result into actionable issues. Every action taken on an issue is audit-logged.
+ */
+export function getReconciliationIssues(
+  result: ReconciliationResult | null = lastReconciliation
+): ReconciliationIssue[] {
+  if (!result) return [];
+
+  const issues: ReconciliationIssue[] = [
+    ...result.mismatched.map((mismatch): ReconciliationIssue => ({
+      id: `mismatch-${mismatch.localPosition.id}`,
+      kind: 'MISMATCH',
+      mismatch,
+      actions: ['ADOPT_REMOTE', 'CLOSE_LOCAL', 'FLAG_FOR_REVIEW'],
+      flagged: false
+    })),
+    ...result.orphanedLocal.map((localPosition): ReconciliationIssue => ({
+      id: `local-${localPosition.id}`,
+      kind: 'ORPHANED_LOCAL',
+      localPosition,
+      actions: ['CLOSE_LOCAL', 'FLAG_FOR_REVIEW'],
+      flagged: false
+    })),
+    ...result.orphanedRemote.map((remotePosition): ReconciliationIssue => ({
+      id: `remote-${remotePosition.symbol}-${remotePosition.side}`,
+      kind: 'ORPHANED_REMOTE',
+      remotePosition,
+      actions: ['ADOPT_REMOTE', 'FLAG_FOR_REVIEW'],
+      flagged: false
+    }))
+  ];
+
+  return issues.map(issue => ({ ...issue, flagged: flaggedIssues.has(issue.id) }));
+}
+
+/**
+ * Apply a resolution action to an issue from the last reconciliation
+ */
+export function resolveReconciliationIssue(
+  issue: ReconciliationIssue,
+  action: ReconciliationAction
+): void {
+  if (!issue.actions.includes(action)) {
+    throw new Error(`${action} is not valid for ${issue.kind}`);
+  }
+
+  const reason = `RECONCILIATION_${action}`;
+
+  if (action === 'FLAG_FOR_REVIEW') {
+    flaggedIssues.add(issue.id);
+    logRiskAlert('RECONCILIATION_FLAGGED', issue.kind === 'ORPHANED_REMOTE' ? 'CRITICAL' : 'HIGH', {
+      issueId: issue.id,
+      kind: issue.kind,
+      ...(issue.kind === 'MISMATCH' && { discrepancies: issue.mismatch.discrepancies }),
+      ...(issue.kind === 'ORPHANED_LOCAL' && { positionId: issue.localPosition.id }),
+      ...(issue.kind === 'ORPHANED_REMOTE' && { remotePosition: issue.remotePosition })
+    });
+    notifyResolved();
+    return;
+  }
+
+  const { positions, addPosition, closePosition, recordTradeClose } = useStore.getState();
+
+  if (action === 'ADOPT_REMOTE' && issue.kind === 'ORPHANED_REMOTE') {
+    const remote = issue.remotePosition;
+    const adopted: Position = {
+      id: `adopted-${remote.symbol}-${remote.side}-${remote.timestamp}`,
+      pair: remote.symbol,
+      type: remote.side,
+      entryPrice: remote.entryPrice,
+      size: remote.quantity,
+      leverage: remote.leverage,
+      liquidationPrice: remote.liquidationPrice ?? 0,
+      // Exchange positions carry no brackets - set them manually after adopting
+      stopLoss: 0,
+      takeProfit: 0,
+      pnl: remote.unrealizedPnl,
+      pnlPercent: 0,
+      timestamp: remote.timestamp
+    };
+
+    addPosition(adopted);
+    logPositionEvent('OPENED', {
+      positionId: adopted.id,
+      symbol: adopted.pair,
+      side: adopted.type,
+      quantity: adopted.size,
+      entryPrice: adopted.entryPrice,
+      reason
+    });
+  } else if (action === 'ADOPT_REMOTE' && issue.kind === 'MISMATCH') {
+    const { localPosition, remotePosition } = issue.mismatch;
+
+    useStore.setState({
+      positions: positions.map(p => p.id === localPosition.id
+        ? {
+            ...p,
+            size: remotePosition.quantity,
+            entryPrice: remotePosition.entryPrice,
+            leverage: remotePosition.leverage,
+            liquidationPrice: remotePosition.liquidationPrice ?? 0
+          }
+        : p)
+    });
+    logPositionEvent('MODIFIED', {
+      positionId: localPosition.id,
+      symbol: localPosition.pair,
+      side: localPosition.type,
+      quantity: remotePosition.quantity,
+      entryPrice: remotePosition.entryPrice,
+      reason
+    });
+  } else if (action === 'CLOSE_LOCAL' && issue.kind !== 'ORPHANED_REMOTE') {
+    const localPosition = issue.kind === 'MISMATCH' ? issue.mismatch.localPosition : issue.localPosition;
+    const current = positions.find(p => p.id === localPosition.id) || localPosition;
+
+    // Exchange no longer agrees with this record - realize its last marked P&L and drop it
+    closePosition(current.id, current.pnl);
+    const direction = current.type === 'LONG' ? 1 : -1;
+    const now = Date.now();
+    recordTradeClose({
+      id: `journal-${now}-${Math.random().toString(36).substring(2, 11)}`,
+      date: now,
+      pair: current.pair,
+      type: current.type,
+      entryPrice: current.entryPrice,
+      // Price the marked P&L was taken at
+      exitPrice: current.size > 0 ? current.entryPrice + direction * current.pnl / current.size : current.entryPrice,
+      size: current.size,
+      leverage: current.leverage,
+      pnl: current.pnl,
+      pnlPercent: current.pnlPercent,
+      entryTime: current.timestamp,
+      exitTime: now,
+      notes: `Closed locally by reconciliation (${issue.kind.replace('_', ' ').toLowerCase()})`,
+      tags: ['RECONCILED', current.type],
+      mood: 'NEUTRAL',
+      result: current.pnl > 0 ? 'WIN' : current.pnl < 0 ? 'LOSS' : 'BE'
+    });
+    logPositionEvent('CLOSED', {
+      positionId: current.id,
+      symbol: current.pair,
+      side: current.type,
+      quantity: current.size,
+      entryPrice: current.entryPrice,
+      pnl: current.pnl,
+      reason
+    });
+  }
+
+  flaggedIssues.delete(issue.id);
+  if (lastReconciliation) {
+    lastReconciliation = withoutIssue(lastReconciliation, issue);
+  }
+  notifyResolved();
+}
+
+function withoutIssue(result: ReconciliationResult, issue: ReconciliationIssue): ReconciliationResult {
+  const mismatched = issue.kind === 'MISMATCH'
+    ? result.mismatched.filter(m => m !== issue.mismatch)
+    : result.mismatched;
+  const orphanedLocal = issue.kind === 'ORPHANED_LOCAL'
+    ? result.orphanedLocal.filter(p => p.id !== issue.localPosition.id)
+    : result.orphanedLocal;
+  const orphanedRemote = issue.kind === 'ORPHANED_REMOTE'
+    ? result.orphanedRemote.filter(p => p !== issue.remotePosition)
+    : result.orphanedRemote;
+  const isClean = mismatched.length === 0 && orphanedLocal.length === 0 && orphanedRemote.length === 0;
+
+  return {
+    ...result,
+    mismatched,
+    orphanedLocal,
+    orphanedRemote,
+    isClean,
+    summary: buildSummary(result.matched, mismatched, orphanedLocal, orphanedRemote)
+  };
+}
+
+function notifyResolved(): void {
+  if (lastReconciliation) {
+    setLastReconciliation({ ...lastReconciliation });
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { buildChartFootprints } from './footprintService';
+import { buildFootprint } from './workers/footprint';
+
+const minuteBar = (seconds: number, levels: Array<[number, number, number]>) =>
+  buildFootprint(seconds * 1000, 1, new Map(levels.map(([index, buy, sell]) => [index, { buy, sell }])));
+
+describe('buildChartFootprints', () => {
+  it('merges minute bars into chart bars and coarsens tall candles', () => {
+    const candles = buildChartFootprints(
+      [
+        minuteBar(0, [[100, 10, 0]]),
+        minuteBar(300, [[100, 5, 5], [101, 1, 0]]),
+        minuteBar(360, [[110, 0, 7]]),
+        minuteBar(600, [[120, 3, 0]]),   // past the last bar
+        minuteBar(660, [])
+      ],
+      [300, 420],
+      4
+    );
+
+    expect(candles).toHaveLength(1);
+    const [bar] = candles;
+    expect(bar.time).toBe(300000);
+    // 100..110 is 11 rows at tick 1 -> tick 3 for at most 4 rows
+    expect(bar.tickSize).toBe(3);
+    expect(bar.levels.map(l => [l.price, l.buyVolume, l.sellVolume])).toEqual([[99, 6, 5], [108, 0, 7]]);
+    expect(buildChartFootprints([minuteBar(0, [[1, 1, 0]])], [])).toEqual([]);
+  });
+});
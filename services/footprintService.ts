@@ -0,0 +1,129 @@
+/**
+ * FOOTPRINT SERVICE (main thread)
+ *
+ * Keeps the worker's minute footprint bars (FOOTPRINT_UPDATE) for the active
+ * symbol, and folds them into chart candles for the footprint chart mode:
+ * - Minute bars are merged into each chart bar they fall inside
+ * - The tick is coarsened per candle so tall candles stay readable
+ *
+ * @version 1.0.0
+ */
+
+import { FootprintCandle } from '../types/aggrTypes';
+import { mergeFootprints } from './workers/footprint';
+
+type FootprintListener = (symbol: string) => void;
+
+const MAX_MINUTE_BARS = 720;       // 12 hours
+const DEFAULT_MAX_ROWS = 24;       // Price rows per chart candle
+
+// ============================================================================
+// CHART CANDLES
+// ============================================================================
+
+/**
+ * Merge minute footprints into chart candles. barTimes are ascending bar opens
+ * (chart seconds); minute bars outside [first open, last open + bar length) are
+ * dropped. Each candle's tick is a whole multiple of the minute tick, sized to
+ * at most maxRows price rows.
+ */
+export function buildChartFootprints(
+  minuteBars: FootprintCandle[],
+  barTimes: number[],
+  maxRows: number = DEFAULT_MAX_ROWS
+): FootprintCandle[] {
+  if (barTimes.length === 0) return [];
+
+  const barSeconds = barTimes.length > 1 ? barTimes[1] - barTimes[0] : 60;
+  const end = barTimes[barTimes.length - 1] + barSeconds;
+  const groups = new Map<number, FootprintCandle[]>();
+
+  for (const bar of minuteBars) {
+    const seconds = bar.time / 1000;
+    if (seconds < barTimes[0] || seconds >= end || bar.levels.length === 0) continue;
+
+    // Last chart bar opening at or before the minute bar
+    let lo = 0;
+    let hi = barTimes.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (barTimes[mid] <= seconds) lo = mid;
+      else hi = mid - 1;
+    }
+
+    const group = groups.get(barTimes[lo]) ?? [];
+    group.push(bar);
+    groups.set(barTimes[lo], group);
+  }
+
+  return [...groups.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([time, bars]) => {
+      const baseTick = Math.max(...bars.map(b => b.tickSize));
+      const low = Math.min(...bars.map(b => b.levels[0].price));
+      const high = Math.max(...bars.map(b => b.levels[b.levels.length - 1].price));
+      const rows = Math.round((high - low) / baseTick) + 1;
+      const tick = baseTick * Math.max(1, Math.ceil(rows / maxRows));
+      return mergeFootprints(bars, time * 1000, tick);
+    });
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class FootprintService {
+  private symbol: string | null = null;
+  private bars: Map<number, FootprintCandle> = new Map();
+  private listeners: Set<FootprintListener> = new Set();
+
+  update(symbol: string, candles: FootprintCandle[]): void {
+    // New symbol: minute bars from the old one would corrupt the merge
+    if (this.symbol !== symbol) {
+      this.symbol = symbol;
+      this.bars.clear();
+    }
+
+    // The worker resends the forming bar every tick; latest copy wins
+    for (const candle of candles) this.bars.set(candle.time, candle);
+
+    if (this.bars.size > MAX_MINUTE_BARS) {
+      const times = [...this.bars.keys()].sort((a, b) => a - b);
+      for (const time of times.slice(0, times.length - MAX_MINUTE_BARS)) this.bars.delete(time);
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(symbol);
+      } catch (e) {
+        console.error('[Footprint] Listener error:', e);
+      }
+    });
+  }
+
+  getSymbol(): string | null {
+    return this.symbol;
+  }
+
+  /**
+   * Minute bars, oldest first
+   */
+  getMinuteBars(): FootprintCandle[] {
+    return [...this.bars.values()].sort((a, b) => a.time - b.time);
+  }
+
+  subscribe(listener: FootprintListener): () => void {
+    this.listeners.add(listener);
+    if (this.symbol) listener(this.symbol);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.symbol = null;
+    this.bars.clear();
+  }
+}
+
+export const footprintService = new FootprintService();
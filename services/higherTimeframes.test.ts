@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { HigherTimeframeSeries, timeframeSeconds } from './higherTimeframes';
+import { ChartDataPoint } from '../types';
+
+// 15m bars from midnight, price rising by 1 per bar
+const bars = (count: number, start: number = 0): ChartDataPoint[] =>
+  Array.from({ length: count }, (_, i) => ({
+    time: start + i * 900,
+    open: 100 + i,
+    high: 101 + i,
+    low: 99 + i,
+    close: 100.5 + i,
+    volume: 10
+  }));
+
+describe('higher timeframe resampling', () => {
+  it('parses timeframe strings', () => {
+    expect(timeframeSeconds('15m')).toBe(900);
+    expect(timeframeSeconds('4h')).toBe(14400);
+    expect(timeframeSeconds('1w')).toBe(604800);
+    expect(timeframeSeconds('bogus')).toBe(900);
+  });
+
+  it('aggregates closed bars and cuts the forming one at the current bar', () => {
+    const series = new HigherTimeframeSeries(bars(10), ['1h']);
+
+    const [htf] = series.at(5);
+    expect(htf.timeframe).toBe('1h');
+    expect(htf.chartData).toHaveLength(2);
+    expect(htf.chartData[0]).toEqual({ time: 0, open: 100, high: 104, low: 99, close: 103.5, volume: 40 });
+    // Bars 4-5 only: bars 6-7 of the same hour have not happened yet
+    expect(htf.chartData[1]).toEqual({ time: 3600, open: 104, high: 106, low: 103, close: 105.5, volume: 20 });
+  });
+
+  it('never reads bars after the current one', () => {
+    const data = bars(12);
+    const series = new HigherTimeframeSeries(data, ['1h', '4h']);
+    const before = series.at(6);
+
+    const spiked = data.map((bar, i) => i > 6 ? { ...bar, high: 1000 } : bar);
+    expect(new HigherTimeframeSeries(spiked, ['1h', '4h']).at(6)).toEqual(before);
+  });
+
+  it('opens weekly bars on Monday like Binance', () => {
+    const monday = 4 * 86400; // 1970-01-05
+    const series = new HigherTimeframeSeries(bars(3, monday - 900), ['1w']);
+    const [htf] = series.at(2);
+    expect(htf.chartData.map(c => c.time)).toEqual([monday - 604800, monday]);
+  });
+});
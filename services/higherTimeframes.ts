@@ -0,0 +1,109 @@
+/**
+ * HIGHER TIMEFRAMES
+ * Which context timeframes the V3.3 generator reads per chart timeframe, and
+ * how a backtest gets them: candles resampled from its own bars, so each bar
+ * sees only the higher-timeframe history that existed when it closed.
+ *
+ * Live signal generation fetches the same timeframes from Binance
+ * (marketData.fetchHigherTimeframeData). A resampled timeframe with fewer bars
+ * than the generator's trend read needs is skipped by it, so early bars of a
+ * short backtest only get the nearer context timeframe.
+ */
+
+import { ChartDataPoint, HigherTimeframeData } from '../types';
+
+// Context timeframes the V3.3 generator checks trend and structure against, per chart timeframe
+export const HIGHER_TIMEFRAMES: Record<string, string[]> = {
+  '1m': ['15m', '1h'],
+  '5m': ['1h', '4h'],
+  '15m': ['1h', '4h'],
+  '1h': ['4h', '1d'],
+  '4h': ['1d', '1w'],
+  '1d': ['1w']
+};
+
+/** Candles per context timeframe, as many as the live klines request returns */
+export const HTF_CANDLE_LIMIT = 200;
+
+const UNIT_SECONDS: Record<string, number> = { m: 60, h: 3600, d: 86400, w: 604800 };
+
+/** Binance weeks open on Monday, four days after the epoch's Thursday */
+const WEEK_OFFSET_SECONDS = 4 * 86400;
+
+/** '15m' -> 900; unknown formats fall back to 15 minutes */
+export const timeframeSeconds = (timeframe: string): number => {
+  const match = /^(\d+)([mhdw])$/.exec(timeframe);
+  return match ? Number(match[1]) * UNIT_SECONDS[match[2]] : 900;
+};
+
+/** Open time (seconds) of the timeframe bar that contains time */
+const bucketStart = (time: number, seconds: number, offset: number) =>
+  Math.floor((time - offset) / seconds) * seconds + offset;
+
+interface ResampledTimeframe {
+  timeframe: string;
+  candles: ChartDataPoint[];     // One per bucket, complete over the whole series
+  bucketOf: number[];            // Base bar index -> index into candles
+  firstBar: number[];            // Bucket index -> first base bar in it
+}
+
+/**
+ * Higher-timeframe candles built from a backtest's base bars. at(index) returns
+ * every context bar closed by base bar index plus the one still forming, cut
+ * at that bar - the same shape live klines have mid-bar.
+ */
+export class HigherTimeframeSeries {
+  private resampled: ResampledTimeframe[];
+  private chartData: ChartDataPoint[];
+
+  constructor(chartData: ChartDataPoint[], timeframes: string[]) {
+    this.chartData = chartData;
+    this.resampled = timeframes.map(timeframe => {
+      const seconds = timeframeSeconds(timeframe);
+      const offset = timeframe.endsWith('w') ? WEEK_OFFSET_SECONDS : 0;
+      const candles: ChartDataPoint[] = [];
+      const bucketOf: number[] = [];
+      const firstBar: number[] = [];
+
+      chartData.forEach((bar, i) => {
+        const time = bucketStart(bar.time, seconds, offset);
+        const last = candles[candles.length - 1];
+        if (last && last.time === time) {
+          candles[candles.length - 1] = {
+            ...last,
+            high: Math.max(last.high, bar.high),
+            low: Math.min(last.low, bar.low),
+            close: bar.close,
+            volume: last.volume + bar.volume
+          };
+        } else {
+          candles.push({ time, open: bar.open, high: bar.high, low: bar.low, close: bar.close, volume: bar.volume });
+          firstBar.push(i);
+        }
+        bucketOf.push(candles.length - 1);
+      });
+
+      return { timeframe, candles, bucketOf, firstBar };
+    });
+  }
+
+  at(index: number): HigherTimeframeData[] {
+    if (index < 0 || index >= this.chartData.length) return [];
+
+    return this.resampled.map(({ timeframe, candles, bucketOf, firstBar }) => {
+      const bucket = bucketOf[index];
+      const forming = this.chartData.slice(firstBar[bucket], index + 1);
+      const current: ChartDataPoint = {
+        time: candles[bucket].time,
+        open: forming[0].open,
+        high: Math.max(...forming.map(c => c.high)),
+        low: Math.min(...forming.map(c => c.low)),
+        close: forming[forming.length - 1].close,
+        volume: forming.reduce((sum, c) => sum + c.volume, 0)
+      };
+
+      const closed = candles.slice(Math.max(0, bucket - HTF_CANDLE_LIMIT + 1), bucket);
+      return { timeframe, chartData: [...closed, current] };
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { buildPositionCohorts, estimateLiquidationMap, DEFAULT_LIQUIDATION_CONFIG } from './liquidationMap';
+import { ChartDataPoint } from '../types';
+
+const oi = (timestamp: number, openInterest: number, price: number) =>
+  ({ timestamp, openInterest, openInterestUsd: openInterest * price });
+
+const candle = (seconds: number, low: number, high: number, close: number): ChartDataPoint =>
+  ({ time: seconds, open: close, high, low, close, volume: 1 });
+
+const config = { ...DEFAULT_LIQUIDATION_CONFIG, tiers: [{ leverage: 10, weight: 1 }], maintenanceMargin: 0, magnetReachPercent: 12 };
+
+describe('liquidation map', () => {
+  it('opens cohorts on rising OI split by taker flow and closes them pro rata', () => {
+    const cohorts = buildPositionCohorts(
+      [oi(0, 100, 100), oi(900000, 110, 100), oi(1800000, 99, 100)],
+      [{ timestamp: 900000, buyVolume: 3, sellVolume: 1 }]
+    );
+
+    expect(cohorts).toHaveLength(1);
+    expect(cohorts[0].entry).toBe(100);
+    expect(cohorts[0].longUsd).toBeCloseTo(1000 * 0.75 * 0.9);
+    expect(cohorts[0].shortUsd).toBeCloseTo(1000 * 0.25 * 0.9);
+  });
+
+  it('bins liquidation prices by leverage and drops levels price already swept', () => {
+    const cohorts = [
+      { time: 0, entry: 100, longUsd: 600, shortUsd: 200 },
+      { time: 0, entry: 102, longUsd: 50, shortUsd: 0 }
+    ];
+
+    const map = estimateLiquidationMap('BTCUSDT', cohorts, [candle(0, 95, 105, 100), candle(900, 96, 101, 100)], config)!;
+    expect(map.binSize).toBe(0.25);
+    expect(map.bins.map(b => [b.price, b.longUsd, b.shortUsd])).toEqual([[90, 600, 0], [91.75, 50, 0], [110, 0, 200]]);
+    expect(map.magnetBelow).toEqual({ price: 90.125, usd: 600 });
+    expect(map.magnetAbove).toEqual({ price: 110.125, usd: 200 });
+
+    // A wick to 91 liquidated the 10x longs from 102, not those from 100
+    const swept = estimateLiquidationMap('BTCUSDT', cohorts, [candle(0, 91, 105, 100), candle(900, 96, 101, 100)], config)!;
+    expect(swept.bins.map(b => b.price)).toEqual([90, 110]);
+    expect(estimateLiquidationMap('BTCUSDT', cohorts, [], config)).toBeNull();
+  });
+
+  it('picks magnets only within reach of price', () => {
+    const tiers = [{ leverage: 10, weight: 0.8 }, { leverage: 50, weight: 0.2 }];
+    const cohorts = [{ time: 0, entry: 100, longUsd: 1000, shortUsd: 1000 }];
+    const candles = [candle(0, 99, 101, 100)];
+
+    const near = estimateLiquidationMap('BTCUSDT', cohorts, candles, { ...config, tiers, magnetReachPercent: 3 })!;
+    expect(near.magnetBelow).toEqual({ price: 98.125, usd: 200 });
+    expect(near.magnetAbove).toEqual({ price: 102.125, usd: 200 });
+
+    const far = estimateLiquidationMap('BTCUSDT', cohorts, candles, { ...config, tiers })!;
+    expect(far.magnetBelow).toEqual({ price: 90.125, usd: 800 });
+  });
+});
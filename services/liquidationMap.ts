@@ -0,0 +1,258 @@
+/**
+ * LIQUIDATION MAP ESTIMATOR
+ *
+ * Estimates where leveraged positions would be liquidated, ahead of price:
+ * - Every rise in open interest is treated as new positions opened at that
+ *   period's price, split long/short by the period's taker buy/sell volume
+ * - Falls in open interest close existing positions pro rata
+ * - Each cohort is spread across typical leverage tiers; its liquidation
+ *   price is entry * (1 -/+ 1/leverage +/- maintenance margin)
+ * - Levels price has already traded through are dropped as liquidated
+ * - Magnets are the largest clusters within magnetReachPercent of price,
+ *   the distance the order-flow score acts on
+ *
+ * Prices are the perpetual's (fapi klines), the market the open interest is in.
+ *
+ * Estimates only - exchanges don't publish positions or leverage.
+ *
+ * @version 1.0.0
+ */
+
+import { ChartDataPoint } from '../types';
+import { LiquidationBin, LiquidationMagnet, LiquidationMap } from '../types/aggrTypes';
+import {
+  fetchFuturesKlines,
+  fetchOpenInterestHistory,
+  fetchTakerVolumeHistory,
+  OpenInterestHistoryPoint,
+  TakerVolumePoint
+} from './macroDataService';
+import { niceStep } from './workers/orderBook';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LeverageTier {
+  leverage: number;
+  weight: number;        // Share of new positions using this leverage
+}
+
+export interface LiquidationMapConfig {
+  tiers: LeverageTier[];
+  maintenanceMargin: number;     // Fraction of notional
+  rangePercent: number;          // Bins cover reference price +/- this
+  binPercent: number;            // Bin size as a percent of price (rounded to a nice step)
+  magnetReachPercent: number;    // Magnets only from bins this close to price (tacticalSignalsV33 scores within 3%)
+}
+
+export const DEFAULT_LIQUIDATION_CONFIG: LiquidationMapConfig = {
+  tiers: [
+    { leverage: 5, weight: 0.1 },
+    { leverage: 10, weight: 0.25 },
+    { leverage: 25, weight: 0.3 },
+    { leverage: 50, weight: 0.2 },
+    { leverage: 100, weight: 0.15 }
+  ],
+  maintenanceMargin: 0.004,
+  rangePercent: 12,
+  binPercent: 0.25,
+  magnetReachPercent: 3
+};
+
+export interface PositionCohort {
+  time: number;          // ms
+  entry: number;
+  longUsd: number;
+  shortUsd: number;
+}
+
+const OI_PERIOD = '15m';
+const OI_POINTS = 480;            // 5 days of 15m periods
+const REFRESH_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// ESTIMATION
+// ============================================================================
+
+/**
+ * Open-interest cohorts still held at the end of the history
+ */
+export function buildPositionCohorts(
+  oiHistory: OpenInterestHistoryPoint[],
+  takerHistory: TakerVolumePoint[]
+): PositionCohort[] {
+  const taker = new Map(takerHistory.map(t => [t.timestamp, t]));
+  const points = [...oiHistory]
+    .filter(p => p.openInterest > 0 && p.openInterestUsd > 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  let cohorts: PositionCohort[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    const change = point.openInterest - prev.openInterest;
+
+    if (change > 0) {
+      const entry = point.openInterestUsd / point.openInterest;
+      const flow = taker.get(point.timestamp);
+      const flowTotal = flow ? flow.buyVolume + flow.sellVolume : 0;
+      const longShare = flowTotal > 0 ? flow!.buyVolume / flowTotal : 0.5;
+      const notional = change * entry;
+      cohorts.push({ time: point.timestamp, entry, longUsd: notional * longShare, shortUsd: notional * (1 - longShare) });
+    } else if (change < 0) {
+      const remaining = Math.max(0, 1 - -change / prev.openInterest);
+      cohorts = cohorts.map(c => ({ ...c, longUsd: c.longUsd * remaining, shortUsd: c.shortUsd * remaining }));
+    }
+  }
+
+  return cohorts;
+}
+
+/**
+ * Bin the cohorts' liquidation prices around the last candle's close, dropping
+ * levels the candles have traded through since the cohort opened
+ */
+export function estimateLiquidationMap(
+  symbol: string,
+  cohorts: PositionCohort[],
+  candles: ChartDataPoint[],
+  config: LiquidationMapConfig = DEFAULT_LIQUIDATION_CONFIG
+): LiquidationMap | null {
+  if (candles.length === 0) return null;
+
+  const referencePrice = candles[candles.length - 1].close;
+  const binSize = niceStep(referencePrice * config.binPercent / 100);
+  const low = referencePrice * (1 - config.rangePercent / 100);
+  const high = referencePrice * (1 + config.rangePercent / 100);
+
+  // Lowest low / highest high from each candle to the end
+  const minLow: number[] = new Array(candles.length);
+  const maxHigh: number[] = new Array(candles.length);
+  for (let i = candles.length - 1; i >= 0; i--) {
+    minLow[i] = Math.min(candles[i].low, i + 1 < candles.length ? minLow[i + 1] : Infinity);
+    maxHigh[i] = Math.max(candles[i].high, i + 1 < candles.length ? maxHigh[i + 1] : -Infinity);
+  }
+  const firstCandleAfter = (time: number) => {
+    const index = candles.findIndex(c => c.time * 1000 >= time);
+    return index === -1 ? candles.length : index;
+  };
+
+  const bins = new Map<number, LiquidationBin>();
+  const add = (price: number, side: 'long' | 'short', usd: number) => {
+    if (price < low || price > high || usd <= 0) return;
+    const index = Math.floor(price / binSize);
+    const bin = bins.get(index) ?? { price: index * binSize, longUsd: 0, shortUsd: 0 };
+    if (side === 'long') bin.longUsd += usd;
+    else bin.shortUsd += usd;
+    bins.set(index, bin);
+  };
+
+  for (const cohort of cohorts) {
+    const start = firstCandleAfter(cohort.time);
+    const sweptLow = start < candles.length ? minLow[start] : Infinity;
+    const sweptHigh = start < candles.length ? maxHigh[start] : -Infinity;
+
+    for (const tier of config.tiers) {
+      const longLiq = cohort.entry * (1 - 1 / tier.leverage + config.maintenanceMargin);
+      const shortLiq = cohort.entry * (1 + 1 / tier.leverage - config.maintenanceMargin);
+      if (sweptLow > longLiq) add(longLiq, 'long', cohort.longUsd * tier.weight);
+      if (sweptHigh < shortLiq) add(shortLiq, 'short', cohort.shortUsd * tier.weight);
+    }
+  }
+
+  const sorted = [...bins.values()].sort((a, b) => a.price - b.price);
+  const reach = referencePrice * config.magnetReachPercent / 100;
+  const strongest = (side: 'long' | 'short', above: boolean): LiquidationMagnet | null => {
+    let best: LiquidationMagnet | null = null;
+    for (const bin of sorted) {
+      const centre = bin.price + binSize / 2;
+      const usd = side === 'long' ? bin.longUsd : bin.shortUsd;
+      const inReach = above
+        ? centre > referencePrice && centre - referencePrice <= reach
+        : centre < referencePrice && referencePrice - centre <= reach;
+      if (inReach && usd > (best?.usd ?? 0)) {
+        best = { price: centre, usd };
+      }
+    }
+    return best;
+  };
+
+  return {
+    symbol,
+    timestamp: Date.now(),
+    referencePrice,
+    binSize,
+    bins: sorted,
+    magnetAbove: strongest('short', true),
+    magnetBelow: strongest('long', false)
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+type LiquidationMapListener = (map: LiquidationMap) => void;
+
+class LiquidationMapService {
+  private maps: Map<string, LiquidationMap> = new Map();
+  private inFlight: Map<string, Promise<LiquidationMap | null>> = new Map();
+  private listeners: Set<LiquidationMapListener> = new Set();
+
+  /**
+   * Cached map for symbol, re-estimated once it is older than REFRESH_MS
+   */
+  async getMap(symbol: string): Promise<LiquidationMap | null> {
+    const cached = this.maps.get(symbol);
+    if (cached && Date.now() - cached.timestamp < REFRESH_MS) return cached;
+
+    const pending = this.inFlight.get(symbol);
+    if (pending) return pending;
+
+    const request = this.refresh(symbol).finally(() => this.inFlight.delete(symbol));
+    this.inFlight.set(symbol, request);
+    return request;
+  }
+
+  getCached(symbol: string): LiquidationMap | null {
+    return this.maps.get(symbol) ?? null;
+  }
+
+  subscribe(listener: LiquidationMapListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async refresh(symbol: string): Promise<LiquidationMap | null> {
+    const [oiHistory, takerHistory, candles] = await Promise.all([
+      fetchOpenInterestHistory(symbol, OI_PERIOD, OI_POINTS),
+      fetchTakerVolumeHistory(symbol, OI_PERIOD, OI_POINTS),
+      fetchFuturesKlines(symbol, OI_PERIOD, OI_POINTS)
+    ]);
+
+    if (oiHistory.length < 2 || candles.length === 0) {
+      console.warn(`[LiquidationMap] Not enough data for ${symbol} (OI: ${oiHistory.length}, candles: ${candles.length})`);
+      return this.maps.get(symbol) ?? null;
+    }
+
+    const map = estimateLiquidationMap(symbol, buildPositionCohorts(oiHistory, takerHistory), candles);
+    if (!map) return null;
+
+    this.maps.set(symbol, map);
+    console.log(`[LiquidationMap] ${symbol}: ${map.bins.length} bins, magnets ${map.magnetBelow?.price.toFixed(2) ?? '-'} / ${map.magnetAbove?.price.toFixed(2) ?? '-'}`);
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(map);
+      } catch (e) {
+        console.error('[LiquidationMap] Listener error:', e);
+      }
+    });
+    return map;
+  }
+}
+
+export const liquidationMapService = new LiquidationMapService();
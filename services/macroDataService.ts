@@ -6,8 +6,14 @@
  * - Funding Rate & OI: Binance Futures API
  * - Fear & Greed: Alternative.me API
  * - Volume & ATR: Binance Spot API
+ *
+ * Symbol-specific fetches take the exchange symbol (default BTCUSDT);
+ * DVOL, DXY, BTC dominance and Fear & Greed stay market-wide.
  */
 
+import { DEFAULT_SYMBOL, getSymbolConfig } from './symbolRegistry';
+import { ChartDataPoint } from '../types';
+
 export interface MacroData {
   vix: number;  // DVOL (Deribit BTC Volatility Index)
   dxy: number;
@@ -54,11 +60,12 @@ export interface EnhancedBTCMetrics {
  * Positive = longs pay shorts (bullish sentiment)
  * Negative = shorts pay longs (bearish sentiment)
  * Typical range: -0.1% to +0.1% (per 8 hours)
+ * Returns null when the rate could not be fetched
  */
-export async function fetchFundingRate(): Promise<number> {
+export async function fetchFundingRate(symbol: string = DEFAULT_SYMBOL): Promise<number | null> {
   try {
     // Binance Futures API - no auth needed for public data
-    const response = await fetch('https://fapi.binance.com/fapi/v1/premiumIndex?symbol=BTCUSDT', {
+    const response = await fetch(`https://fapi.binance.com/fapi/v1/premiumIndex?symbol=${symbol}`, {
       headers: {
         'Accept': 'application/json'
       }
@@ -75,11 +82,11 @@ export async function fetchFundingRate(): Promise<number> {
       throw new Error('Invalid funding rate data');
     }
 
-    console.log(`[Macro Data] Funding Rate: ${fundingRate.toFixed(4)}% (Binance)`);
+    console.log(`[Macro Data] ${symbol} Funding Rate: ${fundingRate.toFixed(4)}% (Binance)`);
     return fundingRate;
   } catch (error) {
     console.warn('[Macro Data] Funding Rate fetch failed:', error);
-    return 0;
+    return null;
   }
 }
 
@@ -196,7 +203,7 @@ async function fetchDXY(): Promise<number> {
  * Returns real data from APIs, not AI search results
  * Now uses backend proxy to avoid CORS issues
  */
-export async function fetchMacroData(): Promise<MacroData> {
+export async function fetchMacroData(symbol: string = DEFAULT_SYMBOL): Promise<MacroData> {
   console.log('[Macro Data] Fetching macro data...');
 
   try {
@@ -206,7 +213,7 @@ export async function fetchMacroData(): Promise<MacroData> {
       fetchDVOL(),
       fetchDXY(),
       fetchBTCDominance(),
-      fetchFundingRate()
+      fetchFundingRate(symbol).then(rate => rate ?? 0)
     ]);
 
     console.log('[Macro Data] VIX:', vix, '| DXY:', dxy, '| BTC.D:', btcd, '| Funding:', fundingRate.toFixed(4) + '%');
@@ -222,7 +229,7 @@ export async function fetchMacroData(): Promise<MacroData> {
  * Fetch derivatives metrics (Open Interest, Funding Rate) from Binance Futures API
  * Now using REAL Binance data instead of CoinGlass or AI search
  */
-export async function fetchDerivativesMetrics(): Promise<{
+export async function fetchDerivativesMetrics(symbol: string = DEFAULT_SYMBOL): Promise<{
   openInterest: string;
   fundingRate: string;
   longShortRatio: number;
@@ -230,8 +237,8 @@ export async function fetchDerivativesMetrics(): Promise<{
   try {
     // Fetch Open Interest and Funding Rate from Binance Futures (no auth needed)
     const [oiRes, fundingRes] = await Promise.allSettled([
-      fetch('https://fapi.binance.com/fapi/v1/openInterest?symbol=BTCUSDT'),
-      fetch('https://fapi.binance.com/fapi/v1/premiumIndex?symbol=BTCUSDT')
+      fetch(`https://fapi.binance.com/fapi/v1/openInterest?symbol=${symbol}`),
+      fetch(`https://fapi.binance.com/fapi/v1/premiumIndex?symbol=${symbol}`)
     ]);
 
     let openInterest = 'N/A';
@@ -243,7 +250,7 @@ export async function fetchDerivativesMetrics(): Promise<{
       const data = await oiRes.value.json();
       const oiValue = parseFloat(data.openInterest);
       if (!isNaN(oiValue)) {
-        openInterest = `${(oiValue / 1000).toFixed(1)}K BTC`; // Convert to K BTC
+        openInterest = `${(oiValue / 1000).toFixed(1)}K ${getSymbolConfig(symbol).baseAsset}`; // Convert to K units of base asset
       }
     }
 
@@ -256,7 +263,7 @@ export async function fetchDerivativesMetrics(): Promise<{
       }
     }
 
-    console.log(`[Derivatives] OI: ${openInterest} | Funding: ${fundingRate} | L/S: ${longShortRatio}`);
+    console.log(`[Derivatives] ${symbol} OI: ${openInterest} | Funding: ${fundingRate} | L/S: ${longShortRatio}`);
 
     return {
       openInterest,
@@ -307,14 +314,14 @@ async function fetchFearGreed(): Promise<{ index: number; label: string }> {
 /**
  * Fetch 24h ticker data from Binance Spot (volume, high, low, price)
  */
-async function fetchBinance24hTicker(): Promise<{
+async function fetchBinance24hTicker(symbol: string): Promise<{
   volume24h: number;
   high24h: number;
   low24h: number;
   lastPrice: number;
 }> {
   try {
-    const response = await fetch('https://api.binance.com/api/v3/ticker/24hr?symbol=BTCUSDT', {
+    const response = await fetch(`https://api.binance.com/api/v3/ticker/24hr?symbol=${symbol}`, {
       headers: { 'Accept': 'application/json' }
     });
 
@@ -339,10 +346,10 @@ async function fetchBinance24hTicker(): Promise<{
 /**
  * Fetch historical klines from Binance to calculate ATR and 200-day MA
  */
-async function fetchBinanceKlines(interval: string, limit: number): Promise<number[][]> {
+async function fetchBinanceKlines(symbol: string, interval: string, limit: number): Promise<number[][]> {
   try {
     const response = await fetch(
-      `https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=${interval}&limit=${limit}`,
+      `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`,
       { headers: { 'Accept': 'application/json' } }
     );
 
@@ -399,11 +406,11 @@ function calculateSMA(klines: number[][], period: number): number {
 /**
  * Fetch Open Interest history from Binance to calculate 24h change
  */
-async function fetchOIHistory(): Promise<{ current: number; change24h: number }> {
+async function fetchOIHistory(symbol: string): Promise<{ current: number; change24h: number }> {
   try {
     const [currentRes, historyRes] = await Promise.all([
-      fetch('https://fapi.binance.com/fapi/v1/openInterest?symbol=BTCUSDT'),
-      fetch('https://fapi.binance.com/futures/data/openInterestHist?symbol=BTCUSDT&period=1h&limit=24')
+      fetch(`https://fapi.binance.com/fapi/v1/openInterest?symbol=${symbol}`),
+      fetch(`https://fapi.binance.com/futures/data/openInterestHist?symbol=${symbol}&period=1h&limit=24`)
     ]);
 
     if (!currentRes.ok || !historyRes.ok) {
@@ -423,7 +430,7 @@ async function fetchOIHistory(): Promise<{ current: number; change24h: number }>
 
     const change24h = oi24hAgo > 0 ? ((currentOI - oi24hAgo) / oi24hAgo) * 100 : 0;
 
-    console.log(`[Macro Data] OI: ${currentOI.toFixed(0)} BTC, 24h change: ${change24h.toFixed(2)}%`);
+    console.log(`[Macro Data] OI: ${currentOI.toFixed(0)} ${getSymbolConfig(symbol).baseAsset}, 24h change: ${change24h.toFixed(2)}%`);
 
     return { current: currentOI, change24h };
   } catch (error) {
@@ -432,13 +439,118 @@ async function fetchOIHistory(): Promise<{ current: number; change24h: number }>
   }
 }
 
+export interface OpenInterestHistoryPoint {
+  timestamp: number;         // Period start (ms)
+  openInterest: number;      // In base asset
+  openInterestUsd: number;
+}
+
+export interface TakerVolumePoint {
+  timestamp: number;         // Period start (ms)
+  buyVolume: number;         // Taker buy volume (base asset)
+  sellVolume: number;
+}
+
+/**
+ * Fetch Open Interest history series from Binance Futures (max 500 points, last 30 days)
+ */
+export async function fetchOpenInterestHistory(
+  symbol: string = DEFAULT_SYMBOL,
+  period: string = '15m',
+  limit: number = 480
+): Promise<OpenInterestHistoryPoint[]> {
+  try {
+    const response = await fetch(
+      `https://fapi.binance.com/futures/data/openInterestHist?symbol=${symbol}&period=${period}&limit=${limit}`,
+      { headers: { 'Accept': 'application/json' } }
+    );
+
+    if (!response.ok) {
+      throw new Error(`OI history failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (Array.isArray(data) ? data : []).map((d: any) => ({
+      timestamp: d.timestamp,
+      openInterest: parseFloat(d.sumOpenInterest) || 0,
+      openInterestUsd: parseFloat(d.sumOpenInterestValue) || 0
+    }));
+  } catch (error) {
+    console.warn('[Macro Data] OI history series fetch failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch taker buy/sell volume history from Binance Futures (max 500 points, last 30 days)
+ */
+export async function fetchTakerVolumeHistory(
+  symbol: string = DEFAULT_SYMBOL,
+  period: string = '15m',
+  limit: number = 480
+): Promise<TakerVolumePoint[]> {
+  try {
+    const response = await fetch(
+      `https://fapi.binance.com/futures/data/takerlongshortRatio?symbol=${symbol}&period=${period}&limit=${limit}`,
+      { headers: { 'Accept': 'application/json' } }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Taker volume history failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (Array.isArray(data) ? data : []).map((d: any) => ({
+      timestamp: d.timestamp,
+      buyVolume: parseFloat(d.buyVol) || 0,
+      sellVolume: parseFloat(d.sellVol) || 0
+    }));
+  } catch (error) {
+    console.warn('[Macro Data] Taker volume history fetch failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch perpetual futures klines from Binance Futures (max 1500 candles)
+ */
+export async function fetchFuturesKlines(
+  symbol: string = DEFAULT_SYMBOL,
+  interval: string = '15m',
+  limit: number = 480
+): Promise<ChartDataPoint[]> {
+  try {
+    const response = await fetch(
+      `https://fapi.binance.com/fapi/v1/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`,
+      { headers: { 'Accept': 'application/json' } }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Futures klines failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (Array.isArray(data) ? data : []).map((d: any[]) => ({
+      time: d[0] / 1000,
+      open: parseFloat(d[1]),
+      high: parseFloat(d[2]),
+      low: parseFloat(d[3]),
+      close: parseFloat(d[4]),
+      volume: parseFloat(d[5])
+    }));
+  } catch (error) {
+    console.warn('[Macro Data] Futures klines fetch failed:', error);
+    return [];
+  }
+}
+
 /**
  * Fetch funding rate history to determine trend
  */
-async function fetchFundingHistory(): Promise<{ rate: number; trend: 'RISING' | 'FALLING' | 'STABLE' }> {
+async function fetchFundingHistory(symbol: string): Promise<{ rate: number; trend: 'RISING' | 'FALLING' | 'STABLE' }> {
   try {
     const response = await fetch(
-      'https://fapi.binance.com/fapi/v1/fundingRate?symbol=BTCUSDT&limit=8', // Last 8 periods (24h)
+      `https://fapi.binance.com/fapi/v1/fundingRate?symbol=${symbol}&limit=8`, // Last 8 periods (24h)
       { headers: { 'Accept': 'application/json' } }
     );
 
@@ -489,8 +601,8 @@ function getVolumeTag(ratio: number): 'SPIKE' | 'HIGH' | 'NORMAL' | 'QUIET' {
  * Fetch all enhanced BTC metrics in parallel
  * This is the main function for the new metrics panel
  */
-export async function fetchEnhancedBTCMetrics(): Promise<EnhancedBTCMetrics> {
-  console.log('[Enhanced Metrics] Fetching all BTC metrics...');
+export async function fetchEnhancedBTCMetrics(symbol: string = DEFAULT_SYMBOL): Promise<EnhancedBTCMetrics> {
+  console.log(`[Enhanced Metrics] Fetching all ${symbol} metrics...`);
 
   try {
     // Parallel fetch all data sources
@@ -505,11 +617,11 @@ export async function fetchEnhancedBTCMetrics(): Promise<EnhancedBTCMetrics> {
     ] = await Promise.all([
       fetchDVOL(),
       fetchFearGreed(),
-      fetchBinance24hTicker(),
-      fetchBinanceKlines('1d', 201), // 200 days + 1 for ATR calc
+      fetchBinance24hTicker(symbol),
+      fetchBinanceKlines(symbol, '1d', 201), // 200 days + 1 for ATR calc
       fetchBTCDominance(),
-      fetchOIHistory(),
-      fetchFundingHistory()
+      fetchOIHistory(symbol),
+      fetchFundingHistory(symbol)
     ]);
 
     // Calculate ATR from daily klines
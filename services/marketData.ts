@@ -10,6 +10,11 @@ import {
 import { fetchMacroData, fetchDerivativesMetrics } from './macroDataService';
 import { captureError, addBreadcrumb } from './errorMonitor';
 import { dataSyncAgent } from './dataSyncAgent';
+import { ChartDataPoint, HigherTimeframeData } from '../types';
+import { DEFAULT_STRATEGY_ID, getStrategyState } from './strategyRegistry';
+import type { StrategyRunRequest, StrategyRunResult } from './tradingWorker';
+import { liquidationMapService } from './liquidationMap';
+import { HIGHER_TIMEFRAMES } from './higherTimeframes';
 // NOTE: aggrService removed - now using store.orderFlowStats (Single Source of Truth)
 
 // Singleton Worker Instance
@@ -68,9 +73,10 @@ export const fetchGlobalData = async () => {
         addBreadcrumb('Fetching global market data', 'marketData');
 
         // Parallel fetch for efficiency - NOW USING REAL APIs (not AI search)
+        const symbol = useStore.getState().activeSymbol;
         const [macro, derivatives, sentiment, intel] = await Promise.all([
-            fetchMacroData(), // REAL Yahoo Finance + CoinGecko
-            fetchDerivativesMetrics(), // REAL Binance Futures API
+            fetchMacroData(symbol), // REAL Yahoo Finance + CoinGecko
+            fetchDerivativesMetrics(symbol), // REAL Binance Futures API
             getSentimentAnalysis(), // REAL Fear & Greed Index
             isAiAvailable() ? scanGlobalIntel() : Promise.resolve([]) // Gate AI call
         ]);
@@ -119,7 +125,61 @@ export const fetchGlobalData = async () => {
     }
 };
 
-export const fetchChartData = async () => {
+const fetchKlines = async (symbol: string, interval: string): Promise<ChartDataPoint[]> => {
+    const response = await fetch(`https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=200`);
+    if (!response.ok) {
+        throw new Error(`Binance klines ${symbol} ${interval} failed: ${response.status}`);
+    }
+    const data = await response.json();
+
+    return data.map((d: any[]) => ({
+        time: d[0] / 1000,
+        open: parseFloat(d[1]),
+        high: parseFloat(d[2]),
+        low: parseFloat(d[3]),
+        close: parseFloat(d[4]),
+        volume: parseFloat(d[5])
+    }));
+};
+
+const HTF_CACHE_MS = 5 * 60 * 1000;
+const htfCache = new Map<string, { fetchedAt: number; chartData: ChartDataPoint[] }>();
+
+/**
+ * Higher-timeframe candles for a symbol, cached for a few minutes since HTF bars move slowly.
+ * A timeframe that fails to load is left out rather than failing signal generation.
+ */
+export const fetchHigherTimeframeData = async (symbol: string, timeframe: string): Promise<HigherTimeframeData[]> => {
+    const now = Date.now();
+
+    const results = await Promise.all((HIGHER_TIMEFRAMES[timeframe] || []).map(async (htf) => {
+        const key = `${symbol}:${htf}`;
+        const cached = htfCache.get(key);
+        if (cached && now - cached.fetchedAt < HTF_CACHE_MS) {
+            return { timeframe: htf, chartData: cached.chartData };
+        }
+
+        try {
+            const chartData = await fetchKlines(symbol, htf);
+            htfCache.set(key, { fetchedAt: now, chartData });
+            return { timeframe: htf, chartData };
+        } catch (e) {
+            console.warn(`[MarketData] ${htf} context candles unavailable for ${symbol}:`, e);
+            return cached ? { timeframe: htf, chartData: cached.chartData } : null;
+        }
+    }));
+
+    return results.filter((r): r is HigherTimeframeData => r !== null);
+};
+
+/**
+ * Fetch OHLCV for a symbol (defaults to the active one).
+ * Results land in that symbol's cache, so a response that arrives after
+ * the user switched symbols never overwrites the visible chart.
+ */
+export const fetchChartData = async (symbol: string = useStore.getState().activeSymbol) => {
+    // Tape replay builds the chart itself; live klines would overwrite it
+    if (useStore.getState().isReplaying) return;
     try {
         const timeframe = useStore.getState().timeframe;
         const intervalMap: Record<string, string> = {
@@ -127,17 +187,7 @@ export const fetchChartData = async () => {
         };
         const interval = intervalMap[timeframe] || '15m';
 
-        const response = await fetch(`https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=${interval}&limit=200`);
-        const data = await response.json();
-
-        const formattedData = data.map((d: any[]) => ({
-            time: d[0] / 1000,
-            open: parseFloat(d[1]),
-            high: parseFloat(d[2]),
-            low: parseFloat(d[3]),
-            close: parseFloat(d[4]),
-            volume: parseFloat(d[5])
-        }));
+        const formattedData = await fetchKlines(symbol, interval);
 
         // Validate chart data before setting
         const chartValidation = dataSyncAgent.validateChartData(formattedData);
@@ -145,7 +195,7 @@ export const fetchChartData = async () => {
             console.warn('[MarketData] Chart validation errors:', chartValidation.errors);
         }
 
-        useStore.setState({ chartData: formattedData });
+        useStore.getState().setSymbolMarketData(symbol, { chartData: formattedData });
 
         // Mark data source as updated
         dataSyncAgent.markDataUpdated('BINANCE_CHART');
@@ -154,7 +204,7 @@ export const fetchChartData = async () => {
         // We don't update price from chart data to avoid conflicts
         // Chart data is for historical OHLCV only
 
-        console.log("Chart Data Synced");
+        console.log(`Chart Data Synced (${symbol})`);
     } catch (e) {
         dataSyncAgent.updateSourceStatus('BINANCE_CHART', 'error', (e as Error).message);
         console.error("Chart Fetch Error:", e);
@@ -165,17 +215,37 @@ export const fetchSignals = async () => {
     const start = performance.now();
     try {
         useStore.setState({ isScanning: true });
-        const { price, vix, btcd, sentimentScore, technicals, chartData } = useStore.getState();
+        const { activeSymbol, price, vix, btcd, sentimentScore, technicals, chartData, timeframe } = useStore.getState();
+        const [higherTimeframes, liquidationMap] = await Promise.all([
+            fetchHigherTimeframeData(activeSymbol, timeframe),
+            liquidationMapService.getMap(activeSymbol).catch(() => null)
+        ]);
 
         // HYBRID APPROACH: Tactical v2 (rule-based) + AI validation + ORDER FLOW
-        // Step 1: Get current order flow stats from STORE (Single Source of Truth)
-        const orderFlowStats = useStore.getState().orderFlowStats;
+        // Step 1: Get current order flow stats from STORE (Single Source of Truth),
+        // plus the estimated liquidation clusters the score treats as magnets
+        const storeOrderFlowStats = useStore.getState().orderFlowStats;
+        const orderFlowStats = storeOrderFlowStats && liquidationMap
+            ? {
+                ...storeOrderFlowStats,
+                liquidationMagnets: {
+                    timestamp: liquidationMap.timestamp,
+                    magnetAbove: liquidationMap.magnetAbove,
+                    magnetBelow: liquidationMap.magnetBelow
+                }
+            }
+            : storeOrderFlowStats;
 
         // Step 2: Offload to Web Worker (Singleton)
         // CRITICAL: Worker is stateless - we pass lastSignalBar IN and receive it OUT
         const WORKER_TIMEOUT_MS = 30000; // 30 second timeout
 
-        const runWorkerTask = () => new Promise<{ tacticalResult: any; consensusData: any; lastSignalBar: number }>((resolve, reject) => {
+        const runWorkerTask = () => new Promise<{
+            tacticalResult: any;
+            consensusData: any;
+            lastSignalBar: number;
+            strategyResults?: StrategyRunResult[];
+        }>((resolve, reject) => {
             const worker = getWorker();
             const requestId = Math.random().toString(36).substr(2, 9);
 
@@ -203,11 +273,18 @@ export const fetchSignals = async () => {
             // Send snapshot of state needed for calculation
             // Pass lastSignalBar from store IN - worker will return updated value OUT
             const currentState = useStore.getState();
+            // Every enabled strategy runs with its own config, history and pattern learning
+            const strategies: StrategyRunRequest[] = currentState.enabledStrategyIds.map(strategyId => ({
+                strategyId,
+                ...getStrategyState(currentState, strategyId)
+            }));
             worker.postMessage({
                 type: 'GENERATE_SIGNALS',
                 payload: {
                     chartData,
                     orderFlowStats,
+                    higherTimeframes,
+                    strategies,
                     state: JSON.parse(JSON.stringify(currentState)),
                     lastSignalBar: currentState.lastSignalBar // Pass state IN from store
                 },
@@ -215,11 +292,18 @@ export const fetchSignals = async () => {
             });
         });
 
-        const { tacticalResult, consensusData, lastSignalBar: newLastSignalBar } = await runWorkerTask();
+        const { tacticalResult, consensusData, lastSignalBar: newLastSignalBar, strategyResults } = await runWorkerTask();
+        const results: StrategyRunResult[] = strategyResults ?? [{ strategyId: DEFAULT_STRATEGY_ID, tacticalResult }];
+
+        // Each strategy's cooldown / chop history carries over to its next run
+        for (const { strategyId, tacticalResult: result } of results) {
+            useStore.getState().updateStrategyState(strategyId, { signalHistory: result.updatedHistory });
+        }
 
         // CRITICAL: Persist the returned state to Zustand store
         // This keeps the worker stateless while maintaining signal generation continuity
-        if (typeof newLastSignalBar === 'number' && Number.isFinite(newLastSignalBar)) {
+        const stillActive = useStore.getState().activeSymbol === activeSymbol;
+        if (stillActive && typeof newLastSignalBar === 'number' && Number.isFinite(newLastSignalBar)) {
             useStore.getState().setLastSignalBar(newLastSignalBar);
         }
 
@@ -232,6 +316,7 @@ export const fetchSignals = async () => {
 
         // Step 2: Construct context for AI
         const context = `
+            Symbol: ${activeSymbol}
             Price: ${price}
             VIX: ${vix}
             BTC.D: ${btcd}
@@ -250,6 +335,7 @@ export const fetchSignals = async () => {
         // Step 4: Combine signals (prioritize Tactical v2 if strong)
         const signals = rawSignals.map(s => ({
             ...s,
+            pair: activeSymbol,
             id: Math.random().toString(36).substr(2, 9),
             timestamp: Date.now(),
             // Attach Consensus Data (Votes only, as breakdown is specific to Tactical)
@@ -267,22 +353,31 @@ export const fetchSignals = async () => {
             ]
         }));
 
-        // If Tactical v2 generated a signal with high score, include it
-        if (tacticalResult.signal && (tacticalResult.bullScore >= 5.0 || tacticalResult.bearScore >= 5.0)) {
+        // Include every strategy's signal with a high technical score, primary strategy first
+        let tacticalCount = 0;
+        for (const [index, { strategyId, tacticalResult: result }] of [...results.entries()].reverse()) {
+            if (!result.signal || (result.technical.bullScore < 5.0 && result.technical.bearScore < 5.0)) continue;
+            tacticalCount++;
             signals.unshift({
-                ...tacticalResult.signal,
-                id: `tactical-${Date.now()}`,
+                ...result.signal,
+                id: `tactical-${strategyId}-${Date.now()}`,
                 timestamp: Date.now(),
                 // Attach Consensus Data
                 consensus: {
                     votes: consensusData.votes,
-                    totalScore: tacticalResult.signal.confidence
+                    totalScore: result.signal.confidence
                 },
-                confidenceBreakdown: consensusData.breakdown
+                // Agent consensus adjustments (scored against the primary signal) plus the generator's own
+                confidenceBreakdown: [
+                    ...(index === 0 ? consensusData.breakdown : []),
+                    ...(result.signal.confidenceBreakdown || [])
+                ]
             });
         }
 
-        useStore.setState({ signals, isScanning: false });
+        // Signals belong to the symbol they were generated for, even if the user switched meanwhile
+        useStore.getState().setSymbolMarketData(activeSymbol, { signals });
+        useStore.setState({ isScanning: false });
         dataSyncAgent.markDataUpdated('SIGNALS');
         
         const duration = performance.now() - start;
@@ -292,7 +387,7 @@ export const fetchSignals = async () => {
             console.log(`[Perf] Signal Generation took ${duration.toFixed(2)}ms`);
         }
         
-        console.log(`[Signal Gen] Complete: ${signals.length} signals (Tactical: ${tacticalResult.signal ? 1 : 0}, AI: ${rawSignals.length})`);
+        console.log(`[Signal Gen] Complete: ${signals.length} signals (Tactical: ${tacticalCount}, AI: ${rawSignals.length})`);
     } catch (e) {
         console.error("Signal Fetch Error:", e);
         useStore.setState({ isScanning: false });
@@ -378,7 +473,14 @@ export const startMarketDataSync = () => {
 
     // Subscribe to timeframe changes to adjust polling
     let lastTimeframe = useStore.getState().timeframe;
+    let lastSymbol = useStore.getState().activeSymbol;
     const unsubscribe = useStore.subscribe((state) => {
+        // Symbol switch: refresh symbol-specific derivatives immediately
+        if (state.activeSymbol !== lastSymbol) {
+            lastSymbol = state.activeSymbol;
+            fetchGlobalData();
+        }
+
         const newTimeframe = state.timeframe;
         if (newTimeframe !== lastTimeframe) {
             lastTimeframe = newTimeframe;
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { runMonteCarlo, percentile, tradeReturns } from './monteCarloAnalysis';
+import { ClosedTrade } from './backtestEngine';
+
+const trade = (pnlUsd: number) => ({ pnlUsd, rMultiple: pnlUsd > 0 ? 1 : -1 }) as ClosedTrade;
+
+describe('monteCarloAnalysis', () => {
+  it('interpolates percentiles', () => {
+    const sorted = [0, 10, 20, 30, 40];
+    expect(percentile(sorted, 0)).toBe(0);
+    expect(percentile(sorted, 50)).toBe(20);
+    expect(percentile(sorted, 100)).toBe(40);
+    expect(percentile(sorted, 25)).toBe(10);
+    expect(percentile(sorted, 10)).toBe(4);
+  });
+
+  it('converts pnl into returns on equity at entry', () => {
+    const returns = tradeReturns([trade(1000), trade(-1100)], 10000);
+    expect(returns[0]).toBeCloseTo(0.1);
+    expect(returns[1]).toBeCloseTo(-0.1);
+  });
+
+  it('keeps final equity fixed when shuffling', () => {
+    const trades = [trade(100), trade(-50), trade(200), trade(-80), trade(30)];
+    const results = runMonteCarlo(trades, { method: 'SHUFFLE', iterations: 200, initialCapital: 10000 });
+
+    // Multiplication is order independent - only the path changes
+    expect(results.finalEquity.p5).toBeCloseTo(results.finalEquity.p95, 6);
+    expect(results.finalEquity.p50).toBeCloseTo(10200, 6);
+    expect(results.maxDrawdownPercent.p95).toBeGreaterThanOrEqual(results.maxDrawdownPercent.p5);
+  });
+
+  it('is deterministic for a given seed and reports ruin', () => {
+    const trades = Array.from({ length: 40 }, (_, i) => trade(i % 2 === 0 ? -1500 : 400));
+    const a = runMonteCarlo(trades, { iterations: 300, seed: 3 });
+    const b = runMonteCarlo(trades, { iterations: 300, seed: 3 });
+
+    expect(a).toEqual(b);
+    expect(a.ruinProbability).toBeGreaterThan(0.5);
+    expect(a.lossProbability).toBeGreaterThan(0.5);
+    expect(a.equityBands[0].p50).toBe(10000);
+    expect(a.equityBands[a.equityBands.length - 1].trade).toBe(40);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * MONTE CARLO ROBUSTNESS ANALYSIS
+ *
+ * A backtest is one path through its trades. Reordering (SHUFFLE) or
+ * resampling with replacement (BOOTSTRAP) the same trade returns thousands of
+ * times shows how much of maxDrawdown / final equity was luck of the sequence:
+ * - Final equity and max drawdown distributions with percentile bands
+ * - Probability of ruin (drawdown beyond a threshold) and of finishing at a loss
+ * - Per-trade equity percentile bands for charting against the actual curve
+ *
+ * @version 1.0.0
+ */
+
+import { ClosedTrade } from './backtestEngine';
+import { createRng } from '../utils/random';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export type MonteCarloMethod = 'SHUFFLE' | 'BOOTSTRAP';
+
+export interface MonteCarloConfig {
+  iterations: number;
+  method: MonteCarloMethod;
+  initialCapital: number;
+  ruinThresholdPercent: number;   // Drawdown (%) from peak that counts as ruin
+  maxBandPoints: number;          // Downsample equity bands for charting
+  seed: number;
+}
+
+export const DEFAULT_MONTE_CARLO_CONFIG: MonteCarloConfig = {
+  iterations: 5000,
+  method: 'BOOTSTRAP',
+  initialCapital: 10000,
+  ruinThresholdPercent: 50,
+  maxBandPoints: 100,
+  seed: 7
+};
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export interface PercentileSummary {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  mean: number;
+}
+
+export interface EquityBandPoint {
+  trade: number;          // Trades completed
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  actual: number;         // Equity along the original trade order
+}
+
+export interface MonteCarloResults {
+  method: MonteCarloMethod;
+  iterations: number;
+  tradeCount: number;
+
+  finalEquity: PercentileSummary;
+  totalReturnPercent: PercentileSummary;
+  maxDrawdownPercent: PercentileSummary;
+
+  ruinProbability: number;        // 0-1
+  lossProbability: number;        // 0-1, finished below initial capital
+
+  // Where the actual backtest sits in the simulated distribution (0-1)
+  actualMaxDrawdownPercentile: number;
+  actualFinalEquityPercentile: number;
+
+  equityBands: EquityBandPoint[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Linear-interpolated percentile of an ascending-sorted array (p in 0-100)
+ */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+function summarize(values: Float64Array): PercentileSummary {
+  const sorted = Float64Array.from(values).sort();
+  let sum = 0;
+  for (let i = 0; i < sorted.length; i++) sum += sorted[i];
+
+  return {
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+    mean: sorted.length > 0 ? sum / sorted.length : 0
+  };
+}
+
+// Fraction of values strictly below `value`
+function rankOf(values: Float64Array, value: number): number {
+  if (values.length === 0) return 0;
+  let below = 0;
+  for (let i = 0; i < values.length; i++) if (values[i] < value) below++;
+  return below / values.length;
+}
+
+/**
+ * Convert USD P&L into per-trade returns on the equity at entry,
+ * so resampled paths compound the way risk-%-sized trades do.
+ */
+export function tradeReturns(trades: ClosedTrade[], initialCapital: number): number[] {
+  const returns: number[] = [];
+  let equity = initialCapital;
+
+  for (const trade of trades) {
+    returns.push(equity > 0 ? trade.pnlUsd / equity : 0);
+    equity += trade.pnlUsd;
+  }
+
+  return returns;
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+export function runMonteCarlo(
+  trades: ClosedTrade[],
+  config: Partial<MonteCarloConfig> = {}
+): MonteCarloResults {
+  const cfg: MonteCarloConfig = { ...DEFAULT_MONTE_CARLO_CONFIG, ...config };
+  const returns = tradeReturns(trades, cfg.initialCapital);
+  const n = returns.length;
+  const iterations = Math.max(1, Math.floor(cfg.iterations));
+  const rng = createRng(cfg.seed);
+
+  // Actual path
+  const actualCurve: number[] = [cfg.initialCapital];
+  let actualPeak = cfg.initialCapital;
+  let actualMaxDd = 0;
+  for (const r of returns) {
+    const equity = actualCurve[actualCurve.length - 1] * (1 + r);
+    actualCurve.push(equity);
+    if (equity > actualPeak) actualPeak = equity;
+    actualMaxDd = Math.max(actualMaxDd, actualPeak > 0 ? (actualPeak - equity) / actualPeak : 0);
+  }
+
+  // Bands are sampled at these trade counts (always includes 0 and n)
+  const bandCount = Math.min(n + 1, Math.max(2, cfg.maxBandPoints));
+  const bandSteps = Array.from({ length: bandCount }, (_, i) =>
+    bandCount === 1 ? 0 : Math.round((i / (bandCount - 1)) * n)
+  );
+  const bandEquity = bandSteps.map(() => new Float64Array(iterations));
+
+  const finalEquity = new Float64Array(iterations);
+  const maxDrawdown = new Float64Array(iterations);
+  let ruined = 0;
+  let losses = 0;
+
+  const order = returns.slice();
+
+  for (let it = 0; it < iterations; it++) {
+    if (cfg.method === 'SHUFFLE') {
+      // Fisher-Yates
+      for (let i = n - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        const tmp = order[i];
+        order[i] = order[j];
+        order[j] = tmp;
+      }
+    } else {
+      for (let i = 0; i < n; i++) order[i] = returns[Math.floor(rng() * n)];
+    }
+
+    let equity = cfg.initialCapital;
+    let peak = equity;
+    let maxDd = 0;
+    let band = 0;
+
+    if (bandSteps[band] === 0) bandEquity[band++][it] = equity;
+
+    for (let t = 0; t < n; t++) {
+      equity = Math.max(0, equity * (1 + order[t]));
+      if (equity > peak) peak = equity;
+      const dd = peak > 0 ? (peak - equity) / peak : 0;
+      if (dd > maxDd) maxDd = dd;
+
+      while (band < bandSteps.length && bandSteps[band] === t + 1) {
+        bandEquity[band++][it] = equity;
+      }
+    }
+
+    finalEquity[it] = equity;
+    maxDrawdown[it] = maxDd * 100;
+    if (maxDd * 100 >= cfg.ruinThresholdPercent || equity <= 0) ruined++;
+    if (equity < cfg.initialCapital) losses++;
+  }
+
+  const totalReturn = finalEquity.map(e => ((e - cfg.initialCapital) / cfg.initialCapital) * 100);
+
+  const equityBands: EquityBandPoint[] = bandSteps.map((step, i) => {
+    const sorted = bandEquity[i].sort();
+    return {
+      trade: step,
+      p5: percentile(sorted, 5),
+      p25: percentile(sorted, 25),
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p95: percentile(sorted, 95),
+      actual: actualCurve[step]
+    };
+  });
+
+  return {
+    method: cfg.method,
+    iterations,
+    tradeCount: n,
+
+    finalEquity: summarize(finalEquity),
+    totalReturnPercent: summarize(totalReturn),
+    maxDrawdownPercent: summarize(maxDrawdown),
+
+    ruinProbability: ruined / iterations,
+    lossProbability: losses / iterations,
+
+    actualMaxDrawdownPercentile: rankOf(maxDrawdown, actualMaxDd * 100),
+    actualFinalEquityPercentile: rankOf(finalEquity, actualCurve[n]),
+
+    equityBands
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { buildHeatmapColumns, DepthSnapshot } from './orderBookDepth';
+
+const snapshot = (seconds: number, bidUsd: number): DepthSnapshot => ({
+  time: seconds * 1000,
+  bandSize: 10,
+  bands: [{ price: 100, bidUsd, askUsd: 0 }, { price: 110, bidUsd: 0, askUsd: 50 }]
+});
+
+describe('buildHeatmapColumns', () => {
+  it('averages samples per candle and puts late samples on the forming bar', () => {
+    const columns = buildHeatmapColumns(
+      [snapshot(50, 999), snapshot(60, 100), snapshot(90, 300), snapshot(130, 40), snapshot(500, 20)],
+      [60, 120]
+    );
+
+    expect(columns.map(c => c.time)).toEqual([60, 120]);
+    expect(columns[0].cells).toEqual([
+      { price: 100, bidUsd: 200, askUsd: 0 },
+      { price: 110, bidUsd: 0, askUsd: 50 }
+    ]);
+    expect(columns[1].cells[0].bidUsd).toBe(30);
+    expect(buildHeatmapColumns([snapshot(60, 1)], [])).toEqual([]);
+  });
+
+  it('re-bins samples taken at a smaller band size to the widest band size of the bar', () => {
+    const fine: DepthSnapshot = {
+      time: 70000,
+      bandSize: 5,
+      bands: [{ price: 100, bidUsd: 40, askUsd: 0 }, { price: 105, bidUsd: 20, askUsd: 0 }, { price: 110, bidUsd: 0, askUsd: 10 }]
+    };
+    const [column] = buildHeatmapColumns([snapshot(60, 100), fine], [60]);
+
+    expect(column.bandSize).toBe(10);
+    expect(column.cells).toEqual([
+      { price: 100, bidUsd: 80, askUsd: 0 },
+      { price: 110, bidUsd: 0, askUsd: 30 }
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * ORDER BOOK DEPTH (main thread)
+ *
+ * Receives the worker's L2 analytics (DEPTH_UPDATE) and keeps:
+ * - The latest OrderBookStats (imbalance, walls, spoof events)
+ * - A sampled history of liquidity bands for the chart heatmap
+ *
+ * buildHeatmapColumns folds that history onto candle times so each bar gets
+ * the average resting liquidity seen while it was open.
+ *
+ * @version 1.0.0
+ */
+
+import { LiquidityBand, OrderBookStats } from '../types/aggrTypes';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DepthSnapshot {
+  time: number;          // ms
+  bandSize: number;
+  bands: LiquidityBand[];
+}
+
+export interface HeatmapColumn {
+  time: number;          // Bar open time (chart seconds)
+  bandSize: number;
+  cells: LiquidityBand[];
+}
+
+type DepthListener = (depth: OrderBookStats) => void;
+
+const SAMPLE_INTERVAL_MS = 10000;
+const MAX_SNAPSHOTS = 1440;        // 4 hours at one sample per 10s
+
+// ============================================================================
+// HEATMAP
+// ============================================================================
+
+/**
+ * Average the sampled bands per candle. barTimes must be ascending (chart
+ * seconds); samples after the last bar land on the forming bar. The band size
+ * follows price, so a bar's samples are re-binned to the widest size among them.
+ */
+export function buildHeatmapColumns(history: DepthSnapshot[], barTimes: number[]): HeatmapColumn[] {
+  if (barTimes.length === 0) return [];
+
+  const samplesByBar = new Map<number, DepthSnapshot[]>();
+
+  for (const snapshot of history) {
+    const seconds = snapshot.time / 1000;
+    if (seconds < barTimes[0]) continue;
+
+    // Last bar opening at or before the sample
+    let lo = 0;
+    let hi = barTimes.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (barTimes[mid] <= seconds) lo = mid;
+      else hi = mid - 1;
+    }
+    const barTime = barTimes[lo];
+
+    const samples = samplesByBar.get(barTime) ?? [];
+    samples.push(snapshot);
+    samplesByBar.set(barTime, samples);
+  }
+
+  return [...samplesByBar.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([time, samples]) => {
+      const bandSize = Math.max(...samples.map(s => s.bandSize));
+      const cells = new Map<number, LiquidityBand>();
+
+      for (const snapshot of samples) {
+        for (const band of snapshot.bands) {
+          // Epsilon: band prices are index * bandSize in floating point
+          const index = Math.floor(band.price / bandSize + 1e-9);
+          const cell = cells.get(index) ?? { price: index * bandSize, bidUsd: 0, askUsd: 0 };
+          cell.bidUsd += band.bidUsd;
+          cell.askUsd += band.askUsd;
+          cells.set(index, cell);
+        }
+      }
+
+      return {
+        time,
+        bandSize,
+        cells: [...cells.values()].map(cell => ({
+          price: cell.price,
+          bidUsd: cell.bidUsd / samples.length,
+          askUsd: cell.askUsd / samples.length
+        }))
+      };
+    });
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class OrderBookDepthService {
+  private latest: OrderBookStats | null = null;
+  private history: DepthSnapshot[] = [];
+  private listeners: Set<DepthListener> = new Set();
+
+  update(depth: OrderBookStats): void {
+    // New symbol: the old heatmap is meaningless
+    if (this.latest && this.latest.symbol !== depth.symbol) {
+      this.history = [];
+    }
+    this.latest = depth;
+
+    const last = this.history[this.history.length - 1];
+    if (!last || depth.timestamp - last.time >= SAMPLE_INTERVAL_MS) {
+      this.history.push({ time: depth.timestamp, bandSize: depth.bandSize, bands: depth.bands });
+      if (this.history.length > MAX_SNAPSHOTS) this.history.shift();
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(depth);
+      } catch (e) {
+        console.error('[OrderBookDepth] Listener error:', e);
+      }
+    });
+  }
+
+  getLatest(): OrderBookStats | null {
+    return this.latest;
+  }
+
+  getHistory(): DepthSnapshot[] {
+    return this.history;
+  }
+
+  subscribe(listener: DepthListener): () => void {
+    this.listeners.add(listener);
+    if (this.latest) listener(this.latest);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.latest = null;
+    this.history = [];
+  }
+}
+
+export const orderBookDepth = new OrderBookDepthService();
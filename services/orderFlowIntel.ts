@@ -21,13 +21,12 @@ import {
 } from '../types/aggrTypes';
 import { useStore } from '../store/useStore';
 import { dataSyncAgent } from './dataSyncAgent';
+import { DEFAULT_SYMBOL, getSymbolConfig } from './symbolRegistry';
+import { orderFlowRecorder } from './orderFlowRecorder';
 
 // Direct Binance API (public endpoints work from browser)
 const BINANCE_FUTURES = 'https://fapi.binance.com';
 
-// Whale threshold set to $500K for significant trades only
-const WHALE_THRESHOLD = 500000;
-
 // Liquidation history retention (10 minutes)
 const LIQUIDATION_HISTORY_MS = 10 * 60 * 1000;
 
@@ -58,18 +57,49 @@ class OrderFlowIntelService {
   // Persisted CVD baseline
   private cvdBaseline: number = 0;
 
+  // Symbol all REST polls are issued for
+  private symbol: string = DEFAULT_SYMBOL;
+
   constructor() {
     console.log('[OrderFlowIntel] Service initialized');
     this.loadCVDSnapshot();
   }
 
+  /**
+   * CVD snapshots are kept per symbol; the default symbol keeps the legacy key
+   */
+  private get cvdStorageKey(): string {
+    return this.symbol === DEFAULT_SYMBOL ? CVD_STORAGE_KEY : `${CVD_STORAGE_KEY}-${this.symbol}`;
+  }
+
+  /**
+   * Switch polling to another symbol, dropping caches that belong to the old one
+   */
+  setSymbol(symbol: string): void {
+    if (symbol === this.symbol) return;
+
+    this.saveCVDSnapshot();
+    this.symbol = symbol;
+    this.lastStats = null;
+    this.lastOpenInterest = null;
+    this.liquidationHistory = [];
+    this.whaleHistory = [];
+    this.cvdBaseline = 0;
+    this.loadCVDSnapshot();
+
+    console.log(`[OrderFlowIntel] Symbol switched to ${symbol}`);
+    if (this.isConnected) {
+      this.fetchAllData();
+    }
+  }
+
   /**
    * Load persisted CVD snapshot from localStorage
    * Resets if older than 24 hours
    */
   private loadCVDSnapshot(): void {
     try {
-      const stored = localStorage.getItem(CVD_STORAGE_KEY);
+      const stored = localStorage.getItem(this.cvdStorageKey);
       if (stored) {
         const snapshot: CVDSnapshot = JSON.parse(stored);
         const age = Date.now() - snapshot.timestamp;
@@ -80,7 +110,7 @@ class OrderFlowIntelService {
         } else {
           console.log('[OrderFlowIntel] CVD snapshot expired (>24h), starting fresh');
           this.cvdBaseline = 0;
-          localStorage.removeItem(CVD_STORAGE_KEY);
+          localStorage.removeItem(this.cvdStorageKey);
         }
       }
     } catch (e) {
@@ -100,7 +130,7 @@ class OrderFlowIntelService {
         cumulativeDelta: this.lastStats.cvd.cumulativeDelta,
         timestamp: Date.now()
       };
-      localStorage.setItem(CVD_STORAGE_KEY, JSON.stringify(snapshot));
+      localStorage.setItem(this.cvdStorageKey, JSON.stringify(snapshot));
     } catch (e) {
       console.warn('[OrderFlowIntel] Failed to save CVD snapshot:', e);
     }
@@ -174,9 +204,10 @@ class OrderFlowIntelService {
       const endTime = Date.now();
       const startTime = endTime - 60000; // 1 minute of trades
 
+      const symbol = this.symbol;
       const [tradesRes, liqsRes] = await Promise.all([
-        fetch(`${BINANCE_FUTURES}/fapi/v1/aggTrades?symbol=BTCUSDT&startTime=${startTime}&endTime=${endTime}&limit=1000`),
-        fetch(`${BINANCE_FUTURES}/fapi/v1/allForceOrders?symbol=BTCUSDT&limit=50`)
+        fetch(`${BINANCE_FUTURES}/fapi/v1/aggTrades?symbol=${symbol}&startTime=${startTime}&endTime=${endTime}&limit=1000`),
+        fetch(`${BINANCE_FUTURES}/fapi/v1/allForceOrders?symbol=${symbol}&limit=50`)
       ]);
 
       const trades = await tradesRes.json();
@@ -210,6 +241,9 @@ class OrderFlowIntelService {
         return;
       }
 
+      // Symbol switched while the request was in flight - discard
+      if (symbol !== this.symbol) return;
+
       if (Array.isArray(trades)) {
         const stats = this.processTradeData(trades, Array.isArray(liquidations) ? liquidations : []);
         this.broadcastStats(stats);
@@ -246,11 +280,12 @@ class OrderFlowIntelService {
 
   private async fetchEnhancedData(): Promise<void> {
     try {
+      const symbol = this.symbol;
       const [oiRes, lsRes, topRes, fundingRes] = await Promise.all([
-        fetch(`${BINANCE_FUTURES}/fapi/v1/openInterest?symbol=BTCUSDT`),
-        fetch(`${BINANCE_FUTURES}/futures/data/globalLongShortAccountRatio?symbol=BTCUSDT&period=5m&limit=1`),
-        fetch(`${BINANCE_FUTURES}/futures/data/topLongShortPositionRatio?symbol=BTCUSDT&period=5m&limit=1`),
-        fetch(`${BINANCE_FUTURES}/fapi/v1/fundingRate?symbol=BTCUSDT&limit=1`)
+        fetch(`${BINANCE_FUTURES}/fapi/v1/openInterest?symbol=${symbol}`),
+        fetch(`${BINANCE_FUTURES}/futures/data/globalLongShortAccountRatio?symbol=${symbol}&period=5m&limit=1`),
+        fetch(`${BINANCE_FUTURES}/futures/data/topLongShortPositionRatio?symbol=${symbol}&period=5m&limit=1`),
+        fetch(`${BINANCE_FUTURES}/fapi/v1/fundingRate?symbol=${symbol}&limit=1`)
       ]);
 
       const oi = await oiRes.json();
@@ -258,6 +293,9 @@ class OrderFlowIntelService {
       const top = await topRes.json();
       const funding = await fundingRes.json();
 
+      // Symbol switched while the request was in flight - discard
+      if (symbol !== this.symbol) return;
+
       // Process Open Interest
       if (oi && oi.openInterest) {
         const currentOI = parseFloat(oi.openInterest);
@@ -266,14 +304,15 @@ class OrderFlowIntelService {
         if (isNaN(currentOI) || currentOI < 0) {
           console.warn('[OrderFlowIntel] Invalid OI data, skipping update:', oi.openInterest);
         } else {
-          // Get current BTC price from recent trades/liquidations
-          const btcPrice = this.lastStats?.recentLargeTrades?.[0]?.price
+          // Get current mark price from recent trades/liquidations
+          const markPrice = this.lastStats?.recentLargeTrades?.[0]?.price
             || this.lastStats?.recentLiquidations?.[0]?.price
-            || 95000; // Fallback to approximate price if no trades yet
+            || useStore.getState().marketBySymbol[symbol]?.price
+            || 0; // Unknown until the first trade/tick arrives
 
           const newOI: OpenInterestData = {
             openInterest: currentOI,
-            openInterestUsd: currentOI * btcPrice,
+            openInterestUsd: currentOI * markPrice,
             change1h: this.calculateOIChange(currentOI),
             timestamp: Date.now()
           };
@@ -375,7 +414,7 @@ class OrderFlowIntelService {
       else flow.sell += usdValue;
 
       // Whale detection ($500K+) - add to history if not already present
-      if (usdValue >= WHALE_THRESHOLD) {
+      if (usdValue >= getSymbolConfig(this.symbol).whaleThresholdUsd) {
         const exists = this.whaleHistory.some(t =>
           t.timestamp === trade.T && Math.abs(t.usdValue - usdValue) < 1
         );
@@ -502,12 +541,13 @@ class OrderFlowIntelService {
     // Add timestamp for freshness tracking
     const statsWithTimestamp: AggrStats = {
       ...stats,
+      symbol: this.symbol,
       lastUpdate: Date.now()
     };
 
-    // SINGLE SOURCE OF TRUTH: Update Zustand store first
+    // SINGLE SOURCE OF TRUTH: Update Zustand store first (tape replay owns it while replaying)
     try {
-      useStore.getState().setOrderFlowStats(statsWithTimestamp);
+      if (!useStore.getState().isReplaying) useStore.getState().setOrderFlowStats(statsWithTimestamp);
     } catch (error) {
       console.error('[OrderFlowIntel] Failed to update store:', error);
     }
@@ -520,6 +560,13 @@ class OrderFlowIntelService {
       console.error('[OrderFlowIntel] Failed to sync with DataSyncAgent:', error);
     }
 
+    // Persist per-minute snapshot for backtest replay
+    try {
+      orderFlowRecorder.record(statsWithTimestamp);
+    } catch (error) {
+      console.error('[OrderFlowIntel] Failed to record snapshot:', error);
+    }
+
     // Legacy callbacks for backward compatibility
     for (const callback of this.updateCallbacks) {
       try {
@@ -144,6 +144,16 @@ class OrderFlowManager {
     }
   }
 
+  /**
+   * Point both sources at another symbol.
+   * Each source discards its buffers and resumes polling/streaming if active.
+   */
+  setSymbol(symbol: string): void {
+    console.log(`[OrderFlowManager] Switching symbol to ${symbol}`);
+    orderFlowIntel.setSymbol(symbol);
+    aggrService.setSymbol(symbol);
+  }
+
   /**
    * Get current stats from store (Single Source of Truth).
    * Prefer using useOrderFlowStats() selector in React components.
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { alignOrderFlowToBars, RecordedOrderFlowSnapshot } from './orderFlowRecorder';
+import { ChartDataPoint } from '../types';
+
+const bar = (time: number): ChartDataPoint => ({ time, open: 1, high: 1, low: 1, close: 1, volume: 1 });
+
+const snapshot = (time: number, delta: number): RecordedOrderFlowSnapshot => ({
+  time,
+  stats: {
+    totalVolume: 1,
+    buyVolume: 1,
+    sellVolume: 0,
+    largeTradeCount: 0,
+    liquidationCount: 0,
+    liquidationVolume: 0,
+    cvd: { timestamp: time * 1000, buyVolume: 1, sellVolume: 0, delta, cumulativeDelta: delta },
+    pressure: { buyPressure: 50, sellPressure: 50, netPressure: 0, dominantSide: 'neutral', strength: 'weak' },
+    recentLiquidations: [],
+    lastUpdate: time * 1000
+  }
+});
+
+describe('alignOrderFlowToBars', () => {
+  const bars = [bar(0), bar(900), bar(1800), bar(2700)];
+
+  it('uses the latest snapshot inside each bar', () => {
+    const series = alignOrderFlowToBars(bars, [
+      snapshot(60, 1),
+      snapshot(840, 2),
+      snapshot(1800, 3)
+    ]);
+
+    expect(series[0]?.cvd.delta).toBe(2);
+    expect(series[1]).toBeNull();
+    expect(series[2]?.cvd.delta).toBe(3);
+    expect(series[3]).toBeNull();
+  });
+
+  it('restores display-only fields as empty', () => {
+    const [first] = alignOrderFlowToBars(bars, [snapshot(0, 1)]);
+    expect(first?.exchanges).toEqual([]);
+    expect(first?.recentLargeTrades).toEqual([]);
+  });
+
+  it('ignores snapshots after the last bar closes', () => {
+    const series = alignOrderFlowToBars(bars, [snapshot(3600, 5)]);
+    expect(series.every(s => s === null)).toBe(true);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * ORDER FLOW RECORDER
+ * Persists per-minute AggrStats snapshots (CVD, pressure, liquidations, OI)
+ * to IndexedDB as they stream from orderFlowIntel, and replays them
+ * bar-by-bar so BacktestEngine can score historical order flow.
+ *
+ * Storage layout: one key per symbol per UTC day, e.g.
+ * 'orderflow:BTCUSDT:2026-10-19' -> RecordedOrderFlowSnapshot[] (sorted by time)
+ */
+
+import { AggrStats } from '../types/aggrTypes';
+import { ChartDataPoint } from '../types';
+import { get, set, remove, getAllKeys, isAvailable } from './storage/indexedDB';
+import { DEFAULT_SYMBOL } from './symbolRegistry';
+
+const KEY_PREFIX = 'orderflow';
+const SNAPSHOT_INTERVAL_SEC = 60;        // One snapshot per minute
+const FLUSH_INTERVAL_MS = 60 * 1000;
+const RETENTION_DAYS = 30;
+const MAX_RECORDED_LIQUIDATIONS = 50;
+
+// Heavy / display-only fields are dropped before persisting
+export type RecordedOrderFlowStats = Omit<
+  AggrStats,
+  'exchanges' | 'recentLargeTrades' | 'priceValidation' | 'banned'
+>;
+
+export interface RecordedOrderFlowSnapshot {
+  time: number;                  // Minute bucket, unix seconds (same unit as ChartDataPoint.time)
+  stats: RecordedOrderFlowStats;
+}
+
+const dayKey = (symbol: string, timeSec: number) =>
+  `${KEY_PREFIX}:${symbol}:${new Date(timeSec * 1000).toISOString().split('T')[0]}`;
+
+function compact(stats: AggrStats): RecordedOrderFlowStats {
+  const {
+    exchanges: _exchanges,
+    recentLargeTrades: _largeTrades,
+    priceValidation: _priceValidation,
+    banned: _banned,
+    ...rest
+  } = stats;
+
+  return {
+    ...rest,
+    recentLiquidations: (stats.recentLiquidations || []).slice(-MAX_RECORDED_LIQUIDATIONS)
+  };
+}
+
+/**
+ * Restore a persisted snapshot into the AggrStats shape the signal generator expects
+ */
+export function toAggrStats(snapshot: RecordedOrderFlowSnapshot): AggrStats {
+  return {
+    ...snapshot.stats,
+    exchanges: [],
+    recentLargeTrades: []
+  };
+}
+
+/**
+ * Align snapshots to bars: each bar gets the latest snapshot recorded inside it,
+ * i.e. what the live generator would have seen at the bar's close.
+ * Bars without a snapshot get null (order flow scores as neutral).
+ */
+export function alignOrderFlowToBars(
+  chartData: ChartDataPoint[],
+  snapshots: RecordedOrderFlowSnapshot[]
+): (AggrStats | null)[] {
+  const series: (AggrStats | null)[] = new Array(chartData.length).fill(null);
+  if (chartData.length === 0 || snapshots.length === 0) return series;
+
+  const barSeconds = chartData.length > 1
+    ? chartData[1].time - chartData[0].time
+    : SNAPSHOT_INTERVAL_SEC;
+
+  let s = 0;
+  for (let i = 0; i < chartData.length; i++) {
+    const open = chartData[i].time;
+    const close = i + 1 < chartData.length ? chartData[i + 1].time : open + barSeconds;
+
+    let latest: RecordedOrderFlowSnapshot | null = null;
+    while (s < snapshots.length && snapshots[s].time < close) {
+      if (snapshots[s].time >= open) latest = snapshots[s];
+      s++;
+    }
+
+    if (latest) series[i] = toAggrStats(latest);
+  }
+
+  return series;
+}
+
+class OrderFlowRecorder {
+  private pending: Map<string, Map<number, RecordedOrderFlowSnapshot>> = new Map();
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private enabled: boolean = true;
+  private isFlushing: boolean = false;
+
+  constructor() {
+    if (!isAvailable()) {
+      this.enabled = false;
+      console.warn('[OrderFlowRecorder] IndexedDB unavailable - recording disabled');
+    }
+  }
+
+  /**
+   * Buffer a live stats update. The latest update in each minute wins.
+   */
+  record(stats: AggrStats): void {
+    if (!this.enabled) return;
+    if (stats.banned?.isBanned || !stats.cvd || !stats.pressure) return;
+    // Empty placeholder broadcasts carry no information
+    if (!stats.totalVolume && !stats.openInterest) return;
+
+    const symbol = stats.symbol || DEFAULT_SYMBOL;
+    const timeSec = Math.floor((stats.lastUpdate ?? Date.now()) / 1000);
+    const bucket = timeSec - (timeSec % SNAPSHOT_INTERVAL_SEC);
+    const key = dayKey(symbol, bucket);
+
+    if (!this.pending.has(key)) this.pending.set(key, new Map());
+    this.pending.get(key)!.set(bucket, { time: bucket, stats: compact(stats) });
+
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => { void this.flush(); }, FLUSH_INTERVAL_MS);
+      void this.prune();
+    }
+  }
+
+  /**
+   * Merge buffered snapshots into their day chunks
+   */
+  async flush(): Promise<void> {
+    if (this.isFlushing || this.pending.size === 0) return;
+    this.isFlushing = true;
+
+    const batch = this.pending;
+    this.pending = new Map();
+
+    try {
+      for (const [key, buffered] of batch) {
+        const existing = (await get<RecordedOrderFlowSnapshot[]>(key)) || [];
+        const merged = new Map(existing.map(s => [s.time, s] as const));
+        for (const [time, snapshot] of buffered) merged.set(time, snapshot);
+
+        await set(key, Array.from(merged.values()).sort((a, b) => a.time - b.time));
+      }
+    } catch (error) {
+      console.error('[OrderFlowRecorder] Flush failed:', error);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * Load recorded snapshots for [fromSec, toSec], oldest first
+   */
+  async load(symbol: string, fromSec: number, toSec: number): Promise<RecordedOrderFlowSnapshot[]> {
+    if (!this.enabled) return [];
+
+    // Make sure the current minute is visible to a backtest started right now
+    await this.flush();
+
+    const snapshots: RecordedOrderFlowSnapshot[] = [];
+    const startDay = fromSec - (fromSec % 86400);
+
+    for (let day = startDay; day <= toSec; day += 86400) {
+      const chunk = await get<RecordedOrderFlowSnapshot[]>(dayKey(symbol, day));
+      if (!chunk) continue;
+      for (const snapshot of chunk) {
+        if (snapshot.time >= fromSec && snapshot.time <= toSec) snapshots.push(snapshot);
+      }
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Convenience for backtests: load and align to the candles in one call
+   */
+  async loadForBars(symbol: string, chartData: ChartDataPoint[]): Promise<(AggrStats | null)[]> {
+    if (chartData.length === 0) return [];
+    const from = chartData[0].time;
+    const last = chartData[chartData.length - 1].time;
+    const barSeconds = chartData.length > 1 ? chartData[1].time - chartData[0].time : SNAPSHOT_INTERVAL_SEC;
+
+    const snapshots = await this.load(symbol, from, last + barSeconds);
+    return alignOrderFlowToBars(chartData, snapshots);
+  }
+
+  /**
+   * Drop day chunks older than the retention window
+   */
+  async prune(retentionDays: number = RETENTION_DAYS): Promise<number> {
+    if (!this.enabled) return 0;
+
+    const cutoff = new Date(Date.now() - retentionDays * 86400 * 1000).toISOString().split('T')[0];
+    const keys = (await getAllKeys()).filter(k => k.startsWith(`${KEY_PREFIX}:`));
+    let removed = 0;
+
+    for (const key of keys) {
+      const date = key.split(':')[2];
+      if (date && date < cutoff) {
+        await remove(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) console.log(`[OrderFlowRecorder] Pruned ${removed} day chunks`);
+    return removed;
+  }
+
+  stop(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    void this.flush();
+  }
+}
+
+export const orderFlowRecorder = new OrderFlowRecorder();
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { livePairPrice, watchedPairs, PAIR_PRICE_MAX_AGE_MS } from './pairPrices';
+import type { SymbolMarketState } from '../store/useStore';
+import { PendingOrder, Position } from '../types';
+
+const NOW = 1_760_000_000_000;
+
+const market = (price: number, lastPriceUpdate: number) => ({ price, lastPriceUpdate } as SymbolMarketState);
+
+describe('livePairPrice', () => {
+  const state = {
+    activeSymbol: 'BTCUSDT',
+    price: 65000,
+    marketBySymbol: {
+      BTCUSDT: market(64000, NOW - 10 * PAIR_PRICE_MAX_AGE_MS),
+      ETHUSDT: market(3200, NOW - 1000),
+      SOLUSDT: market(150, NOW - PAIR_PRICE_MAX_AGE_MS - 1)
+    }
+  };
+
+  it('uses the main feed for the charted symbol and fresh ticks for other pairs', () => {
+    expect(livePairPrice(state, 'BTCUSDT', NOW)).toBe(65000);
+    expect(livePairPrice(state, 'ETHUSDT', NOW)).toBe(3200);
+  });
+
+  it('treats stale or missing pair prices as no price', () => {
+    expect(livePairPrice(state, 'SOLUSDT', NOW)).toBe(0);
+    expect(livePairPrice(state, 'XRPUSDT', NOW)).toBe(0);
+  });
+});
+
+describe('watchedPairs', () => {
+  it('collects non-charted pairs with positions, working orders or the trade setup', () => {
+    const pairs = watchedPairs({
+      activeSymbol: 'BTCUSDT',
+      positions: [{ pair: 'SOLUSDT' }, { pair: 'BTCUSDT' }] as Position[],
+      pendingOrders: [
+        { pair: 'ETHUSDT', status: 'WORKING' },
+        { pair: 'XRPUSDT', status: 'TRIGGERED' }
+      ] as PendingOrder[],
+      activeTradeSetup: { pair: 'DOGEUSDT' }
+    });
+
+    expect(pairs).toEqual(['DOGEUSDT', 'ETHUSDT', 'SOLUSDT']);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * PAIR PRICES
+ * Which price each pair may be traded, filled or tracked at.
+ *
+ * The charted symbol follows the main ticker (store.price). Other pairs only
+ * have a usable price while the pair feed (PairPriceFeed) keeps their
+ * marketBySymbol entry fresh - a price cached when the user switched away is
+ * treated as no price, so nothing triggers, fills or resolves on it.
+ */
+
+import type { AppState } from '../store/useStore';
+
+/** Older pair prices are treated as missing */
+export const PAIR_PRICE_MAX_AGE_MS = 30 * 1000;
+
+type PriceState = Pick<AppState, 'activeSymbol' | 'price' | 'marketBySymbol'>;
+
+/**
+ * Live price for pair, or 0 when there is none
+ */
+export function livePairPrice(state: PriceState, pair: string, now: number = Date.now()): number {
+  if (pair === state.activeSymbol) return state.price;
+  const market = state.marketBySymbol[pair];
+  if (!market || market.price <= 0 || now - market.lastPriceUpdate > PAIR_PRICE_MAX_AGE_MS) return 0;
+  return market.price;
+}
+
+/**
+ * Pairs other than the charted one that need a live price: open positions,
+ * working orders and the setup in the execution panel
+ */
+export function watchedPairs(
+  state: Pick<AppState, 'activeSymbol' | 'positions' | 'pendingOrders' | 'activeTradeSetup'>
+): string[] {
+  const pairs = new Set<string>([
+    ...state.positions.map(p => p.pair),
+    ...state.pendingOrders.filter(o => o.status === 'WORKING').map(o => o.pair)
+  ]);
+  if (state.activeTradeSetup?.pair) pairs.add(state.activeTradeSetup.pair);
+  pairs.delete(state.activeSymbol);
+  return [...pairs].sort();
+}
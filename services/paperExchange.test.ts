@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySlippage,
+  takerFeeFor,
+  sliceLiquidity,
+  fundingPayment,
+  nextFundingTime,
+  DEFAULT_PAPER_EXCHANGE_CONFIG
+} from './paperExchange';
+import { AggrStats } from '../types/aggrTypes';
+
+describe('paper exchange cost model', () => {
+  it('slips against the taker', () => {
+    expect(applySlippage(10000, 'BUY', 5)).toBeCloseTo(10005);
+    expect(applySlippage(10000, 'SELL', 5)).toBeCloseTo(9995);
+  });
+
+  it('charges the taker fee as a percent of notional', () => {
+    expect(takerFeeFor(50000, 0.04)).toBeCloseTo(20);
+  });
+
+  it('caps each slice at a share of recent volume', () => {
+    // $6M over 60s = $100k/s; 10% participation at $50k = 0.2 BTC per 1s slice
+    const stats = { totalVolume: 6_000_000 } as AggrStats;
+    expect(sliceLiquidity(stats, 50000, DEFAULT_PAPER_EXCHANGE_CONFIG)).toBeCloseTo(0.2);
+    expect(sliceLiquidity(null, 50000, DEFAULT_PAPER_EXCHANGE_CONFIG)).toBe(Infinity);
+  });
+
+  it('makes longs pay and shorts receive positive funding', () => {
+    expect(fundingPayment({ type: 'LONG', size: 1 }, 50000, 0.01)).toBeCloseTo(5);
+    expect(fundingPayment({ type: 'SHORT', size: 1 }, 50000, 0.01)).toBeCloseTo(-5);
+  });
+
+  it('schedules funding on the next 8h UTC boundary', () => {
+    const now = Date.UTC(2024, 0, 1, 9, 30);
+    expect(nextFundingTime(now)).toBe(Date.UTC(2024, 0, 1, 16, 0));
+    expect(nextFundingTime(Date.UTC(2024, 0, 1, 16, 0))).toBe(Date.UTC(2024, 0, 2, 0, 0));
+  });
+});
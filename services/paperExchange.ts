@@ -0,0 +1,431 @@
+/**
+ * PAPER EXCHANGE
+ * Simulated execution for non-live mode so paper P&L carries the same costs as real trading.
+ *
+ * - Taker fee and slippage use the BacktestConfig model (takerFee %, slippageBps)
+ * - Market orders fill in slices capped by a share of recent traded volume (partial fills)
+ * - Resting limit orders fill at their price, without slippage, only while the market trades through it
+ * - Funding is charged at 00:00 / 08:00 / 16:00 UTC from each open pair's premiumIndex rate
+ * - Closes and scale-out partials are journaled and audit-logged like live bracket exits
+ * - Nothing fills while a tape replay owns the price
+ */
+
+import { useStore } from '../store/useStore';
+import { Position, TargetLevel } from '../types';
+import { AggrStats } from '../types/aggrTypes';
+import { BacktestConfig, DEFAULT_BACKTEST_CONFIG } from './backtestEngine';
+import { logPositionEvent } from './audit/auditLogger';
+import { calculatePositionPnL } from '../utils/tradingCalculations';
+import { livePairPrice } from './pairPrices';
+import { fetchFundingRate } from './macroDataService';
+
+// ============================================================================
+// CONFIG & TYPES
+// ============================================================================
+
+export interface PaperExchangeConfig extends Pick<BacktestConfig, 'takerFee' | 'slippageBps'> {
+  maxParticipationPct: number; // Max share of recent traded volume one slice may take
+  fillIntervalMs: number;      // Time between fill slices
+  maxFillSlices: number;       // Unfilled remainder is cancelled after this many slices
+}
+
+export const DEFAULT_PAPER_EXCHANGE_CONFIG: PaperExchangeConfig = {
+  takerFee: DEFAULT_BACKTEST_CONFIG.takerFee,
+  slippageBps: DEFAULT_BACKTEST_CONFIG.slippageBps,
+  maxParticipationPct: 10,
+  fillIntervalMs: 1000,
+  maxFillSlices: 20
+};
+
+const FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+const FUNDING_CHECK_MS = 60 * 1000;
+
+export interface PaperOrderRequest {
+  id: string;
+  pair: string;
+  type: 'LONG' | 'SHORT';
+  size: number;
+  leverage: number;
+  stopLoss: number;
+  takeProfit: number;
+  targetLevels?: TargetLevel[];
+  signalId?: string;
+}
+
+export interface PaperFillResult {
+  status: 'FILLED' | 'PARTIALLY_FILLED' | 'REJECTED';
+  filledSize: number;
+  averagePrice: number;
+  fees: number;
+}
+
+export type PaperCloseReason = 'MANUAL' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'LIQUIDATED';
+
+// ============================================================================
+// COST MODEL
+// ============================================================================
+
+/**
+ * Price after slippage - takers always cross against themselves
+ */
+export function applySlippage(price: number, side: 'BUY' | 'SELL', slippageBps: number): number {
+  const factor = slippageBps / 10000;
+  return side === 'BUY' ? price * (1 + factor) : price * (1 - factor);
+}
+
+export function takerFeeFor(notional: number, takerFeePct: number): number {
+  return Math.abs(notional) * (takerFeePct / 100);
+}
+
+/**
+ * Base-asset quantity one slice may fill, from the last 60s of traded volume.
+ * Without order flow stats there is nothing to size against, so the slice is unlimited.
+ */
+export function sliceLiquidity(
+  stats: AggrStats | null | undefined,
+  price: number,
+  config: PaperExchangeConfig
+): number {
+  if (!stats || stats.totalVolume <= 0 || price <= 0) return Infinity;
+  const usdPerSlice = (stats.totalVolume / 60) * (config.fillIntervalMs / 1000);
+  return (usdPerSlice * (config.maxParticipationPct / 100)) / price;
+}
+
+/**
+ * Funding owed by a position (positive = paid). Rate is in percent, as fetchFundingRate returns it.
+ * Positive funding: longs pay shorts.
+ */
+export function fundingPayment(position: Pick<Position, 'type' | 'size'>, markPrice: number, fundingRatePct: number): number {
+  const payment = position.size * markPrice * (fundingRatePct / 100);
+  return position.type === 'LONG' ? payment : -payment;
+}
+
+/**
+ * Next 8h funding timestamp (00:00 / 08:00 / 16:00 UTC) strictly after `now`
+ */
+export function nextFundingTime(now: number): number {
+  return (Math.floor(now / FUNDING_INTERVAL_MS) + 1) * FUNDING_INTERVAL_MS;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ============================================================================
+// PAPER EXCHANGE
+// ============================================================================
+
+class PaperExchange {
+  private config: PaperExchangeConfig = { ...DEFAULT_PAPER_EXCHANGE_CONFIG };
+  private fundingTimer: ReturnType<typeof setInterval> | null = null;
+  private nextFunding: number = nextFundingTime(Date.now());
+  // Funding time each pair still owes; a pair whose rate fetch failed keeps its entry
+  // so the next check retries it instead of settling the period at 0%
+  private fundingOwed: Map<string, number> = new Map();
+  private checkingFunding = false;
+
+  configure(config: Partial<PaperExchangeConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  start(): void {
+    if (this.fundingTimer) return;
+    this.nextFunding = nextFundingTime(Date.now());
+    this.fundingOwed.clear();
+    this.fundingTimer = setInterval(() => { void this.checkFunding(); }, FUNDING_CHECK_MS);
+    console.log('[PaperExchange] Started');
+  }
+
+  stop(): void {
+    if (this.fundingTimer) {
+      clearInterval(this.fundingTimer);
+      this.fundingTimer = null;
+    }
+  }
+
+  /**
+   * Fill a market order in slices against recent volume. The position appears
+   * on the first slice and grows (VWAP entry, accumulated fees) with each one;
+   * onOpened fires with that first slice, while the rest is still filling.
+   */
+  submitMarketOrder(order: PaperOrderRequest, onOpened?: () => void): Promise<PaperFillResult> {
+    return this.fillInSlices(order, undefined, onOpened);
+  }
+
+  /**
+   * Fill a triggered limit order. Slices only fill while the market is at or
+   * through the limit; the taker fee still applies (the model has no maker rate).
+   */
+  fillLimitOrder(order: PaperOrderRequest, limitPrice: number): Promise<PaperFillResult> {
+    return this.fillInSlices(order, limitPrice);
+  }
+
+  private async fillInSlices(order: PaperOrderRequest, limitPrice?: number, onOpened?: () => void): Promise<PaperFillResult> {
+    const side = order.type === 'LONG' ? 'BUY' : 'SELL';
+    let filledSize = 0;
+    let filledNotional = 0;
+    let fees = 0;
+
+    for (let slice = 0; slice < this.config.maxFillSlices && filledSize < order.size; slice++) {
+      if (slice > 0) await sleep(this.config.fillIntervalMs);
+
+      // Closed (stop, manual close) while the rest was still filling - don't reopen it
+      if (filledSize > 0 && !useStore.getState().positions.some(p => p.id === order.id)) {
+        console.log(`[PaperExchange] ${order.pair} position closed mid-fill - cancelling the remainder`);
+        break;
+      }
+
+      const { price, stats } = this.getMarket(order.pair);
+      if (price <= 0) continue;
+
+      const quantity = Math.min(order.size - filledSize, sliceLiquidity(stats, price, this.config));
+      if (quantity <= 0) continue;
+
+      if (limitPrice !== undefined && (side === 'BUY' ? price > limitPrice : price < limitPrice)) continue;
+
+      const fillPrice = limitPrice ?? applySlippage(price, side, this.config.slippageBps);
+      const opened = filledSize === 0;
+      filledSize += quantity;
+      filledNotional += quantity * fillPrice;
+      fees += takerFeeFor(quantity * fillPrice, this.config.takerFee);
+
+      this.upsertPosition(order, filledSize, filledNotional / filledSize, fees);
+      if (opened) onOpened?.();
+    }
+
+    if (filledSize <= 0) {
+      return { status: 'REJECTED', filledSize: 0, averagePrice: 0, fees: 0 };
+    }
+
+    const averagePrice = filledNotional / filledSize;
+    const status = filledSize >= order.size - 1e-12 ? 'FILLED' : 'PARTIALLY_FILLED';
+    logPositionEvent('OPENED', {
+      positionId: order.id,
+      symbol: order.pair,
+      side: order.type,
+      quantity: filledSize,
+      entryPrice: averagePrice,
+      reason: `PAPER_${status}`
+    });
+
+    console.log(`[PaperExchange] ${status} ${order.type} ${filledSize.toFixed(6)} ${order.pair} @ ${averagePrice.toFixed(2)} (fees $${fees.toFixed(2)})`);
+    return { status, filledSize, averagePrice, fees };
+  }
+
+  /**
+   * Market-close a paper position with slippage and taker fee, then journal it
+   */
+  closePosition(positionId: string, reason: PaperCloseReason): void {
+    const { positions, closePosition, recordTradeClose } = useStore.getState();
+    const position = positions.find(p => p.id === positionId);
+    if (!position) return;
+
+    const { price } = this.getMarket(position.pair);
+    if (price <= 0) {
+      console.warn('[PaperExchange] No price for', position.pair, '- cannot close');
+      return;
+    }
+
+    const exitPrice = applySlippage(price, position.type === 'LONG' ? 'SELL' : 'BUY', this.config.slippageBps);
+    const exitFee = takerFeeFor(position.size * exitPrice, this.config.takerFee);
+    const { pnlUSD: grossPnl } = calculatePositionPnL(position, exitPrice);
+    const costs = (position.fees || 0) + exitFee + (position.funding || 0);
+    const pnl = grossPnl - costs;
+    const margin = (position.entryPrice * position.size) / position.leverage;
+    const pnlPercent = margin > 0 ? (pnl / margin) * 100 : 0;
+    const now = Date.now();
+
+    closePosition(position.id, pnl);
+    recordTradeClose({
+      id: `journal-${now}-${Math.random().toString(36).substring(2, 11)}`,
+      date: now,
+      pair: position.pair,
+      type: position.type,
+      entryPrice: position.entryPrice,
+      exitPrice,
+      size: position.size,
+      leverage: position.leverage,
+      pnl,
+      pnlPercent,
+      entryTime: position.timestamp,
+      exitTime: now,
+      notes: `Paper ${reason.replace('_', ' ').toLowerCase()} | fees $${((position.fees || 0) + exitFee).toFixed(2)} | funding $${(position.funding || 0).toFixed(2)}`,
+      tags: [reason, position.type, 'PAPER'],
+      mood: pnl > 0 ? 'CONFIDENT' : 'FRUSTRATED',
+      result: pnl > 0 ? 'WIN' : pnl < 0 ? 'LOSS' : 'BE'
+    });
+
+    logPositionEvent('CLOSED', {
+      positionId: position.id,
+      symbol: position.pair,
+      side: position.type,
+      quantity: position.size,
+      entryPrice: position.entryPrice,
+      exitPrice,
+      pnl,
+      reason: `PAPER_${reason}`
+    });
+    console.log(`[PaperExchange] Closed ${position.type} ${position.pair} @ ${exitPrice.toFixed(2)} | ${reason} | Net PnL: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)}`);
+  }
+
+  /**
+   * Market-close one scale-out slice. Entry fees and funding so far are charged pro rata,
+   * so the slice and the final close together carry the position's full costs.
+   */
+  closePartial(positionId: string, size: number, label: string): boolean {
+    const { positions, closePartialPosition, recordTradeClose } = useStore.getState();
+    const position = positions.find(p => p.id === positionId);
+    if (!position || size <= 0 || size >= position.size) return false;
+
+    const { price } = this.getMarket(position.pair);
+    if (price <= 0) {
+      console.warn('[PaperExchange] No price for', position.pair, '- cannot scale out');
+      return false;
+    }
+
+    const share = size / position.size;
+    const exitPrice = applySlippage(price, position.type === 'LONG' ? 'SELL' : 'BUY', this.config.slippageBps);
+    const exitFee = takerFeeFor(size * exitPrice, this.config.takerFee);
+    const entryFees = (position.fees || 0) * share;
+    const funding = (position.funding || 0) * share;
+    const { pnlUSD: grossPnl } = calculatePositionPnL({ ...position, size }, exitPrice);
+    const pnl = grossPnl - entryFees - exitFee - funding;
+    const margin = (position.entryPrice * size) / position.leverage;
+    const pnlPercent = margin > 0 ? (pnl / margin) * 100 : 0;
+    const now = Date.now();
+
+    closePartialPosition(position.id, size, pnl, {
+      fees: (position.fees || 0) - entryFees,
+      funding: (position.funding || 0) - funding
+    });
+    recordTradeClose({
+      id: `journal-${now}-${Math.random().toString(36).substring(2, 11)}`,
+      date: now,
+      pair: position.pair,
+      type: position.type,
+      entryPrice: position.entryPrice,
+      exitPrice,
+      size,
+      leverage: position.leverage,
+      pnl,
+      pnlPercent,
+      entryTime: position.timestamp,
+      exitTime: now,
+      notes: `Paper ${label} partial | fees $${(entryFees + exitFee).toFixed(2)} | funding $${funding.toFixed(2)}`,
+      tags: [label, position.type, 'PARTIAL', 'PAPER'],
+      mood: pnl > 0 ? 'CONFIDENT' : 'FRUSTRATED',
+      result: pnl > 0 ? 'WIN' : pnl < 0 ? 'LOSS' : 'BE'
+    });
+
+    logPositionEvent('MODIFIED', {
+      positionId: position.id,
+      symbol: position.pair,
+      side: position.type,
+      quantity: size,
+      entryPrice: position.entryPrice,
+      exitPrice,
+      pnl,
+      reason: `PAPER_PARTIAL_${label}`
+    });
+    console.log(`[PaperExchange] ${label} scaled out ${size} ${position.pair} @ ${exitPrice.toFixed(2)} | Net PnL: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)}`);
+    return true;
+  }
+
+  private upsertPosition(order: PaperOrderRequest, size: number, entryPrice: number, fees: number): void {
+    const { positions, addPosition } = useStore.getState();
+    const existing = positions.find(p => p.id === order.id);
+    const isLong = order.type === 'LONG';
+
+    const position: Position = {
+      ...existing,
+      id: order.id,
+      pair: order.pair,
+      type: order.type,
+      entryPrice,
+      size,
+      leverage: order.leverage,
+      liquidationPrice: isLong ? entryPrice * (1 - 1 / order.leverage) : entryPrice * (1 + 1 / order.leverage),
+      stopLoss: order.stopLoss,
+      takeProfit: order.takeProfit,
+      pnl: existing?.pnl ?? 0,
+      pnlPercent: existing?.pnlPercent ?? 0,
+      timestamp: existing?.timestamp ?? Date.now(),
+      fees,
+      targetLevels: order.targetLevels,
+      signalId: order.signalId
+    };
+
+    if (existing) {
+      useStore.setState({ positions: positions.map(p => p.id === order.id ? position : p) });
+    } else {
+      addPosition(position);
+    }
+  }
+
+  private async checkFunding(): Promise<void> {
+    // A slow rate fetch must not let the next check settle the same period again
+    if (this.checkingFunding) return;
+    this.checkingFunding = true;
+    try {
+      await this.settleFunding();
+    } finally {
+      this.checkingFunding = false;
+    }
+  }
+
+  private async settleFunding(): Promise<void> {
+    const now = Date.now();
+    const { isLiveMode, positions } = useStore.getState();
+
+    if (now >= this.nextFunding) {
+      const fundingTime = this.nextFunding;
+      this.nextFunding = nextFundingTime(now);
+      for (const p of positions) {
+        if (p.timestamp <= fundingTime && !this.fundingOwed.has(p.pair)) this.fundingOwed.set(p.pair, fundingTime);
+      }
+    }
+    // Nothing is owed for pairs closed since, or for live positions
+    for (const [pair, fundingTime] of this.fundingOwed) {
+      if (isLiveMode || !positions.some(p => p.pair === pair && p.timestamp <= fundingTime)) this.fundingOwed.delete(pair);
+    }
+    if (this.fundingOwed.size === 0) return;
+
+    const rates = new Map<string, { rate: number; fundingTime: number }>();
+    for (const [pair, fundingTime] of this.fundingOwed) {
+      const rate = await fetchFundingRate(pair);
+      if (rate === null || !Number.isFinite(rate)) continue;
+      this.fundingOwed.delete(pair);
+      rates.set(pair, { rate, fundingTime });
+    }
+    if (rates.size === 0) return;
+
+    // Positions may have changed while the rates were fetched
+    let total = 0;
+    const updated = useStore.getState().positions.map(p => {
+      const funding = rates.get(p.pair);
+      if (!funding || p.timestamp > funding.fundingTime) return p;
+      const { price } = this.getMarket(p.pair);
+      if (price <= 0) return p;
+
+      const payment = fundingPayment(p, price, funding.rate);
+      total += payment;
+      return { ...p, funding: (p.funding || 0) + payment };
+    });
+
+    useStore.setState({ positions: updated });
+    const summary = [...rates].map(([pair, { rate }]) => `${pair} ${rate.toFixed(4)}%`).join(', ');
+    console.log(`[PaperExchange] Funding (${summary}): ${total >= 0 ? 'paid' : 'received'} $${Math.abs(total).toFixed(2)}`);
+  }
+
+  private getMarket(pair: string): { price: number; stats: AggrStats | null } {
+    const state = useStore.getState();
+    // Replayed tape is history - nothing fills or closes against it
+    if (state.isReplaying) return { price: 0, stats: null };
+    const price = livePairPrice(state, pair);
+
+    if (pair === state.activeSymbol) {
+      return { price, stats: state.orderFlowStats };
+    }
+    return { price, stats: state.marketBySymbol[pair]?.orderFlowStats || null };
+  }
+}
+
+export const paperExchange = new PaperExchange();
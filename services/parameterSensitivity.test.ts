@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findBestCell,
+  parseAxisValues,
+  runSensitivitySweep,
+  BacktestTaskPayload,
+  SensitivityMetrics
+} from './parameterSensitivity';
+
+const metrics = (patch: Partial<SensitivityMetrics>): SensitivityMetrics => ({
+  totalTrades: 10,
+  winRate: 0.5,
+  expectancy: 0,
+  profitFactor: 1,
+  maxDrawdownPercent: 5,
+  totalPnLPercent: 0,
+  ...patch
+});
+
+// Fake backtest: expectancy grows with minScoreNormal, drawdown with tp1Multiplier
+const fakeRunner = async ({ tacticalConfig }: BacktestTaskPayload) => {
+  const score = tacticalConfig.minScoreNormal!;
+  const tp1 = tacticalConfig.tp1Multiplier!;
+  if (score === 99) throw new Error('boom');
+  return metrics({ expectancy: score / 10, profitFactor: score / 4, maxDrawdownPercent: tp1 * 10, totalTrades: tp1 < 1 ? 2 : 10 });
+};
+
+const xAxis = { key: 'minScoreNormal' as const, values: [4, 5] };
+const yAxis = { key: 'tp1Multiplier' as const, values: [1, 1.5, 0.5] };
+
+describe('parameter sensitivity sweep', () => {
+  it('parses comma-separated axis values', () => {
+    expect(parseAxisValues('5, 4,4.5,, 4')).toEqual([4, 4.5, 5]);
+    expect(() => parseAxisValues('4, abc')).toThrow(/comma-separated/);
+    expect(() => parseAxisValues(' ')).toThrow();
+  });
+
+  it('backtests every cell with both parameters applied', async () => {
+    const seen: Array<[number, number, boolean]> = [];
+    const progress: number[] = [];
+    const results = await runSensitivitySweep(
+      [],
+      xAxis,
+      yAxis,
+      { strategyId: 'tactical-v33' },
+      { htfTrendGate: false },
+      [],
+      p => progress.push(p.completed),
+      async (payload) => {
+        seen.push([payload.tacticalConfig.minScoreNormal!, payload.tacticalConfig.tp1Multiplier!, payload.tacticalConfig.htfTrendGate!]);
+        return fakeRunner(payload);
+      }
+    );
+
+    expect(seen).toHaveLength(6);
+    expect(seen.every(([, , gate]) => gate === false)).toBe(true);
+    expect(progress).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(results.cells.map(row => row.map(c => [c.xValue, c.yValue]))).toEqual([
+      [[4, 1], [5, 1]],
+      [[4, 1.5], [5, 1.5]],
+      [[4, 0.5], [5, 0.5]]
+    ]);
+  });
+
+  it('ranks cells per metric, skipping thin ones', async () => {
+    const results = await runSensitivitySweep([], xAxis, yAxis, { strategyId: 'tactical-v33' }, {}, [], undefined, fakeRunner);
+
+    expect(findBestCell(results, 'EXPECTANCY')).toMatchObject({ xValue: 5 });
+    // tp1 = 0.5 has the lowest drawdown but only 2 trades
+    expect(findBestCell(results, 'MAX_DRAWDOWN')).toMatchObject({ yValue: 1 });
+  });
+
+  it('records failed cells without aborting the sweep', async () => {
+    const results = await runSensitivitySweep(
+      [], { key: 'minScoreNormal', values: [4, 99] }, yAxis, { strategyId: 'tactical-v33' }, {}, [], undefined, fakeRunner
+    );
+
+    expect(results.cells[0][1]).toMatchObject({ metrics: null, error: 'boom' });
+    expect(results.cells[0][0].metrics).not.toBeNull();
+  });
+
+  it('rejects identical axes and oversized grids', async () => {
+    await expect(runSensitivitySweep([], xAxis, xAxis, { strategyId: 'tactical-v33' }, {}, [], undefined, fakeRunner))
+      .rejects.toThrow(/two different/);
+    const big = { key: 'adxChopThreshold' as const, values: Array.from({ length: 60 }, (_, i) => i) };
+    await expect(runSensitivitySweep([], big, yAxis, { strategyId: 'tactical-v33' }, {}, [], undefined, fakeRunner))
+      .rejects.toThrow(/max 100/);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * PARAMETER SENSITIVITY SWEEP
+ *
+ * Varies two numeric TacticalConfigV33 fields over a grid and backtests every
+ * cell on the same candles, so a setting can be judged by its neighbourhood
+ * instead of a single lucky point:
+ * - Cells run in parallel on the backtest WorkerPool (services/workers/backtestWorker.ts)
+ * - Each cell keeps profit factor, expectancy, drawdown, win rate, return and trade count
+ * - Cells with too few trades are flagged rather than ranked
+ *
+ * @version 1.0.0
+ */
+
+import { ChartDataPoint, TacticalConfigV33 } from '../types';
+import { AggrStats } from '../types/aggrTypes';
+import { BacktestConfig, BacktestResults } from './backtestEngine';
+import { OptimizableParam } from './walkForwardOptimizer';
+import { getBacktestWorkerPool } from './workers/workerPool';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SensitivityAxis {
+  key: OptimizableParam;
+  values: number[];
+}
+
+export interface SensitivityMetrics {
+  totalTrades: number;
+  winRate: number;
+  expectancy: number;
+  profitFactor: number;
+  maxDrawdownPercent: number;
+  totalPnLPercent: number;
+}
+
+export type SensitivityMetric = 'PROFIT_FACTOR' | 'EXPECTANCY' | 'MAX_DRAWDOWN';
+
+export interface SensitivityCell {
+  xValue: number;
+  yValue: number;
+  metrics: SensitivityMetrics | null;   // null when the cell's backtest failed
+  error?: string;
+}
+
+export interface SensitivityResults {
+  xAxis: SensitivityAxis;
+  yAxis: SensitivityAxis;
+  strategyId: string;
+  cells: SensitivityCell[][];           // cells[yIndex][xIndex]
+  candleCount: number;
+  durationMs: number;
+}
+
+export interface SensitivityProgress {
+  completed: number;
+  total: number;
+}
+
+/** Payload of a RUN_BACKTEST task on the backtest worker */
+export interface BacktestTaskPayload {
+  chartData: ChartDataPoint[];
+  backtestConfig: Partial<BacktestConfig>;
+  tacticalConfig: Partial<TacticalConfigV33>;
+  orderFlowSeries: (AggrStats | null)[];
+}
+
+export type CellRunner = (payload: BacktestTaskPayload) => Promise<SensitivityMetrics>;
+
+export const MAX_SENSITIVITY_CELLS = 100;
+export const MIN_TRADES_FOR_RANKING = 5;
+
+/** Starting grids for the fields we used to tune by hand */
+export const DEFAULT_SENSITIVITY_AXES: SensitivityAxis[] = [
+  { key: 'minScoreNormal', values: [3.5, 4.0, 4.5, 5.0, 5.5] },
+  { key: 'orderFlowVetoThreshold', values: [1.0, 1.5, 2.0, 2.5, 3.0] },
+  { key: 'adxChopThreshold', values: [10, 15, 20, 25] },
+  { key: 'tp1Multiplier', values: [0.8, 1.0, 1.25, 1.5] },
+  { key: 'tp2Multiplier', values: [1.5, 2.0, 2.5, 3.0] },
+  { key: 'tp3Multiplier', values: [2.5, 3.0, 3.5, 4.0] },
+  { key: 'tp4Multiplier', values: [4.0, 5.0, 6.0] }
+];
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+export function summarizeBacktest(results: BacktestResults): SensitivityMetrics {
+  return {
+    totalTrades: results.totalTrades,
+    winRate: results.winRate,
+    expectancy: results.expectancy,
+    profitFactor: Number.isFinite(results.profitFactor) ? results.profitFactor : 0,
+    maxDrawdownPercent: results.maxDrawdownPercent,
+    totalPnLPercent: results.totalPnLPercent
+  };
+}
+
+export function metricValue(metrics: SensitivityMetrics, metric: SensitivityMetric): number {
+  switch (metric) {
+    case 'PROFIT_FACTOR': return metrics.profitFactor;
+    case 'EXPECTANCY': return metrics.expectancy;
+    case 'MAX_DRAWDOWN': return metrics.maxDrawdownPercent;
+  }
+}
+
+/** Drawdown is the only metric where lower is better */
+export const higherIsBetter = (metric: SensitivityMetric) => metric !== 'MAX_DRAWDOWN';
+
+/**
+ * Best cell for a metric among cells with enough trades to mean anything
+ */
+export function findBestCell(results: SensitivityResults, metric: SensitivityMetric): SensitivityCell | null {
+  let best: SensitivityCell | null = null;
+  for (const cell of results.cells.flat()) {
+    if (!cell.metrics || cell.metrics.totalTrades < MIN_TRADES_FOR_RANKING) continue;
+    if (!best) {
+      best = cell;
+      continue;
+    }
+    const value = metricValue(cell.metrics, metric);
+    const bestValue = metricValue(best.metrics!, metric);
+    if (higherIsBetter(metric) ? value > bestValue : value < bestValue) best = cell;
+  }
+  return best;
+}
+
+/**
+ * Parse a comma-separated list of axis values ("4, 4.5, 5")
+ */
+export function parseAxisValues(text: string): number[] {
+  const values = text.split(',').map(v => v.trim()).filter(Boolean).map(Number);
+  if (values.length === 0 || values.some(v => !Number.isFinite(v))) {
+    throw new Error('Axis values must be a comma-separated list of numbers');
+  }
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+// ============================================================================
+// SWEEP
+// ============================================================================
+
+const runOnWorkerPool: CellRunner = (payload) =>
+  getBacktestWorkerPool().submit('RUN_BACKTEST', payload) as Promise<SensitivityMetrics>;
+
+/**
+ * Backtest every (x, y) combination. Cells run concurrently on the worker pool;
+ * a failing cell is recorded with its error and does not abort the sweep.
+ */
+export async function runSensitivitySweep(
+  chartData: ChartDataPoint[],
+  xAxis: SensitivityAxis,
+  yAxis: SensitivityAxis,
+  backtestConfig: Partial<BacktestConfig> & Pick<BacktestConfig, 'strategyId'>,
+  baseTacticalConfig: Partial<TacticalConfigV33> = {},
+  orderFlowSeries: (AggrStats | null)[] = [],
+  onProgress?: (progress: SensitivityProgress) => void,
+  runCell: CellRunner = runOnWorkerPool
+): Promise<SensitivityResults> {
+  if (xAxis.key === yAxis.key) {
+    throw new Error('Pick two different parameters');
+  }
+  const total = xAxis.values.length * yAxis.values.length;
+  if (total === 0) {
+    throw new Error('Both axes need at least one value');
+  }
+  if (total > MAX_SENSITIVITY_CELLS) {
+    throw new Error(`Grid has ${total} cells, max ${MAX_SENSITIVITY_CELLS}`);
+  }
+
+  const start = Date.now();
+  let completed = 0;
+  onProgress?.({ completed, total });
+
+  const cells = await Promise.all(yAxis.values.map(yValue =>
+    Promise.all(xAxis.values.map(async (xValue): Promise<SensitivityCell> => {
+      try {
+        const metrics = await runCell({
+          chartData,
+          backtestConfig,
+          tacticalConfig: { ...baseTacticalConfig, [xAxis.key]: xValue, [yAxis.key]: yValue },
+          orderFlowSeries
+        });
+        return { xValue, yValue, metrics };
+      } catch (error) {
+        return { xValue, yValue, metrics: null, error: (error as Error).message };
+      } finally {
+        onProgress?.({ completed: ++completed, total });
+      }
+    }))
+  ));
+
+  const durationMs = Date.now() - start;
+  console.log(`[Sensitivity] ${xAxis.key} x ${yAxis.key}: ${total} cells in ${(durationMs / 1000).toFixed(1)}s`);
+
+  return {
+    xAxis,
+    yAxis,
+    strategyId: backtestConfig.strategyId,
+    cells,
+    candleCount: chartData.length,
+    durationMs
+  };
+}
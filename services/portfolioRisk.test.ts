@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeReturns,
+  correlation,
+  historicalVaR,
+  parametricVaR,
+  assessPortfolioRisk,
+  PortfolioRiskContext
+} from './portfolioRisk';
+import { checkRiskVeto, INITIAL_RISK_STATE, TradeProposal } from './riskOfficer';
+import { ChartDataPoint, Position } from '../types';
+
+// Alternating ±1% bars - deterministic, mean zero
+const swings = (n: number, amplitude = 0.01) =>
+  Array.from({ length: n }, (_, i) => (i % 2 === 0 ? amplitude : -amplitude));
+
+const proposal = (overrides: Partial<TradeProposal> = {}): TradeProposal => ({
+  type: 'LONG',
+  entryPrice: 100,
+  stopLoss: 98,
+  takeProfit: 104,
+  size: 20, // $2,000 notional = 4% of $50k
+  leverage: 5,
+  ...overrides
+});
+
+const position = (pair: string, type: 'LONG' | 'SHORT', size: number): Position => ({
+  id: `${pair}-${type}`,
+  pair,
+  type,
+  entryPrice: 100,
+  size,
+  leverage: 5,
+  liquidationPrice: 0,
+  stopLoss: 0,
+  takeProfit: 0,
+  pnl: 0,
+  pnlPercent: 0,
+  timestamp: 0
+});
+
+const context = (overrides: Partial<PortfolioRiskContext> = {}): PortfolioRiskContext => ({
+  pair: 'BTCUSDT',
+  returnsBySymbol: { BTCUSDT: swings(60), ETHUSDT: swings(60), SOLUSDT: swings(60).map(r => -r) },
+  barIntervalMs: 24 * 60 * 60 * 1000, // Daily bars: no horizon scaling
+  prices: {},
+  averageBarVolumeUSD: 0,
+  ...overrides
+});
+
+describe('return statistics', () => {
+  it('computes close-to-close returns', () => {
+    const bars = [100, 110, 99].map((close, time) => ({ time, close } as ChartDataPoint));
+    const returns = computeReturns(bars);
+    expect(returns[0]).toBeCloseTo(0.1);
+    expect(returns[1]).toBeCloseTo(-0.1);
+  });
+
+  it('measures correlation', () => {
+    expect(correlation(swings(20), swings(20))).toBeCloseTo(1);
+    expect(correlation(swings(20), swings(20).map(r => -r))).toBeCloseTo(-1);
+  });
+
+  it('reads VaR and CVaR from the loss tail', () => {
+    const pnl = Array.from({ length: 100 }, (_, i) => i - 95); // P&L -95..+4
+    const historical = historicalVaR(pnl, 0.95);
+    expect(historical.var).toBe(90);
+    expect(historical.cvar).toBeCloseTo(92.5); // mean of the worst 6: 90..95
+
+    const parametric = parametricVaR(swings(100, 10), 0.95);
+    expect(parametric.var).toBeCloseTo(1.6449 * 10.05, 0);
+    expect(parametric.cvar).toBeGreaterThan(parametric.var);
+  });
+});
+
+describe('assessPortfolioRisk', () => {
+  it('flags same-direction exposure in correlated pairs', () => {
+    const result = assessPortfolioRisk(proposal(), [position('ETHUSDT', 'LONG', 40)], 50000, context());
+    expect(result.violation?.reason).toBe('CORRELATED_POSITION');
+  });
+
+  it('lets negatively correlated or opposite positions through', () => {
+    const hedged = assessPortfolioRisk(proposal(), [position('ETHUSDT', 'SHORT', 40)], 50000, context());
+    const uncorrelated = assessPortfolioRisk(proposal(), [position('SOLUSDT', 'LONG', 40)], 50000, context());
+    expect(hedged.violation).toBeNull();
+    expect(uncorrelated.violation).toBeNull();
+  });
+
+  it('blocks when portfolio CVaR is too large for current volatility', () => {
+    const volatile = context({ returnsBySymbol: { BTCUSDT: swings(60, 0.25) } });
+    const result = assessPortfolioRisk(proposal(), [], 50000, volatile);
+    expect(result.violation?.reason).toBe('HIGH_VOL_OVERSIZED');
+    expect(result.metrics.parametric?.cvar).toBeGreaterThan(750);
+  });
+
+  it('blocks orders that are large against recent volume', () => {
+    const thin = context({ averageBarVolumeUSD: 100_000 });
+    expect(assessPortfolioRisk(proposal(), [], 50000, thin).violation?.reason).toBe('LIQUIDITY_CONCERN');
+  });
+
+  it('skips VaR without enough history', () => {
+    const result = assessPortfolioRisk(proposal(), [], 50000, context({ returnsBySymbol: { BTCUSDT: swings(10, 0.25) } }));
+    expect(result.metrics.historical).toBeNull();
+    expect(result.violation).toBeNull();
+  });
+});
+
+describe('checkRiskVeto with portfolio context', () => {
+  it('surfaces portfolio vetoes', () => {
+    const result = checkRiskVeto(
+      proposal(),
+      { dailyPnL: 0, dailyLossLimit: 2500, balance: 50000, positions: [position('ETHUSDT', 'LONG', 40)] },
+      INITIAL_RISK_STATE,
+      context()
+    );
+    expect(result).toMatchObject({ blocked: true, reason: 'CORRELATED_POSITION' });
+  });
+});
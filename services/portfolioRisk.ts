@@ -0,0 +1,321 @@
+/**
+ * PORTFOLIO RISK
+ * Risk of the whole book (open positions + the proposed trade), not just one proposal.
+ *
+ * - Historical and parametric (normal) VaR / CVaR from chartData close-to-close returns
+ * - Aggregate directional exposure across open positions
+ * - Correlation-weighted exposure: same-direction positions in correlated pairs count together
+ * - Liquidity: proposal notional against recent traded volume
+ *
+ * Pairs without return history are treated as fully correlated with the proposal (conservative).
+ */
+
+import type { AppState } from '../store/useStore';
+import { ChartDataPoint, Position } from '../types';
+import type { TradeProposal, VetoReason } from './riskOfficer';
+
+// ============================================================================
+// CONFIG & TYPES
+// ============================================================================
+
+export type VaRConfidence = 0.9 | 0.95 | 0.975 | 0.99;
+
+const Z_SCORES: Record<VaRConfidence, number> = {
+  0.9: 1.2816,
+  0.95: 1.6449,
+  0.975: 1.96,
+  0.99: 2.3263
+};
+
+export interface PortfolioRiskLimits {
+  confidence: VaRConfidence;
+  horizonMs: number;                // VaR horizon (per-bar risk is scaled by sqrt(time))
+  minReturns: number;               // Below this many returns VaR is not trusted
+  maxCVaRPct: number;               // Max horizon CVaR, % of balance
+  maxNetExposurePct: number;        // Max |long - short| notional, % of balance
+  correlationThreshold: number;     // Pairs at or above this count as correlated
+  maxCorrelatedExposurePct: number; // Max same-direction correlated notional, % of balance
+  liquidityLookbackBars: number;
+  maxBarVolumePct: number;          // Max proposal notional vs average bar volume (USD)
+}
+
+export const DEFAULT_PORTFOLIO_RISK_LIMITS: PortfolioRiskLimits = {
+  confidence: 0.95,
+  horizonMs: 24 * 60 * 60 * 1000,
+  minReturns: 30,
+  maxCVaRPct: 1.5,
+  maxNetExposurePct: 15,
+  correlationThreshold: 0.7,
+  maxCorrelatedExposurePct: 10,
+  liquidityLookbackBars: 20,
+  maxBarVolumePct: 1
+};
+
+export interface PortfolioRiskContext {
+  pair: string;                             // Symbol of the proposal
+  returnsBySymbol: Record<string, number[]>;
+  barIntervalMs: number;
+  prices: Record<string, number>;           // Mark prices for open positions
+  averageBarVolumeUSD: number;              // Proposal pair, 0 if unknown
+}
+
+export interface VaRResult {
+  var: number;  // Loss (USD, positive) not exceeded at the confidence level
+  cvar: number; // Expected loss beyond VaR (USD, positive)
+}
+
+export interface PortfolioRiskMetrics {
+  historical: VaRResult | null;
+  parametric: VaRResult | null;
+  grossExposure: number;
+  netExposure: number;          // Long notional - short notional
+  correlatedExposure: number;   // Same-direction, correlation-weighted, incl. proposal
+  proposalNotional: number;
+}
+
+export interface PortfolioRiskAssessment {
+  metrics: PortfolioRiskMetrics;
+  violation: { reason: VetoReason; message: string } | null;
+}
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+export function computeReturns(chartData: ChartDataPoint[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < chartData.length; i++) {
+    const prev = chartData[i - 1].close;
+    if (prev > 0) returns.push(chartData[i].close / prev - 1);
+  }
+  return returns;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const stdDev = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+/**
+ * Pearson correlation over the trailing overlap of two series
+ */
+export function correlation(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 3) return 0;
+  const x = a.slice(-n);
+  const y = b.slice(-n);
+  const mx = mean(x);
+  const my = mean(y);
+
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (x[i] - mx) * (y[i] - my);
+    vx += (x[i] - mx) ** 2;
+    vy += (y[i] - my) ** 2;
+  }
+  return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : 0;
+}
+
+/**
+ * Empirical VaR / CVaR of a P&L series (USD per period)
+ */
+export function historicalVaR(pnl: number[], confidence: VaRConfidence): VaRResult {
+  const losses = pnl.map(v => -v).sort((a, b) => a - b);
+  const index = Math.min(losses.length - 1, Math.ceil(confidence * losses.length) - 1);
+  const tail = losses.slice(index);
+  return {
+    var: Math.max(0, losses[index]),
+    cvar: Math.max(0, mean(tail))
+  };
+}
+
+/**
+ * Normal-distribution VaR / CVaR of a P&L series (USD per period)
+ */
+export function parametricVaR(pnl: number[], confidence: VaRConfidence): VaRResult {
+  const mu = mean(pnl);
+  const sigma = stdDev(pnl);
+  const z = Z_SCORES[confidence];
+  const density = Math.exp(-(z ** 2) / 2) / Math.sqrt(2 * Math.PI);
+  return {
+    var: Math.max(0, z * sigma - mu),
+    cvar: Math.max(0, (sigma * density) / (1 - confidence) - mu)
+  };
+}
+
+// ============================================================================
+// PORTFOLIO
+// ============================================================================
+
+interface BookEntry {
+  pair: string;
+  notional: number; // Signed: long +, short -
+}
+
+const signedNotional = (type: 'LONG' | 'SHORT', size: number, price: number) =>
+  (type === 'LONG' ? 1 : -1) * size * price;
+
+/**
+ * Per-period P&L the book would have produced over the trailing common window
+ */
+export function portfolioPnLSeries(book: BookEntry[], returnsBySymbol: Record<string, number[]>, fallbackPair: string): number[] {
+  const seriesFor = (pair: string) => returnsBySymbol[pair]?.length ? returnsBySymbol[pair] : (returnsBySymbol[fallbackPair] || []);
+  const length = Math.min(...book.map(entry => seriesFor(entry.pair).length));
+  if (!Number.isFinite(length) || length <= 0) return [];
+
+  const pnl = new Array<number>(length).fill(0);
+  for (const entry of book) {
+    const series = seriesFor(entry.pair).slice(-length);
+    for (let t = 0; t < length; t++) pnl[t] += entry.notional * series[t];
+  }
+  return pnl;
+}
+
+/**
+ * Evaluate the book with the proposal added. The first breached limit becomes the violation.
+ */
+export function assessPortfolioRisk(
+  proposal: TradeProposal,
+  positions: Position[],
+  balance: number,
+  context: PortfolioRiskContext,
+  limits: PortfolioRiskLimits = DEFAULT_PORTFOLIO_RISK_LIMITS
+): PortfolioRiskAssessment {
+  const pairReturns = context.returnsBySymbol[context.pair] || [];
+  const proposalNotional = proposal.size * proposal.entryPrice;
+  const book: BookEntry[] = [
+    ...positions.map(p => ({
+      pair: p.pair,
+      notional: signedNotional(p.type, p.size, context.prices[p.pair] || p.entryPrice)
+    })),
+    { pair: context.pair, notional: signedNotional(proposal.type, proposal.size, proposal.entryPrice) }
+  ];
+
+  const grossExposure = book.reduce((sum, e) => sum + Math.abs(e.notional), 0);
+  const netExposure = book.reduce((sum, e) => sum + e.notional, 0);
+
+  // Same-direction exposure, each position weighted by its correlation to the proposal pair
+  const direction = proposal.type === 'LONG' ? 1 : -1;
+  const correlatedExposure = book.reduce((sum, e) => {
+    if (Math.sign(e.notional) !== direction) return sum;
+    const other = context.returnsBySymbol[e.pair];
+    const rho = e.pair === context.pair || !other?.length || !pairReturns.length
+      ? 1
+      : correlation(pairReturns, other);
+    return rho >= limits.correlationThreshold ? sum + Math.abs(e.notional) * rho : sum;
+  }, 0);
+
+  const pnl = portfolioPnLSeries(book, context.returnsBySymbol, context.pair);
+  const hasHistory = pnl.length >= limits.minReturns && context.barIntervalMs > 0;
+  const horizonScale = hasHistory ? Math.sqrt(limits.horizonMs / context.barIntervalMs) : 0;
+  const scale = (r: VaRResult): VaRResult => ({ var: r.var * horizonScale, cvar: r.cvar * horizonScale });
+
+  const metrics: PortfolioRiskMetrics = {
+    historical: hasHistory ? scale(historicalVaR(pnl, limits.confidence)) : null,
+    parametric: hasHistory ? scale(parametricVaR(pnl, limits.confidence)) : null,
+    grossExposure,
+    netExposure,
+    correlatedExposure,
+    proposalNotional
+  };
+
+  const pctOfBalance = (value: number) => balance > 0 ? (value / balance) * 100 : Infinity;
+
+  const correlatedPct = pctOfBalance(correlatedExposure);
+  if (positions.length > 0 && correlatedPct > limits.maxCorrelatedExposurePct) {
+    return {
+      metrics,
+      violation: {
+        reason: 'CORRELATED_POSITION',
+        message: `Correlated ${proposal.type} exposure ${correlatedPct.toFixed(1)}% of balance > ${limits.maxCorrelatedExposurePct}% limit (ρ ≥ ${limits.correlationThreshold}).`
+      }
+    };
+  }
+
+  const netPct = pctOfBalance(Math.abs(netExposure));
+  if (netPct > limits.maxNetExposurePct) {
+    return {
+      metrics,
+      violation: {
+        reason: 'MAX_EXPOSURE',
+        message: `Net ${netExposure >= 0 ? 'long' : 'short'} exposure ${netPct.toFixed(1)}% of balance > ${limits.maxNetExposurePct}% limit.`
+      }
+    };
+  }
+
+  // Use the worse of the two estimates - fat tails show up in the historical one
+  const cvar = Math.max(metrics.historical?.cvar ?? 0, metrics.parametric?.cvar ?? 0);
+  const cvarPct = pctOfBalance(cvar);
+  if (hasHistory && cvarPct > limits.maxCVaRPct) {
+    return {
+      metrics,
+      violation: {
+        reason: 'HIGH_VOL_OVERSIZED',
+        message: `Portfolio ${limits.confidence * 100}% CVaR $${cvar.toFixed(2)} (${cvarPct.toFixed(2)}% of balance) > ${limits.maxCVaRPct}% limit at current volatility. Reduce size.`
+      }
+    };
+  }
+
+  if (context.averageBarVolumeUSD > 0) {
+    const participationPct = (proposalNotional / context.averageBarVolumeUSD) * 100;
+    if (participationPct > limits.maxBarVolumePct) {
+      return {
+        metrics,
+        violation: {
+          reason: 'LIQUIDITY_CONCERN',
+          message: `Order is ${participationPct.toFixed(2)}% of average bar volume ($${context.averageBarVolumeUSD.toFixed(0)}) > ${limits.maxBarVolumePct}% limit.`
+        }
+      };
+    }
+  }
+
+  return { metrics, violation: null };
+}
+
+// ============================================================================
+// STORE ADAPTER
+// ============================================================================
+
+function medianBarInterval(chartData: ChartDataPoint[]): number {
+  const gaps = chartData.slice(1).map((c, i) => c.time - chartData[i].time).filter(g => g > 0).sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] * 1000 : 0;
+}
+
+/**
+ * Build the risk context for a proposal on `pair` from current market state
+ */
+export function buildPortfolioRiskContext(
+  pair: string,
+  state: Pick<AppState, 'activeSymbol' | 'chartData' | 'price' | 'marketBySymbol'>,
+  limits: PortfolioRiskLimits = DEFAULT_PORTFOLIO_RISK_LIMITS
+): PortfolioRiskContext {
+  const chartFor = (symbol: string) =>
+    symbol === state.activeSymbol ? state.chartData : (state.marketBySymbol[symbol]?.chartData || []);
+  const priceFor = (symbol: string) =>
+    symbol === state.activeSymbol ? state.price : (state.marketBySymbol[symbol]?.price || 0);
+
+  const symbols = new Set([pair, state.activeSymbol, ...Object.keys(state.marketBySymbol)]);
+  const returnsBySymbol: Record<string, number[]> = {};
+  const prices: Record<string, number> = {};
+  for (const symbol of symbols) {
+    returnsBySymbol[symbol] = computeReturns(chartFor(symbol));
+    prices[symbol] = priceFor(symbol);
+  }
+
+  const recent = chartFor(pair).slice(-limits.liquidityLookbackBars);
+  const averageBarVolumeUSD = recent.length > 0
+    ? recent.reduce((sum, c) => sum + c.volume * c.close, 0) / recent.length
+    : 0;
+
+  return {
+    pair,
+    returnsBySymbol,
+    barIntervalMs: medianBarInterval(chartFor(pair)),
+    prices,
+    averageBarVolumeUSD
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findTargetExits,
+  managedStop,
+  evaluatePositionManagement,
+  DEFAULT_POSITION_MANAGEMENT_CONFIG
+} from './positionManagement';
+import { Position, TargetLevel } from '../types';
+
+const targets = (statuses: TargetLevel['status'][] = ['PENDING', 'PENDING', 'PENDING', 'PENDING']): TargetLevel[] =>
+  [102, 104, 106, 110].map((price, i) => ({
+    price,
+    rMultiple: i + 1,
+    positionPct: [25, 35, 25, 15][i],
+    status: statuses[i]
+  }));
+
+const position = (overrides: Partial<Position> = {}): Position => ({
+  id: 'pos-1',
+  pair: 'BTCUSDT',
+  type: 'LONG',
+  entryPrice: 100,
+  size: 1,
+  leverage: 5,
+  liquidationPrice: 80,
+  stopLoss: 98,
+  takeProfit: 104,
+  pnl: 0,
+  pnlPercent: 0,
+  timestamp: 0,
+  targetLevels: targets(),
+  ...overrides
+});
+
+describe('findTargetExits', () => {
+  it('scales out each crossed target by its share of the entry size', () => {
+    const exits = findTargetExits(position(), 104.5, 3);
+    expect(exits.map(e => [e.index, e.quantity])).toEqual([[0, 0.25], [1, 0.35]]);
+    expect(exits.some(e => e.closesPosition)).toBe(false);
+  });
+
+  it('sizes later targets off the original entry, not what is left', () => {
+    const afterTp1 = position({ size: 0.75, entrySize: 1, targetLevels: targets(['HIT', 'PENDING', 'PENDING', 'PENDING']) });
+    expect(findTargetExits(afterTp1, 104, 3)).toEqual([{ index: 1, price: 104, quantity: 0.35, closesPosition: false }]);
+  });
+
+  it('closes the remainder at the last target', () => {
+    const lastLeg = position({ size: 0.15, entrySize: 1, targetLevels: targets(['HIT', 'HIT', 'HIT', 'PENDING']) });
+    expect(findTargetExits(lastLeg, 111, 3)).toEqual([{ index: 3, price: 110, quantity: 0.15, closesPosition: true }]);
+  });
+
+  it('mirrors targets for shorts', () => {
+    const short = position({
+      type: 'SHORT',
+      stopLoss: 102,
+      targetLevels: [98, 96].map((price, i) => ({ price, rMultiple: i + 1, positionPct: 50, status: 'PENDING' as const }))
+    });
+    expect(findTargetExits(short, 97, 3).map(e => e.index)).toEqual([0]);
+  });
+});
+
+describe('managedStop', () => {
+  it('moves the stop to entry after the configured target', () => {
+    expect(managedStop(position(), 1, 102, 1, DEFAULT_POSITION_MANAGEMENT_CONFIG))
+      .toEqual({ stopLoss: 100, trailingStopActive: false, reason: 'BREAKEVEN' });
+  });
+
+  it('trails by ATR after TP2 and never loosens', () => {
+    const trailing = position({ stopLoss: 100, trailingStopActive: true });
+    expect(managedStop(trailing, 2, 105, 1, DEFAULT_POSITION_MANAGEMENT_CONFIG).stopLoss).toBe(103);
+    expect(managedStop({ ...trailing, stopLoss: 103 }, 2, 104, 1, DEFAULT_POSITION_MANAGEMENT_CONFIG))
+      .toMatchObject({ stopLoss: 103, reason: null });
+  });
+
+  it('ignores moves smaller than the minimum trail step', () => {
+    const trailing = position({ stopLoss: 103, trailingStopActive: true });
+    expect(managedStop(trailing, 2, 105.1, 1, DEFAULT_POSITION_MANAGEMENT_CONFIG).reason).toBeNull();
+  });
+});
+
+describe('evaluatePositionManagement', () => {
+  it('leaves untouched positions alone', () => {
+    expect(evaluatePositionManagement(position(), 101, 1, 3)).toBeNull();
+  });
+
+  it('only trails exchange-bracketed positions', () => {
+    const bracketed = position({
+      stopLoss: 100,
+      targetLevels: targets(['HIT', 'HIT', 'PENDING', 'PENDING']),
+      bracket: { stopOrderId: '1', stopPrice: 100, entrySize: 1, takeProfitOrderIds: [], breakevenApplied: true }
+    });
+    const update = evaluatePositionManagement(bracketed, 107, 1, 3);
+    expect(update?.exits).toEqual([]);
+    expect(update).toMatchObject({ stopLoss: 105, trailingStopActive: true, reason: 'TRAILING_STOP' });
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * POSITION MANAGEMENT
+ * Multi-target scale-out, breakeven and ATR trailing for open positions, run by usePositionMonitor.
+ * Mirrors the BacktestEngine exit model so live / paper trades are managed like simulated ones.
+ *
+ * - Each targetLevel closes its positionPct of the entry size (sized like exchange brackets)
+ * - Stop moves to entry once tacticalConfig.moveStopToBreakevenAtTp targets have filled
+ * - After trailAfterTp targets the stop trails price by trailingStopMultiple x ATR, only ever tightening
+ * - Exchange-bracketed positions only trail here; their targets and breakeven rest on the exchange
+ */
+
+import { useStore } from '../store/useStore';
+import { Position, DEFAULT_CONFIG_V33 } from '../types';
+import { DEFAULT_BACKTEST_CONFIG } from './backtestEngine';
+import { splitBracketQuantities, trailBracketStop } from './bracketOrders';
+import { paperExchange } from './paperExchange';
+import { binanceApi } from './binanceApi';
+import { logPositionEvent, logRiskAlert } from './audit/auditLogger';
+import { calculatePositionPnL } from '../utils/tradingCalculations';
+
+// ============================================================================
+// CONFIG & TYPES
+// ============================================================================
+
+export interface PositionManagementConfig {
+  moveStopToBreakevenAtTp: number; // Targets filled before the stop goes to entry (0 = never)
+  trailAfterTp: number;            // Targets filled before the ATR trail starts (0 = never)
+  trailingStopMultiple: number;    // Trail distance in ATRs
+  minTrailStepAtr: number;         // Smallest stop move worth making, in ATRs
+}
+
+export const DEFAULT_POSITION_MANAGEMENT_CONFIG: PositionManagementConfig = {
+  moveStopToBreakevenAtTp: DEFAULT_CONFIG_V33.moveStopToBreakevenAtTp,
+  trailAfterTp: DEFAULT_BACKTEST_CONFIG.useTrailingStop ? 2 : 0,
+  trailingStopMultiple: DEFAULT_BACKTEST_CONFIG.trailingStopMultiple,
+  minTrailStepAtr: 0.25
+};
+
+export interface TargetExit {
+  index: number;      // Position in targetLevels
+  price: number;      // Target price that was crossed
+  quantity: number;   // Base-asset size to close (0 = slice too small to trade)
+  closesPosition: boolean;
+}
+
+export interface PositionManagementUpdate {
+  exits: TargetExit[];
+  stopLoss: number;
+  trailingStopActive: boolean;
+  reason: 'BREAKEVEN' | 'TRAILING_STOP' | null; // Why the stop moved, if it did
+}
+
+// ============================================================================
+// EXIT RULES
+// ============================================================================
+
+const isBetterStop = (type: Position['type'], candidate: number, current: number) =>
+  current <= 0 || (type === 'LONG' ? candidate > current : candidate < current);
+
+/**
+ * Pending targets crossed at this price, in order, sized off the original entry size.
+ * The last target - or whichever one uses up the remaining size - closes the position.
+ */
+export function findTargetExits(position: Position, price: number, quantityPrecision: number): TargetExit[] {
+  const targets = position.targetLevels;
+  if (!targets?.length) return [];
+
+  const entrySize = position.entrySize ?? position.size;
+  const quantities = new Map(
+    splitBracketQuantities(entrySize, targets, quantityPrecision).map(t => [t.index, t.quantity])
+  );
+
+  const exits: TargetExit[] = [];
+  let remaining = position.size;
+
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i];
+    if (target.status !== 'PENDING') continue;
+
+    const crossed = position.type === 'LONG' ? price >= target.price : price <= target.price;
+    if (!crossed) break;
+
+    const isLast = targets.slice(i + 1).every(t => t.status !== 'PENDING');
+    const quantity = isLast ? remaining : Math.min(quantities.get(i) || 0, remaining);
+    remaining = Number((remaining - quantity).toFixed(quantityPrecision));
+
+    const closesPosition = remaining <= 0;
+    exits.push({ index: i, price: target.price, quantity, closesPosition });
+    if (closesPosition) break;
+  }
+
+  return exits;
+}
+
+/**
+ * Stop after breakeven / trailing rules, given how many targets have filled.
+ * Returns the current stop unchanged when no rule moves it.
+ */
+export function managedStop(
+  position: Position,
+  targetsHit: number,
+  price: number,
+  atr: number,
+  config: PositionManagementConfig
+): Pick<PositionManagementUpdate, 'stopLoss' | 'trailingStopActive' | 'reason'> {
+  const current = position.bracket?.stopPrice ?? position.stopLoss;
+  let stopLoss = current;
+  let reason: PositionManagementUpdate['reason'] = null;
+
+  if (config.moveStopToBreakevenAtTp > 0 && targetsHit >= config.moveStopToBreakevenAtTp &&
+      isBetterStop(position.type, position.entryPrice, stopLoss)) {
+    stopLoss = position.entryPrice;
+    reason = 'BREAKEVEN';
+  }
+
+  const trailingStopActive = config.trailAfterTp > 0 && targetsHit >= config.trailAfterTp && atr > 0;
+  if (trailingStopActive) {
+    const distance = atr * config.trailingStopMultiple;
+    const trail = position.type === 'LONG' ? price - distance : price + distance;
+    const step = Math.abs(trail - stopLoss);
+    if (isBetterStop(position.type, trail, stopLoss) && (stopLoss <= 0 || step >= atr * config.minTrailStepAtr)) {
+      stopLoss = trail;
+      reason = 'TRAILING_STOP';
+    }
+  }
+
+  return { stopLoss, trailingStopActive, reason };
+}
+
+/**
+ * Everything the monitor should do to a position at this price, or null if nothing changes
+ */
+export function evaluatePositionManagement(
+  position: Position,
+  price: number,
+  atr: number,
+  quantityPrecision: number,
+  config: PositionManagementConfig = DEFAULT_POSITION_MANAGEMENT_CONFIG
+): PositionManagementUpdate | null {
+  // Exchange brackets fill their own targets and move their own stop to entry
+  const exits = position.bracket ? [] : findTargetExits(position, price, quantityPrecision);
+  const stopConfig = position.bracket ? { ...config, moveStopToBreakevenAtTp: 0 } : config;
+
+  const targetsHit = (position.targetLevels || []).filter(t => t.status === 'HIT').length + exits.length;
+  const stop = managedStop(position, targetsHit, price, atr, stopConfig);
+
+  const trailingChanged = stop.trailingStopActive !== !!position.trailingStopActive;
+  if (exits.length === 0 && !stop.reason && !trailingChanged) return null;
+
+  return { exits, ...stop };
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+// Live exit orders that failed are retried after this long, not on every tick
+const PARTIAL_RETRY_MS = 30 * 1000;
+const partialRetryAt = new Map<string, number>();
+const partialKey = (positionId: string, index: number) => `${positionId}:${index}`;
+
+/**
+ * Book one scale-out slice. Paper slices go through the simulator for fees and slippage;
+ * live slices send a reduce-only market order and are booked at its fill once it returns.
+ */
+function executePartialExit(position: Position, exit: TargetExit, price: number, isLiveMode: boolean): boolean {
+  const label = `TP${exit.index + 1}`;
+  if (!isLiveMode) return paperExchange.closePartial(position.id, exit.quantity, label);
+
+  const key = partialKey(position.id, exit.index);
+  if ((partialRetryAt.get(key) ?? 0) > Date.now()) return false;
+  partialRetryAt.delete(key);
+
+  // The target is marked hit right away so the next tick doesn't send a second order
+  binanceApi.reducePosition(position.pair, position.type, exit.quantity)
+    .then(order => bookLivePartialExit(position.id, exit, parseFloat(order.avgPrice || '') || price, label))
+    .catch(error => {
+      partialRetryAt.set(key, Date.now() + PARTIAL_RETRY_MS);
+      useStore.setState(state => ({
+        positions: state.positions.map(p => p.id !== position.id ? p : {
+          ...p,
+          targetLevels: p.targetLevels?.map((t, i) =>
+            i === exit.index ? { ...t, status: 'PENDING' as const, hitTime: undefined, hitPrice: undefined } : t
+          )
+        })
+      }));
+      console.error(`[Position Manager] ${label} exit order failed for ${position.pair}:`, error);
+      logRiskAlert('PARTIAL_EXIT_FAILED', 'HIGH', {
+        positionId: position.id,
+        symbol: position.pair,
+        target: label,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  return true;
+}
+
+function bookLivePartialExit(positionId: string, exit: TargetExit, price: number, label: string): void {
+  const { positions, closePartialPosition, recordTradeClose } = useStore.getState();
+  const position = positions.find(p => p.id === positionId);
+  if (!position) return;
+
+  const size = Math.min(exit.quantity, position.size);
+  const { pnlUSD: pnl, pnlPercent } = calculatePositionPnL({ ...position, size }, price);
+  const now = Date.now();
+
+  closePartialPosition(position.id, size, pnl);
+  recordTradeClose({
+    id: `journal-${now}-${Math.random().toString(36).substring(2, 11)}`,
+    date: now,
+    pair: position.pair,
+    type: position.type,
+    entryPrice: position.entryPrice,
+    exitPrice: price,
+    size,
+    leverage: position.leverage,
+    pnl,
+    pnlPercent,
+    entryTime: position.timestamp,
+    exitTime: now,
+    notes: `Auto scale-out: ${label}`,
+    tags: [label, position.type, 'PARTIAL'],
+    mood: pnl > 0 ? 'CONFIDENT' : 'FRUSTRATED',
+    result: pnl > 0 ? 'WIN' : pnl < 0 ? 'LOSS' : 'BE'
+  });
+
+  logPositionEvent('MODIFIED', {
+    positionId: position.id,
+    symbol: position.pair,
+    side: position.type,
+    quantity: size,
+    entryPrice: position.entryPrice,
+    exitPrice: price,
+    pnl,
+    reason: `PARTIAL_${label}`
+  });
+  console.log(`[Position Manager] ${label} scaled out ${size} ${position.pair} @ $${price.toFixed(2)} | PnL: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)}`);
+}
+
+// Live closes whose order failed are retried after the same delay
+const closeRetryAt = new Map<string, number>();
+
+/**
+ * Close what is left of a live position that has no exchange bracket: a reduce-only
+ * market order for the remaining size, booked at its fill once it returns. A failed
+ * order leaves the position open. Resolves true once the close is booked.
+ */
+export async function closeLivePosition(
+  position: Position,
+  price: number,
+  reason: 'STOP_LOSS' | 'TAKE_PROFIT' | 'LIQUIDATED'
+): Promise<boolean> {
+  if ((closeRetryAt.get(position.id) ?? 0) > Date.now()) return false;
+  closeRetryAt.delete(position.id);
+
+  try {
+    const order = await binanceApi.reducePosition(position.pair, position.type, position.size);
+    bookLiveClose(position.id, parseFloat(order.avgPrice || '') || price, reason);
+    return true;
+  } catch (error) {
+    closeRetryAt.set(position.id, Date.now() + PARTIAL_RETRY_MS);
+    console.error(`[Position Manager] ${reason} close order failed for ${position.pair}:`, error);
+    logRiskAlert('POSITION_CLOSE_FAILED', 'HIGH', {
+      positionId: position.id,
+      symbol: position.pair,
+      reason,
+      quantity: position.size,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return false;
+  }
+}
+
+function bookLiveClose(positionId: string, price: number, reason: 'STOP_LOSS' | 'TAKE_PROFIT' | 'LIQUIDATED'): void {
+  const { positions, closePosition, recordTradeClose } = useStore.getState();
+  const position = positions.find(p => p.id === positionId);
+  if (!position) return;
+
+  const { pnlUSD: pnl, pnlPercent } = calculatePositionPnL(position, price);
+  const now = Date.now();
+
+  closePosition(position.id, pnl);
+  recordTradeClose({
+    id: `journal-${now}-${Math.random().toString(36).substring(2, 11)}`,
+    date: now,
+    pair: position.pair,
+    type: position.type,
+    entryPrice: position.entryPrice,
+    exitPrice: price,
+    size: position.size,
+    leverage: position.leverage,
+    pnl,
+    pnlPercent,
+    entryTime: position.timestamp,
+    exitTime: now,
+    notes: `Auto-closed: ${reason.replace('_', ' ')}`,
+    tags: [reason, position.type],
+    mood: pnl > 0 ? 'CONFIDENT' : 'FRUSTRATED',
+    result: pnl > 0 ? 'WIN' : pnl < 0 ? 'LOSS' : 'BE'
+  });
+
+  const emoji = reason === 'TAKE_PROFIT' ? '[TP]' : reason === 'STOP_LOSS' ? '[SL]' : '[LIQ]';
+  console.log(
+    `[Position Manager] ${emoji} CLOSED ${position.type} ${position.pair} @ $${price.toFixed(2)} | ` +
+    `Reason: ${reason} | PnL: ${pnl > 0 ? '+' : ''}$${pnl.toFixed(2)} (${pnlPercent > 0 ? '+' : ''}${pnlPercent.toFixed(2)}%)`
+  );
+}
+
+/**
+ * Apply an evaluated update: book partial exits, mark targets hit and move the stop.
+ * Returns true when the final target was reached - the caller closes the rest as a take-profit
+ * (closeLivePosition for live positions).
+ */
+export function applyPositionManagement(
+  position: Position,
+  update: PositionManagementUpdate,
+  price: number,
+  isLiveMode: boolean
+): boolean {
+  const hit = new Set<number>();
+  let closeRemainder = false;
+
+  for (const exit of update.exits) {
+    if (exit.closesPosition) {
+      closeRemainder = true;
+      break;
+    }
+    // Targets fill in order - a slice that could not be booked holds back the ones after it
+    if (exit.quantity > 0 && !executePartialExit(position, exit, price, isLiveMode)) break;
+    hit.add(exit.index);
+  }
+
+  const now = Date.now();
+  const movesLocalStop = !position.bracket && update.stopLoss !== position.stopLoss;
+
+  useStore.setState(state => ({
+    positions: state.positions.map(p => p.id !== position.id ? p : {
+      ...p,
+      entrySize: position.entrySize ?? position.size,
+      stopLoss: movesLocalStop ? update.stopLoss : p.stopLoss,
+      trailingStopActive: update.trailingStopActive,
+      targetLevels: p.targetLevels?.map((t, i) =>
+        hit.has(i) ? { ...t, status: 'HIT' as const, hitTime: now, hitPrice: price } : t
+      )
+    })
+  }));
+
+  if (position.bracket && update.reason === 'TRAILING_STOP') {
+    void trailBracketStop(position, update.stopLoss);
+  }
+
+  const trailStarted = update.trailingStopActive && !position.trailingStopActive;
+  if (update.reason === 'BREAKEVEN' || trailStarted) {
+    const reason = update.reason === 'BREAKEVEN' ? 'BREAKEVEN' : 'TRAILING_STOP_ACTIVE';
+    logPositionEvent('MODIFIED', {
+      positionId: position.id,
+      symbol: position.pair,
+      side: position.type,
+      quantity: position.size,
+      entryPrice: position.entryPrice,
+      reason
+    });
+    console.log(`[Position Manager] ${position.pair} ${reason.replace(/_/g, ' ').toLowerCase()} | stop @ $${update.stopLoss.toFixed(2)}`);
+  }
+
+  return closeRemainder;
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { diffRecords } from './recordSync';
+
+interface Item {
+  id: string;
+  value: number;
+  live?: number;
+}
+
+describe('diffRecords', () => {
+  const getId = (item: Item) => item.id;
+
+  it('reports added, changed and removed records', () => {
+    const prev: Item[] = [{ id: 'a', value: 1 }, { id: 'b', value: 2 }];
+    const next: Item[] = [{ id: 'b', value: 3 }, { id: 'c', value: 4 }];
+
+    const diff = diffRecords(prev, next, getId);
+    expect(diff.upserts.map(getId)).toEqual(['b', 'c']);
+    expect(diff.deletions).toEqual(['a']);
+  });
+
+  it('ignores fields excluded from the fingerprint', () => {
+    const fingerprint = (item: Item) => JSON.stringify({ ...item, live: undefined });
+    const diff = diffRecords(
+      [{ id: 'a', value: 1, live: 10 }],
+      [{ id: 'a', value: 1, live: 11 }],
+      getId,
+      fingerprint
+    );
+
+    expect(diff.upserts).toEqual([]);
+    expect(diff.deletions).toEqual([]);
+  });
+});
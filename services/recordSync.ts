@@ -0,0 +1,273 @@
+/**
+ * RECORD SYNC SERVICE
+ * Mirrors positions, journal entries and pattern-learning outcomes to the
+ * server's SQLite store (/api/positions, /api/journal, /api/outcomes).
+ *
+ * - The Zustand store (IndexedDB) stays the working copy, so the UI works offline
+ * - Local changes are pushed through the offline queue and replayed on reconnect
+ * - Remote changes are pulled incrementally (?since=) so two desks converge
+ */
+
+import { useStore } from '../store/useStore';
+import { JournalEntry, Position, TradeOutcome } from '../types';
+import { addTradeOutcome } from './tacticalSignalsV33';
+import { get, set } from './storage/indexedDB';
+import { enqueue, registerHandler, initOfflineQueue } from './storage/offlineQueue';
+
+const BACKEND_URL = import.meta.env.VITE_TRADING_API_URL || '';
+const TRADING_KEY = import.meta.env.VITE_TRADING_API_KEY || '';
+
+const CURSOR_KEY = 'record-sync-cursors';
+const PULL_INTERVAL_MS = 60 * 1000;
+
+export type RecordCollection = 'journal' | 'positions' | 'outcomes';
+
+interface RemoteRecord<T> {
+  id: string;
+  data: T;
+  updatedAt: number;
+  deleted: boolean;
+}
+
+interface SyncOperation {
+  collection: RecordCollection;
+  id: string;
+  method: 'PUT' | 'DELETE';
+  data?: unknown;
+}
+
+/**
+ * Outcomes have no id of their own - a signal closes once, so signal + exit time is unique
+ */
+export const outcomeId = (outcome: TradeOutcome) => `${outcome.signalId}-${outcome.exitTime}`;
+
+// Live P&L ticks every second; only structural edits are worth a round trip
+const positionFingerprint = (p: Position) => JSON.stringify({ ...p, pnl: undefined, pnlPercent: undefined });
+
+/**
+ * Diff two id-keyed lists into upserts and deletions
+ */
+export function diffRecords<T>(
+  prev: T[],
+  next: T[],
+  getId: (item: T) => string,
+  fingerprint: (item: T) => string = item => JSON.stringify(item)
+): { upserts: T[]; deletions: string[] } {
+  const prevById = new Map(prev.map(item => [getId(item), fingerprint(item)]));
+  const nextIds = new Set<string>();
+  const upserts: T[] = [];
+
+  for (const item of next) {
+    const id = getId(item);
+    nextIds.add(id);
+    if (prevById.get(id) !== fingerprint(item)) upserts.push(item);
+  }
+
+  const deletions = [...prevById.keys()].filter(id => !nextIds.has(id));
+  return { upserts, deletions };
+}
+
+class RecordSyncService {
+  private cursors: Record<RecordCollection, number> = { journal: 0, positions: 0, outcomes: 0 };
+  private pullTimer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private applyingRemote: boolean = false;
+  private isPulling: boolean = false;
+
+  isEnabled(): boolean {
+    return !!BACKEND_URL;
+  }
+
+  async start(): Promise<void> {
+    if (!this.isEnabled()) {
+      console.log('[RecordSync] VITE_TRADING_API_URL not set - server sync disabled');
+      return;
+    }
+    if (this.unsubscribe) return;
+
+    registerHandler('STATE_SYNC', async (operation) => this.send(operation.payload as SyncOperation));
+    await initOfflineQueue();
+
+    this.cursors = { ...this.cursors, ...((await get<Record<RecordCollection, number>>(CURSOR_KEY)) || {}) };
+    const isFirstSync = Object.values(this.cursors).every(cursor => cursor === 0);
+
+    // Pull first so the initial local state isn't mistaken for fresh edits
+    await this.pull();
+
+    // First run on this browser: seed the server with whatever was only local so far
+    if (isFirstSync) {
+      const state = useStore.getState();
+      this.queueDiff('positions', { upserts: state.positions, deletions: [] });
+      this.queueDiff('journal', { upserts: state.journal, deletions: [] });
+      this.queueDiff('outcomes', { upserts: state.patternLearning.outcomes, deletions: [] });
+    }
+
+    this.unsubscribe = useStore.subscribe((state, prev) => {
+      if (this.applyingRemote) return;
+
+      if (state.positions !== prev.positions) {
+        this.queueDiff('positions', diffRecords(prev.positions, state.positions, p => p.id, positionFingerprint));
+      }
+      if (state.journal !== prev.journal) {
+        this.queueDiff('journal', diffRecords(prev.journal, state.journal, e => e.id));
+      }
+      if (state.patternLearning.outcomes !== prev.patternLearning.outcomes) {
+        // Outcomes are append-only; pruning old ones locally must not delete the server history
+        const { upserts } = diffRecords(prev.patternLearning.outcomes, state.patternLearning.outcomes, outcomeId);
+        this.queueDiff('outcomes', { upserts, deletions: [] });
+      }
+    });
+
+    this.pullTimer = setInterval(() => { void this.pull(); }, PULL_INTERVAL_MS);
+    console.log('[RecordSync] Started');
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.pullTimer) {
+      clearInterval(this.pullTimer);
+      this.pullTimer = null;
+    }
+  }
+
+  /**
+   * Fetch changes since the last cursor for every collection and merge them into the store
+   */
+  async pull(): Promise<void> {
+    if (!this.isEnabled() || this.isPulling) return;
+    this.isPulling = true;
+
+    try {
+      const [positions, journal, outcomes] = await Promise.all([
+        this.fetchChanges<Position>('positions'),
+        this.fetchChanges<JournalEntry>('journal'),
+        this.fetchChanges<TradeOutcome>('outcomes')
+      ]);
+
+      if (positions.length + journal.length + outcomes.length === 0) return;
+
+      this.applyingRemote = true;
+      try {
+        this.applyRemote(positions, journal, outcomes);
+      } finally {
+        this.applyingRemote = false;
+      }
+
+      await set(CURSOR_KEY, this.cursors);
+      console.log(`[RecordSync] Pulled ${positions.length} positions, ${journal.length} journal, ${outcomes.length} outcomes`);
+    } catch (error) {
+      console.warn('[RecordSync] Pull failed, keeping local cache:', error);
+    } finally {
+      this.isPulling = false;
+    }
+  }
+
+  private applyRemote(
+    positions: RemoteRecord<Position>[],
+    journal: RemoteRecord<JournalEntry>[],
+    outcomes: RemoteRecord<TradeOutcome>[]
+  ): void {
+    const state = useStore.getState();
+
+    const mergedPositions = mergeById(state.positions, positions, p => p.id, (local, remote) => ({
+      ...remote,
+      // Keep the locally marked-to-market P&L
+      pnl: local?.pnl ?? remote.pnl,
+      pnlPercent: local?.pnlPercent ?? remote.pnlPercent
+    })).sort((a, b) => b.timestamp - a.timestamp);
+
+    const mergedJournal = mergeById(state.journal, journal, e => e.id, (_local, remote) => remote)
+      .sort((a, b) => (b.exitTime || b.date || 0) - (a.exitTime || a.date || 0));
+
+    let patternLearning = state.patternLearning;
+    const knownOutcomes = new Set(patternLearning.outcomes.map(outcomeId));
+    for (const record of outcomes) {
+      if (record.deleted || knownOutcomes.has(record.id)) continue;
+      patternLearning = addTradeOutcome(patternLearning, record.data);
+      knownOutcomes.add(record.id);
+    }
+
+    useStore.setState({
+      positions: mergedPositions,
+      journal: mergedJournal,
+      patternLearning
+    });
+  }
+
+  private async fetchChanges<T>(collection: RecordCollection): Promise<RemoteRecord<T>[]> {
+    const response = await fetch(`${BACKEND_URL}/api/${collection}?since=${this.cursors[collection]}`, {
+      headers: { 'x-trading-key': TRADING_KEY }
+    });
+    if (!response.ok) throw new Error(`GET /api/${collection} failed: ${response.status}`);
+
+    const { records } = await response.json() as { records: RemoteRecord<T>[] };
+    for (const record of records) {
+      if (record.updatedAt > this.cursors[collection]) this.cursors[collection] = record.updatedAt;
+    }
+    return records;
+  }
+
+  private queueDiff<T extends object>(
+    collection: RecordCollection,
+    diff: { upserts: T[]; deletions: string[] }
+  ): void {
+    const getId = (item: T) => collection === 'outcomes'
+      ? outcomeId(item as unknown as TradeOutcome)
+      : (item as unknown as { id: string }).id;
+
+    const operations: SyncOperation[] = [
+      ...diff.upserts.map(item => ({ collection, id: getId(item), method: 'PUT' as const, data: item })),
+      ...diff.deletions.map(id => ({ collection, id, method: 'DELETE' as const }))
+    ];
+
+    for (const operation of operations) {
+      void enqueue('STATE_SYNC', operation, 'high');
+    }
+  }
+
+  /**
+   * Offline queue handler - false means retry later
+   */
+  private async send(operation: SyncOperation): Promise<boolean> {
+    const response = await fetch(
+      `${BACKEND_URL}/api/${operation.collection}/${encodeURIComponent(operation.id)}`,
+      {
+        method: operation.method,
+        headers: {
+          'Content-Type': 'application/json',
+          'x-trading-key': TRADING_KEY
+        },
+        body: operation.method === 'PUT' ? JSON.stringify(operation.data) : undefined
+      }
+    );
+
+    // 4xx won't get better by retrying - drop it
+    if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+      console.error(`[RecordSync] ${operation.method} ${operation.collection}/${operation.id} rejected: ${response.status}`);
+      return true;
+    }
+    return response.ok;
+  }
+}
+
+function mergeById<T>(
+  local: T[],
+  remote: RemoteRecord<T>[],
+  getId: (item: T) => string,
+  resolve: (local: T | undefined, remote: T) => T
+): T[] {
+  const byId = new Map(local.map(item => [getId(item), item]));
+
+  for (const record of remote) {
+    if (record.deleted) {
+      byId.delete(record.id);
+    } else {
+      byId.set(record.id, resolve(byId.get(record.id), record.data));
+    }
+  }
+
+  return [...byId.values()];
+}
+
+export const recordSync = new RecordSyncService();
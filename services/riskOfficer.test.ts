@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { applyTradeResult, checkRiskVeto, INITIAL_RISK_STATE, RiskOfficerState, TradeProposal } from './riskOfficer';
+import { DEFAULT_RISK_POLICIES, DEFAULT_RISK_POLICY, periodStart } from './riskPolicy';
+import { JournalEntry } from '../types';
+
+// Wednesday 2024-01-17 12:00 UTC; the week started Monday 2024-01-15
+const NOW = Date.UTC(2024, 0, 17, 12);
+const WEEK_START = Date.UTC(2024, 0, 15);
+const account = { balance: 50000, dailyPnL: 0, dailyLossLimit: 2500, journal: [] as JournalEntry[] };
+const closed = (pnl: number, exitTime: number) => ({ pnl, date: exitTime, exitTime } as JournalEntry);
+const loss = { result: 'LOSS' as const, pnl: -100 };
+
+const afterTrades = (trades: { result: 'WIN' | 'LOSS' | 'BE'; pnl: number }[], start: RiskOfficerState = INITIAL_RISK_STATE) =>
+  trades.reduce((state, trade) => applyTradeResult(state, trade, account, DEFAULT_RISK_POLICY, NOW).state, start);
+
+describe('applyTradeResult', () => {
+  it('counts loss streaks and resets them on a win', () => {
+    expect(afterTrades([loss, loss]).consecutiveLosses).toBe(2);
+    expect(afterTrades([loss, loss, { result: 'WIN', pnl: 50 }]).consecutiveLosses).toBe(0);
+    expect(afterTrades([loss, { result: 'BE', pnl: 0 }]).consecutiveLosses).toBe(1);
+  });
+
+  it('starts the policy cooldown when the streak limit is hit', () => {
+    const { state, started } = applyTradeResult(afterTrades([loss, loss]), loss, account, DEFAULT_RISK_POLICY, NOW);
+
+    expect(started?.endsAt).toBe(NOW + DEFAULT_RISK_POLICY.consecutiveLossCooldownMinutes * 60 * 1000);
+    expect(state.cooldown).toEqual(started);
+    expect(state.consecutiveLosses).toBe(0);
+  });
+
+  it('locks trading until next week once the weekly drawdown passes the limit', () => {
+    const journal = [closed(-2000, NOW), closed(-4000, WEEK_START + 3600000)];
+    const { started } = applyTradeResult(INITIAL_RISK_STATE, { result: 'LOSS', pnl: -2000 }, { ...account, journal }, DEFAULT_RISK_POLICY, NOW);
+
+    expect(started?.endsAt).toBe(Date.UTC(2024, 0, 22));
+    expect(started?.reason).toContain('Weekly drawdown');
+  });
+
+  it('measures drawdown from the start of the week only', () => {
+    const journal = [closed(500, NOW), closed(-6000, WEEK_START - 86400000)];
+    const { started } = applyTradeResult(INITIAL_RISK_STATE, { result: 'WIN', pnl: 500 }, { ...account, journal }, DEFAULT_RISK_POLICY, NOW);
+
+    expect(started).toBeNull();
+  });
+
+  it('locks trading when a gain made earlier in the week is given back', () => {
+    const swing = DEFAULT_RISK_POLICIES[2]; // 8% weekly limit
+    const gain = closed(4000, WEEK_START + 3600000);
+    const afterGain = applyTradeResult(INITIAL_RISK_STATE, { result: 'WIN', pnl: 4000 }, { ...account, balance: 54000, journal: [gain] }, swing, NOW);
+    expect(afterGain.state.equityHighWaterMark).toBe(54000);
+    expect(afterGain.started).toBeNull();
+
+    // 9% off the 54000 peak, but still only 1.7% below the week's opening balance
+    const journal = [closed(-4860, NOW), gain];
+    const { state, started } = applyTradeResult(afterGain.state, { result: 'LOSS', pnl: -4860 }, { ...account, balance: 49140, journal }, swing, NOW);
+
+    expect(state.equityHighWaterMark).toBe(54000);
+    expect(state.highWaterMarkWeekStart).toBe(WEEK_START);
+    expect(started?.endsAt).toBe(Date.UTC(2024, 0, 22));
+    expect(started?.reason).toContain('Weekly drawdown 9.0%');
+  });
+
+  it('restarts the high-water mark each week', () => {
+    const lastWeek = { ...INITIAL_RISK_STATE, equityHighWaterMark: 60000, highWaterMarkWeekStart: WEEK_START - 7 * 86400000 };
+    const { state, started } = applyTradeResult(lastWeek, { result: 'WIN', pnl: 500 }, { ...account, journal: [closed(500, NOW)] }, DEFAULT_RISK_POLICY, NOW);
+
+    expect(state.equityHighWaterMark).toBe(50000);
+    expect(started).toBeNull();
+  });
+
+  it('keeps a longer cooldown that is already running', () => {
+    const locked = { ...INITIAL_RISK_STATE, cooldown: { active: true, reason: 'lockout', endsAt: NOW + 86400000, remainingMs: 86400000 } };
+    const { state, started } = applyTradeResult(afterTrades([loss, loss], locked), loss, account, DEFAULT_RISK_POLICY, NOW);
+
+    expect(started).toBeNull();
+    expect(state.cooldown?.reason).toBe('lockout');
+  });
+});
+
+describe('checkRiskVeto cooldown', () => {
+  it('blocks while a started cooldown is running', () => {
+    const proposal: TradeProposal = { type: 'LONG', entryPrice: 100, stopLoss: 98, takeProfit: 104, size: 10, leverage: 5 };
+    const cooling = { ...INITIAL_RISK_STATE, cooldown: { active: true, reason: '3 consecutive losses.', endsAt: Date.now() + 60000, remainingMs: 60000 } };
+
+    expect(checkRiskVeto(proposal, { ...account, positions: [] }, cooling).reason).toBe('COOLDOWN_ACTIVE');
+  });
+});
+
+describe('checkRiskVeto drawdown', () => {
+  it('blocks once the balance falls far enough below this week\'s high-water mark', () => {
+    const proposal: TradeProposal = { type: 'LONG', entryPrice: 100, stopLoss: 99, takeProfit: 103, size: 1, leverage: 1 };
+    const peak = { ...INITIAL_RISK_STATE, equityHighWaterMark: 54000, highWaterMarkWeekStart: periodStart(Date.now(), 'WEEK') };
+    const user = { ...account, balance: 49140, positions: [], policy: DEFAULT_RISK_POLICIES[2] }; // 8% weekly limit
+
+    expect(checkRiskVeto(proposal, user, peak).reason).toBe('DRAWDOWN_LIMIT');
+    expect(checkRiskVeto(proposal, user, { ...peak, highWaterMarkWeekStart: 0 }).reason).not.toBe('DRAWDOWN_LIMIT');
+  });
+});
+
+describe('checkRiskVeto risk per trade', () => {
+  const proposal = (size: number): TradeProposal => ({ type: 'LONG', entryPrice: 100, stopLoss: 50, takeProfit: 200, size, leverage: 5 });
+  const maxRiskUsd = account.balance * DEFAULT_RISK_POLICY.riskPerTradePct / 100;
+
+  it('blocks trades that lose more than the policy share of balance at the stop', () => {
+    const result = checkRiskVeto(proposal(maxRiskUsd / 50 + 1), { ...account, positions: [] }, INITIAL_RISK_STATE);
+    expect(result.reason).toBe('RISK_PER_TRADE');
+  });
+
+  it('allows a size computed from exactly the allowed risk', () => {
+    const result = checkRiskVeto(proposal(maxRiskUsd / 50), { ...account, positions: [] }, INITIAL_RISK_STATE);
+    expect(result.reason).not.toBe('RISK_PER_TRADE');
+  });
+});
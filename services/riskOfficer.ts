@@ -3,7 +3,9 @@
  * The "Shield" of the system. Enforces safety rules and prevents emotional trading.
  */
 
-import { Position } from '../types';
+import { JournalEntry, Position } from '../types';
+import { assessPortfolioRisk, PortfolioRiskContext } from './portfolioRisk';
+import { RiskPolicy, DEFAULT_RISK_POLICY, checkDrawdownLimits, periodStart, realizedPnLSince } from './riskPolicy';
 
 export type VetoReason =
   | 'DAILY_LOSS_LIMIT'
@@ -16,7 +18,11 @@ export type VetoReason =
   | 'STOP_LOSS_UNDEFINED'
   | 'STOP_LOSS_INVALID'
   | 'MAX_POSITION_SIZE'
-  | 'ATR_RISK_EXCEEDED';
+  | 'ATR_RISK_EXCEEDED'
+  | 'MAX_LEVERAGE'
+  | 'MAX_CONCURRENT_POSITIONS'
+  | 'DRAWDOWN_LIMIT'
+  | 'RISK_PER_TRADE';
 
 export interface VetoRecord {
   id: string;
@@ -41,25 +47,23 @@ export interface RiskOfficerState {
   lastVeto: VetoRecord | null;
   vetoHistory: VetoRecord[];
   cooldown: CooldownState | null;
+  consecutiveLosses: number;      // Current loss streak from closed trades
+  equityHighWaterMark: number;    // Peak balance this week (0 = not set)
+  highWaterMarkWeekStart: number; // UTC week the high-water mark belongs to
 }
 
 export const INITIAL_RISK_STATE: RiskOfficerState = {
   lastVeto: null,
   vetoHistory: [],
   cooldown: null,
+  consecutiveLosses: 0,
+  equityHighWaterMark: 0,
+  highWaterMarkWeekStart: 0,
 };
 
-const COOLDOWN_CONFIG = {
-  DAILY_LOSS_LIMIT: {
-    durationMs: 10 * 60 * 1000, // 10 mins
-    message: 'Daily loss limit reached. Cooldown active to prevent revenge trading.',
-  },
-  CONSECUTIVE_LOSSES: {
-    threshold: 3,
-    durationMs: 5 * 60 * 1000, // 5 mins
-    message: '3 consecutive losses. Short cooldown to reassess.',
-  },
-};
+/** This week's high-water mark, or 0 when the stored one belongs to an earlier week */
+export const weeklyHighWaterMark = (riskState: RiskOfficerState, now: number = Date.now()): number =>
+  riskState.highWaterMarkWeekStart === periodStart(now, 'WEEK') ? riskState.equityHighWaterMark || 0 : 0;
 
 export interface TradeProposal {
   type: 'LONG' | 'SHORT';
@@ -77,14 +81,26 @@ export interface RiskCheckResult {
   message?: string;
 }
 
+export interface RiskUserState {
+  dailyPnL: number;
+  dailyLossLimit: number;
+  balance: number;
+  positions: Position[];
+  journal?: JournalEntry[]; // Needed for weekly / monthly drawdown limits
+  policy?: RiskPolicy;      // Active risk policy profile (defaults to STANDARD)
+}
+
 /**
  * Checks if a trade should be blocked based on current state and risk rules.
+ * With a portfolio context the whole book is checked too (VaR, correlation, liquidity).
  */
 export function checkRiskVeto(
   proposal: TradeProposal,
-  userState: { dailyPnL: number; dailyLossLimit: number; balance: number; positions: Position[] },
-  riskState: RiskOfficerState
+  userState: RiskUserState,
+  riskState: RiskOfficerState,
+  portfolio?: PortfolioRiskContext
 ): RiskCheckResult {
+  const policy = userState.policy || DEFAULT_RISK_POLICY;
 
   // 1. Check Cooldown
   if (riskState.cooldown && riskState.cooldown.active) {
@@ -134,8 +150,20 @@ export function checkRiskVeto(
     };
   }
 
-  // 4. CRITICAL: Max Position Size (5% of balance per trade)
-  const MAX_POSITION_PERCENT = 5;
+  // 3b. Weekly / Monthly Drawdown
+  const drawdown = userState.journal
+    ? checkDrawdownLimits(userState.journal, userState.balance, policy, Date.now(), weeklyHighWaterMark(riskState))
+    : null;
+  if (drawdown) {
+    return {
+      blocked: true,
+      reason: 'DRAWDOWN_LIMIT',
+      message: `${drawdown.period === 'WEEK' ? 'Weekly' : 'Monthly'} drawdown ${drawdown.drawdownPct.toFixed(1)}% reached the ${drawdown.limitPct}% limit (${policy.name} policy).`
+    };
+  }
+
+  // 4. CRITICAL: Max Position Size (% of balance per trade, from the active policy)
+  const MAX_POSITION_PERCENT = policy.maxPositionPercent;
   const positionValueUSD = proposal.entryPrice * proposal.size;
   const maxPositionValue = userState.balance * (MAX_POSITION_PERCENT / 100);
 
@@ -147,6 +175,36 @@ export function checkRiskVeto(
     };
   }
 
+  // 4a. Risk per trade: loss at the stop vs. the policy's share of balance
+  const tradeRiskUSD = proposal.size * Math.abs(proposal.entryPrice - proposal.stopLoss);
+  const maxTradeRiskUSD = userState.balance * (policy.riskPerTradePct / 100);
+
+  // Tolerance for a size computed from exactly the allowed risk
+  if (tradeRiskUSD > maxTradeRiskUSD * (1 + 1e-9)) {
+    return {
+      blocked: true,
+      reason: 'RISK_PER_TRADE',
+      message: `Risk at stop $${tradeRiskUSD.toFixed(2)} exceeds ${policy.riskPerTradePct}% of balance ($${maxTradeRiskUSD.toFixed(2)}, ${policy.name} policy).`
+    };
+  }
+
+  // 4b. Leverage and concurrent position caps
+  if (proposal.leverage > policy.maxLeverage) {
+    return {
+      blocked: true,
+      reason: 'MAX_LEVERAGE',
+      message: `Leverage ${proposal.leverage}x exceeds the ${policy.maxLeverage}x maximum (${policy.name} policy).`
+    };
+  }
+
+  if (userState.positions.length >= policy.maxConcurrentPositions) {
+    return {
+      blocked: true,
+      reason: 'MAX_CONCURRENT_POSITIONS',
+      message: `${userState.positions.length} positions open - ${policy.name} policy allows ${policy.maxConcurrentPositions}.`
+    };
+  }
+
   // 5. Max Exposure (Simple check: don't use more than 100% of balance as margin)
   const marginUsed = userState.positions.reduce((sum, p) => sum + (p.entryPrice * p.size / p.leverage), 0);
   const newMargin = (proposal.entryPrice * proposal.size / proposal.leverage);
@@ -162,25 +220,37 @@ export function checkRiskVeto(
   // 6. Risk/Reward
   const risk = Math.abs(proposal.entryPrice - proposal.stopLoss);
   const reward = Math.abs(proposal.takeProfit - proposal.entryPrice);
-  if (risk > 0 && (reward / risk) < 1.0) {
+  if (risk > 0 && (reward / risk) < policy.minRiskReward) {
       return {
           blocked: true,
           reason: 'INSUFFICIENT_RR',
-          message: `Risk/Reward ${ (reward/risk).toFixed(2) } is below 1.0 minimum.`
+          message: `Risk/Reward ${ (reward/risk).toFixed(2) } is below ${policy.minRiskReward.toFixed(1)} minimum.`
       };
   }
 
   // 7. ATR-Based Risk Check
-  // Stop loss should not exceed 2x ATR to avoid excessive volatility exposure
+  // Stop loss should not exceed the policy's ATR multiple to avoid excessive volatility exposure
   if (proposal.atr && proposal.atr > 0) {
     const stopDistance = Math.abs(proposal.entryPrice - proposal.stopLoss);
-    const maxStopDistance = proposal.atr * 2; // 2x ATR is the max safe stop distance
+    const maxStopDistance = proposal.atr * policy.maxStopAtrMultiple;
 
     if (stopDistance > maxStopDistance) {
       return {
         blocked: true,
         reason: 'ATR_RISK_EXCEEDED',
-        message: `Stop loss too wide for current volatility. Distance: $${stopDistance.toFixed(2)} > 2x ATR ($${maxStopDistance.toFixed(2)}). Consider tighter stop or wait for lower volatility.`
+        message: `Stop loss too wide for current volatility. Distance: $${stopDistance.toFixed(2)} > ${policy.maxStopAtrMultiple}x ATR ($${maxStopDistance.toFixed(2)}). Consider tighter stop or wait for lower volatility.`
+      };
+    }
+  }
+
+  // 8. Portfolio Risk (correlated exposure, net exposure, CVaR, liquidity)
+  if (portfolio) {
+    const { violation } = assessPortfolioRisk(proposal, userState.positions, userState.balance, portfolio);
+    if (violation) {
+      return {
+        blocked: true,
+        reason: violation.reason,
+        message: violation.message
       };
     }
   }
@@ -188,6 +258,77 @@ export function checkRiskVeto(
   return { blocked: false };
 }
 
+/**
+ * Update the loss streak and weekly high-water mark after a closed trade and start a
+ * cooldown when the active policy calls for one. Drawdown lockouts use the same
+ * checkDrawdownLimits measure as the veto, over the journal including this trade.
+ * The longest applicable cooldown wins; an already-running cooldown that ends later
+ * is kept.
+ */
+export function applyTradeResult(
+  riskState: RiskOfficerState,
+  trade: { result: 'WIN' | 'LOSS' | 'BE'; pnl: number },
+  account: { balance: number; dailyPnL: number; dailyLossLimit: number; journal: JournalEntry[] },
+  policy: RiskPolicy = DEFAULT_RISK_POLICY,
+  now: number = Date.now()
+): { state: RiskOfficerState; started: CooldownState | null } {
+  // High-water mark restarts each week from the balance the week opened with
+  const weekStart = periodStart(now, 'WEEK');
+  const baseline = weeklyHighWaterMark(riskState, now)
+    || account.balance - realizedPnLSince(account.journal, weekStart);
+  const highWaterMark = Math.max(baseline, account.balance);
+
+  let streak = trade.result === 'LOSS' ? (riskState.consecutiveLosses || 0) + 1
+    : trade.result === 'WIN' ? 0
+    : riskState.consecutiveLosses || 0;
+
+  const candidates: { endsAt: number; reason: string }[] = [];
+
+  if (streak >= policy.consecutiveLossLimit && policy.consecutiveLossCooldownMinutes > 0) {
+    candidates.push({
+      endsAt: now + policy.consecutiveLossCooldownMinutes * 60 * 1000,
+      reason: `${streak} consecutive losses. ${policy.consecutiveLossCooldownMinutes}m cooldown to reassess.`
+    });
+    streak = 0;
+  }
+
+  if (account.dailyPnL <= -account.dailyLossLimit && policy.dailyLossCooldownMinutes > 0) {
+    candidates.push({
+      endsAt: now + policy.dailyLossCooldownMinutes * 60 * 1000,
+      reason: 'Daily loss limit reached. Cooldown active to prevent revenge trading.'
+    });
+  }
+
+  const drawdown = checkDrawdownLimits(account.journal, account.balance, policy, now, highWaterMark);
+  if (drawdown) {
+    const isWeek = drawdown.period === 'WEEK';
+    const start = new Date(periodStart(now, drawdown.period));
+    candidates.push({
+      endsAt: isWeek
+        ? start.getTime() + 7 * 24 * 60 * 60 * 1000
+        : Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1),
+      reason: `${isWeek ? 'Weekly' : 'Monthly'} drawdown ${drawdown.drawdownPct.toFixed(1)}% hit the ${drawdown.limitPct}% limit. Locked until ${isWeek ? 'Monday' : 'the 1st'} 00:00 UTC.`
+    });
+  }
+
+  const longest = candidates.sort((a, b) => b.endsAt - a.endsAt)[0];
+  const current = riskState.cooldown?.active && riskState.cooldown.endsAt > now ? riskState.cooldown : null;
+  const started: CooldownState | null = longest && (!current || longest.endsAt > current.endsAt)
+    ? { active: true, reason: longest.reason, endsAt: longest.endsAt, remainingMs: longest.endsAt - now }
+    : null;
+
+  return {
+    state: {
+      ...riskState,
+      cooldown: started || current,
+      consecutiveLosses: streak,
+      equityHighWaterMark: highWaterMark,
+      highWaterMarkWeekStart: weekStart
+    },
+    started
+  };
+}
+
 export function createVetoRecord(reason: VetoReason, message: string, metrics: any): VetoRecord {
     return {
         id: Date.now().toString(),
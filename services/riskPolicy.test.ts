@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { periodStart, checkDrawdownLimits, DEFAULT_RISK_POLICIES, DEFAULT_RISK_POLICY } from './riskPolicy';
+import { checkRiskVeto, INITIAL_RISK_STATE, TradeProposal } from './riskOfficer';
+import { JournalEntry, Position } from '../types';
+
+const [standard, scalping, swing] = DEFAULT_RISK_POLICIES;
+
+// Wednesday 2024-01-17 12:00 UTC
+const NOW = Date.UTC(2024, 0, 17, 12);
+
+const closed = (exitTime: number, pnl: number) => ({ date: exitTime, exitTime, pnl } as JournalEntry);
+
+const proposal: TradeProposal = {
+  type: 'LONG',
+  entryPrice: 100,
+  stopLoss: 98,
+  takeProfit: 103, // 1.5R
+  size: 20,
+  leverage: 10
+};
+
+const userState = { dailyPnL: 0, dailyLossLimit: 2500, balance: 50000, positions: [] as Position[] };
+
+describe('periodStart', () => {
+  it('starts weeks on Monday and months on the 1st (UTC)', () => {
+    expect(periodStart(NOW, 'WEEK')).toBe(Date.UTC(2024, 0, 15));
+    expect(periodStart(NOW, 'MONTH')).toBe(Date.UTC(2024, 0, 1));
+    expect(periodStart(Date.UTC(2024, 0, 21, 23), 'WEEK')).toBe(Date.UTC(2024, 0, 15)); // Sunday
+  });
+});
+
+describe('checkDrawdownLimits', () => {
+  it('measures drawdown against the balance at the start of the period', () => {
+    // $50k start, -$3.5k this week = 7% > scalping 6%
+    const journal = [closed(Date.UTC(2024, 0, 16), -3500)];
+    expect(checkDrawdownLimits(journal, 46500, scalping, NOW)).toMatchObject({ period: 'WEEK', limitPct: 6 });
+    expect(checkDrawdownLimits(journal, 46500, standard, NOW)).toBeNull();
+  });
+
+  it('catches monthly drawdown built up in earlier weeks', () => {
+    const journal = [closed(Date.UTC(2024, 0, 3), -8000), closed(Date.UTC(2024, 0, 16), 500)];
+    expect(checkDrawdownLimits(journal, 42500, swing, NOW)?.period).toBe('MONTH');
+  });
+});
+
+describe('checkRiskVeto with a policy', () => {
+  it('uses the STANDARD policy when none is given', () => {
+    expect(checkRiskVeto(proposal, userState, INITIAL_RISK_STATE).blocked).toBe(false);
+    expect(DEFAULT_RISK_POLICY).toBe(standard);
+  });
+
+  it('enforces leverage, R:R and concurrent position limits per profile', () => {
+    expect(checkRiskVeto(proposal, { ...userState, policy: swing }, INITIAL_RISK_STATE).reason).toBe('MAX_LEVERAGE');
+    expect(checkRiskVeto({ ...proposal, leverage: 5 }, { ...userState, policy: swing }, INITIAL_RISK_STATE).reason).toBe('INSUFFICIENT_RR');
+
+    const open = Array.from({ length: 3 }, (_, i) => ({ id: String(i), entryPrice: 100, size: 1, leverage: 10 } as Position));
+    expect(checkRiskVeto(proposal, { ...userState, positions: open, policy: scalping }, INITIAL_RISK_STATE).reason).toBe('MAX_CONCURRENT_POSITIONS');
+  });
+
+  it('blocks new trades past the drawdown limit', () => {
+    // -$6k on $50k = 12% > STANDARD 10% weekly
+    const journal = [closed(Date.now(), -6000)];
+    const result = checkRiskVeto(proposal, { ...userState, balance: 44000, journal, policy: standard }, INITIAL_RISK_STATE);
+    expect(result.reason).toBe('DRAWDOWN_LIMIT');
+  });
+});
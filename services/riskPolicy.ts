@@ -0,0 +1,157 @@
+/**
+ * RISK POLICY PROFILES
+ * Named, persisted limit sets enforced by the Risk Officer (store.riskPolicies).
+ *
+ * - Built-in STANDARD (the original hard-coded limits), SCALPING and SWING profiles
+ * - Custom profiles are copies of an existing one and can be edited or deleted
+ * - Weekly / monthly drawdown is realized journal P&L since the start of the UTC week / month
+ */
+
+import { JournalEntry } from '../types';
+
+export interface RiskPolicy {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  riskPerTradePct: number;               // Default risk per trade (% of balance)
+  maxPositionPercent: number;            // Max notional per trade (% of balance)
+  maxLeverage: number;
+  maxConcurrentPositions: number;
+  minRiskReward: number;
+  maxStopAtrMultiple: number;            // Stop distance cap in ATRs
+  consecutiveLossLimit: number;          // Losses in a row that start a cooldown
+  consecutiveLossCooldownMinutes: number;
+  dailyLossCooldownMinutes: number;
+  weeklyDrawdownLimitPct: number;        // % of balance at start of week
+  monthlyDrawdownLimitPct: number;       // % of balance at start of month
+}
+
+export type RiskPolicyField = Exclude<keyof RiskPolicy, 'id' | 'builtIn'>;
+
+export const DEFAULT_RISK_POLICY_ID = 'standard';
+
+export const DEFAULT_RISK_POLICIES: RiskPolicy[] = [
+  {
+    id: DEFAULT_RISK_POLICY_ID,
+    name: 'Standard',
+    builtIn: true,
+    riskPerTradePct: 1,
+    maxPositionPercent: 5,
+    maxLeverage: 20,
+    maxConcurrentPositions: 5,
+    minRiskReward: 1.0,
+    maxStopAtrMultiple: 2,
+    consecutiveLossLimit: 3,
+    consecutiveLossCooldownMinutes: 5,
+    dailyLossCooldownMinutes: 10,
+    weeklyDrawdownLimitPct: 10,
+    monthlyDrawdownLimitPct: 20
+  },
+  {
+    id: 'scalping',
+    name: 'Scalping',
+    builtIn: true,
+    riskPerTradePct: 0.5,
+    maxPositionPercent: 5,
+    maxLeverage: 25,
+    maxConcurrentPositions: 3,
+    minRiskReward: 1.0,
+    maxStopAtrMultiple: 1,
+    consecutiveLossLimit: 3,
+    consecutiveLossCooldownMinutes: 15,
+    dailyLossCooldownMinutes: 30,
+    weeklyDrawdownLimitPct: 6,
+    monthlyDrawdownLimitPct: 12
+  },
+  {
+    id: 'swing',
+    name: 'Swing',
+    builtIn: true,
+    riskPerTradePct: 1,
+    maxPositionPercent: 10,
+    maxLeverage: 5,
+    maxConcurrentPositions: 8,
+    minRiskReward: 2.0,
+    maxStopAtrMultiple: 3,
+    consecutiveLossLimit: 4,
+    consecutiveLossCooldownMinutes: 240,
+    dailyLossCooldownMinutes: 60,
+    weeklyDrawdownLimitPct: 8,
+    monthlyDrawdownLimitPct: 15
+  }
+];
+
+export const DEFAULT_RISK_POLICY = DEFAULT_RISK_POLICIES[0];
+
+/**
+ * Editable fields with UI labels and input bounds
+ */
+export const RISK_POLICY_FIELDS: { key: Exclude<RiskPolicyField, 'name'>; label: string; min: number; max: number; step: number }[] = [
+  { key: 'riskPerTradePct', label: 'Risk / trade %', min: 0.1, max: 5, step: 0.1 },
+  { key: 'maxPositionPercent', label: 'Max position %', min: 1, max: 100, step: 1 },
+  { key: 'maxLeverage', label: 'Max leverage', min: 1, max: 125, step: 1 },
+  { key: 'maxConcurrentPositions', label: 'Max positions', min: 1, max: 50, step: 1 },
+  { key: 'minRiskReward', label: 'Min R:R', min: 0.5, max: 10, step: 0.1 },
+  { key: 'maxStopAtrMultiple', label: 'Max stop (ATR)', min: 0.5, max: 10, step: 0.5 },
+  { key: 'consecutiveLossLimit', label: 'Loss streak', min: 1, max: 20, step: 1 },
+  { key: 'consecutiveLossCooldownMinutes', label: 'Streak cooldown (min)', min: 0, max: 1440, step: 5 },
+  { key: 'dailyLossCooldownMinutes', label: 'Daily-loss cooldown (min)', min: 0, max: 1440, step: 5 },
+  { key: 'weeklyDrawdownLimitPct', label: 'Weekly DD %', min: 1, max: 100, step: 1 },
+  { key: 'monthlyDrawdownLimitPct', label: 'Monthly DD %', min: 1, max: 100, step: 1 }
+];
+
+export function getActiveRiskPolicy(policies: RiskPolicy[], activeId: string): RiskPolicy {
+  return policies.find(p => p.id === activeId) || policies[0] || DEFAULT_RISK_POLICY;
+}
+
+// ============================================================================
+// DRAWDOWN
+// ============================================================================
+
+/**
+ * Start of the current UTC week (Monday 00:00) or month
+ */
+export function periodStart(now: number, period: 'WEEK' | 'MONTH'): number {
+  const date = new Date(now);
+  if (period === 'MONTH') {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday);
+}
+
+export function realizedPnLSince(journal: JournalEntry[], since: number): number {
+  return journal.reduce((sum, entry) => {
+    const closedAt = entry.exitTime || entry.date;
+    return closedAt >= since ? sum + (entry.pnl || 0) : sum;
+  }, 0);
+}
+
+/**
+ * Weekly / monthly drawdown breach, or null. Drawdown is measured against the
+ * balance at the start of the period (current balance minus P&L booked since);
+ * the weekly one against the week's high-water mark when that is higher, so
+ * giving back a gain made earlier in the week counts too.
+ */
+export function checkDrawdownLimits(
+  journal: JournalEntry[],
+  balance: number,
+  policy: RiskPolicy,
+  now: number = Date.now(),
+  weeklyHighWaterMark: number = 0
+): { period: 'WEEK' | 'MONTH'; drawdownPct: number; limitPct: number } | null {
+  const periods = [
+    { period: 'WEEK' as const, limitPct: policy.weeklyDrawdownLimitPct },
+    { period: 'MONTH' as const, limitPct: policy.monthlyDrawdownLimitPct }
+  ];
+
+  for (const { period, limitPct } of periods) {
+    const startBalance = balance - realizedPnLSince(journal, periodStart(now, period));
+    const peak = period === 'WEEK' ? Math.max(startBalance, weeklyHighWaterMark) : startBalance;
+    if (peak <= 0 || balance >= peak) continue;
+
+    const drawdownPct = ((peak - balance) / peak) * 100;
+    if (drawdownPct >= limitPct) return { period, drawdownPct, limitPct };
+  }
+  return null;
+}
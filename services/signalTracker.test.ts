@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { beginTracking, advanceTracking, isEnhancedSignal, TrackedSignal } from './signalTracker';
+import { EnhancedTradeSignal, PatternFingerprint, TradeSignal } from '../types';
+
+const T0 = Date.UTC(2024, 0, 17, 12);
+const MINUTE = 60 * 1000;
+
+const signal = (overrides: Partial<EnhancedTradeSignal> = {}): EnhancedTradeSignal => ({
+  id: 'sig-1',
+  pair: 'BTCUSDT',
+  type: 'LONG',
+  entryZone: '100-101',
+  invalidation: '98',
+  targets: ['102', '104'],
+  riskRewardRatio: 2,
+  confidence: 70,
+  regime: 'NORMAL',
+  reasoning: '',
+  status: 'ACTIVE',
+  timestamp: T0,
+  source: 'tactical',
+  approvalStatus: 'active',
+  targetLevels: [
+    { price: 102, rMultiple: 1, positionPct: 50, status: 'PENDING' },
+    { price: 104, rMultiple: 2, positionPct: 50, status: 'PENDING' }
+  ],
+  suggestedPositionSize: 100,
+  breakEvenPrice: null,
+  trailingStopActive: false,
+  currentStopPrice: 98,
+  patternFingerprint: { regime: 'NORMAL' } as PatternFingerprint,
+  patternConfidenceAdjustment: 0,
+  similarPatterns: [],
+  nearestResistance: null,
+  nearestSupport: null,
+  positionRemaining: 100,
+  realizedPnL: 0,
+  unrealizedPnL: 0,
+  ...overrides
+} as EnhancedTradeSignal);
+
+// Feed a price path one tick per minute; returns the outcome (if any) and final state
+const run = (tracked: TrackedSignal, prices: number[]) => {
+  let state = tracked;
+  for (const [i, price] of prices.entries()) {
+    const result = advanceTracking(state, price, T0 + (i + 1) * MINUTE);
+    state = result.tracked;
+    if (result.outcome) return { state, outcome: result.outcome };
+  }
+  return { state, outcome: null };
+};
+
+describe('signal forward-tracking', () => {
+  it('only tracks V3.3 signals with a fingerprint', () => {
+    expect(isEnhancedSignal(signal())).toBe(true);
+    expect(isEnhancedSignal({ id: 'x' } as TradeSignal)).toBe(false);
+  });
+
+  it('enters at the start of the entry zone, like the backtester', () => {
+    expect(beginTracking(signal(), 150)?.entryPrice).toBe(100);
+    expect(beginTracking(signal({ entryZone: 'n/a' }), 150)?.entryPrice).toBe(150);
+    expect(beginTracking(signal({ invalidation: '' }), 150)).toBeNull();
+  });
+
+  it('records a stop with excursions and duration', () => {
+    const { outcome } = run(beginTracking(signal(), 100)!, [101, 99, 97.5]);
+
+    expect(outcome).toMatchObject({ exitReason: 'STOP', exitPrice: 98, rMultipleAchieved: -1, tp1Hit: false });
+    expect(outcome?.maxFavorableExcursion).toBeCloseTo(1);
+    expect(outcome?.maxAdverseExcursion).toBeCloseTo(2.5);
+    expect(outcome?.durationSeconds).toBe(180);
+  });
+
+  it('scales out through the targets and closes at the last one', () => {
+    const { outcome } = run(beginTracking(signal(), 100)!, [102.5, 103, 104]);
+
+    expect(outcome).toMatchObject({ exitReason: 'TP2', tp1Hit: true, tp2Hit: true, rMultipleAchieved: 2 });
+    expect(outcome?.pnlPercent).toBeCloseTo(3); // half at +2%, half at +4%
+  });
+
+  it('moves the stop to entry after TP1', () => {
+    const { outcome } = run(beginTracking(signal(), 100)!, [102, 101, 100]);
+
+    expect(outcome).toMatchObject({ exitReason: 'STOP', exitPrice: 100, tp1Hit: true, rMultipleAchieved: 0 });
+    expect(outcome?.pnlPercent).toBeCloseTo(1);
+  });
+
+  it('expires signals that go nowhere', () => {
+    const tracked = beginTracking(signal(), 100)!;
+    expect(advanceTracking(tracked, 100.5, T0 + 23 * 60 * MINUTE).outcome).toBeNull();
+    expect(advanceTracking(tracked, 100.5, T0 + 24 * 60 * MINUTE).outcome?.exitReason).toBe('EXPIRED');
+  });
+
+  it('mirrors the rules for shorts', () => {
+    const short = signal({
+      type: 'SHORT',
+      entryZone: '100',
+      invalidation: '102',
+      targetLevels: [{ price: 96, rMultiple: 2, positionPct: 100, status: 'PENDING' }]
+    });
+    expect(run(beginTracking(short, 100)!, [99, 95.5]).outcome).toMatchObject({ exitReason: 'TP1', rMultipleAchieved: 2 });
+  });
+});
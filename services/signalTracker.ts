@@ -0,0 +1,277 @@
+/**
+ * SIGNAL TRACKER
+ * Forward-tests every emitted V3.3 signal against live prices, traded or not, and feeds
+ * the result into pattern learning as a TradeOutcome - the same record BacktestEngine writes.
+ *
+ * - Follows the BacktestEngine exit model: entry at the signal's entry price, scale-out at
+ *   each target, stop to entry after tacticalConfig.moveStopToBreakevenAtTp
+ * - Updates on every price tick of the signal's pair. Only pairs with a live price are tracked
+ *   (the chart and the pairs PairPriceFeed streams); a signal whose pair loses its price is
+ *   dropped without an outcome and starts over from its entry if the pair comes back in time
+ * - Keeps tracking after the signal leaves the list or is invalidated in the UI
+ * - Signals still open after maxTrackingHours are recorded as EXPIRED at the last price
+ * - Outcomes go to the pattern learning of the strategy that emitted the signal
+ * - In-flight tracking is memory-only; after a reload, signals still in the store resume
+ *   from their original entry time (excursions before the reload are lost)
+ */
+
+import { useStore } from '../store/useStore';
+import { EnhancedTradeSignal, TargetLevel, TradeOutcome, TradeSignal } from '../types';
+import { addTradeOutcome } from './tacticalSignalsV33';
+import { DEFAULT_STRATEGY_ID, getStrategyState } from './strategyRegistry';
+import { livePairPrice } from './pairPrices';
+
+// ============================================================================
+// CONFIG & TYPES
+// ============================================================================
+
+export interface SignalTrackerConfig {
+  maxTrackingHours: number;        // Open signals are closed as EXPIRED after this
+  moveStopToBreakevenAtTp: number; // Target after which the stop moves to entry (0 = never)
+}
+
+export const DEFAULT_SIGNAL_TRACKER_CONFIG: SignalTrackerConfig = {
+  maxTrackingHours: 24,
+  moveStopToBreakevenAtTp: 1
+};
+
+export interface TrackedSignal {
+  signal: EnhancedTradeSignal;
+  entryPrice: number;
+  entryTime: number;
+  initialStop: number;
+  stopPrice: number;             // Current stop (may have moved to entry)
+  targetLevels: TargetLevel[];
+  positionRemaining: number;     // % still open
+  realizedPct: number;           // Price-move % booked by targets, weighted by size
+  maxFavorableExcursion: number; // %
+  maxAdverseExcursion: number;   // %
+  lastPrice: number;
+}
+
+export function isEnhancedSignal(signal: TradeSignal): signal is EnhancedTradeSignal {
+  const enhanced = signal as Partial<EnhancedTradeSignal>;
+  return Array.isArray(enhanced.targetLevels) && !!enhanced.patternFingerprint;
+}
+
+// ============================================================================
+// FORWARD TEST
+// ============================================================================
+
+/**
+ * Open a forward test at the signal's entry price (parsed the way BacktestEngine does)
+ */
+export function beginTracking(signal: EnhancedTradeSignal, fallbackPrice: number): TrackedSignal | null {
+  const parsedEntry = parseFloat(signal.entryZone);
+  const entryPrice = Number.isFinite(parsedEntry) && parsedEntry > 0 ? parsedEntry : fallbackPrice;
+  const parsedStop = parseFloat(signal.invalidation);
+  if (!(entryPrice > 0) || !Number.isFinite(parsedStop) || parsedStop === entryPrice) return null;
+
+  return {
+    signal,
+    entryPrice,
+    entryTime: signal.timestamp,
+    initialStop: parsedStop,
+    stopPrice: parsedStop,
+    targetLevels: signal.targetLevels.map(t => ({ ...t, status: 'PENDING' as const })),
+    positionRemaining: 100,
+    realizedPct: 0,
+    maxFavorableExcursion: 0,
+    maxAdverseExcursion: 0,
+    lastPrice: entryPrice
+  };
+}
+
+const movePct = (tracked: TrackedSignal, price: number) =>
+  ((tracked.signal.type === 'LONG' ? price - tracked.entryPrice : tracked.entryPrice - price) / tracked.entryPrice) * 100;
+
+function buildOutcome(tracked: TrackedSignal, exitPrice: number, exitTime: number, exitReason: TradeOutcome['exitReason']): TradeOutcome {
+  const { signal, entryPrice, targetLevels } = tracked;
+  const isLong = signal.type === 'LONG';
+
+  // Same convention as BacktestEngine: R from the final exit against the original stop
+  const risk = Math.abs(entryPrice - tracked.initialStop);
+  const pnlPoints = isLong ? exitPrice - entryPrice : entryPrice - exitPrice;
+  const pnlPercent = tracked.realizedPct + movePct(tracked, exitPrice) * (tracked.positionRemaining / 100);
+
+  return {
+    signalId: signal.id,
+    fingerprint: signal.patternFingerprint,
+    entryPrice,
+    entryTime: tracked.entryTime,
+    exitPrice,
+    exitTime,
+    exitReason,
+    pnlPercent,
+    rMultipleAchieved: risk > 0 ? pnlPoints / risk : 0,
+    maxFavorableExcursion: tracked.maxFavorableExcursion,
+    maxAdverseExcursion: tracked.maxAdverseExcursion,
+    durationSeconds: Math.max(0, (exitTime - tracked.entryTime) / 1000),
+    tp1Hit: targetLevels[0]?.status === 'HIT',
+    tp2Hit: targetLevels[1]?.status === 'HIT',
+    tp3Hit: targetLevels[2]?.status === 'HIT',
+    tp4Hit: targetLevels[3]?.status === 'HIT',
+    regime: signal.regime,
+    timestamp: exitTime
+  };
+}
+
+/**
+ * Advance a forward test by one price tick. Returns the updated tracking state and,
+ * once the stop, the last target or the tracking horizon is reached, the outcome.
+ */
+export function advanceTracking(
+  tracked: TrackedSignal,
+  price: number,
+  now: number,
+  config: SignalTrackerConfig = DEFAULT_SIGNAL_TRACKER_CONFIG
+): { tracked: TrackedSignal; outcome: TradeOutcome | null } {
+  if (!(price > 0)) return { tracked, outcome: null };
+
+  const isLong = tracked.signal.type === 'LONG';
+  const move = movePct(tracked, price);
+  const next: TrackedSignal = {
+    ...tracked,
+    targetLevels: tracked.targetLevels.map(t => ({ ...t })),
+    maxFavorableExcursion: Math.max(tracked.maxFavorableExcursion, move),
+    maxAdverseExcursion: Math.max(tracked.maxAdverseExcursion, -move),
+    lastPrice: price
+  };
+
+  const stopHit = isLong ? price <= next.stopPrice : price >= next.stopPrice;
+  if (stopHit) {
+    return { tracked: next, outcome: buildOutcome(next, next.stopPrice, now, 'STOP') };
+  }
+
+  for (let i = 0; i < next.targetLevels.length; i++) {
+    const target = next.targetLevels[i];
+    if (target.status !== 'PENDING') continue;
+
+    const tpHit = isLong ? price >= target.price : price <= target.price;
+    if (!tpHit) break;
+
+    target.status = 'HIT';
+    target.hitTime = now;
+    target.hitPrice = target.price;
+
+    const exitPct = Math.min(target.positionPct, next.positionRemaining);
+    next.realizedPct += movePct(next, target.price) * (exitPct / 100);
+    next.positionRemaining -= exitPct;
+
+    if (i + 1 === config.moveStopToBreakevenAtTp) {
+      next.stopPrice = next.entryPrice;
+    }
+
+    if (next.positionRemaining <= 0 || i === next.targetLevels.length - 1) {
+      const reason = `TP${Math.min(i + 1, 4)}` as TradeOutcome['exitReason'];
+      return { tracked: next, outcome: buildOutcome(next, target.price, now, reason) };
+    }
+  }
+
+  if (now - next.entryTime >= config.maxTrackingHours * 60 * 60 * 1000) {
+    return { tracked: next, outcome: buildOutcome(next, price, now, 'EXPIRED') };
+  }
+
+  return { tracked: next, outcome: null };
+}
+
+// ============================================================================
+// TRACKER
+// ============================================================================
+
+class SignalTracker {
+  private tracked = new Map<string, TrackedSignal>();
+  private recorded = new Set<string>(); // Signal ids that already have an outcome
+  private unsubscribe: (() => void) | null = null;
+
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = useStore.subscribe((state, prev) => {
+      if (state.price !== prev.price || state.marketBySymbol !== prev.marketBySymbol || state.signals !== prev.signals) {
+        this.tick();
+      }
+    });
+    this.tick();
+    console.log('[SignalTracker] Started');
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  getTracked(): TrackedSignal[] {
+    return [...this.tracked.values()];
+  }
+
+  private tick(): void {
+    const state = useStore.getState();
+    // Replayed prices would resolve live signals on history
+    if (state.isReplaying) return;
+    const now = Date.now();
+    const config: SignalTrackerConfig = {
+      ...DEFAULT_SIGNAL_TRACKER_CONFIG,
+      moveStopToBreakevenAtTp: state.tacticalConfig.moveStopToBreakevenAtTp
+    };
+
+    // A cached price of a pair nobody streams would resolve signals on a stale quote
+    const priceFor = (pair: string) => livePairPrice(state, pair, now);
+
+    const horizonMs = config.maxTrackingHours * 60 * 60 * 1000;
+
+    // Pick up new signals from every symbol's list
+    const lists = [state.signals, ...Object.values(state.marketBySymbol).map(m => m.signals)];
+    const candidates = lists.flat().filter((signal): signal is EnhancedTradeSignal =>
+      isEnhancedSignal(signal) && !this.tracked.has(signal.id) && !this.recorded.has(signal.id) &&
+      now - signal.timestamp < horizonMs && priceFor(signal.pair) > 0
+    );
+    if (candidates.length > 0) {
+      // Outcomes can arrive after start() via hydration or server sync
+      const learned = [state.patternLearning, ...Object.values(state.strategyStates).map(s => s.patternLearning)];
+      for (const outcome of learned.flatMap(l => l.outcomes)) this.recorded.add(outcome.signalId);
+      for (const signal of candidates) {
+        if (this.recorded.has(signal.id) || this.tracked.has(signal.id)) continue;
+        const started = beginTracking(signal, priceFor(signal.pair));
+        if (started) this.tracked.set(signal.id, started);
+      }
+    }
+
+    const outcomes: { strategyId: string; outcome: TradeOutcome }[] = [];
+    for (const [id, current] of this.tracked) {
+      const price = priceFor(current.signal.pair);
+      if (!(price > 0)) {
+        this.tracked.delete(id);
+        continue;
+      }
+      if (price === current.lastPrice && now - current.entryTime < horizonMs) continue;
+
+      const { tracked, outcome } = advanceTracking(current, price, now, config);
+      if (outcome) {
+        this.tracked.delete(id);
+        this.recorded.add(id);
+        outcomes.push({ strategyId: current.signal.strategyId ?? DEFAULT_STRATEGY_ID, outcome });
+      } else {
+        this.tracked.set(id, tracked);
+      }
+    }
+
+    if (outcomes.length === 0) return;
+
+    for (const strategyId of new Set(outcomes.map(o => o.strategyId))) {
+      const patternLearning = outcomes
+        .filter(o => o.strategyId === strategyId)
+        .reduce(
+          (learning, { outcome }) => addTradeOutcome(learning, outcome),
+          getStrategyState(useStore.getState(), strategyId).patternLearning
+        );
+      useStore.getState().updateStrategyState(strategyId, { patternLearning });
+    }
+
+    for (const { strategyId, outcome } of outcomes) {
+      console.log(`[SignalTracker] ${strategyId} ${outcome.signalId} ${outcome.exitReason} @ ${outcome.exitPrice.toFixed(2)} | ${outcome.rMultipleAchieved.toFixed(2)}R`);
+    }
+  }
+}
+
+export const signalTracker = new SignalTracker();
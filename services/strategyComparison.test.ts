@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareBacktests,
+  diffTrades,
+  parseConfigOverrides,
+  studentTTwoSidedP,
+  welchTTest,
+  ComparisonVariant
+} from './strategyComparison';
+import { BacktestResults, ClosedTrade } from './backtestEngine';
+
+const trade = (entryIndex: number, type: 'LONG' | 'SHORT', rMultiple: number, exitReason: ClosedTrade['exitReason'] = 'TP1') => ({
+  signal: { type },
+  entryIndex,
+  entryTime: entryIndex * 60000,
+  entryPrice: 100,
+  exitPrice: 101,
+  exitReason,
+  rMultiple
+}) as ClosedTrade;
+
+const results = (trades: ClosedTrade[], equity: number[]): BacktestResults => ({
+  totalTrades: trades.length,
+  winRate: trades.filter(t => t.rMultiple > 0).length / trades.length,
+  expectancy: trades.reduce((s, t) => s + t.rMultiple, 0) / trades.length,
+  profitFactor: 1,
+  totalPnLPercent: 0,
+  maxDrawdownPercent: 5,
+  sharpeRatio: 0,
+  avgMFE: 0,
+  avgMAE: 0,
+  trades,
+  equityCurve: equity.map((e, i) => ({ time: i * 60000, equity: e, drawdown: 0 }))
+}) as unknown as BacktestResults;
+
+const variants: ComparisonVariant[] = [
+  { id: 'a', label: 'A', strategyId: 'tactical-v33', tacticalConfig: {} },
+  { id: 'b', label: 'B', strategyId: 'tactical-v33-ltf', tacticalConfig: {} }
+];
+
+describe('parseConfigOverrides', () => {
+  it('accepts known keys with matching types', () => {
+    expect(parseConfigOverrides('{"htfTrendGate": false, "tp1Multiplier": 1.5}'))
+      .toEqual({ htfTrendGate: false, tp1Multiplier: 1.5 });
+    expect(parseConfigOverrides('  ')).toEqual({});
+  });
+
+  it('rejects unknown keys, wrong types and non-objects', () => {
+    expect(() => parseConfigOverrides('{"nope": 1}')).toThrow(/Unknown config key/);
+    expect(() => parseConfigOverrides('{"htfTrendGate": "no"}')).toThrow(/must be a boolean/);
+    expect(() => parseConfigOverrides('[1]')).toThrow(/JSON object/);
+  });
+});
+
+describe('expectancy significance', () => {
+  it('matches Student t table values', () => {
+    expect(studentTTwoSidedP(2.228, 10)).toBeCloseTo(0.05, 3);
+    expect(studentTTwoSidedP(0, 10)).toBeCloseTo(1, 6);
+  });
+
+  it("runs Welch's t-test on per-trade R", () => {
+    const test = welchTTest([1, 2, 3, 4, 5], [2, 4, 6, 8, 10]);
+    expect(test?.difference).toBe(3);
+    expect(test?.tStatistic).toBeCloseTo(1.897, 3);
+    expect(test?.degreesOfFreedom).toBeCloseTo(5.882, 3);
+    expect(test?.significant).toBe(false);
+
+    expect(welchTTest([1], [1, 2])).toBeNull();
+  });
+});
+
+describe('strategy comparison', () => {
+  it('diffs trades by entry bar', () => {
+    const { entries, summary } = diffTrades(
+      [trade(1, 'LONG', 1), trade(2, 'LONG', 1), trade(3, 'LONG', 1), trade(4, 'LONG', -1, 'STOP')],
+      [trade(1, 'LONG', 1), trade(3, 'SHORT', -1, 'STOP'), trade(4, 'LONG', 2, 'TP2'), trade(5, 'SHORT', 1)],
+      'b'
+    );
+
+    expect(summary).toEqual({ challengerId: 'b', agreed: 1, onlyBaseline: 1, onlyChallenger: 1, oppositeSide: 1, differentExit: 1 });
+    expect(entries.map(e => [e.kind, e.rDelta])).toEqual([
+      ['ONLY_BASELINE', -1],
+      ['OPPOSITE_SIDE', -2],
+      ['DIFFERENT_EXIT', 3],
+      ['ONLY_CHALLENGER', 1]
+    ]);
+  });
+
+  it('reports metric deltas and overlays equity against the baseline', () => {
+    const a = results([trade(1, 'LONG', 1), trade(2, 'LONG', -1, 'STOP')], [100, 101, 100]);
+    const b = results([trade(1, 'LONG', 1), trade(2, 'LONG', 1)], [100, 101, 102]);
+    const comparison = compareBacktests(variants, [a, b], { symbol: 'BTCUSDT', timeframe: '15m', candleCount: 3 });
+
+    expect(comparison.name).toBe('A vs B');
+    expect(comparison.metrics.find(m => m.key === 'expectancy')?.deltas).toEqual([0, 1]);
+    expect(comparison.equityOverlay.map(p => p.equity)).toEqual([[100, 100], [101, 101], [100, 102]]);
+    expect(comparison.expectancyTests).toHaveLength(1);
+    expect(() => compareBacktests(variants.slice(0, 1), [a], { symbol: 'BTCUSDT', timeframe: '15m', candleCount: 3 }))
+      .toThrow(/at least two variants/);
+  });
+});
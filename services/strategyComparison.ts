@@ -0,0 +1,480 @@
+/**
+ * STRATEGY A/B COMPARISON
+ *
+ * Runs two or more strategy / config variants over the same candles and
+ * reports them side by side against the first variant (the baseline):
+ * - Equity curves on a shared time axis for overlay charts
+ * - Per-metric deltas
+ * - Trade-by-trade diff of the bars where the variants disagreed
+ * - Welch's t-test on per-trade R, i.e. whether the expectancy gap is more than noise
+ * - Save / reload of finished reports to IndexedDB ('comparison:<id>')
+ *
+ * @version 1.0.0
+ */
+
+import { ChartDataPoint, DEFAULT_CONFIG_V33, TacticalConfigV33 } from '../types';
+import { AggrStats } from '../types/aggrTypes';
+import { AppState } from '../store/useStore';
+import { BacktestConfig, BacktestEngine, BacktestResults, ClosedTrade, DEFAULT_BACKTEST_CONFIG } from './backtestEngine';
+import { getStrategy, resolveStrategyConfig } from './strategyRegistry';
+import { get, set, remove, getAllKeys } from './storage/indexedDB';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ComparisonVariant {
+  id: string;
+  label: string;
+  strategyId: string;
+  tacticalConfig: Partial<TacticalConfigV33>;   // Overrides on top of the strategy's defaults
+}
+
+export type ComparisonMetricKey =
+  | 'totalTrades'
+  | 'winRate'
+  | 'expectancy'
+  | 'profitFactor'
+  | 'totalPnLPercent'
+  | 'maxDrawdownPercent'
+  | 'sharpeRatio'
+  | 'avgMFE'
+  | 'avgMAE';
+
+export interface MetricComparison {
+  key: ComparisonMetricKey;
+  label: string;
+  higherIsBetter: boolean;
+  values: number[];       // One per variant, in variant order
+  deltas: number[];       // values[i] - values[0]
+}
+
+export interface EquityOverlayPoint {
+  time: number;
+  equity: number[];       // One per variant, in variant order
+}
+
+export type TradeDiffKind = 'ONLY_BASELINE' | 'ONLY_CHALLENGER' | 'OPPOSITE_SIDE' | 'DIFFERENT_EXIT';
+
+export interface TradeSnapshot {
+  direction: 'LONG' | 'SHORT';
+  entryPrice: number;
+  exitPrice: number;
+  exitReason: ClosedTrade['exitReason'];
+  rMultiple: number;
+}
+
+export interface TradeDiffEntry {
+  kind: TradeDiffKind;
+  challengerId: string;
+  entryTime: number;
+  baseline: TradeSnapshot | null;
+  challenger: TradeSnapshot | null;
+  rDelta: number;         // Challenger R minus baseline R (a missing trade counts as 0R)
+}
+
+export interface ExpectancyTest {
+  challengerId: string;
+  baselineMean: number;
+  challengerMean: number;
+  difference: number;
+  tStatistic: number;
+  degreesOfFreedom: number;
+  pValue: number;         // Two-sided
+  significant: boolean;   // pValue < SIGNIFICANCE_LEVEL
+}
+
+export interface TradeDiffSummary {
+  challengerId: string;
+  agreed: number;
+  onlyBaseline: number;
+  onlyChallenger: number;
+  oppositeSide: number;
+  differentExit: number;
+}
+
+export interface StrategyComparison {
+  id: string;
+  name: string;
+  createdAt: number;
+  symbol: string;
+  timeframe: string;
+  candleCount: number;
+  variants: ComparisonVariant[];
+  metrics: MetricComparison[];
+  equityOverlay: EquityOverlayPoint[];
+  tradeDiffs: TradeDiffEntry[];
+  diffSummaries: TradeDiffSummary[];
+  expectancyTests: (ExpectancyTest | null)[];  // One per challenger; null with < 2 trades on either side
+}
+
+export interface ComparisonProgress {
+  variant: number;
+  totalVariants: number;
+  label: string;
+}
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+const MAX_OVERLAY_POINTS = 300;
+const KEY_PREFIX = 'comparison';
+
+const METRICS: { key: ComparisonMetricKey; label: string; higherIsBetter: boolean }[] = [
+  { key: 'totalTrades', label: 'Trades', higherIsBetter: true },
+  { key: 'winRate', label: 'Win Rate', higherIsBetter: true },
+  { key: 'expectancy', label: 'Expectancy (R)', higherIsBetter: true },
+  { key: 'profitFactor', label: 'Profit Factor', higherIsBetter: true },
+  { key: 'totalPnLPercent', label: 'Return %', higherIsBetter: true },
+  { key: 'maxDrawdownPercent', label: 'Max DD %', higherIsBetter: false },
+  { key: 'sharpeRatio', label: 'Sharpe', higherIsBetter: true },
+  { key: 'avgMFE', label: 'Avg MFE %', higherIsBetter: true },
+  { key: 'avgMAE', label: 'Avg MAE %', higherIsBetter: false }
+];
+
+// ============================================================================
+// CONFIG OVERRIDES
+// ============================================================================
+
+/**
+ * Parse a JSON object of TacticalConfigV33 overrides, e.g. '{"htfTrendGate": false}'.
+ * Unknown keys and values of the wrong type are rejected.
+ */
+export function parseConfigOverrides(text: string): Partial<TacticalConfigV33> {
+  if (!text.trim()) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Overrides must be a JSON object');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Overrides must be a JSON object');
+  }
+
+  for (const [key, value] of Object.entries(parsed)) {
+    if (!(key in DEFAULT_CONFIG_V33)) {
+      throw new Error(`Unknown config key: ${key}`);
+    }
+    const expected = typeof DEFAULT_CONFIG_V33[key as keyof TacticalConfigV33];
+    if (typeof value !== expected) {
+      throw new Error(`${key} must be a ${expected}`);
+    }
+  }
+
+  return parsed as Partial<TacticalConfigV33>;
+}
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+// Lanczos approximation
+function logGamma(x: number): number {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const coef of c) ser += coef / ++y;
+  return -tmp + Math.log((2.5066282746310005 * ser) / x);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const EPS = 3e-14;
+  const FPMIN = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < FPMIN) d = FPMIN;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPS) break;
+  }
+
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+function incompleteBeta(a: number, b: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+/**
+ * Two-sided p-value of a Student t statistic
+ */
+export function studentTTwoSidedP(t: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(t)) return 0;
+  if (degreesOfFreedom <= 0) return 1;
+  return incompleteBeta(degreesOfFreedom / 2, 0.5, degreesOfFreedom / (degreesOfFreedom + t * t));
+}
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / values.length;
+
+const sampleVariance = (values: number[], avg: number) =>
+  values.reduce((s, v) => s + (v - avg) ** 2, 0) / (values.length - 1);
+
+/**
+ * Welch's t-test (unequal variances) on two samples.
+ * Returns null when either sample has fewer than 2 values.
+ */
+export function welchTTest(
+  baseline: number[],
+  challenger: number[]
+): Omit<ExpectancyTest, 'challengerId'> | null {
+  if (baseline.length < 2 || challenger.length < 2) return null;
+
+  const meanA = mean(baseline);
+  const meanB = mean(challenger);
+  const seA = sampleVariance(baseline, meanA) / baseline.length;
+  const seB = sampleVariance(challenger, meanB) / challenger.length;
+  const se = Math.sqrt(seA + seB);
+  const difference = meanB - meanA;
+
+  // Identical constant samples: no evidence of a difference (or infinite evidence if means differ)
+  if (se === 0) {
+    const pValue = difference === 0 ? 1 : 0;
+    return {
+      baselineMean: meanA,
+      challengerMean: meanB,
+      difference,
+      tStatistic: difference === 0 ? 0 : Math.sign(difference) * Infinity,
+      degreesOfFreedom: baseline.length + challenger.length - 2,
+      pValue,
+      significant: pValue < SIGNIFICANCE_LEVEL
+    };
+  }
+
+  const tStatistic = difference / se;
+  const degreesOfFreedom = (seA + seB) ** 2 /
+    ((seA ** 2) / (baseline.length - 1) + (seB ** 2) / (challenger.length - 1));
+  const pValue = studentTTwoSidedP(tStatistic, degreesOfFreedom);
+
+  return {
+    baselineMean: meanA,
+    challengerMean: meanB,
+    difference,
+    tStatistic,
+    degreesOfFreedom,
+    pValue,
+    significant: pValue < SIGNIFICANCE_LEVEL
+  };
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+const snapshot = (trade: ClosedTrade): TradeSnapshot => ({
+  direction: trade.signal.type,
+  entryPrice: trade.entryPrice,
+  exitPrice: trade.exitPrice,
+  exitReason: trade.exitReason,
+  rMultiple: trade.rMultiple
+});
+
+/**
+ * Trades that differ between the baseline and a challenger, matched by entry bar
+ */
+export function diffTrades(
+  baseline: ClosedTrade[],
+  challenger: ClosedTrade[],
+  challengerId: string
+): { entries: TradeDiffEntry[]; summary: TradeDiffSummary } {
+  const byBar = new Map<number, { a?: ClosedTrade; b?: ClosedTrade }>();
+  for (const trade of baseline) byBar.set(trade.entryIndex, { ...byBar.get(trade.entryIndex), a: trade });
+  for (const trade of challenger) byBar.set(trade.entryIndex, { ...byBar.get(trade.entryIndex), b: trade });
+
+  const summary: TradeDiffSummary = {
+    challengerId, agreed: 0, onlyBaseline: 0, onlyChallenger: 0, oppositeSide: 0, differentExit: 0
+  };
+  const entries: TradeDiffEntry[] = [];
+
+  for (const { a, b } of byBar.values()) {
+    let kind: TradeDiffKind;
+    if (a && !b) {
+      kind = 'ONLY_BASELINE';
+      summary.onlyBaseline++;
+    } else if (b && !a) {
+      kind = 'ONLY_CHALLENGER';
+      summary.onlyChallenger++;
+    } else if (a!.signal.type !== b!.signal.type) {
+      kind = 'OPPOSITE_SIDE';
+      summary.oppositeSide++;
+    } else if (a!.exitReason !== b!.exitReason || Math.abs(a!.rMultiple - b!.rMultiple) > 0.01) {
+      kind = 'DIFFERENT_EXIT';
+      summary.differentExit++;
+    } else {
+      summary.agreed++;
+      continue;
+    }
+
+    entries.push({
+      kind,
+      challengerId,
+      entryTime: (a ?? b)!.entryTime,
+      baseline: a ? snapshot(a) : null,
+      challenger: b ? snapshot(b) : null,
+      rDelta: (b?.rMultiple ?? 0) - (a?.rMultiple ?? 0)
+    });
+  }
+
+  entries.sort((x, y) => x.entryTime - y.entryTime);
+  return { entries, summary };
+}
+
+/**
+ * Build the side-by-side report from finished backtests (results[i] belongs to variants[i])
+ */
+export function compareBacktests(
+  variants: ComparisonVariant[],
+  results: BacktestResults[],
+  meta: { symbol: string; timeframe: string; candleCount: number; name?: string }
+): StrategyComparison {
+  if (variants.length < 2 || variants.length !== results.length) {
+    throw new Error('Comparison needs at least two variants, each with results');
+  }
+
+  const metrics: MetricComparison[] = METRICS.map(({ key, label, higherIsBetter }) => {
+    const values = results.map(r => r[key]);
+    return { key, label, higherIsBetter, values, deltas: values.map(v => v - values[0]) };
+  });
+
+  // Same candles and start bar, so the curves share their time axis
+  const length = Math.min(...results.map(r => r.equityCurve.length));
+  const stride = Math.max(1, Math.ceil(length / MAX_OVERLAY_POINTS));
+  const equityOverlay: EquityOverlayPoint[] = [];
+  for (let i = 0; i < length; i += stride) {
+    equityOverlay.push({ time: results[0].equityCurve[i].time, equity: results.map(r => r.equityCurve[i].equity) });
+  }
+  if (length > 0 && (length - 1) % stride !== 0) {
+    const last = length - 1;
+    equityOverlay.push({ time: results[0].equityCurve[last].time, equity: results.map(r => r.equityCurve[last].equity) });
+  }
+
+  const baseline = results[0];
+  const tradeDiffs: TradeDiffEntry[] = [];
+  const diffSummaries: TradeDiffSummary[] = [];
+  const expectancyTests: (ExpectancyTest | null)[] = [];
+
+  for (let i = 1; i < results.length; i++) {
+    const { entries, summary } = diffTrades(baseline.trades, results[i].trades, variants[i].id);
+    tradeDiffs.push(...entries);
+    diffSummaries.push(summary);
+
+    const test = welchTTest(baseline.trades.map(t => t.rMultiple), results[i].trades.map(t => t.rMultiple));
+    expectancyTests.push(test && { challengerId: variants[i].id, ...test });
+  }
+
+  const createdAt = Date.now();
+  return {
+    id: `${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+    name: meta.name ?? variants.map(v => v.label).join(' vs '),
+    createdAt,
+    symbol: meta.symbol,
+    timeframe: meta.timeframe,
+    candleCount: meta.candleCount,
+    variants,
+    metrics,
+    equityOverlay,
+    tradeDiffs: tradeDiffs.sort((x, y) => x.entryTime - y.entryTime),
+    diffSummaries,
+    expectancyTests
+  };
+}
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Backtest every variant over the same candles and order flow, then compare them
+ */
+export async function runStrategyComparison(
+  chartData: ChartDataPoint[],
+  variants: ComparisonVariant[],
+  meta: { symbol: string; timeframe: string },
+  appState: Partial<AppState> = {},
+  backtestConfig: Partial<BacktestConfig> = {},
+  orderFlowSeries: (AggrStats | null)[] = [],
+  onProgress?: (progress: ComparisonProgress) => void
+): Promise<StrategyComparison> {
+  const results: BacktestResults[] = [];
+
+  for (let i = 0; i < variants.length; i++) {
+    const variant = variants[i];
+    const strategy = getStrategy(variant.strategyId);
+    if (!strategy) {
+      throw new Error(`Unknown strategy: ${variant.strategyId}`);
+    }
+
+    onProgress?.({ variant: i, totalVariants: variants.length, label: variant.label });
+    await yieldToEventLoop();
+
+    results.push(new BacktestEngine(
+      chartData,
+      appState,
+      { ...DEFAULT_BACKTEST_CONFIG, ...backtestConfig, strategyId: strategy.id },
+      resolveStrategyConfig(strategy, variant.tacticalConfig),
+      orderFlowSeries
+    ).run());
+  }
+
+  console.log(`[Comparison] ${variants.length} variants over ${chartData.length} bars`);
+  return compareBacktests(variants, results, { ...meta, candleCount: chartData.length });
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export async function saveComparison(comparison: StrategyComparison): Promise<void> {
+  await set(`${KEY_PREFIX}:${comparison.id}`, comparison);
+}
+
+export async function loadComparison(id: string): Promise<StrategyComparison | null> {
+  return get<StrategyComparison>(`${KEY_PREFIX}:${id}`);
+}
+
+export async function deleteComparison(id: string): Promise<void> {
+  await remove(`${KEY_PREFIX}:${id}`);
+}
+
+/**
+ * Saved comparisons, newest first
+ */
+export async function listSavedComparisons(): Promise<Pick<StrategyComparison, 'id' | 'name' | 'createdAt' | 'symbol' | 'timeframe'>[]> {
+  const keys = (await getAllKeys()).filter(key => key.startsWith(`${KEY_PREFIX}:`));
+  const saved = await Promise.all(keys.map(key => get<StrategyComparison>(key)));
+
+  return saved
+    .filter((c): c is StrategyComparison => !!c)
+    .map(({ id, name, createdAt, symbol, timeframe }) => ({ id, name, createdAt, symbol, timeframe }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_STRATEGY_ID,
+  EMPTY_STRATEGY_STATE,
+  Strategy,
+  getStrategy,
+  getStrategyState,
+  listStrategies,
+  registerStrategy,
+  resolveStrategyConfig,
+  runStrategy
+} from './strategyRegistry';
+import { DEFAULT_CONFIG_V33, EMPTY_PATTERN_LEARNING, EMPTY_SIGNAL_HISTORY, TacticalResultV33 } from '../types';
+
+const stubStrategy = (id: string, generate: Strategy['generate']): Strategy => ({
+  id,
+  name: id,
+  shortName: id,
+  description: '',
+  defaultConfig: { ...DEFAULT_CONFIG_V33, tp1Multiplier: 3 },
+  generate
+});
+
+const input = {
+  chartData: [],
+  orderFlowStats: null,
+  state: {},
+  signalHistory: EMPTY_SIGNAL_HISTORY,
+  patternLearning: EMPTY_PATTERN_LEARNING,
+  config: DEFAULT_CONFIG_V33
+};
+
+describe('strategy registry', () => {
+  it('ships the V3.3.1 generator as the default strategy', () => {
+    expect(getStrategy(DEFAULT_STRATEGY_ID)?.defaultConfig).toBe(DEFAULT_CONFIG_V33);
+    expect(getStrategy('tactical-v33-ltf')?.defaultConfig.useHigherTimeframes).toBe(false);
+    expect(getStrategy('missing')).toBeUndefined();
+  });
+
+  it('rejects duplicate ids', () => {
+    expect(() => registerStrategy(stubStrategy(DEFAULT_STRATEGY_ID, () => ({}) as TacticalResultV33)))
+      .toThrow(/already registered/);
+  });
+
+  it('merges per-strategy overrides over the strategy defaults', () => {
+    const strategy = stubStrategy('test-config', () => ({}) as TacticalResultV33);
+    expect(resolveStrategyConfig(strategy).tp1Multiplier).toBe(3);
+    expect(resolveStrategyConfig(strategy, { tp1Multiplier: 2 }).tp1Multiplier).toBe(2);
+  });
+
+  it('stamps the strategy id on emitted signals', () => {
+    const strategy = stubStrategy('test-stamp', () => ({ signal: { id: 'sig-1' } }) as TacticalResultV33);
+    registerStrategy(strategy);
+
+    expect(runStrategy(strategy, input).signal?.strategyId).toBe('test-stamp');
+    expect(listStrategies().map(s => s.id)).toContain('test-stamp');
+  });
+
+  it('keeps the default strategy on the top-level learning state', () => {
+    const patternLearning = { ...EMPTY_PATTERN_LEARNING, totalTrades: 5 };
+    const state = {
+      tacticalConfig: DEFAULT_CONFIG_V33,
+      signalHistory: EMPTY_SIGNAL_HISTORY,
+      patternLearning,
+      strategyStates: {}
+    };
+
+    expect(getStrategyState(state, DEFAULT_STRATEGY_ID).patternLearning).toBe(patternLearning);
+    expect(getStrategyState(state, 'tactical-v33-ltf')).toBe(EMPTY_STRATEGY_STATE);
+  });
+});
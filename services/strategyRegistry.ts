@@ -0,0 +1,148 @@
+/**
+ * STRATEGY REGISTRY
+ * Signal generators the terminal can run side by side.
+ *
+ * - A Strategy turns candles + order flow + its own config into a TacticalResultV33
+ * - Each strategy keeps its own config overrides, signal history and pattern learning
+ *   (see StrategyState) so strategies never share cooldowns or learned outcomes
+ * - tradingWorker, BacktestEngine and ActiveSignals resolve strategies by id from here
+ * - Signals are stamped with the id of the strategy that produced them
+ */
+
+import {
+  ChartDataPoint,
+  DEFAULT_CONFIG_V33,
+  EMPTY_PATTERN_LEARNING,
+  EMPTY_SIGNAL_HISTORY,
+  HigherTimeframeData,
+  PatternLearningState,
+  SignalHistoryState,
+  TacticalConfigV33,
+  TacticalResultV33
+} from '../types';
+import type { AppState } from '../store/useStore';
+import { AggrStats } from './aggrService';
+import { generateTacticalSignalV33 } from './tacticalSignalsV33';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StrategyInput {
+  chartData: ChartDataPoint[];
+  orderFlowStats: AggrStats | null;
+  state: Partial<AppState>;
+  signalHistory: SignalHistoryState;
+  patternLearning: PatternLearningState;
+  config: TacticalConfigV33;            // Already merged over the strategy's defaultConfig
+  referenceTime?: number;               // Bar time in backtests, wall clock when omitted
+  higherTimeframes?: HigherTimeframeData[];
+}
+
+export interface Strategy {
+  id: string;
+  name: string;
+  shortName: string;                    // Badge label in signal lists
+  description: string;
+  defaultConfig: TacticalConfigV33;
+  generate: (input: StrategyInput) => TacticalResultV33;
+}
+
+/** Per-strategy state kept by the store (the default strategy uses the top-level fields) */
+export interface StrategyState {
+  config: Partial<TacticalConfigV33>;   // Overrides on top of Strategy.defaultConfig
+  signalHistory: SignalHistoryState;
+  patternLearning: PatternLearningState;
+}
+
+export const DEFAULT_STRATEGY_ID = 'tactical-v33';
+
+export const EMPTY_STRATEGY_STATE: StrategyState = {
+  config: {},
+  signalHistory: EMPTY_SIGNAL_HISTORY,
+  patternLearning: EMPTY_PATTERN_LEARNING
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const strategies = new Map<string, Strategy>();
+
+export function registerStrategy(strategy: Strategy): void {
+  if (strategies.has(strategy.id)) {
+    throw new Error(`Strategy already registered: ${strategy.id}`);
+  }
+  strategies.set(strategy.id, strategy);
+}
+
+export function getStrategy(id: string | undefined | null): Strategy | undefined {
+  return id ? strategies.get(id) : undefined;
+}
+
+export function listStrategies(): Strategy[] {
+  return [...strategies.values()];
+}
+
+export function resolveStrategyConfig(strategy: Strategy, overrides: Partial<TacticalConfigV33> = {}): TacticalConfigV33 {
+  return { ...strategy.defaultConfig, ...overrides };
+}
+
+/**
+ * A strategy's state from the store - the default strategy keeps the pre-registry
+ * top-level tacticalConfig / signalHistory / patternLearning fields
+ */
+export function getStrategyState(
+  state: Pick<AppState, 'tacticalConfig' | 'signalHistory' | 'patternLearning' | 'strategyStates'>,
+  id: string
+): StrategyState {
+  if (id === DEFAULT_STRATEGY_ID) {
+    return { config: state.tacticalConfig, signalHistory: state.signalHistory, patternLearning: state.patternLearning };
+  }
+  return state.strategyStates[id] ?? EMPTY_STRATEGY_STATE;
+}
+
+/**
+ * Run a strategy and stamp its id on the emitted signal
+ */
+export function runStrategy(strategy: Strategy, input: StrategyInput): TacticalResultV33 {
+  const result = strategy.generate(input);
+  if (result.signal) {
+    result.signal = { ...result.signal, strategyId: strategy.id };
+  }
+  return result;
+}
+
+// ============================================================================
+// BUILT-IN STRATEGIES
+// ============================================================================
+
+const generateV33 = (input: StrategyInput): TacticalResultV33 =>
+  generateTacticalSignalV33(
+    input.chartData,
+    input.state,
+    input.orderFlowStats,
+    input.signalHistory,
+    input.patternLearning,
+    input.config,
+    input.referenceTime,
+    input.higherTimeframes ?? []
+  );
+
+registerStrategy({
+  id: DEFAULT_STRATEGY_ID,
+  name: 'Tactical V3.3.1',
+  shortName: 'V33',
+  description: 'Confluence scoring with order flow, structure levels, pattern learning and higher-timeframe trend gate',
+  defaultConfig: DEFAULT_CONFIG_V33,
+  generate: generateV33
+});
+
+registerStrategy({
+  id: 'tactical-v33-ltf',
+  name: 'Tactical V3.3.1 (LTF only)',
+  shortName: 'LTF',
+  description: 'Same generator on the trading timeframe alone - baseline for judging the higher-timeframe filter',
+  defaultConfig: { ...DEFAULT_CONFIG_V33, useHigherTimeframes: false },
+  generate: generateV33
+});
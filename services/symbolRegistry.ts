@@ -0,0 +1,59 @@
+/**
+ * SYMBOL REGISTRY
+ * Configured perpetual pairs the terminal can track and trade.
+ * Every market data fetch, stream subscription and signal is keyed by one of these.
+ */
+
+export interface SymbolConfig {
+  symbol: string;           // Exchange symbol (Binance/Bybit format), e.g. 'ETHUSDT'
+  baseAsset: string;        // e.g. 'ETH'
+  quoteAsset: string;       // e.g. 'USDT'
+  displayName: string;      // Chart header label, e.g. 'ETHUSDT.P'
+  okxInstId: string;        // OKX swap instrument id, e.g. 'ETH-USDT-SWAP'
+  pricePrecision: number;   // Decimals used when formatting prices
+  quantityPrecision: number; // Decimals accepted by the exchange for order size
+  whaleThresholdUsd: number; // Notional above which a trade counts as a large trade
+}
+
+export const DEFAULT_SYMBOL = 'BTCUSDT';
+
+export const SYMBOLS: Record<string, SymbolConfig> = {
+  BTCUSDT: {
+    symbol: 'BTCUSDT',
+    baseAsset: 'BTC',
+    quoteAsset: 'USDT',
+    displayName: 'BTCUSDT.P',
+    okxInstId: 'BTC-USDT-SWAP',
+    pricePrecision: 1,
+    quantityPrecision: 3,
+    whaleThresholdUsd: 500000,
+  },
+  ETHUSDT: {
+    symbol: 'ETHUSDT',
+    baseAsset: 'ETH',
+    quoteAsset: 'USDT',
+    displayName: 'ETHUSDT.P',
+    okxInstId: 'ETH-USDT-SWAP',
+    pricePrecision: 2,
+    quantityPrecision: 3,
+    whaleThresholdUsd: 250000,
+  },
+  SOLUSDT: {
+    symbol: 'SOLUSDT',
+    baseAsset: 'SOL',
+    quoteAsset: 'USDT',
+    displayName: 'SOLUSDT.P',
+    okxInstId: 'SOL-USDT-SWAP',
+    pricePrecision: 3,
+    quantityPrecision: 0,
+    whaleThresholdUsd: 100000,
+  },
+};
+
+export const SUPPORTED_SYMBOLS = Object.keys(SYMBOLS);
+
+export const isSupportedSymbol = (symbol: string | undefined | null): symbol is string =>
+  !!symbol && Object.prototype.hasOwnProperty.call(SYMBOLS, symbol);
+
+export const getSymbolConfig = (symbol: string | undefined | null): SymbolConfig =>
+  isSupportedSymbol(symbol) ? SYMBOLS[symbol] : SYMBOLS[DEFAULT_SYMBOL];
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeHigherTimeframeTrend, scoreHigherTimeframes, detectStructureLevels } from './tacticalSignalsV33';
+import { ChartDataPoint, DEFAULT_CONFIG_V33, HigherTimeframeData } from '../types';
+
+// Steady drift with a small zig-zag so swings form
+const candles = (n: number, drift: number, start = 100): ChartDataPoint[] =>
+  Array.from({ length: n }, (_, i) => {
+    const close = start + drift * i + (i % 4 < 2 ? 0.5 : -0.5);
+    return { time: i * 3600, open: close, high: close + 0.3, low: close - 0.3, close, volume: 1 };
+  });
+
+const uptrend: HigherTimeframeData = { timeframe: '4h', chartData: candles(120, 0.5) };
+const downtrend: HigherTimeframeData = { timeframe: '1h', chartData: candles(120, -0.5, 200) };
+
+describe('higher-timeframe confluence', () => {
+  it('reads the HTF trend from EMA 21/55', () => {
+    expect(analyzeHigherTimeframeTrend(uptrend)?.direction).toBe('UP');
+    expect(analyzeHigherTimeframeTrend(downtrend)?.direction).toBe('DOWN');
+    expect(analyzeHigherTimeframeTrend({ timeframe: '1d', chartData: candles(30, 1) })).toBeNull();
+  });
+
+  it('boosts aligned signals and gates counter-trend ones', () => {
+    const aligned = scoreHigherTimeframes([uptrend], 'LONG', DEFAULT_CONFIG_V33);
+    expect(aligned).toMatchObject({ gated: false, confidenceAdjustment: DEFAULT_CONFIG_V33.htfAlignmentBoost });
+
+    const opposed = scoreHigherTimeframes([uptrend, downtrend], 'LONG', DEFAULT_CONFIG_V33);
+    expect(opposed.gated).toBe(true);
+    expect(opposed.trends.map(t => t.alignment)).toEqual(['ALIGNED', 'OPPOSED']);
+  });
+
+  it('penalises instead of gating when the gate is off', () => {
+    const config = { ...DEFAULT_CONFIG_V33, htfTrendGate: false };
+    const result = scoreHigherTimeframes([downtrend], 'LONG', config);
+    expect(result).toMatchObject({ gated: false, confidenceAdjustment: -config.htfOpposedPenalty });
+  });
+
+  it('adds HTF swing levels to structure levels', () => {
+    const base = candles(120, 0);
+    const htf: HigherTimeframeData = {
+      timeframe: '4h',
+      chartData: candles(40, 0).map((c, i) => i === 30 ? { ...c, high: 137 } : c)
+    };
+
+    const levels = detectStructureLevels(base, 100, [htf]);
+    expect(levels.find(l => l.price === 137)).toMatchObject({ type: 'RESISTANCE', timeframe: '4h', strength: 2 });
+    expect(detectStructureLevels(base, 100).some(l => l.timeframe)).toBe(false);
+  });
+});
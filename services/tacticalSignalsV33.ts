@@ -13,6 +13,8 @@
  * - ADAPTIVE CONFIDENCE: Adjusts based on pattern win rate
  * - S/R LEVEL INTEGRATION: Targets aligned with structure
  * - PARTIAL POSITION MANAGEMENT: Suggested position sizing per TP
+ * - MULTI-TIMEFRAME CONFLUENCE: Higher-timeframe trend gate, alignment boost and HTF S/R levels
+ * - VOLUME PROFILE S/R: Session / weekly POC and value area, session VWAP bands
  *
  * @version 3.3.1
  */
@@ -40,7 +42,10 @@ import {
   OrderFlowScore,
   QualityGateResult,
   ConsensusResult,
-  TacticalResultV33
+  TacticalResultV33,
+  HigherTimeframeData,
+  HigherTimeframeTrend,
+  HigherTimeframeAnalysis
 } from '../types';
 import {
   calculateEMA,
@@ -54,6 +59,8 @@ import {
 } from '../utils/technicalAnalysis';
 import { AggrStats } from './aggrService';
 import { AppState } from '../store/useStore';
+import { DEFAULT_SYMBOL } from './symbolRegistry';
+import { profileStructureLevels } from './volumeProfile';
 
 // ============================================================================
 // UTILITY FUNCTIONS
@@ -74,21 +81,13 @@ function safeDivide(a: number, b: number, fallback: number = 0): number {
 // S/R LEVEL DETECTION
 // ============================================================================
 
-export function detectStructureLevels(
-  chartData: ChartDataPoint[],
-  currentPrice: number
-): StructureLevel[] {
+/**
+ * Swing highs / lows over the last 100 bars (5-bar pivots)
+ */
+function findSwingLevels(chartData: ChartDataPoint[], strength: number, timeframe?: string): StructureLevel[] {
   const levels: StructureLevel[] = [];
-
-  // CRITICAL FIX: Guard against empty or insufficient data
-  if (!chartData || chartData.length < 5) {
-    return levels;
-  }
-
   const highs = chartData.map(d => d.high);
   const lows = chartData.map(d => d.low);
-
-  // 1. Swing highs/lows (last 100 bars)
   const swingLookback = Math.min(100, chartData.length - 4);
 
   // CRITICAL FIX: Ensure we have enough data for swing detection
@@ -106,9 +105,10 @@ export function detectStructureLevels(
       levels.push({
         price: highs[idx],
         type: 'RESISTANCE',
-        strength: 1,
+        strength,
         lastTouchTime: chartData[idx].time * 1000,
-        source: 'SWING'
+        source: 'SWING',
+        ...(timeframe && { timeframe })
       });
     }
 
@@ -118,13 +118,38 @@ export function detectStructureLevels(
       levels.push({
         price: lows[idx],
         type: 'SUPPORT',
-        strength: 1,
+        strength,
         lastTouchTime: chartData[idx].time * 1000,
-        source: 'SWING'
+        source: 'SWING',
+        ...(timeframe && { timeframe })
       });
     }
   }
 
+  return levels;
+}
+
+export function detectStructureLevels(
+  chartData: ChartDataPoint[],
+  currentPrice: number,
+  higherTimeframes: HigherTimeframeData[] = []
+): StructureLevel[] {
+  // CRITICAL FIX: Guard against empty or insufficient data (swing detection needs 9+ bars)
+  if (!chartData || chartData.length < 9) {
+    return [];
+  }
+
+  const highs = chartData.map(d => d.high);
+  const lows = chartData.map(d => d.low);
+
+  // 1. Swing highs/lows (last 100 bars)
+  const levels = findSwingLevels(chartData, 1);
+
+  // 1b. Higher-timeframe swings carry more weight than the trading timeframe's
+  for (const htf of higherTimeframes) {
+    levels.push(...findSwingLevels(htf.chartData || [], 2, htf.timeframe));
+  }
+
   // 2. Round numbers (psychological levels)
   // CRITICAL FIX: Guard against empty slices with spread operator
   const recentHighs = highs.slice(-50);
@@ -150,6 +175,9 @@ export function detectStructureLevels(
     }
   }
 
+  // 2b. Volume profile (session / weekly POC, VAH, VAL) and session VWAP bands
+  levels.push(...profileStructureLevels(chartData, currentPrice));
+
   // 3. Cluster nearby levels and increase strength
   const clusteredLevels: StructureLevel[] = [];
   const clusterThreshold = currentPrice * 0.002; // 0.2%
@@ -556,7 +584,8 @@ function analyzeMarketStructure(
   atrSMA: number[],
   atrStd: number[],
   adxValue: number,
-  config: TacticalConfigV33
+  config: TacticalConfigV33,
+  higherTimeframes: HigherTimeframeData[] = []
 ): MarketStructureV33 {
   const i = chartData.length - 1;
   const closes = chartData.map(d => d.close);
@@ -664,7 +693,7 @@ function analyzeMarketStructure(
 
   // S/R levels
   const structureLevels = config.useStructureLevels
-    ? detectStructureLevels(chartData, currentPrice)
+    ? detectStructureLevels(chartData, currentPrice, higherTimeframes)
     : [];
 
   const { support: nearestSupport, resistance: nearestResistance } =
@@ -768,20 +797,24 @@ function calculateTechnicalScore(
 function calculateOrderFlowScore(
   stats: AggrStats | null,
   priceData: { price: number; prevPrice: number; prevPrevPrice: number },
-  config: TacticalConfigV33
+  config: TacticalConfigV33,
+  now: number = Date.now()
 ): OrderFlowScore {
   const defaultScore: OrderFlowScore = {
     bullScore: 0, bearScore: 0, direction: 'NEUTRAL', edge: 0,
     cvdTrend: 'NEUTRAL', cvdDivergence: 'NONE',
     absorptionDetected: false, absorptionSide: null,
-    liquidationCascade: false, cascadeSide: null, signalStrength: 0
+    liquidationCascade: false, cascadeSide: null,
+    stackedImbalanceSide: null, pocBias: 'NEUTRAL',
+    liquidationMagnet: null, magnetPrice: null, signalStrength: 0
   };
 
   if (!stats || !config.useOrderFlow) return defaultScore;
   if (!stats.cvd || !stats.pressure) return defaultScore;
   if (stats.banned?.isBanned) return defaultScore;
   // CRITICAL FIX: Reduce staleness threshold from 30s to 10s for real-time data accuracy
-  if (stats.lastUpdate && (Date.now() - stats.lastUpdate) > 10000) return defaultScore;
+  // Measured against the bar's reference time so replayed history isn't rejected as stale
+  if (stats.lastUpdate && (now - stats.lastUpdate) > 10000) return defaultScore;
 
   const { cvd, pressure, recentLiquidations = [], liquidationVolume = 0 } = stats;
   const { price, prevPrice, prevPrevPrice } = priceData;
@@ -854,6 +887,56 @@ function calculateOrderFlowScore(
     else if (pressure.dominantSide === 'sell') bearScore += 1.0;
   }
 
+  // Footprint - stacked imbalances, and where the window's volume built up
+  const { footprint } = stats;
+  let stackedImbalanceSide: 'BUY' | 'SELL' | null = null;
+  let pocBias: 'BULLISH' | 'BEARISH' | 'NEUTRAL' = 'NEUTRAL';
+  if (footprint) {
+    if (footprint.buyStacks > footprint.sellStacks) {
+      stackedImbalanceSide = 'BUY';
+      bullScore += 1.0;
+    } else if (footprint.sellStacks > footprint.buyStacks) {
+      stackedImbalanceSide = 'SELL';
+      bearScore += 1.0;
+    }
+
+    // POC at the lows with buyers in control = lows defended (and vice versa)
+    const deltaPercent = safeNumber(footprint.deltaPercent);
+    const pocPosition = safeNumber(footprint.pocPosition, 0.5);
+    if (pocPosition <= 0.25 && deltaPercent >= 0.15) {
+      pocBias = 'BULLISH';
+      bullScore += 0.8;
+    } else if (pocPosition >= 0.75 && deltaPercent <= -0.15) {
+      pocBias = 'BEARISH';
+      bearScore += 0.8;
+    }
+  }
+
+  // Liquidation magnets - a clearly bigger estimated cluster within reach pulls price toward it
+  const magnets = stats.liquidationMagnets;
+  let liquidationMagnet: 'ABOVE' | 'BELOW' | null = null;
+  let magnetPrice: number | null = null;
+  const magnetMaxDistancePercent = 3;
+  const magnetMaxAgeMs = 30 * 60 * 1000;
+  if (magnets && price > 0 && now - magnets.timestamp <= magnetMaxAgeMs) {
+    const inReach = (magnet: { price: number; usd: number } | null, above: boolean) =>
+      magnet && (above ? magnet.price > price : magnet.price < price) &&
+        Math.abs(magnet.price - price) / price * 100 <= magnetMaxDistancePercent
+        ? safeNumber(magnet.usd) : 0;
+    const aboveUsd = inReach(magnets.magnetAbove, true);
+    const belowUsd = inReach(magnets.magnetBelow, false);
+
+    if (aboveUsd > belowUsd * 1.5) {
+      liquidationMagnet = 'ABOVE';
+      magnetPrice = magnets.magnetAbove!.price;
+      bullScore += 1.0;
+    } else if (belowUsd > aboveUsd * 1.5) {
+      liquidationMagnet = 'BELOW';
+      magnetPrice = magnets.magnetBelow!.price;
+      bearScore += 1.0;
+    }
+  }
+
   const edge = Math.abs(bullScore - bearScore);
   const direction = bullScore > bearScore ? 'LONG' :
     bearScore > bullScore ? 'SHORT' : 'NEUTRAL';
@@ -861,7 +944,8 @@ function calculateOrderFlowScore(
 
   return {
     bullScore, bearScore, direction, edge, cvdTrend, cvdDivergence,
-    absorptionDetected, absorptionSide, liquidationCascade, cascadeSide, signalStrength
+    absorptionDetected, absorptionSide, liquidationCascade, cascadeSide,
+    stackedImbalanceSide, pocBias, liquidationMagnet, magnetPrice, signalStrength
   };
 }
 
@@ -1202,6 +1286,60 @@ export function buildPatternFingerprint(
   };
 }
 
+// ============================================================================
+// HIGHER TIMEFRAME CONFLUENCE
+// ============================================================================
+
+const HTF_MIN_CANDLES = 60;
+
+/**
+ * Trend of one higher timeframe from EMA 21/55: UP when fast > slow and price holds above slow
+ */
+export function analyzeHigherTimeframeTrend(
+  htf: HigherTimeframeData
+): Pick<HigherTimeframeTrend, 'timeframe' | 'direction' | 'emaFast' | 'emaSlow'> | null {
+  if (!htf.chartData || htf.chartData.length < HTF_MIN_CANDLES) return null;
+
+  const closes = htf.chartData.map(d => d.close);
+  const last = closes.length - 1;
+  const emaFast = safeNumber(calculateEMA(closes, 21)[last]);
+  const emaSlow = safeNumber(calculateEMA(closes, 55)[last]);
+  if (emaFast <= 0 || emaSlow <= 0) return null;
+
+  const direction = emaFast > emaSlow && closes[last] > emaSlow ? 'UP' :
+    emaFast < emaSlow && closes[last] < emaSlow ? 'DOWN' : 'NEUTRAL';
+
+  return { timeframe: htf.timeframe, direction, emaFast, emaSlow };
+}
+
+/**
+ * Score higher-timeframe trends against a signal direction.
+ * With the gate on, any opposed timeframe rejects the signal; otherwise it costs confidence.
+ */
+export function scoreHigherTimeframes(
+  higherTimeframes: HigherTimeframeData[],
+  direction: 'LONG' | 'SHORT',
+  config: TacticalConfigV33
+): HigherTimeframeAnalysis {
+  const favoured = direction === 'LONG' ? 'UP' : 'DOWN';
+
+  const trends: HigherTimeframeTrend[] = higherTimeframes
+    .map(analyzeHigherTimeframeTrend)
+    .filter((t): t is NonNullable<typeof t> => t !== null)
+    .map(t => {
+      const alignment = t.direction === 'NEUTRAL' ? 'NEUTRAL' : t.direction === favoured ? 'ALIGNED' : 'OPPOSED';
+      const confidenceAdjustment = alignment === 'ALIGNED' ? config.htfAlignmentBoost :
+        alignment === 'OPPOSED' && !config.htfTrendGate ? -config.htfOpposedPenalty : 0;
+      return { ...t, alignment, confidenceAdjustment };
+    });
+
+  return {
+    trends,
+    confidenceAdjustment: trends.reduce((sum, t) => sum + t.confidenceAdjustment, 0),
+    gated: config.htfTrendGate && trends.some(t => t.alignment === 'OPPOSED')
+  };
+}
+
 // ============================================================================
 // MAIN SIGNAL GENERATOR V3.3.1
 // ============================================================================
@@ -1213,10 +1351,12 @@ export function generateTacticalSignalV33(
   signalHistory: SignalHistoryState,
   patternLearning: PatternLearningState,
   config: TacticalConfigV33 = DEFAULT_CONFIG_V33,
-  referenceTime?: number
+  referenceTime?: number,
+  higherTimeframes: HigherTimeframeData[] = []
 ): TacticalResultV33 {
 
   const now = referenceTime ?? Date.now();
+  const htfData = config.useHigherTimeframes ? higherTimeframes : [];
 
   // Defaults for early returns
   const emptyStructure: MarketStructureV33 = {
@@ -1233,11 +1373,12 @@ export function generateTacticalSignalV33(
   const emptyChop = { signalsInWindow: 0, windowSeconds: config.chopWindowSeconds, threshold: config.chopMaxSignalsInWindow, isChoppy: false };
   const emptyCooldown = { secondsSinceLastSignal: Infinity, requiredCooldownSeconds: 0, cooldownMet: true };
   const emptyPattern = { fingerprint: null, similarPatterns: [], confidenceAdjustment: 0, patternWinRate: null };
+  let higherTimeframeAnalysis: HigherTimeframeAnalysis = { trends: [], confidenceAdjustment: 0, gated: false };
 
   const noSignal = (stage: string, reason: string, tech: TechnicalScore, of: OrderFlowScore | null, struct: MarketStructureV33, gates: QualityGateResult, cons: ConsensusResult | null, minScore: number, minEdge: number, chop: any, cool: any, pattern: any, reasoning: string[]): TacticalResultV33 => ({
     signal: null, technical: tech, orderFlow: of, structure: struct, qualityGates: gates,
     consensus: cons, effectiveMinScore: minScore, effectiveMinEdge: minEdge, calculatedRR: 0,
-    chopAnalysis: chop, cooldownAnalysis: cool, patternAnalysis: pattern,
+    chopAnalysis: chop, cooldownAnalysis: cool, patternAnalysis: pattern, higherTimeframeAnalysis,
     regime: struct.regime, reasoning: [...reasoning, `X ${reason}`],
     updatedHistory: signalHistory, rejectionStage: stage, rejectionReason: reason
   });
@@ -1276,7 +1417,7 @@ export function generateTacticalSignalV33(
   const adxValue = safeNumber(adxResult.adx[adxResult.adx.length - 1], 0);
 
   // Structure
-  const structure = analyzeMarketStructure(chartData, atr, atrSMA, atrStd, adxValue, config);
+  const structure = analyzeMarketStructure(chartData, atr, atrSMA, atrStd, adxValue, config, htfData);
   reasoning.push(`Structure: ${structure.regime} | ${structure.trendType} ${structure.trendDirection} | ADX: ${adxValue.toFixed(1)}`);
 
   // Chop
@@ -1348,7 +1489,7 @@ export function generateTacticalSignalV33(
   reasoning.push(`Tech: Bull=${technical.bullScore.toFixed(2)}, Bear=${technical.bearScore.toFixed(2)}, Edge=${technical.edge.toFixed(2)}`);
 
   // Order Flow Score
-  const orderFlow = calculateOrderFlowScore(orderFlowStats, { price: closes[i], prevPrice: closes[i - 1], prevPrevPrice: closes[i - 2] }, config);
+  const orderFlow = calculateOrderFlowScore(orderFlowStats, { price: closes[i], prevPrice: closes[i - 1], prevPrevPrice: closes[i - 2] }, config, now);
   if (orderFlow.direction !== 'NEUTRAL') {
     reasoning.push(`OF: ${orderFlow.direction}, Edge=${orderFlow.edge.toFixed(2)}, ${orderFlow.cvdDivergence}`);
   }
@@ -1398,6 +1539,16 @@ export function generateTacticalSignalV33(
     return noSignal('EDGE_INSUFFICIENT', `Opposite too strong (${oppositeScore.toFixed(2)})`, technical, orderFlow, structure, qualityGates, null, effectiveMinScore, effectiveMinEdge, chopAnalysis, cooldownAnalysis, emptyPattern, reasoning);
   }
 
+  // Higher-timeframe trend gate
+  higherTimeframeAnalysis = scoreHigherTimeframes(htfData, finalDirection, config);
+  if (higherTimeframeAnalysis.trends.length > 0) {
+    reasoning.push(`HTF: ${higherTimeframeAnalysis.trends.map(t => `${t.timeframe} ${t.direction}`).join(', ')}`);
+  }
+  if (higherTimeframeAnalysis.gated) {
+    const opposed = higherTimeframeAnalysis.trends.filter(t => t.alignment === 'OPPOSED').map(t => t.timeframe).join('/');
+    return noSignal('HTF_TREND_GATE', `${finalDirection} against ${opposed} trend`, technical, orderFlow, structure, qualityGates, null, effectiveMinScore, effectiveMinEdge, chopAnalysis, cooldownAnalysis, emptyPattern, reasoning);
+  }
+
   // Consensus
   const consensus = generateConsensus(technical, orderFlow, structure, state, config);
   reasoning.push(`Consensus: ${consensus.decision} | Support=${consensus.supportWeight.toFixed(1)} | Agree=${consensus.agreementScore.toFixed(0)}%`);
@@ -1454,12 +1605,13 @@ export function generateTacticalSignalV33(
 
   // Apply penalties and pattern learning
   const baseConfidence = consensus.finalConfidence * qualityGates.penaltyMultiplier;
-  const adjustedConfidence = Math.round(Math.max(25, Math.min(95, baseConfidence + patternConfidenceAdjustment)));
+  const adjustedConfidence = Math.round(Math.max(25, Math.min(95,
+    baseConfidence + patternConfidenceAdjustment + higherTimeframeAnalysis.confidenceAdjustment)));
 
   // Build Enhanced Signal
   const signal: EnhancedTradeSignal = {
     id: `tactical-v33-${now}-${Math.random().toString(36).substring(2, 9)}`,
-    pair: 'BTCUSDT',
+    pair: state?.activeSymbol || DEFAULT_SYMBOL,
     type: finalDirection,
     entryZone: entryPrice.toFixed(2),
     invalidation: stopPrice.toFixed(2),
@@ -1487,6 +1639,15 @@ export function generateTacticalSignalV33(
     nearestResistance: structure.nearestResistance,
     nearestSupport: structure.nearestSupport,
 
+    higherTimeframes: higherTimeframeAnalysis.trends,
+    confidenceBreakdown: higherTimeframeAnalysis.trends
+      .filter(t => t.confidenceAdjustment !== 0)
+      .map(t => ({
+        label: `${t.timeframe} trend ${t.alignment === 'ALIGNED' ? 'aligned' : 'opposed'}`,
+        value: t.confidenceAdjustment,
+        type: t.confidenceAdjustment > 0 ? 'boost' as const : 'penalty' as const
+      })),
+
     positionRemaining: 100,
     realizedPnL: 0,
     unrealizedPnL: 0
@@ -1509,6 +1670,7 @@ export function generateTacticalSignalV33(
     chopAnalysis,
     cooldownAnalysis,
     patternAnalysis,
+    higherTimeframeAnalysis,
     regime: structure.regime,
     reasoning,
     updatedHistory,
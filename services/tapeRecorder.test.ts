@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { TapeCursor, applyTradesToCandles } from './tapeRecorder';
+import { AggrStats, AggrTrade, CascadeEvent, TapeBatch } from '../types/aggrTypes';
+import { ChartDataPoint } from '../types';
+
+const trade = (timestamp: number, price: number, amount: number = 1): AggrTrade => ({
+  exchange: 'Binance',
+  timestamp,
+  price,
+  amount,
+  side: 'buy',
+  isLiquidation: false,
+  usdValue: price * amount
+});
+
+const stats = (delta: number) => ({ cvd: { delta } } as unknown as AggrStats);
+
+const batch = (startTime: number, endTime: number, trades: AggrTrade[], statsDelta: number): TapeBatch => ({
+  symbol: 'BTCUSDT',
+  startTime,
+  endTime,
+  trades,
+  liquidations: [],
+  ticks: trades.map(t => ({ timestamp: t.timestamp, price: t.price })),
+  stats: stats(statsDelta)
+});
+
+describe('TapeCursor', () => {
+  it('releases events by timestamp and stats once their batch closes', () => {
+    const cursor = new TapeCursor();
+    cursor.push([
+      batch(0, 1000, [trade(700, 2), trade(200, 1)], 1),
+      batch(1000, 2000, [trade(1100, 3), trade(1900, 4)], 2)
+    ]);
+    expect(cursor.bufferedUntil).toBe(2000);
+
+    const first = cursor.advance(500);
+    expect(first.trades.map(t => t.price)).toEqual([1]);
+    expect(first.stats).toBeNull();
+
+    const second = cursor.advance(1500);
+    expect(second.trades.map(t => t.price)).toEqual([2, 3]);
+    expect(second.ticks.map(t => t.price)).toEqual([2, 3]);
+    expect(second.stats?.cvd.delta).toBe(1);
+
+    const third = cursor.advance(5000);
+    expect(third.trades.map(t => t.price)).toEqual([4]);
+    expect(third.stats?.cvd.delta).toBe(2);
+    expect(cursor.isEmpty).toBe(true);
+  });
+
+  it('flushes prints stamped past the batch end when the batch closes', () => {
+    const cursor = new TapeCursor();
+    cursor.push([batch(0, 1000, [trade(1200, 5)], 1)]);
+
+    expect(cursor.advance(1000).trades.map(t => t.price)).toEqual([5]);
+  });
+
+  it('releases cascade alerts at their end time and plays tapes recorded without them', () => {
+    const cascade = (endTime: number): CascadeEvent => ({
+      startTime: 0, endTime, totalLiquidated: 12e6, side: 'long', exchanges: ['Multi'], priceImpact: 0, severity: 'minor'
+    });
+    const cursor = new TapeCursor();
+    cursor.push([
+      { ...batch(0, 1000, [], 1), cascades: [cascade(900), cascade(400)] },
+      batch(1000, 2000, [trade(1500, 1)], 2)
+    ]);
+
+    expect(cursor.advance(500).cascades.map(c => c.endTime)).toEqual([400]);
+    expect(cursor.advance(1000).cascades.map(c => c.endTime)).toEqual([900]);
+    expect(cursor.advance(2000)).toMatchObject({ cascades: [], trades: [{ price: 1 }] });
+  });
+});
+
+describe('applyTradesToCandles', () => {
+  const candles: ChartDataPoint[] = [{ time: 0, open: 10, high: 12, low: 9, close: 11, volume: 5 }];
+
+  it('extends the last bar and opens new ones', () => {
+    const next = applyTradesToCandles(candles, [
+      trade(30_000, 13, 2),
+      trade(50_000, 8, 1),
+      trade(60_000, 9, 4),
+      trade(125_000, 10, 1)
+    ], 60);
+
+    expect(next).toHaveLength(3);
+    expect(next[0]).toEqual({ time: 0, open: 10, high: 13, low: 8, close: 8, volume: 8 });
+    expect(next[1]).toEqual({ time: 60, open: 9, high: 9, low: 9, close: 9, volume: 4 });
+    expect(next[2]).toMatchObject({ time: 120, open: 10, close: 10 });
+    expect(candles[0].close).toBe(11);
+  });
+
+  it('ignores prints older than the last bar and caps the bar count', () => {
+    const next = applyTradesToCandles(candles, [trade(-60_000, 1), trade(60_000, 9), trade(120_000, 9)], 60, 2);
+    expect(next.map(c => c.time)).toEqual([60, 120]);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * TAPE RECORDER
+ * Persists the data-processor worker's normalized stream - every trade and
+ * liquidation, cascade alerts, price ticks and the per-second AggrStats
+ * snapshots - so a volatile hour can be replayed through the terminal
+ * afterwards (tapeReplay).
+ *
+ * A session stops itself at MAX_SESSION_TRADES trades or MAX_SESSION_MS, and
+ * only the newest MAX_STORED_SESSIONS sessions within RETENTION_DAYS are kept.
+ *
+ * Storage layout: a session header plus one chunk per flush interval, e.g.
+ * 'tape:session:BTCUSDT-1760880000000'   -> TapeSession
+ * 'tape:chunk:BTCUSDT-1760880000000:3'   -> TapeBatch[] (oldest first)
+ *
+ * Also holds the pure helpers the replay reads the tape with (TapeCursor,
+ * applyTradesToCandles).
+ */
+
+import { AggrLiquidation, AggrStats, AggrTrade, CascadeEvent, PriceTick, TapeBatch } from '../types/aggrTypes';
+import { ChartDataPoint } from '../types';
+import { get, set, remove, getAllKeys, isAvailable } from './storage/indexedDB';
+
+const SESSION_PREFIX = 'tape:session:';
+const CHUNK_PREFIX = 'tape:chunk:';
+const FLUSH_INTERVAL_MS = 60 * 1000;     // One chunk per minute of tape
+const RETENTION_DAYS = 14;
+export const MAX_SESSION_TRADES = 2_000_000;      // Roughly 300 MB of IndexedDB
+export const MAX_SESSION_MS = 6 * 60 * 60 * 1000;
+export const MAX_STORED_SESSIONS = 20;
+
+export interface TapeChunkInfo {
+  index: number;
+  startTime: number;             // ms, first batch start
+  endTime: number;               // ms, last batch end
+}
+
+export interface TapeSession {
+  id: string;
+  symbol: string;
+  startTime: number;             // ms
+  endTime: number;               // ms, end of the last persisted chunk
+  chunks: TapeChunkInfo[];
+  tradeCount: number;
+  liquidationCount: number;
+}
+
+const sessionKey = (id: string) => `${SESSION_PREFIX}${id}`;
+const chunkKey = (id: string, index: number) => `${CHUNK_PREFIX}${id}:${index}`;
+
+// ============================================================================
+// REPLAY HELPERS
+// ============================================================================
+
+export interface ReplayFrame {
+  trades: AggrTrade[];
+  liquidations: AggrLiquidation[];
+  cascades: CascadeEvent[];
+  ticks: PriceTick[];
+  stats: AggrStats | null;       // Latest snapshot whose batch closed in the frame
+}
+
+/**
+ * Reads batches in tape time: advance(to) returns every event timestamped up
+ * to `to`. A batch's stats (and any events stamped after its end by exchange
+ * clock skew) are released once the batch's end has passed.
+ */
+export class TapeCursor {
+  private batches: TapeBatch[] = [];
+
+  push(batches: TapeBatch[]): void {
+    for (const batch of batches) {
+      this.batches.push({
+        ...batch,
+        trades: [...batch.trades].sort((a, b) => a.timestamp - b.timestamp),
+        liquidations: [...batch.liquidations].sort((a, b) => a.timestamp - b.timestamp),
+        cascades: [...(batch.cascades ?? [])].sort((a, b) => a.endTime - b.endTime),
+        ticks: [...batch.ticks].sort((a, b) => a.timestamp - b.timestamp)
+      });
+    }
+  }
+
+  /**
+   * End of the last buffered batch (0 when empty)
+   */
+  get bufferedUntil(): number {
+    return this.batches.length > 0 ? this.batches[this.batches.length - 1].endTime : 0;
+  }
+
+  get isEmpty(): boolean {
+    return this.batches.length === 0;
+  }
+
+  advance(to: number): ReplayFrame {
+    const frame: ReplayFrame = { trades: [], liquidations: [], cascades: [], ticks: [], stats: null };
+
+    while (this.batches.length > 0) {
+      const batch = this.batches[0];
+      const closed = batch.endTime <= to;
+      const take = <T>(items: T[], timeOf: (item: T) => number): T[] => {
+        if (closed) return items.splice(0);
+        let count = 0;
+        while (count < items.length && timeOf(items[count]) <= to) count++;
+        return items.splice(0, count);
+      };
+
+      frame.trades.push(...take(batch.trades, t => t.timestamp));
+      frame.liquidations.push(...take(batch.liquidations, l => l.timestamp));
+      frame.cascades.push(...take(batch.cascades ?? [], c => c.endTime));
+      frame.ticks.push(...take(batch.ticks, t => t.timestamp));
+      if (!closed) break;
+
+      if (batch.stats) frame.stats = batch.stats;
+      this.batches.shift();
+    }
+
+    return frame;
+  }
+
+  clear(): void {
+    this.batches = [];
+  }
+}
+
+/**
+ * Fold trades into OHLCV bars of barSeconds, extending the last bar or opening
+ * new ones. Prints older than the last bar are ignored. Keeps at most maxBars.
+ */
+export function applyTradesToCandles(
+  candles: ChartDataPoint[],
+  trades: Array<Pick<AggrTrade, 'timestamp' | 'price' | 'amount'>>,
+  barSeconds: number,
+  maxBars: number = Infinity
+): ChartDataPoint[] {
+  if (trades.length === 0 || barSeconds <= 0) return candles;
+
+  const next = [...candles];
+  for (const trade of trades) {
+    const time = Math.floor(trade.timestamp / 1000 / barSeconds) * barSeconds;
+    const last = next[next.length - 1];
+
+    if (last && time < last.time) continue;
+    if (last && time === last.time) {
+      next[next.length - 1] = {
+        ...last,
+        high: Math.max(last.high, trade.price),
+        low: Math.min(last.low, trade.price),
+        close: trade.price,
+        volume: last.volume + trade.amount
+      };
+    } else {
+      next.push({ time, open: trade.price, high: trade.price, low: trade.price, close: trade.price, volume: trade.amount });
+    }
+  }
+
+  return next.length > maxBars ? next.slice(next.length - maxBars) : next;
+}
+
+// ============================================================================
+// RECORDER
+// ============================================================================
+
+type TapeRecorderListener = (session: TapeSession | null) => void;
+
+class TapeRecorder {
+  private session: TapeSession | null = null;
+  private pending: TapeBatch[] = [];
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  private enabled: boolean = true;
+  private listeners: Set<TapeRecorderListener> = new Set();
+
+  constructor() {
+    if (!isAvailable()) {
+      this.enabled = false;
+      console.warn('[TapeRecorder] IndexedDB unavailable - recording disabled');
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  isRecording(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Session being recorded, including batches not yet flushed
+   */
+  getSession(): TapeSession | null {
+    return this.session;
+  }
+
+  /**
+   * Open a new session. Batches arrive through append().
+   */
+  start(symbol: string): TapeSession | null {
+    if (!this.enabled) return null;
+    if (this.session) return this.session;
+
+    const now = Date.now();
+    this.session = {
+      id: `${symbol}-${now}`,
+      symbol,
+      startTime: now,
+      endTime: now,
+      chunks: [],
+      tradeCount: 0,
+      liquidationCount: 0
+    };
+    this.flushTimer = setInterval(() => { void this.flush(); }, FLUSH_INTERVAL_MS);
+    void this.prune();
+
+    console.log(`[TapeRecorder] Recording ${this.session.id}`);
+    this.notify();
+    return this.session;
+  }
+
+  /**
+   * Buffer a worker batch. A batch for another symbol closes the session and
+   * opens a new one, so every session replays a single market. A session past
+   * its size or duration cap is stopped - check isRecording() afterwards.
+   */
+  append(batch: TapeBatch): void {
+    if (!this.session) return;
+    if (batch.trades.length === 0 && batch.liquidations.length === 0 && !batch.cascades?.length && !batch.stats) return;
+
+    if (batch.symbol !== this.session.symbol) {
+      void this.stop();
+      this.start(batch.symbol);
+      if (!this.session) return;
+    }
+
+    this.pending.push(batch);
+    this.session.tradeCount += batch.trades.length;
+    this.session.liquidationCount += batch.liquidations.length;
+
+    if (this.session.tradeCount >= MAX_SESSION_TRADES || batch.endTime - this.session.startTime >= MAX_SESSION_MS) {
+      console.warn(`[TapeRecorder] ${this.session.id} reached its size limit - stopping`);
+      void this.stop();
+    }
+  }
+
+  /**
+   * Write buffered batches as the session's next chunk. Writes are queued so
+   * chunks land in order even while a previous one is still being stored.
+   */
+  flush(): Promise<void> {
+    const session = this.session;
+    const batches = this.pending;
+    if (!session || batches.length === 0) return this.writes;
+    this.pending = [];
+
+    this.writes = this.writes
+      .then(async () => {
+        const index = session.chunks.length;
+        await set(chunkKey(session.id, index), batches);
+
+        session.chunks.push({
+          index,
+          startTime: batches[0].startTime,
+          endTime: batches[batches.length - 1].endTime
+        });
+        session.endTime = batches[batches.length - 1].endTime;
+        await set(sessionKey(session.id), session);
+        this.notify();
+      })
+      .catch(error => {
+        console.error('[TapeRecorder] Flush failed:', error);
+      });
+    return this.writes;
+  }
+
+  async stop(): Promise<TapeSession | null> {
+    const session = this.session;
+    if (!session) return null;
+
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    // Detach before awaiting so a new session can start right away
+    const written = this.flush();
+    this.session = null;
+    this.notify();
+
+    await written;
+    console.log(`[TapeRecorder] Stopped ${session.id}: ${session.chunks.length} chunks, ${session.tradeCount} trades`);
+    return session;
+  }
+
+  /**
+   * Persisted sessions, newest first
+   */
+  async listSessions(): Promise<TapeSession[]> {
+    if (!this.enabled) return [];
+
+    const keys = (await getAllKeys()).filter(k => k.startsWith(SESSION_PREFIX));
+    const sessions: TapeSession[] = [];
+    for (const key of keys) {
+      const session = await get<TapeSession>(key);
+      if (session && session.chunks.length > 0) sessions.push(session);
+    }
+    return sessions.sort((a, b) => b.startTime - a.startTime);
+  }
+
+  async getStoredSession(id: string): Promise<TapeSession | null> {
+    return this.enabled ? get<TapeSession>(sessionKey(id)) : null;
+  }
+
+  async loadChunk(id: string, index: number): Promise<TapeBatch[]> {
+    if (!this.enabled) return [];
+    return (await get<TapeBatch[]>(chunkKey(id, index))) || [];
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    if (!this.enabled || this.session?.id === id) return;
+
+    const session = await get<TapeSession>(sessionKey(id));
+    for (const chunk of session?.chunks ?? []) {
+      await remove(chunkKey(id, chunk.index));
+    }
+    await remove(sessionKey(id));
+    this.notify();
+  }
+
+  /**
+   * Drop sessions that ended before the retention window, and the oldest past
+   * MAX_STORED_SESSIONS (leaving room for the one being recorded)
+   */
+  async prune(retentionDays: number = RETENTION_DAYS): Promise<number> {
+    if (!this.enabled) return 0;
+
+    const cutoff = Date.now() - retentionDays * 86400 * 1000;
+    const stored = (await this.listSessions()).filter(s => s.id !== this.session?.id);
+    let removed = 0;
+    for (const [index, session] of stored.entries()) {
+      if (session.endTime < cutoff || index >= MAX_STORED_SESSIONS - 1) {
+        await this.deleteSession(session.id);
+        removed++;
+      }
+    }
+
+    if (removed > 0) console.log(`[TapeRecorder] Pruned ${removed} sessions`);
+    return removed;
+  }
+
+  subscribe(listener: TapeRecorderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.session);
+      } catch (e) {
+        console.error('[TapeRecorder] Listener error:', e);
+      }
+    });
+  }
+}
+
+export const tapeRecorder = new TapeRecorder();
@@ -0,0 +1,325 @@
+/**
+ * TAPE REPLAY
+ *
+ * Plays a recorded tape session (tapeRecorder) back through the terminal at
+ * 1x-100x, for post-mortems:
+ * - Worker events - stats, liquidations, cascades, whale prints, footprints - go through
+ *   WorkerManager.dispatchReplay, so aggrService and everything behind it
+ *   handles them exactly like live worker output
+ * - Stats and price ticks are written to the store the way the live feeds do
+ * - The chart is seeded with klines up to the session start and built forward
+ *   from the tape's Binance prints
+ *
+ * While store.isReplaying is set the live price feed, chart polling, REST order
+ * flow, the position monitor, working orders, signal tracking and paper fills
+ * stand down. Chunks are loaded a few seconds of playback ahead of the clock.
+ *
+ * @version 1.0.0
+ */
+
+import { TapeBatch } from '../types/aggrTypes';
+import { ChartDataPoint } from '../types';
+import { useStore } from '../store/useStore';
+import { workerManager } from './workers/WorkerManager';
+import { FootprintAggregator, FOOTPRINT_BAR_MS } from './workers/footprint';
+import { TAPE_TICK_EXCHANGE } from './workers/tape';
+import { tapeRecorder, TapeCursor, TapeSession, ReplayFrame, applyTradesToCandles } from './tapeRecorder';
+import { aggrService } from './aggrService';
+import { footprintService } from './footprintService';
+import { orderBookDepth } from './orderBookDepth';
+import { fetchHistoricalCandles } from './backtestingService';
+import { fetchChartData } from './marketData';
+import { getSymbolConfig } from './symbolRegistry';
+import { timeframeSeconds } from './higherTimeframes';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReplayStatus {
+  session: TapeSession;
+  clock: number;                 // Tape time, ms
+  speed: number;
+  playing: boolean;
+  ended: boolean;
+  loading: boolean;              // Seeding the chart before the first frame
+}
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50, 100];
+const MIN_SPEED = 1;
+const MAX_SPEED = 100;
+
+const FRAME_MS = 100;
+const LOOKAHEAD_MS = 5000;       // Playback time buffered ahead of the clock (scaled by speed)
+const SEED_DAYS = 3;             // fetchHistoricalCandles: 96 bars per day
+const MAX_CHART_BARS = 1000;
+
+type ReplayListener = (status: ReplayStatus | null) => void;
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class TapeReplay {
+  private status: ReplayStatus | null = null;
+  private cursor: TapeCursor = new TapeCursor();
+  private footprints: FootprintAggregator = new FootprintAggregator();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private nextChunk: number = 0;
+  private chunkLoading: boolean = false;
+  private barSeconds: number = 900;
+  private run: number = 0;       // Bumped per start so stale async work is dropped
+  private listeners: Set<ReplayListener> = new Set();
+
+  getStatus(): ReplayStatus | null {
+    return this.status;
+  }
+
+  /**
+   * Take the terminal over with a recorded session. Stops any recording and
+   * switches the active symbol to the session's. Resolves false, with the
+   * terminal back on the live feeds, when the session can't be played.
+   */
+  async start(sessionId: string, speed: number = 1): Promise<boolean> {
+    if (this.status) this.stop();
+
+    const run = ++this.run;
+    try {
+      return await this.play(sessionId, speed, run);
+    } catch (error) {
+      console.error(`[TapeReplay] Failed to replay ${sessionId}:`, error);
+      // A newer start owns the terminal by now
+      if (run !== this.run) return false;
+      if (this.status) {
+        this.stop();
+      } else if (useStore.getState().isReplaying) {
+        workerManager.endReplay();
+        useStore.getState().setIsReplaying(false);
+      }
+      return false;
+    }
+  }
+
+  private async play(sessionId: string, speed: number, run: number): Promise<boolean> {
+    const session = await tapeRecorder.getStoredSession(sessionId);
+    if (run !== this.run) return false;
+    if (!session || session.chunks.length === 0) {
+      console.warn(`[TapeReplay] Session ${sessionId} not found or empty`);
+      return false;
+    }
+
+    if (tapeRecorder.isRecording()) await aggrService.stopRecording();
+    if (run !== this.run) return false;
+
+    const store = useStore.getState();
+    store.setIsReplaying(true);
+    workerManager.beginReplay();
+    store.setActiveSymbol(session.symbol);
+    footprintService.clear();
+    orderBookDepth.clear();
+
+    this.cursor.clear();
+    this.footprints.reset();
+    this.nextChunk = 0;
+    this.chunkLoading = false;
+    this.status = {
+      session,
+      clock: session.startTime,
+      speed: this.clampSpeed(speed),
+      playing: true,
+      ended: false,
+      loading: true
+    };
+    this.notify();
+
+    // Chart up to the session start; the bar the session opens in is rebuilt from the tape
+    const { timeframe } = useStore.getState();
+    this.barSeconds = timeframeSeconds(timeframe);
+    const seed = await fetchHistoricalCandles(session.symbol, timeframe, SEED_DAYS, session.startTime);
+    if (run !== this.run) return false;
+
+    const startSec = session.startTime / 1000;
+    const chartData = seed.filter(c => c.time + this.barSeconds <= startSec);
+    useStore.getState().setSymbolMarketData(session.symbol, { chartData });
+    if (chartData.length > 0) useStore.getState().setMarketMetrics({ price: chartData[chartData.length - 1].close });
+
+    this.status.loading = false;
+    this.timer = setInterval(() => this.frame(), FRAME_MS);
+    console.log(`[TapeReplay] Replaying ${session.id} at ${this.status.speed}x`);
+    this.notify();
+    return true;
+  }
+
+  pause(): void {
+    if (!this.status || !this.status.playing) return;
+    this.status.playing = false;
+    this.notify();
+  }
+
+  resume(): void {
+    if (!this.status || this.status.playing || this.status.ended) return;
+    this.status.playing = true;
+    this.notify();
+  }
+
+  setSpeed(speed: number): void {
+    if (!this.status) return;
+    this.status.speed = this.clampSpeed(speed);
+    this.notify();
+  }
+
+  /**
+   * Hand the terminal back to the live feeds
+   */
+  stop(): void {
+    if (!this.status) return;
+
+    this.run++;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    const { session } = this.status;
+    this.status = null;
+    this.cursor.clear();
+    this.footprints.reset();
+
+    footprintService.clear();
+    orderBookDepth.clear();
+    workerManager.endReplay();
+    useStore.getState().setIsReplaying(false);
+    void fetchChartData(session.symbol);
+
+    console.log(`[TapeReplay] Stopped ${session.id}, back to live`);
+    this.notify();
+  }
+
+  subscribe(listener: ReplayListener): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ==========================================================================
+  // PLAYBACK
+  // ==========================================================================
+
+  private frame(): void {
+    const status = this.status;
+    if (!status || !status.playing || status.loading) return;
+
+    this.prefetch(status);
+
+    const allLoaded = this.nextChunk >= status.session.chunks.length;
+    if (allLoaded && this.cursor.isEmpty) {
+      status.playing = false;
+      status.ended = true;
+      status.clock = status.session.endTime;
+      console.log(`[TapeReplay] Reached the end of ${status.session.id}`);
+      this.notify();
+      return;
+    }
+
+    const next = status.clock + FRAME_MS * status.speed;
+    // Hold the clock while the chunk covering it is still loading
+    if (!allLoaded && this.cursor.bufferedUntil < next) return;
+
+    const frame = this.cursor.advance(next);
+    status.clock = next;
+    this.dispatch(status.session, next, frame);
+    this.notify();
+  }
+
+  private dispatch(session: TapeSession, clock: number, frame: ReplayFrame): void {
+    const { symbol } = session;
+    const store = useStore.getState();
+
+    for (const liquidation of frame.liquidations) {
+      workerManager.dispatchReplay('LIQUIDATION_EVENT', { liquidation });
+    }
+
+    for (const cascade of frame.cascades) {
+      workerManager.dispatchReplay('CASCADE_EVENT', { cascade });
+    }
+
+    const whaleThresholdUsd = getSymbolConfig(symbol).whaleThresholdUsd;
+    for (const trade of frame.trades) {
+      this.footprints.addTrade(trade.timestamp, trade.price, trade.usdValue, trade.side);
+      if (trade.usdValue > whaleThresholdUsd) {
+        workerManager.dispatchReplay('LARGE_TRADE_EVENT', { trade });
+      }
+    }
+
+    if (frame.trades.length > 0) {
+      workerManager.dispatchReplay('FOOTPRINT_UPDATE', {
+        symbol,
+        candles: this.footprints.candles(clock - 2 * FOOTPRINT_BAR_MS)
+      });
+
+      const prints = frame.trades.filter(t => t.exchange === TAPE_TICK_EXCHANGE);
+      const chartData: ChartDataPoint[] = applyTradesToCandles(store.chartData, prints, this.barSeconds, MAX_CHART_BARS);
+      if (chartData !== store.chartData) store.setSymbolMarketData(symbol, { chartData });
+    }
+
+    if (frame.stats) {
+      // Freshness checks compare against the wall clock
+      const stats = { ...frame.stats, symbol, lastUpdate: Date.now() };
+      workerManager.dispatchReplay('STATS_UPDATE', { stats });
+      store.setOrderFlowStats(stats);
+    }
+
+    const lastTick = frame.ticks[frame.ticks.length - 1];
+    if (lastTick) {
+      const previous = store.price;
+      store.setMarketMetrics({
+        price: lastTick.price,
+        trends: {
+          ...store.trends,
+          price: lastTick.price >= previous ? 'up' : 'down'
+        }
+      });
+    }
+  }
+
+  private prefetch(status: ReplayStatus): void {
+    const { session } = status;
+    if (this.chunkLoading || this.nextChunk >= session.chunks.length) return;
+    if (!this.cursor.isEmpty && this.cursor.bufferedUntil > status.clock + LOOKAHEAD_MS * status.speed) return;
+
+    const run = this.run;
+    const { index } = session.chunks[this.nextChunk];
+    this.chunkLoading = true;
+
+    tapeRecorder.loadChunk(session.id, index)
+      .then((batches: TapeBatch[]) => {
+        if (run !== this.run) return;
+        this.cursor.push(batches);
+        this.nextChunk++;
+      })
+      .catch(error => {
+        console.error(`[TapeReplay] Failed to load chunk ${index} of ${session.id}:`, error);
+        if (run === this.run) this.nextChunk++;
+      })
+      .finally(() => {
+        if (run === this.run) this.chunkLoading = false;
+      });
+  }
+
+  private clampSpeed(speed: number): number {
+    return Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.status);
+      } catch (e) {
+        console.error('[TapeReplay] Listener error:', e);
+      }
+    });
+  }
+}
+
+export const tapeReplay = new TapeReplay();
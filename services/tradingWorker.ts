@@ -1,18 +1,32 @@
-import { generateTacticalSignalV33, generateTacticalSignal } from './tacticalSignalsV33';
+import { generateTacticalSignal } from './tacticalSignalsV33';
+import { DEFAULT_STRATEGY_ID, getStrategy, resolveStrategyConfig, runStrategy } from './strategyRegistry';
 import { generateConsensus } from './agentConsensus';
 import {
   ChartDataPoint,
+  HigherTimeframeData,
   SignalHistoryState,
   PatternLearningState,
   TacticalConfigV33,
   TacticalResultV33,
   EMPTY_SIGNAL_HISTORY,
-  EMPTY_PATTERN_LEARNING,
-  DEFAULT_CONFIG_V33
+  EMPTY_PATTERN_LEARNING
 } from '../types';
 import { AppState } from '../store/useStore';
 import { AggrStats } from './aggrService';
 
+// Per-strategy inputs - each strategy brings its own config and learning state
+export interface StrategyRunRequest {
+  strategyId: string;
+  config?: Partial<TacticalConfigV33>;
+  signalHistory?: SignalHistoryState;
+  patternLearning?: PatternLearningState;
+}
+
+export interface StrategyRunResult {
+  strategyId: string;
+  tacticalResult: TacticalResultV33; // updatedHistory is the strategy's new signal history
+}
+
 // Define message types
 export type WorkerMessage =
   | {
@@ -26,6 +40,8 @@ export type WorkerMessage =
         signalHistory?: SignalHistoryState;
         patternLearning?: PatternLearningState;
         config?: Partial<TacticalConfigV33>;
+        higherTimeframes?: HigherTimeframeData[]; // Context candles above the trading timeframe
+        strategies?: StrategyRunRequest[]; // Strategies to run side by side (default: DEFAULT_STRATEGY_ID)
         useV33?: boolean; // Flag to use V3.3.1 generator
       };
       requestId?: string
@@ -42,6 +58,7 @@ export type WorkerResponse =
         // V3.3.1 additions
         signalHistory?: SignalHistoryState;
         patternAnalysis?: TacticalResultV33['patternAnalysis'];
+        strategyResults?: StrategyRunResult[]; // One per strategy that ran, primary first
       };
       requestId?: string
     }
@@ -70,25 +87,44 @@ ctx.addEventListener('message', (event: MessageEvent<WorkerMessage>) => {
           signalHistory,
           patternLearning,
           config,
+          higherTimeframes,
+          strategies,
           useV33 = true // Default to V3.3.1
         } = message.payload;
 
-        // V3.3.1 signal generation (default)
+        // V3.3.1 signal generation (default) - one run per requested strategy
         if (useV33) {
-          // Use provided state or defaults
-          const history = signalHistory ?? EMPTY_SIGNAL_HISTORY;
-          const patterns = patternLearning ?? EMPTY_PATTERN_LEARNING;
-          const v33Config: TacticalConfigV33 = { ...DEFAULT_CONFIG_V33, ...config };
+          // Without an explicit list, run the default strategy on the legacy fields
+          const requests: StrategyRunRequest[] = strategies && strategies.length > 0
+            ? strategies
+            : [{ strategyId: DEFAULT_STRATEGY_ID, config, signalHistory, patternLearning }];
+
+          const strategyResults: StrategyRunResult[] = [];
+          for (const request of requests) {
+            const strategy = getStrategy(request.strategyId);
+            if (!strategy) {
+              console.warn(`[Worker] Unknown strategy ${request.strategyId} - skipped`);
+              continue;
+            }
+
+            const tacticalResult = runStrategy(strategy, {
+              chartData,
+              orderFlowStats,
+              state,
+              signalHistory: request.signalHistory ?? EMPTY_SIGNAL_HISTORY,
+              patternLearning: request.patternLearning ?? EMPTY_PATTERN_LEARNING,
+              config: resolveStrategyConfig(strategy, request.config),
+              higherTimeframes: higherTimeframes ?? []
+            });
+            strategyResults.push({ strategyId: strategy.id, tacticalResult });
+          }
 
-          // Run V3.3.1 signal generator
-          const tacticalResult = generateTacticalSignalV33(
-            chartData,
-            state,
-            orderFlowStats,
-            history,
-            patterns,
-            v33Config
-          );
+          if (strategyResults.length === 0) {
+            throw new Error(`No registered strategy in request: ${requests.map(r => r.strategyId).join(', ')}`);
+          }
+
+          // The first strategy is primary: it drives consensus and lastSignalBar as before
+          const tacticalResult = strategyResults[0].tacticalResult;
 
           // Generate consensus from V3.3.1 result
           // Convert to format expected by agentConsensus
@@ -105,7 +141,7 @@ ctx.addEventListener('message', (event: MessageEvent<WorkerMessage>) => {
 
           const duration = performance.now() - start;
           if (duration > 100) {
-            console.warn(`[Worker V3.3.1] Calculation took ${duration.toFixed(2)}ms`);
+            console.warn(`[Worker V3.3.1] Calculation took ${duration.toFixed(2)}ms (${strategyResults.length} strategies)`);
           }
 
           // Return V3.3.1 result with updated history
@@ -116,7 +152,8 @@ ctx.addEventListener('message', (event: MessageEvent<WorkerMessage>) => {
               consensusData,
               lastSignalBar: legacyResult.lastSignalBar,
               signalHistory: tacticalResult.updatedHistory,
-              patternAnalysis: tacticalResult.patternAnalysis
+              patternAnalysis: tacticalResult.patternAnalysis,
+              strategyResults
             },
             requestId: message.requestId
           });
@@ -133,6 +170,11 @@ ctx.addEventListener('message', (event: MessageEvent<WorkerMessage>) => {
             incomingLastSignalBar
           );
 
+          // V2 wrapper has no store context - stamp the symbol the request was made for
+          if (tacticalResult.signal && state?.activeSymbol) {
+            tacticalResult.signal.pair = state.activeSymbol;
+          }
+
           const newLastSignalBar = typeof tacticalResult.lastSignalBar === 'number'
             ? tacticalResult.lastSignalBar
             : incomingLastSignalBar;
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  anchorStart,
+  anchoredVWAP,
+  buildVolumeProfile,
+  profileStructureLevels,
+  sessionVolumeProfile
+} from './volumeProfile';
+import { detectStructureLevels } from './tacticalSignalsV33';
+import { ChartDataPoint } from '../types';
+
+const bar = (time: number, low: number, high: number, volume: number, close = (low + high) / 2): ChartDataPoint =>
+  ({ time, open: close, high, low, close, volume });
+
+// 2026-10-19 is a Monday
+const MONDAY = Date.UTC(2026, 9, 19) / 1000;
+
+describe('volume profile', () => {
+  it('spreads volume over each range and grows the value area from the POC', () => {
+    const profile = buildVolumeProfile(
+      [bar(0, 100, 110, 10), bar(60, 102, 104, 40), bar(120, 100, 101, 5)],
+      'VISIBLE',
+      10
+    )!;
+
+    expect(profile.binSize).toBe(1);
+    expect(profile.totalVolume).toBeCloseTo(55);
+    // 102-104 carries 40 plus 1 per bin from the wide bar
+    expect(profile.poc).toBe(102.5);
+    expect(profile.val).toBe(102);
+    expect(profile.vah).toBe(104);
+    expect(profile.bins.filter(b => b.inValueArea)).toHaveLength(2);
+    expect(buildVolumeProfile([], 'VISIBLE')).toBeNull();
+  });
+
+  it('anchors sessions, weeks and months in UTC', () => {
+    const wednesdayNoon = MONDAY + 2 * 86400 + 43200;
+    expect(anchorStart('SESSION', wednesdayNoon)).toBe(MONDAY + 2 * 86400);
+    expect(anchorStart('WEEK', wednesdayNoon)).toBe(MONDAY);
+    expect(anchorStart('WEEK', MONDAY - 1)).toBe(MONDAY - 7 * 86400);
+    expect(anchorStart('MONTH', wednesdayNoon)).toBe(Date.UTC(2026, 9, 1) / 1000);
+  });
+
+  it('reaches into the previous session while the current one is young', () => {
+    const candles = Array.from({ length: 30 }, (_, i) => bar(MONDAY - 24 * 3600 + i * 3600, 100, 101, 1));
+    expect(sessionVolumeProfile(candles)!.startTime).toBe(MONDAY);
+    expect(sessionVolumeProfile(candles.slice(0, 27))!.startTime).toBe(MONDAY - 24 * 3600);
+  });
+
+  it('computes anchored VWAP with volume-weighted deviation', () => {
+    const points = anchoredVWAP([bar(0, 90, 90, 5), bar(60, 100, 100, 1), bar(120, 110, 110, 1)], 60);
+    expect(points.map(p => p.time)).toEqual([60, 120]);
+    expect(points[1].vwap).toBe(105);
+    expect(points[1].stdDev).toBeCloseTo(5);
+  });
+
+  it('feeds POC / value area and VWAP levels into structure detection', () => {
+    const candles = Array.from({ length: 24 }, (_, i) =>
+      bar(MONDAY + i * 3600, 100 + (i % 3), 104 + (i % 3), i % 3 === 1 ? 50 : 10));
+    const levels = profileStructureLevels(candles, 110);
+
+    expect(levels.filter(l => l.source === 'VOLUME_PROFILE')).toHaveLength(6);
+    expect(levels.filter(l => l.source === 'VWAP')).toHaveLength(3);
+    expect(levels.every(l => l.type === 'SUPPORT')).toBe(true);
+
+    expect(detectStructureLevels(candles, 110).some(l => l.source === 'VOLUME_PROFILE')).toBe(true);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * VOLUME PROFILE & ANCHORED VWAP
+ *
+ * Candle-based volume-at-price and VWAP used by the chart and S/R detection:
+ * - Session (UTC day), weekly and visible-range profiles with POC / VAH / VAL
+ * - Anchored VWAP (session / week / month) with standard-deviation bands
+ * - profileStructureLevels: POC, value-area edges and VWAP bands as StructureLevels
+ *
+ * Each candle's volume is spread evenly across its high-low range.
+ *
+ * @version 1.0.0
+ */
+
+import { ChartDataPoint, StructureLevel } from '../types';
+import { IncrementalVWAP } from '../utils/incrementalIndicators';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VolumeProfileKind = 'SESSION' | 'WEEKLY' | 'VISIBLE';
+
+export type VWAPAnchor = 'SESSION' | 'WEEK' | 'MONTH';
+
+export interface VolumeProfileBin {
+  price: number;         // Lower edge
+  volume: number;
+  inValueArea: boolean;
+}
+
+export interface VolumeProfile {
+  kind: VolumeProfileKind;
+  startTime: number;     // First candle (chart seconds)
+  endTime: number;       // Last candle (chart seconds)
+  binSize: number;
+  bins: VolumeProfileBin[]; // Ascending by price
+  totalVolume: number;
+  poc: number;           // Centre of the highest-volume bin
+  vah: number;           // Value area high / low (top / bottom bin edges)
+  val: number;
+}
+
+export interface AnchoredVWAPPoint {
+  time: number;          // Chart seconds
+  vwap: number;
+  stdDev: number;
+}
+
+export const DEFAULT_PROFILE_BINS = 48;
+export const VALUE_AREA_PERCENT = 0.7;
+
+/** A session younger than this also takes in the previous session */
+const MIN_SESSION_BARS = 6;
+
+const DAY_SECONDS = 86400;
+
+// ============================================================================
+// ANCHORS
+// ============================================================================
+
+/**
+ * Start of the UTC day, week (Monday) or month containing timeSec
+ */
+export function anchorStart(anchor: VWAPAnchor, timeSec: number): number {
+  const dayStart = Math.floor(timeSec / DAY_SECONDS) * DAY_SECONDS;
+  if (anchor === 'SESSION') return dayStart;
+  if (anchor === 'WEEK') {
+    const daysSinceMonday = (new Date(dayStart * 1000).getUTCDay() + 6) % 7;
+    return dayStart - daysSinceMonday * DAY_SECONDS;
+  }
+  const date = new Date(dayStart * 1000);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000;
+}
+
+const candlesSince = (chartData: ChartDataPoint[], startTime: number) => {
+  let i = chartData.length;
+  while (i > 0 && chartData[i - 1].time >= startTime) i--;
+  return chartData.slice(i);
+};
+
+// ============================================================================
+// VOLUME PROFILE
+// ============================================================================
+
+/**
+ * Profile of candles over binCount equal price bins, with the value area grown
+ * out from the POC one bin at a time toward the heavier neighbour
+ */
+export function buildVolumeProfile(
+  candles: ChartDataPoint[],
+  kind: VolumeProfileKind,
+  binCount: number = DEFAULT_PROFILE_BINS,
+  valueAreaPercent: number = VALUE_AREA_PERCENT
+): VolumeProfile | null {
+  const valid = candles.filter(c => c.high >= c.low && c.volume > 0);
+  if (valid.length === 0) return null;
+
+  const low = Math.min(...valid.map(c => c.low));
+  const high = Math.max(...valid.map(c => c.high));
+  const bins = high > low ? binCount : 1;
+  const binSize = high > low ? (high - low) / bins : Math.max(low * 0.0001, 1e-8);
+  const volumes = new Array(bins).fill(0);
+
+  for (const c of valid) {
+    const first = Math.min(bins - 1, Math.floor((c.low - low) / binSize));
+    const last = Math.min(bins - 1, Math.floor((c.high - low) / binSize));
+    if (first === last || c.high === c.low) {
+      volumes[first] += c.volume;
+      continue;
+    }
+    for (let b = first; b <= last; b++) {
+      const overlap = Math.min(c.high, low + (b + 1) * binSize) - Math.max(c.low, low + b * binSize);
+      if (overlap > 0) volumes[b] += c.volume * overlap / (c.high - c.low);
+    }
+  }
+
+  const totalVolume = volumes.reduce((sum, v) => sum + v, 0);
+  const pocIndex = volumes.indexOf(Math.max(...volumes));
+
+  let lo = pocIndex;
+  let hi = pocIndex;
+  let areaVolume = volumes[pocIndex];
+  while (areaVolume < totalVolume * valueAreaPercent && (lo > 0 || hi < bins - 1)) {
+    const below = lo > 0 ? volumes[lo - 1] : -1;
+    const above = hi < bins - 1 ? volumes[hi + 1] : -1;
+    if (above >= below) areaVolume += volumes[++hi];
+    else areaVolume += volumes[--lo];
+  }
+
+  return {
+    kind,
+    startTime: valid[0].time,
+    endTime: valid[valid.length - 1].time,
+    binSize,
+    bins: volumes.map((volume, i) => ({ price: low + i * binSize, volume, inValueArea: i >= lo && i <= hi })),
+    totalVolume,
+    poc: low + (pocIndex + 0.5) * binSize,
+    vah: low + (hi + 1) * binSize,
+    val: low + lo * binSize
+  };
+}
+
+/**
+ * Developing UTC-day profile (reaching into the previous session while the
+ * current one is too young to mean anything)
+ */
+export function sessionVolumeProfile(chartData: ChartDataPoint[], binCount?: number): VolumeProfile | null {
+  if (chartData.length === 0) return null;
+  const start = anchorStart('SESSION', chartData[chartData.length - 1].time);
+  let candles = candlesSince(chartData, start);
+  if (candles.length < MIN_SESSION_BARS) candles = candlesSince(chartData, start - DAY_SECONDS);
+  return buildVolumeProfile(candles, 'SESSION', binCount);
+}
+
+/**
+ * Developing profile of the current UTC week (Monday open)
+ */
+export function weeklyVolumeProfile(chartData: ChartDataPoint[], binCount?: number): VolumeProfile | null {
+  if (chartData.length === 0) return null;
+  const start = anchorStart('WEEK', chartData[chartData.length - 1].time);
+  return buildVolumeProfile(candlesSince(chartData, start), 'WEEKLY', binCount);
+}
+
+// ============================================================================
+// ANCHORED VWAP
+// ============================================================================
+
+/**
+ * VWAP and its volume-weighted standard deviation from the first candle at or
+ * after anchorTime. Bands are vwap +/- k * stdDev.
+ */
+export function anchoredVWAP(chartData: ChartDataPoint[], anchorTime: number): AnchoredVWAPPoint[] {
+  const vwap = new IncrementalVWAP();
+  const points: AnchoredVWAPPoint[] = [];
+
+  for (const c of candlesSince(chartData, anchorTime)) {
+    const value = vwap.update((c.high + c.low + c.close) / 3, Math.max(0, c.volume));
+    points.push({ time: c.time, vwap: value, stdDev: vwap.getStdDev() });
+  }
+
+  return points;
+}
+
+// ============================================================================
+// STRUCTURE LEVELS
+// ============================================================================
+
+/**
+ * Session / weekly POC and value-area edges plus session VWAP and its 2-sigma
+ * bands. Weekly levels outrank session levels; POC and VWAP outrank edges.
+ */
+export function profileStructureLevels(chartData: ChartDataPoint[], currentPrice: number): StructureLevel[] {
+  if (chartData.length === 0) return [];
+
+  const lastTouchTime = chartData[chartData.length - 1].time * 1000;
+  const level = (price: number, strength: number, source: StructureLevel['source']): StructureLevel => ({
+    price,
+    type: price > currentPrice ? 'RESISTANCE' : 'SUPPORT',
+    strength,
+    lastTouchTime,
+    source
+  });
+
+  const levels: StructureLevel[] = [];
+  const profiles: Array<[VolumeProfile | null, number]> = [
+    [sessionVolumeProfile(chartData), 1],
+    [weeklyVolumeProfile(chartData), 2]
+  ];
+  for (const [profile, weight] of profiles) {
+    if (!profile || profile.bins.length < 2) continue;
+    levels.push(
+      level(profile.poc, weight + 1, 'VOLUME_PROFILE'),
+      level(profile.vah, weight, 'VOLUME_PROFILE'),
+      level(profile.val, weight, 'VOLUME_PROFILE')
+    );
+  }
+
+  const vwap = anchoredVWAP(chartData, anchorStart('SESSION', chartData[chartData.length - 1].time));
+  const latest = vwap[vwap.length - 1];
+  if (latest && vwap.length >= MIN_SESSION_BARS) {
+    levels.push(level(latest.vwap, 2, 'VWAP'));
+    if (latest.stdDev > 0) {
+      levels.push(
+        level(latest.vwap + 2 * latest.stdDev, 1, 'VWAP'),
+        level(latest.vwap - 2 * latest.stdDev, 1, 'VWAP')
+      );
+    }
+  }
+
+  return levels;
+}
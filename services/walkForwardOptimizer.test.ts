@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildWalkForwardWindows,
+  generateCandidates,
+  scoreBacktest,
+  DEFAULT_WALK_FORWARD_CONFIG
+} from './walkForwardOptimizer';
+import { BacktestResults } from './backtestEngine';
+import { DEFAULT_CONFIG_V33 } from '../types';
+
+describe('walkForwardOptimizer', () => {
+  describe('buildWalkForwardWindows', () => {
+    it('rolls non-overlapping test windows after the warmup', () => {
+      const windows = buildWalkForwardWindows(1000, {
+        trainBars: 300,
+        testBars: 100,
+        stepBars: 0,
+        warmupBars: 200
+      });
+
+      expect(windows).toHaveLength(5);
+      expect(windows[0]).toEqual({ index: 0, trainStart: 200, trainEnd: 499, testStart: 500, testEnd: 599 });
+      expect(windows[1].testStart).toBe(windows[0].testEnd + 1);
+      expect(windows[4].testEnd).toBe(999);
+    });
+
+    it('drops a trailing partial window', () => {
+      const windows = buildWalkForwardWindows(650, {
+        trainBars: 300,
+        testBars: 100,
+        stepBars: 0,
+        warmupBars: 200
+      });
+
+      expect(windows).toHaveLength(1);
+    });
+
+    it('never starts before bar 200', () => {
+      const windows = buildWalkForwardWindows(1000, {
+        trainBars: 300,
+        testBars: 100,
+        stepBars: 100,
+        warmupBars: 50
+      });
+
+      expect(windows[0].trainStart).toBe(200);
+    });
+  });
+
+  describe('generateCandidates', () => {
+    it('enumerates the full grid with the base config first', () => {
+      const candidates = generateCandidates(
+        {
+          ...DEFAULT_WALK_FORWARD_CONFIG,
+          searchMode: 'GRID',
+          parameters: [
+            { key: 'minScoreNormal', values: [4.0, 4.5, 5.0] },
+            { key: 'tp1Multiplier', values: [1.0, 1.5] }
+          ]
+        },
+        DEFAULT_CONFIG_V33
+      );
+
+      expect(candidates[0]).toEqual({ minScoreNormal: 4.5, tp1Multiplier: 1.0 });
+      // 3 x 2 grid, baseline already included in it
+      expect(candidates).toHaveLength(6);
+    });
+
+    it('samples deterministically in random mode', () => {
+      const seeded = () => {
+        let n = 0;
+        return () => (n++ * 0.37) % 1;
+      };
+
+      const a = generateCandidates(DEFAULT_WALK_FORWARD_CONFIG, DEFAULT_CONFIG_V33, seeded());
+      const b = generateCandidates(DEFAULT_WALK_FORWARD_CONFIG, DEFAULT_CONFIG_V33, seeded());
+
+      expect(a).toEqual(b);
+      expect(a.length).toBeLessThanOrEqual(DEFAULT_WALK_FORWARD_CONFIG.randomSamples + 1);
+    });
+  });
+
+  describe('scoreBacktest', () => {
+    const results = {
+      totalTrades: 10,
+      expectancy: 0.4,
+      profitFactor: 1.8,
+      sharpeRatio: 1.2,
+      totalPnLPercent: 12
+    } as BacktestResults;
+
+    it('uses the selected objective', () => {
+      expect(scoreBacktest(results, 'EXPECTANCY', 5)).toBe(0.4);
+      expect(scoreBacktest(results, 'PROFIT_FACTOR', 5)).toBe(1.8);
+      expect(scoreBacktest(results, 'TOTAL_PNL', 5)).toBe(12);
+    });
+
+    it('rejects candidates with too few trades', () => {
+      expect(scoreBacktest(results, 'EXPECTANCY', 20)).toBe(-Infinity);
+    });
+  });
+});
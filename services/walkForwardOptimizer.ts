@@ -0,0 +1,565 @@
+/**
+ * WALK-FORWARD OPTIMIZER V3.3
+ *
+ * Out-of-sample validation for BacktestEngine:
+ * - Splits history into rolling train/test windows
+ * - Grid or random search of key TacticalConfigV33 fields on each train window
+ * - Runs the winning parameters on the following unseen test window
+ * - Stitches test windows into one out-of-sample equity curve
+ * - Benchmarks against DEFAULT_CONFIG_V33 on the same test windows
+ *
+ * If the optimized out-of-sample stats collapse relative to in-sample,
+ * or the default config does no better than random picks, the defaults are overfit.
+ *
+ * @version 3.3.0
+ */
+
+import { ChartDataPoint, TacticalConfigV33, DEFAULT_CONFIG_V33 } from '../types';
+import { AppState } from '../store/useStore';
+import { AggrStats } from '../types/aggrTypes';
+import {
+  BacktestEngine,
+  BacktestConfig,
+  BacktestResults,
+  ClosedTrade,
+  DEFAULT_BACKTEST_CONFIG
+} from './backtestEngine';
+import { createRng } from '../utils/random';
+
+// ============================================================================
+// WALK-FORWARD CONFIGURATION
+// ============================================================================
+
+/** Numeric TacticalConfigV33 fields - the only ones the optimizer can search */
+export type OptimizableParam = {
+  [K in keyof TacticalConfigV33]: TacticalConfigV33[K] extends number ? K : never
+}[keyof TacticalConfigV33];
+
+export interface ParameterRange {
+  key: OptimizableParam;
+  values: number[];
+}
+
+export type WalkForwardSearchMode = 'GRID' | 'RANDOM';
+export type WalkForwardObjective = 'EXPECTANCY' | 'PROFIT_FACTOR' | 'SHARPE' | 'TOTAL_PNL';
+
+export interface WalkForwardConfig {
+  // Windows
+  trainBars: number;            // In-sample bars per window
+  testBars: number;             // Out-of-sample bars per window
+  stepBars: number;             // Roll distance (0 = testBars, i.e. non-overlapping tests)
+  warmupBars: number;           // Bars reserved for indicator history before the first window
+
+  // Search
+  searchMode: WalkForwardSearchMode;
+  parameters: ParameterRange[];
+  randomSamples: number;        // Candidates per window in RANDOM mode
+  maxGridCombinations: number;  // GRID falls back to sampling beyond this
+  seed: number;                 // Deterministic sampling
+
+  // Selection
+  objective: WalkForwardObjective;
+  minTrainTrades: number;       // Candidates with fewer in-sample trades are rejected
+}
+
+export const DEFAULT_WALK_FORWARD_PARAMETERS: ParameterRange[] = [
+  { key: 'minScoreLowVol', values: [5.0, 5.5, 6.0] },
+  { key: 'minScoreNormal', values: [4.0, 4.5, 5.0] },
+  { key: 'minScoreHighVol', values: [3.5, 4.0, 4.5] },
+  { key: 'minEdgeLowVol', values: [1.5, 2.0, 2.5] },
+  { key: 'minEdgeNormal', values: [1.8, 2.2, 2.6] },
+  { key: 'minEdgeHighVol', values: [2.0, 2.5, 3.0] },
+  { key: 'tp1Multiplier', values: [0.8, 1.0, 1.25] },
+  { key: 'tp2Multiplier', values: [1.5, 2.0, 2.5] },
+  { key: 'tp3Multiplier', values: [2.5, 3.0, 3.5] },
+  { key: 'tp4Multiplier', values: [4.0, 5.0, 6.0] },
+  { key: 'cooldownSecondsLowVol', values: [600, 900, 1200] },
+  { key: 'cooldownSecondsNormal', values: [300, 480, 720] },
+  { key: 'cooldownSecondsHighVol', values: [120, 180, 300] }
+];
+
+export const DEFAULT_WALK_FORWARD_CONFIG: WalkForwardConfig = {
+  trainBars: 600,
+  testBars: 200,
+  stepBars: 0,
+  warmupBars: 200,
+
+  searchMode: 'RANDOM',
+  parameters: DEFAULT_WALK_FORWARD_PARAMETERS,
+  randomSamples: 16,
+  maxGridCombinations: 64,
+  seed: 42,
+
+  objective: 'EXPECTANCY',
+  minTrainTrades: 5
+};
+
+// ============================================================================
+// WALK-FORWARD RESULTS
+// ============================================================================
+
+export interface WalkForwardWindow {
+  index: number;
+  trainStart: number;
+  trainEnd: number;
+  testStart: number;
+  testEnd: number;
+}
+
+export interface WalkForwardStats {
+  totalTrades: number;
+  winRate: number;
+  totalPnL: number;
+  totalPnLPercent: number;
+  profitFactor: number;
+  expectancy: number;           // Avg R per trade
+  maxDrawdownPercent: number;
+  sharpeRatio: number;
+  finalEquity: number;
+}
+
+export interface WalkForwardWindowResult extends WalkForwardWindow {
+  trainStartTime: number;       // ms
+  testEndTime: number;          // ms
+  bestParams: Partial<TacticalConfigV33>;
+  candidatesEvaluated: number;
+  inSampleScore: number;
+  inSample: WalkForwardStats;
+  outOfSample: WalkForwardStats;
+  baselineOutOfSample: WalkForwardStats;  // DEFAULT params on the same test window
+}
+
+export interface WalkForwardResults {
+  config: WalkForwardConfig;
+  windows: WalkForwardWindowResult[];
+
+  // Stitched out-of-sample performance
+  outOfSample: WalkForwardStats;
+  baseline: WalkForwardStats;
+  trades: ClosedTrade[];
+  equityCurve: { time: number; equity: number; drawdown: number }[];
+
+  // Robustness
+  walkForwardEfficiency: number;    // OOS expectancy / IS expectancy
+  baselineSelectedCount: number;    // Windows where base params won in-sample
+  parameterStability: Record<string, Record<string, number>>;  // key -> value -> times chosen
+  recommendedParams: Partial<TacticalConfigV33>;                // Most frequently chosen values
+}
+
+export interface WalkForwardProgress {
+  window: number;
+  totalWindows: number;
+  phase: 'TRAIN' | 'TEST';
+  candidate: number;
+  totalCandidates: number;
+}
+
+// ============================================================================
+// WINDOWS & CANDIDATES
+// ============================================================================
+
+/**
+ * Split [warmupBars, totalBars) into rolling train/test windows.
+ * Only complete windows are returned - a trailing partial test window is dropped.
+ */
+export function buildWalkForwardWindows(
+  totalBars: number,
+  config: Pick<WalkForwardConfig, 'trainBars' | 'testBars' | 'stepBars' | 'warmupBars'>
+): WalkForwardWindow[] {
+  const { trainBars, testBars, warmupBars } = config;
+  const step = config.stepBars > 0 ? config.stepBars : testBars;
+  const windows: WalkForwardWindow[] = [];
+
+  if (trainBars <= 0 || testBars <= 0) return windows;
+
+  // BacktestEngine never starts before bar 200
+  let start = Math.max(warmupBars, 200);
+
+  while (start + trainBars + testBars <= totalBars) {
+    windows.push({
+      index: windows.length,
+      trainStart: start,
+      trainEnd: start + trainBars - 1,
+      testStart: start + trainBars,
+      testEnd: start + trainBars + testBars - 1
+    });
+    start += step;
+  }
+
+  return windows;
+}
+
+function candidateKey(params: Partial<TacticalConfigV33>, keys: OptimizableParam[]): string {
+  return keys.map(k => `${k}=${params[k]}`).join('|');
+}
+
+/**
+ * Build the parameter sets to evaluate on a train window.
+ * The base config is always candidate #0 so the optimizer can never pick
+ * something that scored worse in-sample than the defaults.
+ */
+export function generateCandidates(
+  config: Pick<WalkForwardConfig, 'searchMode' | 'parameters' | 'randomSamples' | 'maxGridCombinations'>,
+  baseConfig: TacticalConfigV33,
+  rng: () => number = Math.random
+): Partial<TacticalConfigV33>[] {
+  const ranges = config.parameters.filter(r => r.values.length > 0);
+  const keys = ranges.map(r => r.key);
+
+  const baseline: Partial<TacticalConfigV33> = {};
+  for (const key of keys) baseline[key] = baseConfig[key];
+
+  const candidates: Partial<TacticalConfigV33>[] = [baseline];
+  const seen = new Set<string>([candidateKey(baseline, keys)]);
+
+  const push = (params: Partial<TacticalConfigV33>) => {
+    const id = candidateKey(params, keys);
+    if (seen.has(id)) return;
+    seen.add(id);
+    candidates.push(params);
+  };
+
+  const gridSize = ranges.reduce((n, r) => n * r.values.length, 1);
+
+  if (config.searchMode === 'GRID' && gridSize <= config.maxGridCombinations) {
+    // Full cartesian product
+    const indices = new Array(ranges.length).fill(0);
+    for (let c = 0; c < gridSize; c++) {
+      const params: Partial<TacticalConfigV33> = {};
+      ranges.forEach((r, i) => { params[r.key] = r.values[indices[i]]; });
+      push(params);
+
+      for (let i = 0; i < indices.length; i++) {
+        indices[i]++;
+        if (indices[i] < ranges[i].values.length) break;
+        indices[i] = 0;
+      }
+    }
+    return candidates;
+  }
+
+  if (config.searchMode === 'GRID') {
+    console.warn(`[WalkForward] Grid has ${gridSize} combinations, sampling ${config.maxGridCombinations}`);
+  }
+
+  const target = Math.min(
+    config.searchMode === 'GRID' ? config.maxGridCombinations : config.randomSamples,
+    gridSize
+  );
+
+  // Bounded attempts - duplicates are likely on small grids
+  for (let attempt = 0; candidates.length < target + 1 && attempt < target * 20; attempt++) {
+    const params: Partial<TacticalConfigV33> = {};
+    for (const r of ranges) {
+      params[r.key] = r.values[Math.floor(rng() * r.values.length)];
+    }
+    push(params);
+  }
+
+  return candidates;
+}
+
+// ============================================================================
+// SCORING & STATS
+// ============================================================================
+
+/**
+ * In-sample objective. Candidates below minTrades score -Infinity so a
+ * config that simply stops trading can't win by avoiding losses.
+ */
+export function scoreBacktest(
+  results: BacktestResults,
+  objective: WalkForwardObjective,
+  minTrades: number
+): number {
+  if (results.totalTrades < minTrades) return -Infinity;
+
+  switch (objective) {
+    case 'PROFIT_FACTOR': return results.profitFactor;
+    case 'SHARPE': return results.sharpeRatio;
+    case 'TOTAL_PNL': return results.totalPnLPercent;
+    case 'EXPECTANCY':
+    default:
+      return results.expectancy;
+  }
+}
+
+function toStats(results: BacktestResults): WalkForwardStats {
+  return {
+    totalTrades: results.totalTrades,
+    winRate: results.winRate,
+    totalPnL: results.totalPnL,
+    totalPnLPercent: results.totalPnLPercent,
+    profitFactor: results.profitFactor,
+    expectancy: results.expectancy,
+    maxDrawdownPercent: results.maxDrawdownPercent,
+    sharpeRatio: results.sharpeRatio,
+    finalEquity: results.finalEquity
+  };
+}
+
+/**
+ * Stats for a stitched sequence of test windows.
+ * Mirrors BacktestEngine.calculateResults for the subset of metrics we report.
+ */
+function summarizeStitched(
+  trades: ClosedTrade[],
+  equityCurve: { time: number; equity: number; drawdown: number }[],
+  initialCapital: number,
+  finalEquity: number
+): WalkForwardStats {
+  const wins = trades.filter(t => t.rMultiple > 0);
+  const losses = trades.filter(t => t.rMultiple <= 0);
+  const grossProfit = wins.reduce((s, t) => s + t.pnlUsd, 0);
+  const grossLoss = Math.abs(losses.reduce((s, t) => s + t.pnlUsd, 0));
+  const totalPnL = finalEquity - initialCapital;
+
+  // Drawdown re-measured across window boundaries
+  let peak = initialCapital;
+  let maxDrawdown = 0;
+  for (const point of equityCurve) {
+    if (point.equity > peak) peak = point.equity;
+    const dd = peak > 0 ? (peak - point.equity) / peak : 0;
+    if (dd > maxDrawdown) maxDrawdown = dd;
+  }
+
+  const returns = equityCurve.slice(1).map((p, i) =>
+    (p.equity - equityCurve[i].equity) / equityCurve[i].equity
+  );
+  const avgReturn = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
+  const stdReturn = returns.length > 1
+    ? Math.sqrt(returns.reduce((s, r) => s + Math.pow(r - avgReturn, 2), 0) / (returns.length - 1))
+    : 0;
+
+  return {
+    totalTrades: trades.length,
+    winRate: trades.length > 0 ? wins.length / trades.length : 0,
+    totalPnL,
+    totalPnLPercent: initialCapital > 0 ? (totalPnL / initialCapital) * 100 : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 999.99 : 0,
+    expectancy: trades.length > 0 ? trades.reduce((s, t) => s + t.rMultiple, 0) / trades.length : 0,
+    maxDrawdownPercent: maxDrawdown * 100,
+    sharpeRatio: stdReturn > 0 ? (avgReturn / stdReturn) * Math.sqrt(252) : 0,
+    finalEquity
+  };
+}
+
+// ============================================================================
+// WALK-FORWARD RUNNER
+// ============================================================================
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Run walk-forward optimization.
+ *
+ * Each window is optimized on its train range and then traded on its test range,
+ * with the test capital carried over from the previous window so the stitched
+ * equity curve compounds like a live account would.
+ */
+export async function runWalkForward(
+  chartData: ChartDataPoint[],
+  appState: Partial<AppState> = {},
+  backtestConfig: Partial<BacktestConfig> = {},
+  walkForwardConfig: Partial<WalkForwardConfig> = {},
+  baseTacticalConfig: Partial<TacticalConfigV33> = {},
+  onProgress?: (progress: WalkForwardProgress) => void,
+  orderFlowSeries: (AggrStats | null)[] = []
+): Promise<WalkForwardResults> {
+  const config: WalkForwardConfig = { ...DEFAULT_WALK_FORWARD_CONFIG, ...walkForwardConfig };
+  const btConfig: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, ...backtestConfig };
+  const baseConfig: TacticalConfigV33 = { ...DEFAULT_CONFIG_V33, ...baseTacticalConfig };
+
+  const windows = buildWalkForwardWindows(chartData.length, config);
+  if (windows.length === 0) {
+    const needed = Math.max(config.warmupBars, 200) + config.trainBars + config.testBars;
+    throw new Error(`[WalkForward] Need at least ${needed} bars, got ${chartData.length}`);
+  }
+
+  console.log(`[WalkForward] ${windows.length} windows | train ${config.trainBars} / test ${config.testBars} bars | ${config.searchMode}`);
+
+  const rng = createRng(config.seed);
+  const keys = config.parameters.map(p => p.key);
+
+  const windowResults: WalkForwardWindowResult[] = [];
+  const oosTrades: ClosedTrade[] = [];
+  const oosCurve: WalkForwardResults['equityCurve'] = [];
+  const baselineTrades: ClosedTrade[] = [];
+  const baselineCurve: WalkForwardResults['equityCurve'] = [];
+  let oosEquity = btConfig.initialCapital;
+  let baselineEquity = btConfig.initialCapital;
+  let baselineSelectedCount = 0;
+
+  const runRange = (
+    start: number,
+    end: number,
+    capital: number,
+    params: Partial<TacticalConfigV33>
+  ): BacktestResults => new BacktestEngine(
+    chartData,
+    appState,
+    { ...btConfig, startIndex: start, endIndex: end, initialCapital: capital },
+    { ...baseConfig, ...params },
+    orderFlowSeries
+  ).run();
+
+  for (const window of windows) {
+    const candidates = generateCandidates(config, baseConfig, rng);
+
+    // 1. Optimize on the train window
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    let bestResults: BacktestResults | null = null;
+
+    for (let c = 0; c < candidates.length; c++) {
+      onProgress?.({
+        window: window.index,
+        totalWindows: windows.length,
+        phase: 'TRAIN',
+        candidate: c,
+        totalCandidates: candidates.length
+      });
+
+      const results = runRange(window.trainStart, window.trainEnd, btConfig.initialCapital, candidates[c]);
+      const score = scoreBacktest(results, config.objective, config.minTrainTrades);
+
+      // Strict > keeps the baseline on ties
+      if (bestResults === null || score > bestScore) {
+        bestIndex = c;
+        bestScore = score;
+        bestResults = results;
+      }
+
+      await yieldToEventLoop();
+    }
+
+    if (bestIndex === 0) baselineSelectedCount++;
+    const bestParams = candidates[bestIndex];
+
+    // 2. Trade the unseen test window with the winner and with the baseline
+    onProgress?.({
+      window: window.index,
+      totalWindows: windows.length,
+      phase: 'TEST',
+      candidate: 0,
+      totalCandidates: 1
+    });
+
+    const oos = runRange(window.testStart, window.testEnd, oosEquity, bestParams);
+    const baselineOos = runRange(window.testStart, window.testEnd, baselineEquity, candidates[0]);
+    await yieldToEventLoop();
+
+    oosTrades.push(...oos.trades);
+    oosCurve.push(...oos.equityCurve);
+    oosEquity = oos.finalEquity;
+
+    baselineTrades.push(...baselineOos.trades);
+    baselineCurve.push(...baselineOos.equityCurve);
+    baselineEquity = baselineOos.finalEquity;
+
+    windowResults.push({
+      ...window,
+      trainStartTime: chartData[window.trainStart].time * 1000,
+      testEndTime: chartData[window.testEnd].time * 1000,
+      bestParams,
+      candidatesEvaluated: candidates.length,
+      inSampleScore: bestScore,
+      inSample: toStats(bestResults!),
+      outOfSample: toStats(oos),
+      baselineOutOfSample: toStats(baselineOos)
+    });
+
+    console.log(`[WalkForward] Window ${window.index + 1}/${windows.length}: IS ${bestResults!.expectancy.toFixed(2)}R -> OOS ${oos.expectancy.toFixed(2)}R (${oos.totalTrades} trades)`);
+  }
+
+  // Parameter stability across windows
+  const parameterStability: Record<string, Record<string, number>> = {};
+  const recommendedParams: Partial<TacticalConfigV33> = {};
+  for (const key of keys) {
+    const counts: Record<string, number> = {};
+    for (const w of windowResults) {
+      const value = String(w.bestParams[key]);
+      counts[value] = (counts[value] || 0) + 1;
+    }
+    parameterStability[key] = counts;
+
+    const [mostChosen] = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+    recommendedParams[key] = parseFloat(mostChosen);
+  }
+
+  const outOfSample = summarizeStitched(oosTrades, oosCurve, btConfig.initialCapital, oosEquity);
+  const baseline = summarizeStitched(baselineTrades, baselineCurve, btConfig.initialCapital, baselineEquity);
+
+  // Trade-weighted in-sample expectancy of the chosen params
+  const isTrades = windowResults.reduce((s, w) => s + w.inSample.totalTrades, 0);
+  const isExpectancy = isTrades > 0
+    ? windowResults.reduce((s, w) => s + w.inSample.expectancy * w.inSample.totalTrades, 0) / isTrades
+    : 0;
+  const walkForwardEfficiency = isExpectancy > 0 ? outOfSample.expectancy / isExpectancy : 0;
+
+  return {
+    config,
+    windows: windowResults,
+    outOfSample,
+    baseline,
+    trades: oosTrades,
+    equityCurve: oosCurve,
+    walkForwardEfficiency,
+    baselineSelectedCount,
+    parameterStability,
+    recommendedParams
+  };
+}
+
+// ============================================================================
+// RESULTS FORMATTER
+// ============================================================================
+
+export function formatWalkForwardResults(results: WalkForwardResults): string {
+  const lines: string[] = [];
+  const { outOfSample: oos, baseline } = results;
+
+  lines.push('='.repeat(65));
+  lines.push('                 WALK-FORWARD RESULTS V3.3                      ');
+  lines.push('='.repeat(65));
+  lines.push('');
+
+  lines.push('SETUP');
+  lines.push(`   Windows: ${results.windows.length} (train ${results.config.trainBars} / test ${results.config.testBars} bars)`);
+  lines.push(`   Search: ${results.config.searchMode} | Objective: ${results.config.objective}`);
+  lines.push('');
+
+  lines.push('OUT-OF-SAMPLE (optimized vs default)');
+  lines.push(`   Trades: ${oos.totalTrades} vs ${baseline.totalTrades}`);
+  lines.push(`   Win Rate: ${(oos.winRate * 100).toFixed(1)}% vs ${(baseline.winRate * 100).toFixed(1)}%`);
+  lines.push(`   Expectancy: ${oos.expectancy.toFixed(2)}R vs ${baseline.expectancy.toFixed(2)}R`);
+  lines.push(`   Profit Factor: ${oos.profitFactor.toFixed(2)} vs ${baseline.profitFactor.toFixed(2)}`);
+  lines.push(`   Total P&L: ${oos.totalPnLPercent.toFixed(1)}% vs ${baseline.totalPnLPercent.toFixed(1)}%`);
+  lines.push(`   Max Drawdown: ${oos.maxDrawdownPercent.toFixed(1)}% vs ${baseline.maxDrawdownPercent.toFixed(1)}%`);
+  lines.push('');
+
+  lines.push('ROBUSTNESS');
+  lines.push(`   Walk-Forward Efficiency: ${(results.walkForwardEfficiency * 100).toFixed(0)}%`);
+  lines.push(`   Default params won in-sample: ${results.baselineSelectedCount}/${results.windows.length} windows`);
+  lines.push('');
+
+  lines.push('WINDOWS');
+  for (const w of results.windows) {
+    lines.push(`   #${w.index + 1}: IS ${w.inSample.expectancy.toFixed(2)}R (${w.inSample.totalTrades}) -> OOS ${w.outOfSample.expectancy.toFixed(2)}R (${w.outOfSample.totalTrades}) | default ${w.baselineOutOfSample.expectancy.toFixed(2)}R`);
+  }
+  lines.push('');
+
+  lines.push('PARAMETER STABILITY');
+  for (const [key, counts] of Object.entries(results.parameterStability)) {
+    const summary = Object.entries(counts)
+      .sort((a, b) => b[1] - a[1])
+      .map(([value, n]) => `${value} x${n}`)
+      .join(', ');
+    lines.push(`   ${key}: ${summary}`);
+  }
+  lines.push('');
+
+  lines.push('='.repeat(65));
+
+  return lines.join('\n');
+}
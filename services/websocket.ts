@@ -1,23 +1,47 @@
 import { useStore } from '../store/useStore';
+import { DEFAULT_SYMBOL } from './symbolRegistry';
+import { watchedPairs } from './pairPrices';
 
-const BINANCE_WS_URL = 'wss://stream.binance.com/ws/btcusdt@ticker';
-const BINANCE_API_URL = 'https://api.binance.com/api/v3/ticker/price?symbol=BTCUSDT';
+const BINANCE_WS_BASE = 'wss://stream.binance.com/ws';
+const BINANCE_STREAM_BASE = 'wss://stream.binance.com/stream';
+const PAIR_RECONNECT_DELAY_MS = 5000;
+const BINANCE_API_BASE = 'https://api.binance.com/api/v3/ticker/price';
 
 export class BinancePriceFeed {
     private ws: WebSocket | null = null;
+    private symbol: string;
     private reconnectAttempts = 0;
     private maxReconnectAttempts = 5;
     private shouldReconnect = true;
     private pollingInterval: any = null;
     private isPolling = false;
 
+    constructor(symbol: string = DEFAULT_SYMBOL) {
+        this.symbol = symbol;
+    }
+
+    /**
+     * Switch the ticker stream to another symbol (reconnects if connected)
+     */
+    setSymbol(symbol: string) {
+        if (symbol === this.symbol) return;
+        const wasActive = this.ws !== null || this.isPolling;
+        this.disconnect();
+        this.symbol = symbol;
+        this.reconnectAttempts = 0;
+        if (wasActive) {
+            this.shouldReconnect = true;
+            this.connect();
+        }
+    }
+
     connect() {
         if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
             return;
         }
 
-        console.log('[PriceFeed] Connecting to Binance WS...');
-        this.ws = new WebSocket(BINANCE_WS_URL);
+        console.log(`[PriceFeed] Connecting to Binance WS (${this.symbol})...`);
+        this.ws = new WebSocket(`${BINANCE_WS_BASE}/${this.symbol.toLowerCase()}@ticker`);
 
         this.ws.onopen = () => {
             console.log('[PriceFeed] Connected to Binance WS');
@@ -79,10 +103,15 @@ export class BinancePriceFeed {
 
     private async fetchPrice() {
         try {
-            const response = await fetch(BINANCE_API_URL);
+            const response = await fetch(`${BINANCE_API_BASE}?symbol=${this.symbol}`);
             if (!response.ok) throw new Error('Binance API failed');
             const data = await response.json();
 
+            // Response for a symbol we already switched away from
+            if (data.symbol && data.symbol !== useStore.getState().activeSymbol) return;
+            // Tape replay owns the price
+            if (useStore.getState().isReplaying) return;
+
             // Binance API format: { symbol: "BTCUSDT", price: "84000.00" }
             const price = parseFloat(data.price);
 
@@ -100,6 +129,10 @@ export class BinancePriceFeed {
 
     private handleTickerUpdate(data: any) {
         if (!data.c) return;
+        // Late tick from the previous symbol's socket
+        if (data.s && data.s !== useStore.getState().activeSymbol) return;
+        // Tape replay owns the price
+        if (useStore.getState().isReplaying) return;
 
         const price = parseFloat(data.c);
         const priceChange = parseFloat(data.P);
@@ -125,3 +158,92 @@ export class BinancePriceFeed {
 }
 
 export const bybitWS = new BinancePriceFeed(); // Export as same name to minimize refactoring
+
+/**
+ * Mini-ticker prices for the pairs that are not charted but have positions,
+ * working orders or the execution panel's setup on them. Keeps their
+ * marketBySymbol price fresh so stops, fills and P&L never run on the price
+ * cached when the user switched away.
+ */
+export class PairPriceFeed {
+    private ws: WebSocket | null = null;
+    private pairs: string[] = [];
+    private unsubscribe: (() => void) | null = null;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    start() {
+        if (this.unsubscribe) return;
+        this.unsubscribe = useStore.subscribe((state) => this.setPairs(watchedPairs(state)));
+        this.setPairs(watchedPairs(useStore.getState()));
+    }
+
+    stop() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.pairs = [];
+        this.close();
+    }
+
+    private setPairs(pairs: string[]) {
+        if (pairs.join(',') === this.pairs.join(',')) return;
+        this.pairs = pairs;
+        this.close();
+        this.connect();
+    }
+
+    private connect() {
+        if (this.pairs.length === 0) return;
+
+        const streams = this.pairs.map(p => `${p.toLowerCase()}@miniTicker`).join('/');
+        console.log(`[PairFeed] Connecting (${this.pairs.join(', ')})...`);
+        const ws = new WebSocket(`${BINANCE_STREAM_BASE}?streams=${streams}`);
+        this.ws = ws;
+
+        ws.onmessage = (event) => {
+            try {
+                const { data } = JSON.parse(event.data);
+                this.handleTicker(data);
+            } catch (e) {
+                console.error('[PairFeed] Parse Error:', e);
+            }
+        };
+
+        ws.onclose = () => {
+            if (this.ws !== ws) return; // Replaced by a newer connection
+            this.ws = null;
+            console.log(`[PairFeed] WS Disconnected, retrying in ${PAIR_RECONNECT_DELAY_MS}ms`);
+            this.reconnectTimer = setTimeout(() => {
+                this.reconnectTimer = null;
+                this.connect();
+            }, PAIR_RECONNECT_DELAY_MS);
+        };
+
+        ws.onerror = (error) => {
+            console.error('[PairFeed] WS Error:', error);
+            ws.close();
+        };
+    }
+
+    private close() {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        const ws = this.ws;
+        this.ws = null;
+        ws?.close();
+    }
+
+    private handleTicker(data: any) {
+        if (!data?.s || !data.c) return;
+        const state = useStore.getState();
+        // The charted symbol runs on the main feed; tape replay owns prices while it runs
+        if (data.s === state.activeSymbol || state.isReplaying || !this.pairs.includes(data.s)) return;
+
+        const price = parseFloat(data.c);
+        if (!(price > 0)) return;
+        state.setSymbolMarketData(data.s, { price, lastPriceUpdate: Date.now() });
+    }
+}
+
+export const pairPriceFeed = new PairPriceFeed();
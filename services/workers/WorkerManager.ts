@@ -1,17 +1,26 @@
-import { AggrStats, AggrLiquidation, AggrTrade, CascadeEvent } from '../../types/aggrTypes';
-import { WorkerMessage, WorkerMessageType } from './types';
+import { AggrStats, AggrLiquidation, AggrTrade, CascadeEvent, OrderBookStats, TapeBatch } from '../../types/aggrTypes';
+import { ConnectPayload, FootprintUpdatePayload, WorkerMessage, WorkerMessageType } from './types';
+import { DEFAULT_SYMBOL, getSymbolConfig } from '../symbolRegistry';
 
 type EventHandler<T> = (data: T) => void;
 
 export class WorkerManager {
   private worker: Worker | null = null;
   private isConnected: boolean = false;
+  private symbol: string = DEFAULT_SYMBOL;
+
+  // Replay: worker output is dropped and recorded events are dispatched instead
+  private isReplaying: boolean = false;
+  private reconnectAfterReplay: boolean = false;
 
   // Event Handlers
   private onStatsUpdate?: EventHandler<AggrStats>;
   private onLiquidation?: EventHandler<AggrLiquidation>;
   private onLargeTrade?: EventHandler<AggrTrade>;
   private onCascade?: EventHandler<CascadeEvent>;
+  private onDepthUpdate?: EventHandler<OrderBookStats>;
+  private onFootprintUpdate?: EventHandler<FootprintUpdatePayload>;
+  private onTapeBatch?: EventHandler<TapeBatch>;
 
   constructor() {
     this.initWorker();
@@ -27,6 +36,8 @@ export class WorkerManager {
 
     this.worker.onmessage = (event: MessageEvent) => {
       const { type, payload } = event.data;
+      // Late live messages must not interleave with the replayed stream
+      if (this.isReplaying && type !== 'DEBUG_LOG') return;
       this.handleMessage(type, payload);
     };
 
@@ -39,15 +50,69 @@ export class WorkerManager {
 
   public connect(onStatsUpdate?: EventHandler<AggrStats>) {
     if (onStatsUpdate) this.onStatsUpdate = onStatsUpdate;
-    this.sendMessage('CONNECT');
+    this.sendMessage('CONNECT', this.getConnectPayload());
     this.isConnected = true;
   }
 
+  /**
+   * Re-point all exchange streams at another symbol.
+   * The worker drops its buffers and reconnects if it was connected.
+   */
+  public setSymbol(symbol: string) {
+    if (symbol === this.symbol) return;
+    this.symbol = symbol;
+    this.sendMessage('SET_SYMBOL', this.getConnectPayload());
+  }
+
+  public getSymbol(): string {
+    return this.symbol;
+  }
+
+  private getConnectPayload(): ConnectPayload {
+    return {
+      symbol: this.symbol,
+      whaleThresholdUsd: getSymbolConfig(this.symbol).whaleThresholdUsd
+    };
+  }
+
   public disconnect() {
     this.sendMessage('DISCONNECT');
     this.isConnected = false;
   }
 
+  /**
+   * Start or stop streaming the worker's normalized data as TAPE_BATCH messages
+   */
+  public setRecording(enabled: boolean) {
+    this.sendMessage('SET_RECORDING', { enabled });
+  }
+
+  /**
+   * Hand the event handlers over to a replay: live streams are disconnected
+   * and only dispatchReplay() reaches the handlers until endReplay()
+   */
+  public beginReplay() {
+    if (this.isReplaying) return;
+    this.reconnectAfterReplay = this.isConnected;
+    this.setRecording(false);
+    if (this.isConnected) this.disconnect();
+    this.isReplaying = true;
+  }
+
+  /**
+   * Feed a recorded message through the same path as live worker output
+   */
+  public dispatchReplay(type: WorkerMessageType, payload: any) {
+    if (!this.isReplaying) return;
+    this.handleMessage(type, payload);
+  }
+
+  public endReplay() {
+    if (!this.isReplaying) return;
+    this.isReplaying = false;
+    if (this.reconnectAfterReplay) this.connect();
+  }
+
   public terminate() {
     if (this.worker) {
       this.worker.terminate();
@@ -83,6 +148,21 @@ export class WorkerManager {
           this.onCascade(payload.cascade);
         }
         break;
+      case 'DEPTH_UPDATE':
+        if (this.onDepthUpdate && payload.depth) {
+          this.onDepthUpdate(payload.depth);
+        }
+        break;
+      case 'FOOTPRINT_UPDATE':
+        if (this.onFootprintUpdate && payload.candles) {
+          this.onFootprintUpdate(payload);
+        }
+        break;
+      case 'TAPE_BATCH':
+        if (this.onTapeBatch && payload.batch) {
+          this.onTapeBatch(payload.batch);
+        }
+        break;
       case 'DEBUG_LOG':
         console.log(`[Worker Debug] ${payload.message}`);
         break;
@@ -101,6 +181,18 @@ export class WorkerManager {
   public onCascadeEvent(handler: EventHandler<CascadeEvent>) {
     this.onCascade = handler;
   }
+
+  public onDepthUpdateEvent(handler: EventHandler<OrderBookStats>) {
+    this.onDepthUpdate = handler;
+  }
+
+  public onFootprintUpdateEvent(handler: EventHandler<FootprintUpdatePayload>) {
+    this.onFootprintUpdate = handler;
+  }
+
+  public onTapeBatchEvent(handler: EventHandler<TapeBatch>) {
+    this.onTapeBatch = handler;
+  }
 }
 
 // Export singleton
@@ -0,0 +1,58 @@
+/* eslint-disable no-restricted-globals */
+
+/**
+ * Backtest Worker
+ * Runs a full BacktestEngine pass off the main thread and replies with the
+ * summary metrics only, so parameter sweeps don't ship every trade back
+ */
+
+import { BacktestEngine } from '../backtestEngine';
+import { summarizeBacktest, BacktestTaskPayload, SensitivityMetrics } from '../parameterSensitivity';
+
+interface WorkerRequest {
+  type: 'RUN_BACKTEST';
+  payload?: BacktestTaskPayload;
+  requestId?: string;
+}
+
+interface WorkerResponse {
+  type: 'BACKTEST_RESULT' | 'ERROR';
+  payload: SensitivityMetrics | { error: string };
+  requestId?: string;
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const { type, payload, requestId } = event.data;
+
+  try {
+    if (type !== 'RUN_BACKTEST') {
+      throw new Error(`Unknown message type: ${type}`);
+    }
+    if (!payload?.chartData) {
+      throw new Error('No candles provided');
+    }
+
+    const results = new BacktestEngine(
+      payload.chartData,
+      {},
+      payload.backtestConfig,
+      payload.tacticalConfig,
+      payload.orderFlowSeries
+    ).run();
+
+    const response: WorkerResponse = {
+      type: 'BACKTEST_RESULT',
+      payload: summarizeBacktest(results),
+      requestId
+    };
+    self.postMessage(response);
+
+  } catch (error) {
+    const response: WorkerResponse = {
+      type: 'ERROR',
+      payload: { error: String(error) },
+      requestId
+    };
+    self.postMessage(response);
+  }
+};
@@ -1,5 +1,17 @@
 /* eslint-disable no-restricted-globals */
 
+import {
+  LocalOrderBook,
+  WallTracker,
+  analyzeOrderBooks,
+  BinanceDepthEvent,
+  BybitDepthMessage,
+  DEFAULT_DEPTH_CONFIG
+} from './orderBook';
+import { FootprintAggregator, footprintFeatures, FOOTPRINT_BAR_MS } from './footprint';
+import { TapeBuffer } from './tape';
+import type { FootprintFeatures, OrderBookStats, SpoofEvent } from '../../types/aggrTypes';
+
 // --- INLINED TYPES TO PREVENT IMPORT ISSUES IN WORKER ---
 interface AggrTrade {
   exchange: string;
@@ -74,6 +86,8 @@ interface AggrStats {
   recentLargeTrades: AggrTrade[];
   lastUpdate?: number; // Unix timestamp of last data update
   priceValidation?: PriceValidationData; // Cross-exchange price validation
+  symbol?: string; // Symbol these stats were aggregated for
+  footprint?: FootprintFeatures; // Volume-at-price summary of recent trades
 }
 
 interface CascadeEvent {
@@ -199,8 +213,16 @@ class RollingWindow {
   }
 }
 
+interface ConnectPayload {
+  symbol?: string;
+  whaleThresholdUsd?: number;
+}
+
 class DataProcessor {
   private wsConnections: Map<string, WebSocket> = new Map();
+  // Active symbol in Binance/Bybit format (e.g. BTCUSDT)
+  private symbol: string = 'BTCUSDT';
+  private whaleThresholdUsd: number = 500000;
   private trades: AggrTrade[] = [];
   private largeTrades: AggrTrade[] = []; // Dedicated array for whales
   private liquidations: AggrLiquidation[] = [];
@@ -221,6 +243,23 @@ class DataProcessor {
 
   private updateInterval: NodeJS.Timeout | null = null;
 
+  // L2 order books (Binance Futures + Bybit linear)
+  private books: Map<string, LocalOrderBook> = new Map([
+    ['Binance', new LocalOrderBook('Binance')],
+    ['Bybit', new LocalOrderBook('Bybit')]
+  ]);
+  private binanceDepthBuffer: BinanceDepthEvent[] = []; // Diffs received while the snapshot loads
+  private binanceSnapshotInFlight: { symbol: string; ws: WebSocket } | null = null; // Connection the REST snapshot is for
+  private wallTracker: WallTracker = new WallTracker();
+  private spoofEvents: SpoofEvent[] = [];
+
+  // Footprint (volume-at-price) minute bars
+  private footprints: FootprintAggregator = new FootprintAggregator();
+  private static readonly FOOTPRINT_FEATURE_WINDOW_MS = 300000;
+
+  // Tape recording (null = off): the normalized stream, drained every broadcast
+  private tape: TapeBuffer | null = null;
+
   constructor() {
     this.log('DataProcessor initialized');
   }
@@ -229,8 +268,48 @@ class DataProcessor {
     self.postMessage({ type: 'DEBUG_LOG', payload: { message } });
   }
 
+  private get baseAsset(): string {
+    return this.symbol.replace(/USDT?$/, '');
+  }
+
+  public configure(payload?: ConnectPayload) {
+    if (payload?.symbol) this.symbol = payload.symbol.toUpperCase();
+    if (payload?.whaleThresholdUsd && payload.whaleThresholdUsd > 0) {
+      this.whaleThresholdUsd = payload.whaleThresholdUsd;
+    }
+  }
+
+  /**
+   * Switch every exchange stream to a new symbol.
+   * Buffers are cleared so CVD/whales from the previous symbol never leak into the new one.
+   */
+  public setSymbol(payload: ConnectPayload) {
+    const wasConnected = this.wsConnections.size > 0;
+    this.disconnect();
+    // Close the old symbol's tape batch before its buffers go
+    if (this.tape) this.postTapeBatch(null);
+    this.configure(payload);
+
+    this.trades = [];
+    this.largeTrades = [];
+    this.liquidations = [];
+    this.cvdWindow = new RollingWindow(60);
+    this.exchangePrices.clear();
+    this.cascadeStartTime = 0;
+    this.cascadeVolume = 0;
+    this.cascadeSide = null;
+    this.books.forEach(book => book.reset());
+    this.binanceDepthBuffer = [];
+    this.wallTracker.reset();
+    this.spoofEvents = [];
+    this.footprints.reset();
+
+    this.log(`Symbol switched to ${this.symbol}`);
+    if (wasConnected) this.connect();
+  }
+
   public connect() {
-    this.log('Starting connections to 6 exchanges...');
+    this.log(`Starting connections to 6 exchanges for ${this.symbol}...`);
     // Primary exchanges (high volume, futures)
     this.connectBinance();
     this.connectOKX();
@@ -239,6 +318,8 @@ class DataProcessor {
     this.connectKraken();
     this.connectCoinbase();
     this.connectDeribit();
+    // L2 depth (Bybit's book rides on the Bybit trade socket)
+    this.connectBinanceDepth();
 
     if (this.updateInterval) clearInterval(this.updateInterval);
     this.updateInterval = setInterval(() => this.broadcastStats(), 1000);
@@ -253,22 +334,74 @@ class DataProcessor {
     this.reconnectTimeouts.clear();
     this.reconnectAttempts.clear();
 
-    // Close WS
+    // Close WS - detach onclose first so the backoff reconnect doesn't revive the socket
     for (const [_, ws] of this.wsConnections) {
+      ws.onclose = null;
       ws.close();
     }
     this.wsConnections.clear();
+    this.books.forEach(book => book.reset());
+    this.binanceDepthBuffer = [];
 
     if (this.updateInterval) clearInterval(this.updateInterval);
   }
 
+  public setRecording(enabled: boolean) {
+    if (enabled === (this.tape !== null)) return;
+    if (!enabled) this.postTapeBatch(null);
+    this.tape = enabled ? new TapeBuffer() : null;
+    this.log(`Tape recording ${enabled ? 'started' : 'stopped'}`);
+  }
+
+  private postTapeBatch(stats: AggrStats | null) {
+    if (!this.tape) return;
+    self.postMessage({ type: 'TAPE_BATCH', payload: { batch: this.tape.drain(this.symbol, stats) } });
+  }
+
   private broadcastStats() {
     const stats = this.calculateStats();
     if (stats) {
-      self.postMessage({ type: 'STATS_UPDATE', payload: { stats } });
+      self.postMessage({ type: 'STATS_UPDATE', payload: { stats: { ...stats, symbol: this.symbol } } });
+    }
+    this.postTapeBatch(stats ? { ...stats, symbol: this.symbol } : null);
+
+    const depth = this.calculateDepthStats();
+    if (depth) {
+      self.postMessage({ type: 'DEPTH_UPDATE', payload: { depth } });
+    }
+
+    // Forming bar plus the previous one, which can still receive late prints
+    const candles = this.footprints.candles(Date.now() - 2 * FOOTPRINT_BAR_MS);
+    if (candles.length > 0) {
+      self.postMessage({ type: 'FOOTPRINT_UPDATE', payload: { symbol: this.symbol, candles } });
     }
   }
 
+  private calculateDepthStats(): OrderBookStats | null {
+    const now = Date.now();
+    const config = { ...DEFAULT_DEPTH_CONFIG, wallMinUsd: this.whaleThresholdUsd };
+    const books = [...this.books.values()];
+    books.forEach(book => book.prune(config.rangePercent * 5));
+
+    const analysis = analyzeOrderBooks(books, config);
+    if (!analysis) return null;
+
+    const { walls, spoofs } = this.wallTracker.update(analysis.walls, books, analysis.midPrice, now);
+    for (const spoof of spoofs) {
+      this.log(`[DEPTH] Spoof: ${spoof.exchange} ${spoof.side} wall $${(spoof.sizeUsd / 1e6).toFixed(2)}M @ ${spoof.price} pulled after ${((spoof.pulledAt - spoof.appearedAt) / 1000).toFixed(0)}s`);
+    }
+    const tenMinAgo = now - 600000;
+    this.spoofEvents = [...this.spoofEvents, ...spoofs].filter(e => e.pulledAt > tenMinAgo);
+
+    return {
+      ...analysis,
+      symbol: this.symbol,
+      timestamp: now,
+      walls,
+      spoofEvents: this.spoofEvents.slice(-20)
+    };
+  }
+
   private calculateStats(): AggrStats | null {
     const now = Date.now();
     const oneMinAgo = now - 60000;
@@ -325,6 +458,9 @@ class DataProcessor {
     // Cross-exchange price validation
     const priceValidation = this.calculatePriceValidation();
 
+    const footprintWindow = DataProcessor.FOOTPRINT_FEATURE_WINDOW_MS;
+    const footprint = footprintFeatures(this.footprints.candles(now - footprintWindow), footprintWindow) ?? undefined;
+
     return {
       totalVolume,
       buyVolume,
@@ -338,7 +474,8 @@ class DataProcessor {
       recentLiquidations: recentLiquidations.slice(-10),
       recentLargeTrades: recentLargeTrades.slice(-10),
       lastUpdate: now,
-      priceValidation
+      priceValidation,
+      footprint
     };
   }
 
@@ -487,11 +624,12 @@ class DataProcessor {
         ws.onopen = () => {
             this.log(`Binance ${isFallback ? 'Spot' : 'Futures'} Connected`);
             // Subscribe to aggTrade
+            const stream = this.symbol.toLowerCase();
             const msg = {
                 method: "SUBSCRIBE",
                 params: [
-                    "btcusdt@aggTrade",
-                    "btcusdt@forceOrder" // Only works on Futures, ignored on Spot
+                    `${stream}@aggTrade`,
+                    `${stream}@forceOrder` // Only works on Futures, ignored on Spot
                 ],
                 id: 1
             };
@@ -556,7 +694,7 @@ class DataProcessor {
           const ws = new WebSocket('wss://ws.okx.com:8443/ws/v5/public');
           ws.onopen = () => {
               this.log('OKX Connected');
-              ws.send(JSON.stringify({ op: 'subscribe', args: [{ channel: 'trades', instId: 'BTC-USDT-SWAP' }] }));
+              ws.send(JSON.stringify({ op: 'subscribe', args: [{ channel: 'trades', instId: `${this.baseAsset}-USDT-SWAP` }] }));
           };
           ws.onmessage = (e) => {
               try {
@@ -590,14 +728,19 @@ class DataProcessor {
       const connect = () => {
           this.log('Connecting to Bybit...');
           const ws = new WebSocket('wss://stream.bybit.com/v5/public/linear');
+          const tradeTopic = `publicTrade.${this.symbol}`;
+          const liquidationTopic = `liquidation.${this.symbol}`;
+          const depthTopic = `orderbook.200.${this.symbol}`;
+          const book = this.books.get('Bybit')!;
+          book.reset();
           ws.onopen = () => {
               this.log('Bybit Connected');
-              ws.send(JSON.stringify({ op: 'subscribe', args: ['publicTrade.BTCUSDT', 'liquidation.BTCUSDT'] }));
+              ws.send(JSON.stringify({ op: 'subscribe', args: [tradeTopic, liquidationTopic, depthTopic] }));
           };
           ws.onmessage = (e) => {
               try {
                   const data = JSON.parse(e.data);
-                  if (data.topic === 'publicTrade.BTCUSDT' && data.data) {
+                  if (data.topic === tradeTopic && data.data) {
                       data.data.forEach((d: any) => {
                           const trade: AggrTrade = {
                               exchange: 'Bybit',
@@ -611,7 +754,7 @@ class DataProcessor {
                           this.processTrade(trade);
                       });
                   }
-                  if (data.topic === 'liquidation.BTCUSDT' && data.data) {
+                  if (data.topic === liquidationTopic && data.data) {
                       const d = data.data;
                       const liq: AggrLiquidation = {
                           exchange: 'Bybit',
@@ -624,10 +767,14 @@ class DataProcessor {
                       };
                       this.processLiquidation(liq);
                   }
+                  if (data.topic === depthTopic && data.data) {
+                      book.applyBybitMessage(data as BybitDepthMessage);
+                  }
               } catch (err) {}
           };
           ws.onclose = () => {
               this.log('Bybit Closed');
+              book.reset();
               this.reconnectWithBackoff('bybit', connect);
           };
           this.wsConnections.set('bybit', ws);
@@ -635,6 +782,107 @@ class DataProcessor {
       connect();
   }
 
+  /**
+   * Binance Futures diff-depth stream. Diffs are buffered until the REST
+   * snapshot arrives, then chained by update id; any gap forces a resync.
+   */
+  private connectBinanceDepth() {
+      const book = this.books.get('Binance')!;
+
+      const connect = () => {
+          this.log('Connecting to Binance Futures depth...');
+          book.reset();
+          this.binanceDepthBuffer = [];
+
+          const ws = new WebSocket(`wss://fstream.binance.com/ws/${this.symbol.toLowerCase()}@depth@100ms`);
+
+          ws.onopen = () => {
+              this.log('Binance depth Connected');
+              this.fetchBinanceDepthSnapshot();
+          };
+
+          ws.onmessage = (e) => {
+              try {
+                  const data = JSON.parse(e.data);
+                  if (data.e !== 'depthUpdate') return;
+
+                  if (!book.isSynced) {
+                      this.binanceDepthBuffer.push(data);
+                      if (this.binanceDepthBuffer.length > 1000) this.binanceDepthBuffer.shift();
+                      return;
+                  }
+                  if (book.applyBinanceDiff(data) === 'GAP') {
+                      this.resyncBinanceDepth();
+                  }
+              } catch (err) {
+                  this.log(`Binance Depth Parse Error: ${err}`);
+              }
+          };
+
+          ws.onclose = () => {
+              this.log('Binance depth Closed');
+              book.reset();
+              this.reconnectWithBackoff('binance-depth', connect);
+          };
+
+          ws.onerror = () => this.log('Binance depth Error');
+          this.wsConnections.set('binance-depth', ws);
+      };
+
+      connect();
+  }
+
+  /**
+   * One snapshot request at a time, tagged with the symbol and socket it was
+   * made for. A response that arrives after a symbol switch or reconnect is
+   * discarded and the request re-run for the current socket.
+   */
+  private async fetchBinanceDepthSnapshot() {
+      const ws = this.wsConnections.get('binance-depth');
+      if (this.binanceSnapshotInFlight || !ws) return;
+      const request = { symbol: this.symbol, ws };
+      this.binanceSnapshotInFlight = request;
+      const book = this.books.get('Binance')!;
+      const isStale = () => request.symbol !== this.symbol || this.wsConnections.get('binance-depth') !== request.ws;
+      let gap = false;
+
+      try {
+          const response = await fetch(`https://fapi.binance.com/fapi/v1/depth?symbol=${request.symbol}&limit=1000`);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          const snapshot = await response.json();
+
+          if (!isStale()) {
+              book.applySnapshot(snapshot.bids, snapshot.asks, snapshot.lastUpdateId);
+              const buffered = this.binanceDepthBuffer;
+              this.binanceDepthBuffer = [];
+              gap = buffered.some(event => book.applyBinanceDiff(event) === 'GAP');
+              if (!gap) this.log(`Binance depth synced (${book.levelCount} levels)`);
+          }
+      } catch (err) {
+          if (!isStale()) {
+              this.log(`Binance depth snapshot failed: ${err}`);
+              this.reconnectWithBackoff('binance-depth-snapshot', () => this.fetchBinanceDepthSnapshot());
+          }
+      } finally {
+          this.binanceSnapshotInFlight = null;
+      }
+
+      if (isStale()) {
+          // The current socket's own request was skipped while this one was out
+          const current = this.wsConnections.get('binance-depth');
+          if (current?.readyState === WebSocket.OPEN && !book.isSynced) this.fetchBinanceDepthSnapshot();
+      } else if (gap) {
+          this.resyncBinanceDepth();
+      }
+  }
+
+  private resyncBinanceDepth() {
+      this.log('Binance depth gap, resyncing');
+      this.books.get('Binance')!.reset();
+      this.binanceDepthBuffer = [];
+      this.fetchBinanceDepthSnapshot();
+  }
+
   private reconnectWithBackoff(key: string, connectFn: () => void) {
       const attempts = (this.reconnectAttempts.get(key) || 0) + 1;
       this.reconnectAttempts.set(key, attempts);
@@ -654,7 +902,7 @@ class DataProcessor {
               this.log('Kraken Connected');
               ws.send(JSON.stringify({
                   event: 'subscribe',
-                  pair: ['XBT/USD'],
+                  pair: [`${this.baseAsset === 'BTC' ? 'XBT' : this.baseAsset}/USD`],
                   subscription: { name: 'trade' }
               }));
           };
@@ -702,7 +950,7 @@ class DataProcessor {
               ws.send(JSON.stringify({
                   type: 'subscribe',
                   channel: 'market_trades',
-                  product_ids: ['BTC-USD']
+                  product_ids: [`${this.baseAsset}-USD`]
               }));
           };
           ws.onmessage = (e) => {
@@ -741,6 +989,11 @@ class DataProcessor {
   }
 
   private connectDeribit() {
+      // Deribit only lists inverse perpetuals for BTC and ETH
+      if (this.baseAsset !== 'BTC' && this.baseAsset !== 'ETH') {
+          this.log(`Deribit skipped: no ${this.baseAsset} perpetual`);
+          return;
+      }
       const connect = () => {
           this.log('Connecting to Deribit...');
           const ws = new WebSocket('wss://www.deribit.com/ws/api/v2');
@@ -749,7 +1002,7 @@ class DataProcessor {
               ws.send(JSON.stringify({
                   method: 'public/subscribe',
                   params: {
-                      channels: ['trades.BTC-PERPETUAL.100ms']
+                      channels: [`trades.${this.baseAsset}-PERPETUAL.100ms`]
                   }
               }));
           };
@@ -819,6 +1072,9 @@ class DataProcessor {
         timestamp: Date.now()
       });
 
+      this.footprints.addTrade(trade.timestamp, trade.price, trade.usdValue, trade.side);
+      this.tape?.addTrade(trade);
+
       // CRITICAL FIX: Update CVD with individual trade delta (not aggregated)
       const tradeDelta = trade.side === 'buy' ? trade.usdValue : -trade.usdValue;
       this.cvdWindow.addTradeDelta(tradeDelta);
@@ -834,7 +1090,7 @@ class DataProcessor {
           this.trades = this.trades.filter(t => t.timestamp > cutoff);
       }
 
-      if (trade.usdValue > 500000) {
+      if (trade.usdValue > this.whaleThresholdUsd) {
           this.largeTrades.push(trade); // Add to dedicated array
           self.postMessage({ type: 'LARGE_TRADE_EVENT', payload: { trade } });
       }
@@ -851,7 +1107,8 @@ class DataProcessor {
       this.liquidations.push(liq);
       const cutoff = Date.now() - 300000;
       this.liquidations = this.liquidations.filter(l => l.timestamp > cutoff);
-      
+      this.tape?.addLiquidation(liq);
+
       self.postMessage({ type: 'LIQUIDATION_EVENT', payload: { liquidation: liq } });
       this.detectCascade(liq);
   }
@@ -882,6 +1139,7 @@ class DataProcessor {
                   priceImpact: 0,
                   severity
               };
+              this.tape?.addCascade(cascade);
               self.postMessage({ type: 'CASCADE_EVENT', payload: { cascade } });
           }
       }
@@ -891,13 +1149,20 @@ class DataProcessor {
 const processor = new DataProcessor();
 
 self.onmessage = (e: MessageEvent) => {
-  const { type } = e.data;
+  const { type, payload } = e.data;
   switch (type) {
     case 'CONNECT':
+      processor.configure(payload);
       processor.connect();
       break;
+    case 'SET_SYMBOL':
+      processor.setSymbol(payload || {});
+      break;
     case 'DISCONNECT':
       processor.disconnect();
       break;
+    case 'SET_RECORDING':
+      processor.setRecording(!!payload?.enabled);
+      break;
   }
 };
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FootprintAggregator,
+  detectStackedImbalances,
+  footprintFeatures,
+  footprintTickSize,
+  mergeFootprints
+} from './footprint';
+import { FootprintLevel } from '../../types/aggrTypes';
+
+const level = (price: number, buyVolume: number, sellVolume: number): FootprintLevel => ({ price, buyVolume, sellVolume });
+
+describe('footprint', () => {
+  it('buckets trades into minute bars at a tick fixed by the first print', () => {
+    const agg = new FootprintAggregator();
+    agg.addTrade(60000, 99990, 1000, 'buy');
+    agg.addTrade(61000, 100012, 500, 'sell');
+    agg.addTrade(119999, 100019, 2000, 'buy');
+    agg.addTrade(120000, 100031, 300, 'sell');
+
+    expect(agg.tickSize).toBe(footprintTickSize(99990));
+    expect(agg.tickSize).toBe(10);
+
+    const [first, second] = agg.candles();
+    expect(first.time).toBe(60000);
+    expect(first.levels).toEqual([level(99990, 1000, 0), level(100010, 2000, 500)]);
+    expect(first.delta).toBe(2500);
+    expect(first.poc).toBe(100010);
+    expect(second.levels).toEqual([level(100030, 0, 300)]);
+    expect(agg.candles(120000)).toHaveLength(1);
+  });
+
+  it('finds stacked imbalances on the diagonal', () => {
+    const levels = [
+      level(100, 0, 100),
+      level(101, 400, 10),   // vs sells @100 -> 4x
+      level(102, 50, 20),    // vs sells @101 -> 5x
+      level(103, 60, 300),   // vs sells @102 -> 3x; sells vs buys @104 -> 10x
+      level(104, 30, 200),   // sells vs buys @105 -> no level above, needs minImbalanceVolume
+      level(106, 10, 0)      // gap breaks any run
+    ];
+    const config = { imbalanceRatio: 3, minImbalanceVolume: 5000, minStackLevels: 2, tickPercent: 0.01 };
+
+    expect(detectStackedImbalances(levels, 1)).toEqual([
+      { side: 'buy', fromPrice: 101, toPrice: 103, levels: 3 }
+    ]);
+    expect(detectStackedImbalances(levels, 1, config)).toEqual([
+      { side: 'buy', fromPrice: 101, toPrice: 103, levels: 3 }
+    ]);
+    expect(detectStackedImbalances(levels, 1, { ...config, minImbalanceVolume: 200 })).toEqual([
+      { side: 'buy', fromPrice: 101, toPrice: 103, levels: 3 },
+      { side: 'sell', fromPrice: 103, toPrice: 104, levels: 2 }
+    ]);
+  });
+
+  it('merges bars onto a coarser tick and summarises a window', () => {
+    const agg = new FootprintAggregator();
+    agg.addTrade(0, 100, 100, 'buy');
+    agg.addTrade(0, 100.05, 900, 'sell');
+    agg.addTrade(60000, 100.15, 300, 'buy');
+    const candles = agg.candles();
+
+    const merged = mergeFootprints(candles, 0, 0.1);
+    expect(merged.levels).toEqual([level(100, 100, 900), level(100.1, 300, 0)]);
+    expect(merged.poc).toBe(100);
+
+    const features = footprintFeatures(candles, 120000)!;
+    expect(features.delta).toBe(-500);
+    expect(features.deltaPercent).toBeCloseTo(-500 / 1300);
+    expect(features.pocPosition).toBeCloseTo(1 / 3);
+    expect(footprintFeatures([], 120000)).toBeNull();
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * FOOTPRINT (VOLUME-AT-PRICE) CANDLES
+ *
+ * Built by the data processor worker from the aggressive trade stream:
+ * - FootprintAggregator: per-minute buy/sell volume at each price tick, across exchanges
+ * - buildFootprint / mergeFootprints: totals, delta, POC and stacked imbalances,
+ *   and re-bucketing minute bars into chart candles at a coarser tick
+ * - footprintFeatures: the window summary the order-flow score consumes
+ *
+ * Imbalances are diagonal: buys at a tick against sells one tick below, sells
+ * against buys one tick above. Against an empty diagonal level any ratio holds,
+ * so there the side needs minImbalanceVolume instead.
+ *
+ * @version 1.0.0
+ */
+
+import { niceStep } from './orderBook';
+import type { FootprintCandle, FootprintFeatures, FootprintLevel, StackedImbalance } from '../../types/aggrTypes';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FootprintConfig {
+  imbalanceRatio: number;        // One side must be this many times the diagonal level
+  minImbalanceVolume: number;    // USD a side needs when the diagonal level traded nothing
+  minStackLevels: number;        // Consecutive imbalanced ticks that make a stack
+  tickPercent: number;           // Base tick as a percent of price
+}
+
+export const DEFAULT_FOOTPRINT_CONFIG: FootprintConfig = {
+  imbalanceRatio: 3,
+  minImbalanceVolume: 5000,
+  minStackLevels: 3,
+  tickPercent: 0.01
+};
+
+/** Minute bars are the base unit; chart candles merge them */
+export const FOOTPRINT_BAR_MS = 60000;
+
+interface LevelVolume {
+  buy: number;
+  sell: number;
+}
+
+// Tick multiples accumulate float error (0.05 * 3); keep level prices printable
+const roundPrice = (value: number) => Math.round(value * 1e8) / 1e8;
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+export function footprintTickSize(price: number, config: FootprintConfig = DEFAULT_FOOTPRINT_CONFIG): number {
+  return niceStep(price * config.tickPercent / 100);
+}
+
+/**
+ * Stacks of diagonally imbalanced ticks. levels must be ascending and on one tick grid.
+ */
+export function detectStackedImbalances(
+  levels: FootprintLevel[],
+  tickSize: number,
+  config: FootprintConfig = DEFAULT_FOOTPRINT_CONFIG
+): StackedImbalance[] {
+  const byIndex = new Map(levels.map(l => [Math.round(l.price / tickSize), l]));
+  const stacks: StackedImbalance[] = [];
+
+  const isImbalanced = (volume: number, opposite: number) =>
+    opposite > 0 ? volume >= opposite * config.imbalanceRatio : volume >= config.minImbalanceVolume;
+
+  for (const side of ['buy', 'sell'] as const) {
+    let run: FootprintLevel[] = [];
+    const flush = () => {
+      if (run.length >= config.minStackLevels) {
+        stacks.push({ side, fromPrice: run[0].price, toPrice: run[run.length - 1].price, levels: run.length });
+      }
+      run = [];
+    };
+
+    let prevIndex: number | null = null;
+    for (const level of levels) {
+      const index = Math.round(level.price / tickSize);
+      if (prevIndex !== null && index !== prevIndex + 1) flush();
+      prevIndex = index;
+
+      const imbalanced = side === 'buy'
+        ? isImbalanced(level.buyVolume, byIndex.get(index - 1)?.sellVolume ?? 0)
+        : isImbalanced(level.sellVolume, byIndex.get(index + 1)?.buyVolume ?? 0);
+      if (imbalanced) run.push(level);
+      else flush();
+    }
+    flush();
+  }
+
+  return stacks;
+}
+
+/**
+ * Candle totals, POC and stacked imbalances from tick-indexed volume
+ */
+export function buildFootprint(
+  time: number,
+  tickSize: number,
+  volumes: Map<number, LevelVolume>,
+  config: FootprintConfig = DEFAULT_FOOTPRINT_CONFIG
+): FootprintCandle {
+  const levels: FootprintLevel[] = [...volumes.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([index, v]) => ({ price: roundPrice(index * tickSize), buyVolume: v.buy, sellVolume: v.sell }));
+
+  let buyVolume = 0;
+  let sellVolume = 0;
+  let poc = levels[0]?.price ?? 0;
+  let pocVolume = -1;
+  for (const level of levels) {
+    buyVolume += level.buyVolume;
+    sellVolume += level.sellVolume;
+    const total = level.buyVolume + level.sellVolume;
+    if (total > pocVolume) {
+      pocVolume = total;
+      poc = level.price;
+    }
+  }
+
+  return {
+    time,
+    tickSize,
+    levels,
+    buyVolume,
+    sellVolume,
+    delta: buyVolume - sellVolume,
+    poc,
+    stackedImbalances: detectStackedImbalances(levels, tickSize, config)
+  };
+}
+
+/**
+ * Merge footprints into one candle at time. tickSize must be a whole multiple
+ * of the source ticks (defaults to the coarsest of them).
+ */
+export function mergeFootprints(
+  candles: FootprintCandle[],
+  time: number,
+  tickSize?: number,
+  config: FootprintConfig = DEFAULT_FOOTPRINT_CONFIG
+): FootprintCandle {
+  const tick = tickSize ?? Math.max(...candles.map(c => c.tickSize), 0);
+  const volumes = new Map<number, LevelVolume>();
+
+  for (const candle of candles) {
+    for (const level of candle.levels) {
+      // Nudge before flooring so a level sitting on a tick edge doesn't drop a bucket
+      const index = Math.floor(level.price / tick + 1e-9);
+      const v = volumes.get(index) ?? { buy: 0, sell: 0 };
+      v.buy += level.buyVolume;
+      v.sell += level.sellVolume;
+      volumes.set(index, v);
+    }
+  }
+
+  return buildFootprint(time, tick, volumes, config);
+}
+
+/**
+ * Summary of a window of footprint bars for the order-flow score
+ */
+export function footprintFeatures(candles: FootprintCandle[], windowMs: number): FootprintFeatures | null {
+  const withVolume = candles.filter(c => c.levels.length > 0);
+  if (withVolume.length === 0) return null;
+
+  const merged = mergeFootprints(withVolume, withVolume[0].time);
+  const total = merged.buyVolume + merged.sellVolume;
+  const low = merged.levels[0].price;
+  const high = merged.levels[merged.levels.length - 1].price;
+
+  // Stacks per minute bar: merging would blur stacks that formed at different times
+  const stacks = withVolume.flatMap(c => c.stackedImbalances);
+
+  return {
+    windowMs,
+    delta: merged.delta,
+    deltaPercent: total > 0 ? merged.delta / total : 0,
+    poc: merged.poc,
+    pocPosition: high > low ? (merged.poc - low) / (high - low) : 0.5,
+    buyStacks: stacks.filter(s => s.side === 'buy').length,
+    sellStacks: stacks.filter(s => s.side === 'sell').length
+  };
+}
+
+// ============================================================================
+// AGGREGATOR
+// ============================================================================
+
+/**
+ * Minute footprint bars from the live trade stream. The tick is fixed by the
+ * first trade so bars from the same session always merge cleanly.
+ */
+export class FootprintAggregator {
+  private bars: Map<number, Map<number, LevelVolume>> = new Map();
+  private tick: number | null = null;
+
+  constructor(
+    private maxBars: number = 240,
+    private config: FootprintConfig = DEFAULT_FOOTPRINT_CONFIG
+  ) {}
+
+  get tickSize(): number | null {
+    return this.tick;
+  }
+
+  reset(): void {
+    this.bars.clear();
+    this.tick = null;
+  }
+
+  addTrade(timestamp: number, price: number, usdValue: number, side: 'buy' | 'sell'): void {
+    if (!(price > 0) || !(usdValue > 0)) return;
+    if (this.tick === null) this.tick = footprintTickSize(price, this.config);
+
+    const barTime = Math.floor(timestamp / FOOTPRINT_BAR_MS) * FOOTPRINT_BAR_MS;
+    let bar = this.bars.get(barTime);
+    if (!bar) {
+      bar = new Map();
+      this.bars.set(barTime, bar);
+      this.prune();
+    }
+
+    const index = Math.floor(price / this.tick);
+    const level = bar.get(index) ?? { buy: 0, sell: 0 };
+    if (side === 'buy') level.buy += usdValue;
+    else level.sell += usdValue;
+    bar.set(index, level);
+  }
+
+  /**
+   * Footprint bars (including the forming one) opening at or after since, oldest first
+   */
+  candles(since: number = 0): FootprintCandle[] {
+    if (this.tick === null) return [];
+    const tick = this.tick;
+    return [...this.bars.entries()]
+      .filter(([time]) => time >= since)
+      .sort((a, b) => a[0] - b[0])
+      .map(([time, volumes]) => buildFootprint(time, tick, volumes, this.config));
+  }
+
+  private prune(): void {
+    if (this.bars.size <= this.maxBars) return;
+    const times = [...this.bars.keys()].sort((a, b) => a - b);
+    for (const time of times.slice(0, times.length - this.maxBars)) this.bars.delete(time);
+  }
+}
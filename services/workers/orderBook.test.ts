@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { LocalOrderBook, WallTracker, analyzeOrderBooks, niceStep, DEFAULT_DEPTH_CONFIG, DepthLevel } from './orderBook';
+
+const lvl = (price: number, size: number): DepthLevel => [String(price), String(size)];
+
+const bookWith = (exchange: string, bids: DepthLevel[], asks: DepthLevel[]) => {
+  const book = new LocalOrderBook(exchange);
+  book.applySnapshot(bids, asks, 100);
+  return book;
+};
+
+describe('LocalOrderBook', () => {
+  it('chains Binance diffs by update id and reports gaps', () => {
+    const book = new LocalOrderBook('Binance');
+    expect(book.applyBinanceDiff({ U: 1, u: 5, pu: 0, b: [], a: [] })).toBe('NO_SNAPSHOT');
+
+    book.applySnapshot([lvl(99, 1), lvl(98, 2)], [lvl(101, 1)], 100);
+    expect(book.applyBinanceDiff({ U: 90, u: 95, pu: 89, b: [lvl(99, 5)], a: [] })).toBe('SKIPPED');
+    expect(book.applyBinanceDiff({ U: 98, u: 103, pu: 97, b: [lvl(99, 0), lvl(100, 3)], a: [] })).toBe('APPLIED');
+    expect(book.applyBinanceDiff({ U: 104, u: 106, pu: 103, b: [], a: [lvl(101, 4)] })).toBe('APPLIED');
+    expect(book.bestBid).toBe(100);
+    expect(book.levels('bid').map(l => l.price)).toEqual([100, 98]);
+    expect(book.levels('ask')).toEqual([{ price: 101, quantity: 4 }]);
+
+    expect(book.applyBinanceDiff({ U: 110, u: 112, pu: 109, b: [], a: [] })).toBe('GAP');
+  });
+
+  it('rejects a first Binance diff that starts after the snapshot', () => {
+    const book = bookWith('Binance', [lvl(99, 1)], [lvl(101, 1)]);
+    expect(book.applyBinanceDiff({ U: 105, u: 110, pu: 104, b: [], a: [] })).toBe('GAP');
+  });
+
+  it('applies Bybit snapshots and deltas', () => {
+    const book = new LocalOrderBook('Bybit');
+    expect(book.applyBybitMessage({ type: 'delta', data: { b: [], a: [], u: 5 } })).toBe('NO_SNAPSHOT');
+
+    book.applyBybitMessage({ type: 'snapshot', data: { b: [lvl(99, 1)], a: [lvl(101, 1), lvl(102, 1)], u: 10 } });
+    book.applyBybitMessage({ type: 'delta', data: { b: [], a: [lvl(101, 0)], u: 11 } });
+    expect(book.bestAsk).toBe(102);
+    expect(book.midPrice).toBe(100.5);
+
+    // u = 1 is a fresh snapshot after a Bybit service restart
+    book.applyBybitMessage({ type: 'delta', data: { b: [lvl(50, 1)], a: [lvl(51, 1)], u: 1 } });
+    expect(book.toOrderBook('BTCUSDT').bids).toEqual([{ price: 50, quantity: 1 }]);
+  });
+});
+
+describe('order book analytics', () => {
+  it('rounds band sizes to stable steps', () => {
+    expect(niceStep(30)).toBe(50);
+    expect(niceStep(0.7)).toBe(1);
+    expect(niceStep(22)).toBe(25);
+  });
+
+  it('measures imbalance, depth bands and walls across exchanges', () => {
+    const binance = bookWith('Binance', [lvl(99.9, 1), lvl(99.8, 1), lvl(99.6, 100), lvl(98, 1)], [lvl(100.1, 1), lvl(100.2, 1), lvl(100.4, 50)]);
+    const bybit = bookWith('Bybit', [lvl(99.9, 1), lvl(99.8, 1)], [lvl(100.1, 1)]);
+
+    const analysis = analyzeOrderBooks([binance, bybit], { ...DEFAULT_DEPTH_CONFIG, wallMinUsd: 900 })!;
+
+    expect(analysis.exchanges).toEqual(['Binance', 'Bybit']);
+    expect(analysis.midPrice).toBeCloseTo(100);
+
+    // Within 0.5% of mid; the 98 bid only counts toward the 2% depth
+    const nearBids = 2 * (99.9 + 99.8) + 9960;
+    const nearAsks = 2 * 100.1 + 100.2 + 5020;
+    expect(analysis.imbalance).toBeCloseTo((nearBids - nearAsks) / (nearBids + nearAsks), 6);
+    expect(analysis.bidDepthUsd).toBeCloseTo(nearBids + 98);
+    expect(analysis.bands.reduce((s, b) => s + b.askUsd, 0)).toBeCloseTo(analysis.askDepthUsd);
+
+    expect(analysis.walls.map(w => [w.exchange, w.side, w.price])).toEqual([
+      ['Binance', 'bid', 99.6],
+      ['Binance', 'ask', 100.4]
+    ]);
+    expect(analyzeOrderBooks([new LocalOrderBook('Binance')])).toBeNull();
+  });
+
+  it('flags walls pulled before price reached them, not walls that got filled', () => {
+    const tracker = new WallTracker();
+    const book = bookWith('Binance', [lvl(99.9, 1), lvl(99.5, 100)], [lvl(100.1, 1), lvl(100.5, 100)]);
+    const bidWall = { exchange: 'Binance', side: 'bid' as const, price: 99.5, sizeUsd: 9950 };
+    const askWall = { exchange: 'Binance', side: 'ask' as const, price: 100.5, sizeUsd: 10050 };
+
+    expect(tracker.update([bidWall, askWall], [book], 100, 0).walls.map(w => w.since)).toEqual([0, 0]);
+    tracker.update([bidWall, askWall], [book], 100, 10000);
+
+    // Bid wall pulled with price above it; ask wall gone because price traded through it
+    book.applySnapshot([lvl(100.1, 1)], [lvl(100.7, 1)], 200);
+    const { walls, spoofs } = tracker.update([], [book], 100.4, 20000);
+
+    expect(walls).toEqual([]);
+    expect(spoofs).toEqual([expect.objectContaining({ side: 'bid', price: 99.5, appearedAt: 0, pulledAt: 20000 })]);
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * LOCAL ORDER BOOKS (L2)
+ *
+ * Order book maintenance and analytics used by the data processor worker:
+ * - LocalOrderBook: price -> size maps kept in sync from depth-diff streams
+ *   (Binance Futures snapshot + update-id chaining, Bybit snapshot/delta)
+ * - analyzeOrderBooks: bid/ask imbalance, depth and resting-liquidity bands across exchanges
+ * - WallTracker: remembers when walls appeared and flags those pulled before
+ *   price reached them (spoofing)
+ *
+ * @version 1.0.0
+ */
+
+import type { OrderBook, OrderBookLevel } from '../interfaces/IMarketDataService';
+import type { LiquidityBand, OrderBookStats, OrderBookWall, SpoofEvent } from '../../types/aggrTypes';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Raw [price, size] level as both exchanges send it */
+export type DepthLevel = [string, string];
+
+export type DepthApplyResult = 'APPLIED' | 'SKIPPED' | 'GAP' | 'NO_SNAPSHOT';
+
+/** Binance Futures `<symbol>@depth` event */
+export interface BinanceDepthEvent {
+  U: number;   // First update id in event
+  u: number;   // Final update id in event
+  pu: number;  // Final update id of the previous event
+  b: DepthLevel[];
+  a: DepthLevel[];
+}
+
+/** Bybit v5 `orderbook.<depth>.<symbol>` message */
+export interface BybitDepthMessage {
+  type: 'snapshot' | 'delta';
+  data: { b: DepthLevel[]; a: DepthLevel[]; u: number };
+}
+
+export interface DepthAnalysisConfig {
+  rangePercent: number;          // Depth and bands cover mid +/- this
+  imbalancePercent: number;      // Imbalance is measured within mid +/- this
+  bandsPerSide: number;          // Target band count between mid and the range edge
+  wallMultiple: number;          // A wall is this many times the median level in range...
+  wallMinUsd: number;            // ...and at least this large
+  spoofMinLifetimeMs: number;    // Ignore walls that flicker for less than this
+  spoofMaxLifetimeMs: number;    // Walls resting longer than this aren't spoofs when pulled
+  spoofMaxDistancePercent: number; // Only walls this close to mid count
+}
+
+export const DEFAULT_DEPTH_CONFIG: DepthAnalysisConfig = {
+  rangePercent: 2,
+  imbalancePercent: 0.5,
+  bandsPerSide: 40,
+  wallMultiple: 5,
+  wallMinUsd: 500000,
+  spoofMinLifetimeMs: 3000,
+  spoofMaxLifetimeMs: 300000,
+  spoofMaxDistancePercent: 1
+};
+
+export type DetectedWall = Omit<OrderBookWall, 'since'>;
+
+export type DepthAnalysis = Omit<OrderBookStats, 'symbol' | 'timestamp' | 'walls' | 'spoofEvents'> & {
+  walls: DetectedWall[];
+};
+
+// ============================================================================
+// LOCAL ORDER BOOK
+// ============================================================================
+
+export class LocalOrderBook {
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  private lastUpdateId: number = 0;
+  private hasSnapshot: boolean = false;
+  // Binance: the first diff after a snapshot must straddle the snapshot's update id
+  private awaitingFirstDiff: boolean = false;
+  public updatedAt: number = 0;
+
+  constructor(public readonly exchange: string) {}
+
+  get isSynced(): boolean {
+    return this.hasSnapshot;
+  }
+
+  get levelCount(): number {
+    return this.bids.size + this.asks.size;
+  }
+
+  reset(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.lastUpdateId = 0;
+    this.hasSnapshot = false;
+    this.awaitingFirstDiff = false;
+  }
+
+  applySnapshot(bids: DepthLevel[], asks: DepthLevel[], updateId: number): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.applyLevels(bids, asks);
+    this.lastUpdateId = updateId;
+    this.hasSnapshot = true;
+    this.awaitingFirstDiff = true;
+  }
+
+  /**
+   * Apply a Binance Futures diff. 'GAP' means an event was missed and the
+   * book must be rebuilt from a fresh snapshot.
+   */
+  applyBinanceDiff(event: BinanceDepthEvent): DepthApplyResult {
+    if (!this.hasSnapshot) return 'NO_SNAPSHOT';
+    if (event.u < this.lastUpdateId) return 'SKIPPED'; // Already in the snapshot
+
+    if (this.awaitingFirstDiff) {
+      if (event.U > this.lastUpdateId) return 'GAP';
+      this.awaitingFirstDiff = false;
+    } else if (event.pu !== this.lastUpdateId) {
+      return 'GAP';
+    }
+
+    this.applyLevels(event.b, event.a);
+    this.lastUpdateId = event.u;
+    return 'APPLIED';
+  }
+
+  /**
+   * Apply a Bybit message. Bybit re-sends a snapshot (or a delta with u=1)
+   * whenever its book service restarts, so there is no gap handling.
+   */
+  applyBybitMessage(message: BybitDepthMessage): DepthApplyResult {
+    const { data } = message;
+    if (message.type === 'snapshot' || data.u === 1) {
+      this.applySnapshot(data.b, data.a, data.u);
+      this.awaitingFirstDiff = false;
+      return 'APPLIED';
+    }
+    if (!this.hasSnapshot) return 'NO_SNAPSHOT';
+
+    this.applyLevels(data.b, data.a);
+    this.lastUpdateId = data.u;
+    return 'APPLIED';
+  }
+
+  private applyLevels(bids: DepthLevel[], asks: DepthLevel[]): void {
+    const apply = (side: Map<number, number>, levels: DepthLevel[]) => {
+      for (const [p, q] of levels) {
+        const price = parseFloat(p);
+        const size = parseFloat(q);
+        if (size === 0) side.delete(price);
+        else side.set(price, size);
+      }
+    };
+    apply(this.bids, bids);
+    apply(this.asks, asks);
+    this.updatedAt = Date.now();
+  }
+
+  get bestBid(): number | null {
+    let best: number | null = null;
+    for (const price of this.bids.keys()) if (best === null || price > best) best = price;
+    return best;
+  }
+
+  get bestAsk(): number | null {
+    let best: number | null = null;
+    for (const price of this.asks.keys()) if (best === null || price < best) best = price;
+    return best;
+  }
+
+  get midPrice(): number | null {
+    const bid = this.bestBid;
+    const ask = this.bestAsk;
+    return bid !== null && ask !== null ? (bid + ask) / 2 : null;
+  }
+
+  /**
+   * Levels best-first
+   */
+  levels(side: 'bid' | 'ask', limit: number = Infinity): OrderBookLevel[] {
+    const map = side === 'bid' ? this.bids : this.asks;
+    return [...map.entries()]
+      .sort((a, b) => (side === 'bid' ? b[0] - a[0] : a[0] - b[0]))
+      .slice(0, limit)
+      .map(([price, quantity]) => ({ price, quantity }));
+  }
+
+  toOrderBook(symbol: string, limit: number = 50): OrderBook {
+    return {
+      symbol,
+      bids: this.levels('bid', limit),
+      asks: this.levels('ask', limit),
+      timestamp: this.updatedAt
+    };
+  }
+
+  /**
+   * Drop levels further than maxDistancePercent from mid. Diff streams can add
+   * far-away levels that never get a zero update within the snapshot depth.
+   */
+  prune(maxDistancePercent: number): void {
+    const mid = this.midPrice;
+    if (mid === null) return;
+    const low = mid * (1 - maxDistancePercent / 100);
+    const high = mid * (1 + maxDistancePercent / 100);
+    for (const price of this.bids.keys()) if (price < low) this.bids.delete(price);
+    for (const price of this.asks.keys()) if (price > high) this.asks.delete(price);
+  }
+}
+
+// ============================================================================
+// ANALYTICS
+// ============================================================================
+
+/**
+ * Round a raw step up to 1, 2, 2.5 or 5 x 10^n so band edges stay stable as price moves
+ */
+export function niceStep(raw: number): number {
+  if (!(raw > 0)) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 2.5, 5, 10].find(m => m * magnitude >= raw) ?? 10;
+  return step * magnitude;
+}
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Combine the synced books into imbalance, depth, liquidity bands and walls
+ */
+export function analyzeOrderBooks(
+  books: LocalOrderBook[],
+  config: DepthAnalysisConfig = DEFAULT_DEPTH_CONFIG
+): DepthAnalysis | null {
+  const synced = books.filter(b => b.isSynced && b.midPrice !== null);
+  if (synced.length === 0) return null;
+
+  const midPrice = synced.reduce((sum, b) => sum + b.midPrice!, 0) / synced.length;
+  const spreadPercent = synced.reduce((sum, b) => sum + ((b.bestAsk! - b.bestBid!) / b.midPrice!) * 100, 0) / synced.length;
+
+  const low = midPrice * (1 - config.rangePercent / 100);
+  const high = midPrice * (1 + config.rangePercent / 100);
+  const nearLow = midPrice * (1 - config.imbalancePercent / 100);
+  const nearHigh = midPrice * (1 + config.imbalancePercent / 100);
+  const bandSize = niceStep((midPrice * config.rangePercent / 100) / config.bandsPerSide);
+
+  const bands = new Map<number, LiquidityBand>();
+  const walls: DetectedWall[] = [];
+  let bidDepthUsd = 0;
+  let askDepthUsd = 0;
+  let nearBidUsd = 0;
+  let nearAskUsd = 0;
+
+  for (const book of synced) {
+    for (const side of ['bid', 'ask'] as const) {
+      const inRange = book.levels(side)
+        .filter(l => l.price >= low && l.price <= high)
+        .map(l => ({ price: l.price, usd: l.price * l.quantity }));
+
+      for (const { price, usd } of inRange) {
+        const index = Math.floor(price / bandSize);
+        const band = bands.get(index) ?? { price: index * bandSize, bidUsd: 0, askUsd: 0 };
+        const near = price >= nearLow && price <= nearHigh;
+        if (side === 'bid') {
+          band.bidUsd += usd;
+          bidDepthUsd += usd;
+          if (near) nearBidUsd += usd;
+        } else {
+          band.askUsd += usd;
+          askDepthUsd += usd;
+          if (near) nearAskUsd += usd;
+        }
+        bands.set(index, band);
+      }
+
+      const threshold = Math.max(config.wallMinUsd, median(inRange.map(l => l.usd)) * config.wallMultiple);
+      for (const { price, usd } of inRange) {
+        if (usd >= threshold) walls.push({ exchange: book.exchange, side, price, sizeUsd: usd });
+      }
+    }
+  }
+
+  const nearTotal = nearBidUsd + nearAskUsd;
+
+  return {
+    exchanges: synced.map(b => b.exchange),
+    midPrice,
+    spreadPercent,
+    bidDepthUsd,
+    askDepthUsd,
+    imbalance: nearTotal > 0 ? (nearBidUsd - nearAskUsd) / nearTotal : 0,
+    bandSize,
+    bands: [...bands.values()].sort((a, b) => a.price - b.price),
+    walls: walls.sort((a, b) => b.sizeUsd - a.sizeUsd)
+  };
+}
+
+// ============================================================================
+// SPOOF DETECTION
+// ============================================================================
+
+/**
+ * Tracks walls between analysis ticks. A wall that disappears while price is
+ * still away from it was pulled rather than filled; if it only rested briefly
+ * near the market that is reported as a spoof.
+ */
+export class WallTracker {
+  private tracked: Map<string, OrderBookWall> = new Map();
+
+  constructor(private config: DepthAnalysisConfig = DEFAULT_DEPTH_CONFIG) {}
+
+  reset(): void {
+    this.tracked.clear();
+  }
+
+  update(
+    walls: DetectedWall[],
+    books: LocalOrderBook[],
+    midPrice: number,
+    now: number = Date.now()
+  ): { walls: OrderBookWall[]; spoofs: SpoofEvent[] } {
+    const current = new Map<string, OrderBookWall>();
+    for (const wall of walls) {
+      const key = `${wall.exchange}|${wall.side}|${wall.price}`;
+      current.set(key, { ...wall, since: this.tracked.get(key)?.since ?? now });
+    }
+
+    const spoofs: SpoofEvent[] = [];
+    for (const [key, wall] of this.tracked) {
+      if (current.has(key)) continue;
+
+      const book = books.find(b => b.exchange === wall.exchange);
+      if (!book?.isSynced) continue; // Book dropped, not the wall
+
+      // Price reached the wall -> it was (at least partly) filled, not pulled
+      const bestBid = book.bestBid;
+      const bestAsk = book.bestAsk;
+      const reached = wall.side === 'bid'
+        ? bestBid === null || bestBid <= wall.price
+        : bestAsk === null || bestAsk >= wall.price;
+      if (reached) continue;
+
+      const lifetime = now - wall.since;
+      const distancePercent = Math.abs(wall.price - midPrice) / midPrice * 100;
+      if (
+        lifetime >= this.config.spoofMinLifetimeMs &&
+        lifetime <= this.config.spoofMaxLifetimeMs &&
+        distancePercent <= this.config.spoofMaxDistancePercent
+      ) {
+        spoofs.push({
+          exchange: wall.exchange,
+          side: wall.side,
+          price: wall.price,
+          sizeUsd: wall.sizeUsd,
+          appearedAt: wall.since,
+          pulledAt: now,
+          distancePercent
+        });
+      }
+    }
+
+    this.tracked = current;
+    return { walls: [...current.values()], spoofs };
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { TapeBuffer } from './tape';
+import { AggrTrade } from '../../types/aggrTypes';
+
+const trade = (timestamp: number, price: number, exchange: string = 'Binance'): AggrTrade => ({
+  exchange,
+  timestamp,
+  price,
+  amount: 1,
+  side: 'buy',
+  isLiquidation: false,
+  usdValue: price
+});
+
+describe('TapeBuffer', () => {
+  it('keeps every trade but samples ticks from Binance prints, last price per bucket', () => {
+    const tape = new TapeBuffer(1000);
+    tape.addTrade(trade(1010, 100));
+    tape.addTrade(trade(1050, 101));
+    tape.addTrade(trade(1060, 105, 'OKX'));
+    tape.addTrade(trade(1150, 101));   // Unchanged price in a new bucket
+    tape.addTrade(trade(1220, 102));
+
+    const batch = tape.drain('BTCUSDT', null, 2000);
+    expect(batch.trades).toHaveLength(5);
+    expect(batch.ticks).toEqual([
+      { timestamp: 1010, price: 101 },
+      { timestamp: 1220, price: 102 }
+    ]);
+  });
+
+  it('drains into consecutive batches', () => {
+    const tape = new TapeBuffer(1000);
+    tape.addLiquidation({ exchange: 'Bybit', timestamp: 1500, price: 100, amount: 1, side: 'long', usdValue: 100 });
+    tape.addCascade({
+      startTime: 1200, endTime: 1500, totalLiquidated: 12e6, side: 'long', exchanges: ['Multi'], priceImpact: 0, severity: 'minor'
+    });
+
+    const first = tape.drain('BTCUSDT', null, 2000);
+    const second = tape.drain('BTCUSDT', null, 3000);
+
+    expect(first).toMatchObject({ symbol: 'BTCUSDT', startTime: 1000, endTime: 2000 });
+    expect(first.liquidations).toHaveLength(1);
+    expect(first.cascades).toHaveLength(1);
+    expect(second).toMatchObject({ startTime: 2000, endTime: 3000, trades: [], liquidations: [], cascades: [], ticks: [] });
+  });
+});
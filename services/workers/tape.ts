@@ -0,0 +1,75 @@
+/**
+ * TAPE BUFFER
+ *
+ * Collects the data processor worker's normalized stream between broadcasts
+ * while recording is on:
+ * - Every trade and liquidation from all exchanges, as processed
+ * - Every cascade alert the worker raises
+ * - Price ticks: the last Binance print in each TICK_BUCKET_MS bucket
+ * - The AggrStats snapshot broadcast at the end of the interval
+ *
+ * drain() hands the interval over as one TapeBatch for the main thread to persist.
+ *
+ * @version 1.0.0
+ */
+
+import type { AggrLiquidation, AggrStats, AggrTrade, CascadeEvent, PriceTick, TapeBatch } from '../../types/aggrTypes';
+
+/** Ticks follow the venue the live price feed reads */
+export const TAPE_TICK_EXCHANGE = 'Binance';
+export const TICK_BUCKET_MS = 100;
+
+export class TapeBuffer {
+  private trades: AggrTrade[] = [];
+  private liquidations: AggrLiquidation[] = [];
+  private cascades: CascadeEvent[] = [];
+  private ticks: PriceTick[] = [];
+  private startTime: number;
+
+  constructor(now: number = Date.now()) {
+    this.startTime = now;
+  }
+
+  addTrade(trade: AggrTrade): void {
+    this.trades.push(trade);
+    if (trade.exchange !== TAPE_TICK_EXCHANGE) return;
+
+    const last = this.ticks[this.ticks.length - 1];
+    if (last && Math.floor(last.timestamp / TICK_BUCKET_MS) === Math.floor(trade.timestamp / TICK_BUCKET_MS)) {
+      last.price = trade.price;
+    } else if (!last || last.price !== trade.price) {
+      this.ticks.push({ timestamp: trade.timestamp, price: trade.price });
+    }
+  }
+
+  addLiquidation(liq: AggrLiquidation): void {
+    this.liquidations.push(liq);
+  }
+
+  addCascade(cascade: CascadeEvent): void {
+    this.cascades.push(cascade);
+  }
+
+  /**
+   * Everything collected since the last drain, closed at now
+   */
+  drain(symbol: string, stats: AggrStats | null, now: number = Date.now()): TapeBatch {
+    const batch: TapeBatch = {
+      symbol,
+      startTime: this.startTime,
+      endTime: now,
+      trades: this.trades,
+      liquidations: this.liquidations,
+      cascades: this.cascades,
+      ticks: this.ticks,
+      stats
+    };
+
+    this.trades = [];
+    this.liquidations = [];
+    this.cascades = [];
+    this.ticks = [];
+    this.startTime = now;
+    return batch;
+  }
+}
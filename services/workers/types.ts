@@ -1,13 +1,18 @@
-import { AggrStats, AggrLiquidation, AggrTrade, CascadeEvent } from '../../types/aggrTypes';
+import { AggrStats, AggrLiquidation, AggrTrade, CascadeEvent, FootprintCandle, OrderBookStats, TapeBatch } from '../../types/aggrTypes';
 
 export type WorkerMessageType = 
   | 'INIT'
   | 'CONNECT'
   | 'DISCONNECT'
+  | 'SET_SYMBOL'
+  | 'SET_RECORDING'
   | 'STATS_UPDATE'
   | 'LIQUIDATION_EVENT'
   | 'LARGE_TRADE_EVENT'
   | 'CASCADE_EVENT'
+  | 'DEPTH_UPDATE'
+  | 'FOOTPRINT_UPDATE'
+  | 'TAPE_BATCH'
   | 'DEBUG_LOG';
 
 export interface WorkerMessage {
@@ -22,6 +27,15 @@ export interface InitPayload {
   };
 }
 
+export interface ConnectPayload {
+  symbol: string;
+  whaleThresholdUsd?: number;
+}
+
+export interface SetRecordingPayload {
+  enabled: boolean;
+}
+
 export interface StatsUpdatePayload {
   stats: AggrStats;
 }
@@ -37,3 +51,16 @@ export interface LargeTradeEventPayload {
 export interface CascadeEventPayload {
   cascade: CascadeEvent;
 }
+
+export interface DepthUpdatePayload {
+  depth: OrderBookStats;
+}
+
+export interface FootprintUpdatePayload {
+  symbol: string;
+  candles: FootprintCandle[]; // Minute bars touched since the last update
+}
+
+export interface TapeBatchPayload {
+  batch: TapeBatch;
+}
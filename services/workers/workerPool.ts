@@ -376,3 +376,32 @@ export function shutdownIndicatorPool(): void {
     indicatorPool = null;
   }
 }
+
+/**
+ * Create a singleton backtest worker pool (parameter sweeps)
+ */
+let backtestPool: WorkerPool | null = null;
+
+export function getBacktestWorkerPool(): WorkerPool {
+  if (!backtestPool) {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    backtestPool = new WorkerPool({
+      minWorkers: 1,
+      maxWorkers: Math.max(1, Math.min(4, cores - 1)),
+      taskTimeout: 120000,
+      idleTimeout: 60000,
+      workerScript: new URL('./backtestWorker.ts', import.meta.url)
+    });
+  }
+  return backtestPool;
+}
+
+/**
+ * Shutdown backtest pool
+ */
+export function shutdownBacktestPool(): void {
+  if (backtestPool) {
+    backtestPool.terminate();
+    backtestPool = null;
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseEntryZone,
+  splitLadderSizes,
+  buildEntryOrders,
+  isOrderTriggered,
+  getExpiryReason,
+  EntryPlan
+} from './workingOrders';
+import { TradeSignal } from '../types';
+
+const plan = (type: 'LONG' | 'SHORT'): EntryPlan => ({
+  pair: 'BTCUSDT',
+  type,
+  size: 0.3,
+  leverage: 5,
+  stopLoss: type === 'LONG' ? 59000 : 62000,
+  takeProfit: type === 'LONG' ? 63000 : 58000,
+  signalId: 'sig-1',
+  expiresAt: 1_000_000
+});
+
+const zone = { low: 60000, high: 60600 };
+const options = { quantityPrecision: 3, live: false };
+
+describe('parseEntryZone', () => {
+  it('reads ranges in either order and with separators', () => {
+    expect(parseEntryZone('60000-60600', 0)).toEqual(zone);
+    expect(parseEntryZone('60,600 - 60,000', 0)).toEqual(zone);
+  });
+
+  it('treats a single price as a zero-width zone and falls back when unusable', () => {
+    expect(parseEntryZone('60000', 0)).toEqual({ low: 60000, high: 60000 });
+    expect(parseEntryZone('0-0', 61000)).toEqual({ low: 61000, high: 61000 });
+    expect(parseEntryZone(undefined, 61000)).toEqual({ low: 61000, high: 61000 });
+  });
+});
+
+describe('buildEntryOrders', () => {
+  it('rests limits at the near edge and stop entries beyond the far edge', () => {
+    expect(buildEntryOrders('LIMIT', zone, plan('LONG'), options)[0].price).toBe(60000);
+    expect(buildEntryOrders('LIMIT', zone, plan('SHORT'), options)[0].price).toBe(60600);
+    expect(buildEntryOrders('STOP', zone, plan('LONG'), options)[0].price).toBe(60600);
+    expect(buildEntryOrders('STOP', zone, plan('SHORT'), options)[0].price).toBe(60000);
+  });
+
+  it('spreads ladder rungs across the zone, first rung nearest the market', () => {
+    const rungs = buildEntryOrders('LADDER', zone, plan('LONG'), { ...options, rungs: 3 });
+
+    expect(rungs.map(o => o.price)).toEqual([60600, 60300, 60000]);
+    expect(rungs.reduce((sum, o) => sum + o.size, 0)).toBeCloseTo(0.3, 6);
+    expect(new Set(rungs.map(o => o.ladderId)).size).toBe(1);
+    rungs.forEach(o => expect(o.orderType).toBe('LIMIT'));
+  });
+
+  it('keeps the ladder total when sizes round to the exchange step', () => {
+    expect(splitLadderSizes(0.01, 3, 3)).toEqual([0.003, 0.003, 0.004]);
+  });
+});
+
+describe('isOrderTriggered', () => {
+  it('fills limits at or through the price and stops on the breakout', () => {
+    expect(isOrderTriggered({ type: 'LONG', orderType: 'LIMIT', price: 60000 }, 59990)).toBe(true);
+    expect(isOrderTriggered({ type: 'LONG', orderType: 'LIMIT', price: 60000 }, 60010)).toBe(false);
+    expect(isOrderTriggered({ type: 'SHORT', orderType: 'STOP', price: 60000 }, 59990)).toBe(true);
+    expect(isOrderTriggered({ type: 'LONG', orderType: 'STOP', price: 60600 }, 60500)).toBe(false);
+  });
+});
+
+describe('getExpiryReason', () => {
+  const [order] = buildEntryOrders('LIMIT', zone, plan('LONG'), options);
+  const signal = (status: TradeSignal['status']) => ({ id: 'sig-1', status } as TradeSignal);
+
+  it('follows the linked signal', () => {
+    expect(getExpiryReason(order, [signal('ACTIVE')], 0)).toBeNull();
+    expect(getExpiryReason(order, [signal('INVALIDATED')], 0)).toBe('SIGNAL_INVALIDATED');
+    expect(getExpiryReason(order, [signal('EXPIRED')], 0)).toBe('SIGNAL_EXPIRED');
+  });
+
+  it('expires on its own deadline', () => {
+    expect(getExpiryReason(order, [signal('ACTIVE')], 1_000_000)).toBe('EXPIRED');
+    expect(getExpiryReason({ ...order, expiresAt: null }, [], Number.MAX_SAFE_INTEGER)).toBeNull();
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * WORKING ORDERS
+ * Resting entries built from a signal's entry zone, tracked in store.pendingOrders.
+ *
+ * - LIMIT: rests at the favourable zone edge (longs at the low, shorts at the high)
+ * - STOP: enters on a breakout beyond the far edge of the zone
+ * - LADDER: equal-size limit rungs spread across the zone, nearest edge first
+ * - Paper orders trigger against the store price and fill through paperExchange;
+ *   live orders rest on the exchange and fill via the user data stream
+ * - Orders tied to a signal are cancelled when it is invalidated or ages past signalMaxAgeSeconds
+ */
+
+import { useStore } from '../store/useStore';
+import { PendingOrder, TargetLevel, TradeSignal } from '../types';
+import { binanceApi, ApiError } from './binanceApi';
+import { binanceWS, isTerminalOrderStatus, OrderTradeUpdate } from './binanceWebSocket';
+import { paperExchange } from './paperExchange';
+import { getSymbolConfig } from './symbolRegistry';
+import { livePairPrice } from './pairPrices';
+import { logOrderEvent } from './audit/auditLogger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EntryOrderMode = 'MARKET' | 'LIMIT' | 'STOP' | 'LADDER';
+
+export interface EntryZone {
+  low: number;
+  high: number;
+}
+
+export interface EntryPlan {
+  pair: string;
+  type: 'LONG' | 'SHORT';
+  size: number;
+  leverage: number;
+  stopLoss: number;
+  takeProfit: number;
+  targetLevels?: TargetLevel[];
+  signalId?: string;
+  expiresAt: number | null;
+}
+
+export type CancelReason = 'MANUAL' | 'SIGNAL_INVALIDATED' | 'SIGNAL_EXPIRED' | 'EXPIRED' | 'REPLACED';
+
+const TICK_MS = 1000;
+// Expiry cancels that failed wait out a doubling backoff instead of retrying every tick
+const CANCEL_RETRY_BASE_MS = 5 * 1000;
+const CANCEL_RETRY_MAX_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// ORDER CONSTRUCTION
+// ============================================================================
+
+/**
+ * Parse a signal entry zone ("84000-84500", "84,000 - 84,500" or a single price).
+ * Falls back to a zero-width zone at `fallback` when the zone is unusable.
+ */
+export function parseEntryZone(entryZone: string | undefined, fallback: number): EntryZone {
+  const prices = (entryZone || '')
+    .replace(/,/g, '')
+    .split(/\s*-\s*/)
+    .map(part => parseFloat(part))
+    .filter(value => Number.isFinite(value) && value > 0);
+
+  if (prices.length === 0) return { low: fallback, high: fallback };
+  return { low: Math.min(...prices), high: Math.max(...prices) };
+}
+
+/**
+ * Split a size into `count` slices rounded down to the exchange step;
+ * the last slice takes the remainder so the total is preserved.
+ */
+export function splitLadderSizes(size: number, count: number, quantityPrecision: number): number[] {
+  const step = 10 ** quantityPrecision;
+  const slice = Math.floor((size / count) * step + 1e-9) / step;
+  const sizes = Array.from({ length: count }, () => slice);
+  sizes[count - 1] = Number((size - slice * (count - 1)).toFixed(quantityPrecision));
+  return sizes.filter(s => s > 0);
+}
+
+/**
+ * Build the resting orders for an entry mode across a zone
+ */
+export function buildEntryOrders(
+  mode: Exclude<EntryOrderMode, 'MARKET'>,
+  zone: EntryZone,
+  plan: EntryPlan,
+  options: { rungs?: number; quantityPrecision: number; live: boolean }
+): PendingOrder[] {
+  const isLong = plan.type === 'LONG';
+  const base = {
+    pair: plan.pair,
+    type: plan.type,
+    leverage: plan.leverage,
+    stopLoss: plan.stopLoss,
+    takeProfit: plan.takeProfit,
+    targetLevels: plan.targetLevels,
+    signalId: plan.signalId,
+    expiresAt: plan.expiresAt,
+    mode: options.live ? 'LIVE' as const : 'PAPER' as const,
+    status: 'WORKING' as const,
+    createdAt: Date.now()
+  };
+
+  if (mode !== 'LADDER') {
+    // Limits wait at the near edge; stop entries trigger beyond the far edge
+    const price = mode === 'LIMIT'
+      ? (isLong ? zone.low : zone.high)
+      : (isLong ? zone.high : zone.low);
+    return [{ ...base, id: crypto.randomUUID(), orderType: mode, price, size: plan.size }];
+  }
+
+  const rungs = Math.max(1, Math.floor(options.rungs ?? 3));
+  const sizes = splitLadderSizes(plan.size, rungs, options.quantityPrecision);
+  const ladderId = crypto.randomUUID();
+  const width = zone.high - zone.low;
+
+  return sizes.map((size, i) => {
+    // First rung sits at the edge price reaches first (top for longs, bottom for shorts)
+    const offset = sizes.length > 1 ? (width * i) / (sizes.length - 1) : 0;
+    return {
+      ...base,
+      id: crypto.randomUUID(),
+      orderType: 'LIMIT' as const,
+      price: isLong ? zone.high - offset : zone.low + offset,
+      size,
+      ladderId
+    };
+  });
+}
+
+/**
+ * Whether the market has reached a paper order's price
+ */
+export function isOrderTriggered(order: Pick<PendingOrder, 'type' | 'orderType' | 'price'>, price: number): boolean {
+  if (price <= 0) return false;
+  const isLong = order.type === 'LONG';
+  if (order.orderType === 'LIMIT') {
+    return isLong ? price <= order.price : price >= order.price;
+  }
+  return isLong ? price >= order.price : price <= order.price;
+}
+
+/**
+ * Why a working order should be cancelled now, or null if it stays
+ */
+export function getExpiryReason(order: PendingOrder, signals: TradeSignal[], now: number): CancelReason | null {
+  if (order.signalId) {
+    const signal = signals.find(s => s.id === order.signalId);
+    if (signal?.status === 'INVALIDATED') return 'SIGNAL_INVALIDATED';
+    if (signal?.status === 'EXPIRED') return 'SIGNAL_EXPIRED';
+  }
+  if (order.expiresAt !== null && now >= order.expiresAt) return 'EXPIRED';
+  return null;
+}
+
+// ============================================================================
+// WORKING ORDER MANAGER
+// ============================================================================
+
+class WorkingOrderManager {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  // Live orders whose placement request is still in flight, and cancels waiting on them
+  private placing: Set<string> = new Set();
+  private cancelsAfterPlace: Map<string, CancelReason> = new Map();
+  // Live cancels still in flight, and the retry backoff of expiry cancels that failed
+  private cancelling: Set<string> = new Set();
+  private cancelBackoff: Map<string, { failures: number; retryAt: number }> = new Map();
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    this.unsubscribe = binanceWS.onOrderUpdate(update => this.handleOrderUpdate(update));
+    console.log('[WorkingOrders] Started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Place orders built by buildEntryOrders. Live rungs that the exchange rejects
+   * are dropped; throws only when nothing could be placed.
+   */
+  async submit(orders: PendingOrder[]): Promise<void> {
+    const { addPendingOrders } = useStore.getState();
+    addPendingOrders(orders);
+
+    const errors: string[] = [];
+    for (const order of orders) {
+      if (order.mode === 'LIVE') {
+        const error = await this.placeLive(order);
+        if (error) errors.push(error);
+        continue;
+      }
+      this.audit('PLACED', order);
+    }
+
+    if (errors.length === orders.length) {
+      throw new Error(errors[0] || 'No orders placed');
+    }
+    if (errors.length > 0) {
+      console.warn(`[WorkingOrders] ${errors.length}/${orders.length} orders rejected:`, errors);
+    }
+  }
+
+  async cancel(id: string, reason: CancelReason = 'MANUAL'): Promise<void> {
+    const order = useStore.getState().pendingOrders.find(o => o.id === id);
+    if (!order || order.status !== 'WORKING' || this.cancelling.has(id)) return;
+
+    if (order.mode === 'LIVE') {
+      // Still in flight - cancelling locally would orphan it on the exchange, so cancel once placed
+      if (this.placing.has(id)) {
+        this.cancelsAfterPlace.set(id, reason);
+        return;
+      }
+
+      this.cancelling.add(id);
+      try {
+        if (order.exchangeOrderId) {
+          // Throws if the order already filled - the user data stream settles it
+          await binanceApi.cancelOrder(order.pair, Number(order.exchangeOrderId));
+        } else {
+          // Placement response was lost (e.g. reload mid-request): the client id is the order id
+          try {
+            await binanceApi.cancelOrderByClientId(order.pair, order.id);
+          } catch (error) {
+            // Unknown to the exchange - it never arrived, so there is nothing left to cancel
+            if (!(error instanceof ApiError && error.status === 404)) throw error;
+          }
+        }
+      } finally {
+        this.cancelling.delete(id);
+      }
+    }
+
+    this.cancelBackoff.delete(id);
+    useStore.getState().removePendingOrder(id);
+    this.audit('CANCELLED', order, reason);
+    console.log(`[WorkingOrders] Cancelled ${order.orderType} ${order.type} ${order.pair} @ ${order.price} (${reason})`);
+  }
+
+  /**
+   * Change price / size. Live orders are cancelled and re-placed under a new
+   * client id, so a late event for the old order can't be mistaken for the new one.
+   */
+  async modify(id: string, patch: Partial<Pick<PendingOrder, 'price' | 'size'>>): Promise<void> {
+    const order = useStore.getState().pendingOrders.find(o => o.id === id);
+    if (!order || order.status !== 'WORKING') return;
+
+    if (order.mode === 'PAPER') {
+      useStore.getState().updatePendingOrder(id, patch);
+      this.audit('PLACED', { ...order, ...patch }, 'MODIFIED');
+      return;
+    }
+
+    await this.cancel(id, 'REPLACED');
+    await this.submit([{
+      ...order,
+      ...patch,
+      id: crypto.randomUUID(),
+      exchangeOrderId: undefined,
+      createdAt: Date.now()
+    }]);
+  }
+
+  private async placeLive(order: PendingOrder): Promise<string | null> {
+    const { quantityPrecision, pricePrecision } = getSymbolConfig(order.pair);
+    const quantity = Number(order.size.toFixed(quantityPrecision));
+    const price = Number(order.price.toFixed(pricePrecision));
+
+    // Track before sending - the fill event can arrive before the REST response
+    binanceWS.trackEntryOrder(order.id, {
+      type: order.type,
+      leverage: order.leverage,
+      stopLoss: order.stopLoss,
+      takeProfit: order.takeProfit,
+      targetLevels: order.targetLevels,
+      signalId: order.signalId
+    });
+
+    this.placing.add(order.id);
+    try {
+      const response = await binanceApi.placeOrder(
+        order.pair,
+        order.type === 'LONG' ? 'BUY' : 'SELL',
+        order.orderType === 'LIMIT' ? 'LIMIT' : 'STOP_MARKET',
+        quantity,
+        price,
+        order.leverage,
+        order.id
+      );
+      // A fast fill may already have removed the order
+      useStore.getState().updatePendingOrder(order.id, { exchangeOrderId: String(response.orderId) });
+      this.audit('PLACED', order);
+      this.placing.delete(order.id);
+
+      const cancelReason = this.cancelsAfterPlace.get(order.id);
+      if (cancelReason) {
+        this.cancelsAfterPlace.delete(order.id);
+        this.cancel(order.id, cancelReason).catch(error =>
+          console.error('[WorkingOrders] Deferred cancel failed:', error)
+        );
+      }
+      return null;
+    } catch (error) {
+      this.placing.delete(order.id);
+      this.cancelsAfterPlace.delete(order.id);
+      binanceWS.untrackEntryOrder(order.id);
+      useStore.getState().removePendingOrder(order.id);
+      const message = error instanceof Error ? error.message : String(error);
+      this.audit('REJECTED', order, message);
+      return message;
+    }
+  }
+
+  private handleOrderUpdate(update: OrderTradeUpdate): void {
+    const order = useStore.getState().pendingOrders.find(o => o.id === update.clientOrderId);
+    if (!order) return;
+
+    // The position itself is built by binanceWS from the tracked entry
+    if (update.lastFilledQty > 0 && order.status === 'WORKING') {
+      useStore.getState().updatePendingOrder(order.id, { status: 'TRIGGERED' });
+    }
+    if (!isTerminalOrderStatus(update.status)) return;
+
+    this.cancelBackoff.delete(order.id);
+    useStore.getState().removePendingOrder(order.id);
+    if (update.cumulativeFilledQty > 0) {
+      this.audit('FILLED', { ...order, size: update.cumulativeFilledQty, price: update.averagePrice });
+    } else if (update.status !== 'CANCELED') {
+      this.audit('REJECTED', order, `Order ${update.status} by exchange`);
+    }
+  }
+
+  private tick(): void {
+    const { pendingOrders, signals, isLiveMode, isReplaying } = useStore.getState();
+    // Replayed prices and signals must not trigger or expire real orders
+    if (pendingOrders.length === 0 || isReplaying) return;
+    const now = Date.now();
+
+    for (const order of pendingOrders) {
+      if (order.status !== 'WORKING') continue;
+
+      const reason = getExpiryReason(order, signals, now);
+      if (reason) {
+        const backoff = this.cancelBackoff.get(order.id);
+        if (this.cancelling.has(order.id) || (backoff && now < backoff.retryAt)) continue;
+
+        this.cancel(order.id, reason).catch(error => {
+          const failures = (backoff?.failures ?? 0) + 1;
+          const delay = Math.min(CANCEL_RETRY_BASE_MS * 2 ** (failures - 1), CANCEL_RETRY_MAX_MS);
+          this.cancelBackoff.set(order.id, { failures, retryAt: Date.now() + delay });
+          console.error(`[WorkingOrders] Expiry cancel failed (retry in ${delay / 1000}s):`, error);
+        });
+        continue;
+      }
+
+      // Paper orders rest while live mode is on; live ones are triggered by the exchange
+      if (order.mode === 'PAPER' && !isLiveMode && isOrderTriggered(order, this.getPrice(order.pair))) {
+        void this.fillPaper(order);
+      }
+    }
+  }
+
+  private async fillPaper(order: PendingOrder): Promise<void> {
+    const { updatePendingOrder, removePendingOrder } = useStore.getState();
+    updatePendingOrder(order.id, { status: 'TRIGGERED' });
+
+    const request = {
+      id: order.id,
+      pair: order.pair,
+      type: order.type,
+      size: order.size,
+      leverage: order.leverage,
+      stopLoss: order.stopLoss,
+      takeProfit: order.takeProfit,
+      targetLevels: order.targetLevels,
+      signalId: order.signalId
+    };
+    const fill = order.orderType === 'LIMIT'
+      ? await paperExchange.fillLimitOrder(request, order.price)
+      : await paperExchange.submitMarketOrder(request);
+
+    removePendingOrder(order.id);
+    if (fill.status === 'REJECTED') {
+      this.audit('REJECTED', order, 'Paper order unfilled - no price or liquidity');
+      return;
+    }
+    this.audit('FILLED', { ...order, size: fill.filledSize, price: fill.averagePrice });
+  }
+
+  private getPrice(pair: string): number {
+    return livePairPrice(useStore.getState(), pair);
+  }
+
+  private audit(action: 'PLACED' | 'CANCELLED' | 'FILLED' | 'REJECTED', order: PendingOrder, reason?: string): void {
+    logOrderEvent(action, {
+      orderId: order.id,
+      symbol: order.pair,
+      side: order.type === 'LONG' ? 'BUY' : 'SELL',
+      type: `${order.mode}_${order.orderType}`,
+      quantity: order.size,
+      price: order.price,
+      reason
+    });
+  }
+}
+
+export const workingOrders = new WorkingOrderManager();
@@ -6,10 +6,13 @@
  */
 
 import { INITIAL_RISK_STATE, RiskOfficerState } from '../services/riskOfficer';
-import { JournalEntry, Position, TradeSignal } from '../types';
+import { DEFAULT_RISK_POLICIES, DEFAULT_RISK_POLICY_ID, RiskPolicy } from '../services/riskPolicy';
+import { DEFAULT_SYMBOL, isSupportedSymbol } from '../services/symbolRegistry';
+import { DEFAULT_STRATEGY_ID, StrategyState } from '../services/strategyRegistry';
+import { JournalEntry, PendingOrder, Position, TradeSignal } from '../types';
 
 // Current schema version - increment when adding migrations
-export const CURRENT_STATE_VERSION = 2;
+export const CURRENT_STATE_VERSION = 7;
 
 // Storage key for the app
 export const STORAGE_KEY = 'ipcha-mistabra-storage';
@@ -18,17 +21,23 @@ export const STORAGE_KEY = 'ipcha-mistabra-storage';
  * Persisted state shape (what gets saved to localStorage)
  */
 export interface PersistedState {
+  activeSymbol: string;
   balance: number;
   positions: Position[];
+  pendingOrders: PendingOrder[];
   journal: JournalEntry[];
   signals: TradeSignal[];
   activeTradeSetup: Partial<Position> | null;
   riskOfficer: RiskOfficerState;
+  riskPolicies: RiskPolicy[];
+  activeRiskPolicyId: string;
   dailyLossLimit: number;
   dailyPnL: number;
   lastResetDate: string;
   isCircuitBreakerTripped: boolean;
   executionSide: 'LONG' | 'SHORT';
+  enabledStrategyIds: string[];
+  strategyStates: Record<string, StrategyState>;
   confluenceWeights?: {
     technical: number;
     volatility: number;
@@ -73,6 +82,45 @@ const migrations: Record<number, MigrationFn> = {
       // Ensure riskOfficer exists
       riskOfficer: state.riskOfficer || INITIAL_RISK_STATE
     };
+  },
+  // v2 -> v3: Multi-symbol support - persisted signals were all BTCUSDT
+  3: (state: any) => {
+    return {
+      ...state,
+      activeSymbol: isSupportedSymbol(state.activeSymbol) ? state.activeSymbol : DEFAULT_SYMBOL
+    };
+  },
+  // v3 -> v4: Resting entry orders (limit / stop / ladder)
+  4: (state: any) => {
+    return {
+      ...state,
+      pendingOrders: Array.isArray(state.pendingOrders) ? state.pendingOrders : []
+    };
+  },
+  // v4 -> v5: Risk policy profiles (previously hard-coded limits = STANDARD)
+  5: (state: any) => {
+    return {
+      ...state,
+      riskPolicies: Array.isArray(state.riskPolicies) ? state.riskPolicies : DEFAULT_RISK_POLICIES,
+      activeRiskPolicyId: state.activeRiskPolicyId || DEFAULT_RISK_POLICY_ID
+    };
+  },
+  // v5 -> v6: Loss streak and weekly high-water mark tracking in riskOfficer
+  6: (state: any) => {
+    return {
+      ...state,
+      riskOfficer: { ...INITIAL_RISK_STATE, ...state.riskOfficer }
+    };
+  },
+  // v6 -> v7: Side-by-side strategies (existing learning state stays with the default strategy)
+  7: (state: any) => {
+    return {
+      ...state,
+      enabledStrategyIds: Array.isArray(state.enabledStrategyIds) && state.enabledStrategyIds.length > 0
+        ? state.enabledStrategyIds
+        : [DEFAULT_STRATEGY_ID],
+      strategyStates: state.strategyStates && typeof state.strategyStates === 'object' ? state.strategyStates : {}
+    };
   }
 };
 
@@ -181,17 +229,23 @@ export function validatePersistedState(state: any): { valid: boolean; errors: st
  */
 export function getDefaultPersistedState(): PersistedState {
   return {
+    activeSymbol: DEFAULT_SYMBOL,
     balance: 50000,
     positions: [],
+    pendingOrders: [],
     journal: [],
     signals: [],
     activeTradeSetup: null,
     riskOfficer: INITIAL_RISK_STATE,
+    riskPolicies: DEFAULT_RISK_POLICIES,
+    activeRiskPolicyId: DEFAULT_RISK_POLICY_ID,
     dailyLossLimit: 2500,
     dailyPnL: 0,
     lastResetDate: new Date().toISOString().split('T')[0],
     isCircuitBreakerTripped: false,
     executionSide: 'LONG',
+    enabledStrategyIds: [DEFAULT_STRATEGY_ID],
+    strategyStates: {},
     confluenceWeights: {
       technical: 10,
       volatility: 5,
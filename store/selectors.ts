@@ -7,6 +7,22 @@
 import { useStore } from './useStore';
 import { useShallow } from 'zustand/react/shallow';
 
+// ============== SYMBOL SELECTORS ==============
+
+export const useActiveSymbol = () => useStore(state => state.activeSymbol);
+
+export const useSymbolPicker = () => useStore(
+  useShallow(state => ({
+    activeSymbol: state.activeSymbol,
+    watchedSymbols: state.watchedSymbols,
+    setActiveSymbol: state.setActiveSymbol,
+  }))
+);
+
+export const useSymbolMarket = (symbol: string) => useStore(
+  state => state.marketBySymbol[symbol]
+);
+
 // ============== PRICE SELECTORS ==============
 
 export const usePrice = () => useStore(state => state.price);
@@ -23,6 +39,7 @@ export const usePriceData = () => useStore(
 
 export const useSignals = () => useStore(state => state.signals);
 export const useIsScanning = () => useStore(state => state.isScanning);
+export const useIsReplaying = () => useStore(state => state.isReplaying);
 
 export const useSignalsData = () => useStore(
   useShallow(state => ({
@@ -122,7 +139,7 @@ export const usePositionsWithActions = () => useStore(
     positions: state.positions,
     price: state.price,
     closePosition: state.closePosition,
-    addJournalEntry: state.addJournalEntry,
+    recordTradeClose: state.recordTradeClose,
   }))
 );
 
@@ -195,4 +212,5 @@ export const useSetSignals = () => useStore(state => state.setSignals);
 export const useSetTechnicals = () => useStore(state => state.setTechnicals);
 export const useSetChartData = () => useStore(state => state.setChartData);
 export const useSetTimeframe = () => useStore(state => state.setTimeframe);
+export const useSetActiveSymbol = () => useStore(state => state.setActiveSymbol);
 export const useUpdateFeedStatus = () => useStore(state => state.updateFeedStatus);
@@ -4,6 +4,7 @@ import {
   ChartDataPoint,
   TradeSignal,
   Position,
+  PendingOrder,
   JournalEntry,
   AgentState,
   AgentRole,
@@ -18,7 +19,11 @@ import {
 import { AggrStats } from '../types/aggrTypes';
 import { EnhancedBTCMetrics } from '../services/macroDataService';
 import { FeedState, getInitialFeedState } from '../services/feedRegistry';
-import { RiskOfficerState, INITIAL_RISK_STATE } from '../services/riskOfficer';
+import { DEFAULT_SYMBOL, SUPPORTED_SYMBOLS, isSupportedSymbol } from '../services/symbolRegistry';
+import { RiskOfficerState, INITIAL_RISK_STATE, applyTradeResult } from '../services/riskOfficer';
+import { RiskPolicy, DEFAULT_RISK_POLICIES, DEFAULT_RISK_POLICY_ID, getActiveRiskPolicy } from '../services/riskPolicy';
+import { logSettingChange, logRiskAlert } from '../services/audit/auditLogger';
+import { DEFAULT_STRATEGY_ID, EMPTY_STRATEGY_STATE, StrategyState, getStrategy, getStrategyState } from '../services/strategyRegistry';
 import {
   CURRENT_STATE_VERSION,
   STORAGE_KEY,
@@ -124,7 +129,74 @@ const defaultEnhancedMetrics: EnhancedBTCMetrics = {
   btcDominance: 0
 };
 
+const defaultTechnicals = {
+  rsi: 0,
+  macd: { histogram: 0, signal: 0, macd: 0 },
+  adx: 0,
+  atr: 0,
+  trend: 'NEUTRAL'
+};
+
+/**
+ * Market data cached per symbol.
+ * The top-level price/chartData/technicals/orderFlowStats/signals fields always mirror
+ * the active symbol so existing consumers keep working unchanged.
+ */
+export interface SymbolMarketState {
+  price: number;
+  priceChange: number;
+  lastPriceUpdate: number;
+  chartData: ChartDataPoint[];
+  technicals: MarketState['technicals'];
+  orderFlowStats: AggrStats | null;
+  orderFlowLastUpdate: number;
+  signals: TradeSignal[];
+}
+
+export const createEmptySymbolMarketState = (): SymbolMarketState => ({
+  price: 0,
+  priceChange: 0,
+  lastPriceUpdate: 0,
+  chartData: [],
+  technicals: { ...defaultTechnicals, macd: { ...defaultTechnicals.macd } },
+  orderFlowStats: null,
+  orderFlowLastUpdate: 0,
+  signals: []
+});
+
+const SYMBOL_MARKET_KEYS: (keyof SymbolMarketState)[] = [
+  'price', 'priceChange', 'lastPriceUpdate', 'chartData', 'technicals',
+  'orderFlowStats', 'orderFlowLastUpdate', 'signals'
+];
+
+// Pick the symbol-scoped fields out of a top-level state update
+const pickSymbolFields = (update: Record<string, any>): Partial<SymbolMarketState> => {
+  const picked: Record<string, any> = {};
+  for (const key of SYMBOL_MARKET_KEYS) {
+    if (key in update) picked[key] = update[key];
+  }
+  return picked as Partial<SymbolMarketState>;
+};
+
+// Merge a top-level update for the active symbol into its marketBySymbol entry
+const withSymbolMirror = <T extends Record<string, any>>(state: AppState, update: T) => {
+  const symbolFields = pickSymbolFields(update);
+  if (Object.keys(symbolFields).length === 0) return update;
+  const current = state.marketBySymbol[state.activeSymbol] || createEmptySymbolMarketState();
+  return {
+    ...update,
+    marketBySymbol: {
+      ...state.marketBySymbol,
+      [state.activeSymbol]: { ...current, ...symbolFields }
+    }
+  };
+};
+
 interface MarketState {
+  // Multi-symbol: active pair + per-symbol cache
+  activeSymbol: string;
+  watchedSymbols: string[];
+  marketBySymbol: Record<string, SymbolMarketState>;
   price: number;
   priceChange: number;
   vix: number;
@@ -148,6 +220,7 @@ interface MarketState {
   signals: TradeSignal[];
   lastSignalBar: number; // Tracks last bar where signal was generated (for cooldown)
   isScanning: boolean;
+  isReplaying: boolean; // Tape replay owns price, chart and order flow; live feeds stand down
   timeframe: string;
   technicals: {
     rsi: number;
@@ -167,6 +240,9 @@ interface MarketState {
   signalHistory: SignalHistoryState;
   patternLearning: PatternLearningState;
   tacticalConfig: TacticalConfigV33;
+  // Strategies run side by side; the default strategy uses the three fields above
+  enabledStrategyIds: string[];
+  strategyStates: Record<string, StrategyState>;
   // UNIFIED: Order Flow Stats (Single Source of Truth)
   orderFlowStats: AggrStats | null;
   orderFlowLastUpdate: number;
@@ -175,6 +251,7 @@ interface MarketState {
 interface UserState {
   balance: number;
   positions: Position[];
+  pendingOrders: PendingOrder[]; // Resting limit / stop / ladder entries
   journal: JournalEntry[];
   activeTradeSetup: Partial<Position> | null;
   executionSide: 'LONG' | 'SHORT';
@@ -184,6 +261,9 @@ interface UserState {
   isCircuitBreakerTripped: boolean; // Trading halted if true
   // Risk Officer State
   riskOfficer: RiskOfficerState;
+  // Risk policy profiles (persisted, every change audit-logged)
+  riskPolicies: RiskPolicy[];
+  activeRiskPolicyId: string;
   // Confluence Weights (persisted user preference)
   confluenceWeights: ConfluenceWeights;
 }
@@ -196,6 +276,8 @@ interface AgentSwarmState {
 
 export interface AppState extends MarketState, UserState, AgentSwarmState {
   // Actions
+  setActiveSymbol: (symbol: string) => void;
+  setSymbolMarketData: (symbol: string, data: Partial<SymbolMarketState>) => void;
   setMarketMetrics: (metrics: Partial<MarketState>) => void;
   setPrice: (price: number) => void;
   setPriceChange: (change: number) => void;
@@ -203,6 +285,7 @@ export interface AppState extends MarketState, UserState, AgentSwarmState {
   setSignals: (signals: TradeSignal[]) => void;
   setLastSignalBar: (bar: number) => void;
   setIsScanning: (isScanning: boolean) => void;
+  setIsReplaying: (isReplaying: boolean) => void;
   setTimeframe: (timeframe: string) => void;
   setTechnicals: (technicals: AppState['technicals']) => void;
   setLatestAnalysis: (analysis: string) => void;
@@ -220,6 +303,9 @@ export interface AppState extends MarketState, UserState, AgentSwarmState {
   setSignalHistory: (history: SignalHistoryState) => void;
   setPatternLearning: (learning: PatternLearningState) => void;
   setTacticalConfig: (config: Partial<TacticalConfigV33>) => void;
+  setEnabledStrategies: (ids: string[]) => void;
+  updateStrategyState: (id: string, patch: Partial<StrategyState>) => void;
+  applyStrategyConfig: (id: string, patch: Partial<TacticalConfigV33>) => void;
 
   // Phase 2: Live Trading (Testnet)
   isLiveMode: boolean;
@@ -228,8 +314,13 @@ export interface AppState extends MarketState, UserState, AgentSwarmState {
   updateBalance: (amount: number) => void;
   addPosition: (position: Position) => void;
   closePosition: (id: string, pnl: number) => void;
+  closePartialPosition: (id: string, size: number, pnl: number, patch?: Partial<Position>) => void;
   updatePositionPnl: (id: string, pnl: number, pnlPercent: number) => void;
+  addPendingOrders: (orders: PendingOrder[]) => void;
+  updatePendingOrder: (id: string, patch: Partial<PendingOrder>) => void;
+  removePendingOrder: (id: string) => void;
   addJournalEntry: (entry: JournalEntry) => void;
+  recordTradeClose: (entry: JournalEntry) => void;
   setDailyLossLimit: (limit: number) => void;
   resetDailyPnL: () => void;
   checkCircuitBreaker: () => boolean;
@@ -237,6 +328,12 @@ export interface AppState extends MarketState, UserState, AgentSwarmState {
   // Risk Officer Actions
   setRiskOfficerState: (state: Partial<RiskOfficerState>) => void;
 
+  // Risk Policy Actions
+  setActiveRiskPolicy: (id: string) => void;
+  updateRiskPolicy: (id: string, patch: Partial<Omit<RiskPolicy, 'id' | 'builtIn'>>) => void;
+  createRiskPolicy: (name: string, basedOnId: string) => string;
+  deleteRiskPolicy: (id: string) => void;
+
   // Confluence Weights Actions
   setConfluenceWeights: (weights: Partial<ConfluenceWeights>) => void;
 
@@ -255,6 +352,11 @@ export const useStore = create<AppState>()(
 
     (set, get) => ({
       // Market State (NOT PERSISTED - always fresh from API)
+      activeSymbol: DEFAULT_SYMBOL,
+      watchedSymbols: [...SUPPORTED_SYMBOLS],
+      marketBySymbol: Object.fromEntries(
+        SUPPORTED_SYMBOLS.map(symbol => [symbol, createEmptySymbolMarketState()])
+      ),
       price: 0,
       priceChange: 0,
       vix: 0,
@@ -267,8 +369,9 @@ export const useStore = create<AppState>()(
       trends: { price: 'neutral', vix: 'neutral', btcd: 'neutral', sentiment: 'neutral' },
       chartData: [],
       isScanning: false,
+      isReplaying: false,
       timeframe: '15m',
-      technicals: { rsi: 0, macd: { histogram: 0, signal: 0, macd: 0 }, adx: 0, atr: 0, trend: 'NEUTRAL' },
+      technicals: defaultTechnicals,
       latestAnalysis: "",
       lastMacroUpdate: 0,
       lastPriceUpdate: 0,
@@ -278,6 +381,8 @@ export const useStore = create<AppState>()(
       signalHistory: EMPTY_SIGNAL_HISTORY,
       patternLearning: EMPTY_PATTERN_LEARNING,
       tacticalConfig: DEFAULT_CONFIG_V33,
+      enabledStrategyIds: [DEFAULT_STRATEGY_ID],
+      strategyStates: {},
       // UNIFIED: Order Flow Stats (Single Source of Truth)
       orderFlowStats: null,
       orderFlowLastUpdate: 0,
@@ -285,6 +390,7 @@ export const useStore = create<AppState>()(
       // User State (PERSISTED - survives refresh)
       balance: 50000,
       positions: [],
+      pendingOrders: [],
       journal: [],
       signals: [],
       lastSignalBar: -999, // Initialize signal bar tracking
@@ -295,6 +401,8 @@ export const useStore = create<AppState>()(
       lastResetDate: new Date().toISOString().split('T')[0], // YYYY-MM-DD
       isCircuitBreakerTripped: false,
       riskOfficer: INITIAL_RISK_STATE,
+      riskPolicies: DEFAULT_RISK_POLICIES,
+      activeRiskPolicyId: DEFAULT_RISK_POLICY_ID,
       confluenceWeights: { ...DEFAULT_CONFLUENCE_WEIGHTS },
 
       // Phase 2: Live Trading (Testnet)
@@ -312,15 +420,56 @@ export const useStore = create<AppState>()(
       councilLogs: [],
 
       // Actions
-      setMarketMetrics: (metrics) => set((state) => ({ ...state, ...metrics, lastMacroUpdate: Date.now() })),
-      setPrice: (price) => set({ price, lastPriceUpdate: Date.now() }),
-      setPriceChange: (priceChange) => set({ priceChange }),
-      setChartData: (data) => set({ chartData: data }),
-      setSignals: (signals) => set({ signals }),
+      setActiveSymbol: (symbol) => {
+        const state = get();
+        if (!isSupportedSymbol(symbol)) {
+          console.warn(`[Store] Unsupported symbol: ${symbol}`);
+          return;
+        }
+        if (symbol === state.activeSymbol) return;
+
+        // Snapshot the outgoing symbol, then swap in the cached state of the new one
+        const outgoing: SymbolMarketState = {
+          price: state.price,
+          priceChange: state.priceChange,
+          lastPriceUpdate: state.lastPriceUpdate,
+          chartData: state.chartData,
+          technicals: state.technicals,
+          orderFlowStats: state.orderFlowStats,
+          orderFlowLastUpdate: state.orderFlowLastUpdate,
+          signals: state.signals
+        };
+        const incoming = state.marketBySymbol[symbol] || createEmptySymbolMarketState();
+
+        console.log(`[Store] Active symbol: ${state.activeSymbol} -> ${symbol}`);
+        set({
+          activeSymbol: symbol,
+          marketBySymbol: { ...state.marketBySymbol, [state.activeSymbol]: outgoing, [symbol]: incoming },
+          ...incoming,
+          // Cooldown bar index belongs to the previous symbol's chart
+          lastSignalBar: -999
+        });
+      },
+      setSymbolMarketData: (symbol, data) => set((state) => {
+        const current = state.marketBySymbol[symbol] || createEmptySymbolMarketState();
+        const marketBySymbol = { ...state.marketBySymbol, [symbol]: { ...current, ...data } };
+        // Only the active symbol is mirrored to the top-level fields
+        return symbol === state.activeSymbol ? { marketBySymbol, ...data } : { marketBySymbol };
+      }),
+      setMarketMetrics: (metrics) => set((state) => ({
+        ...state,
+        ...withSymbolMirror(state, metrics),
+        lastMacroUpdate: Date.now()
+      })),
+      setPrice: (price) => set((state) => withSymbolMirror(state, { price, lastPriceUpdate: Date.now() })),
+      setPriceChange: (priceChange) => set((state) => withSymbolMirror(state, { priceChange })),
+      setChartData: (data) => set((state) => withSymbolMirror(state, { chartData: data })),
+      setSignals: (signals) => set((state) => withSymbolMirror(state, { signals })),
       setLastSignalBar: (lastSignalBar) => set({ lastSignalBar }),
       setIsScanning: (isScanning) => set({ isScanning }),
+      setIsReplaying: (isReplaying) => set({ isReplaying }),
       setTimeframe: (timeframe) => set({ timeframe }),
-      setTechnicals: (technicals) => set({ technicals }),
+      setTechnicals: (technicals) => set((state) => withSymbolMirror(state, { technicals })),
       setLatestAnalysis: (latestAnalysis) => set({ latestAnalysis }),
       setActiveTradeSetup: (setup) => set({ activeTradeSetup: setup }),
       setExecutionSide: (side) => set({ executionSide: side }),
@@ -334,10 +483,14 @@ export const useStore = create<AppState>()(
       })),
 
       // UNIFIED: Order Flow Stats (Single Source of Truth)
-      setOrderFlowStats: (stats) => set({
-        orderFlowStats: stats,
-        orderFlowLastUpdate: Date.now()
-      }),
+      // Stats tagged with another symbol (in-flight when the user switched) only update that symbol's cache
+      setOrderFlowStats: (stats) => {
+        const symbol = stats?.symbol || get().activeSymbol;
+        get().setSymbolMarketData(symbol, {
+          orderFlowStats: stats,
+          orderFlowLastUpdate: Date.now()
+        });
+      },
 
       // V3.3.1: Pattern Learning Actions
       setSignalHistory: (signalHistory) => set({ signalHistory }),
@@ -345,6 +498,39 @@ export const useStore = create<AppState>()(
       setTacticalConfig: (config) => set((state) => ({
         tacticalConfig: { ...state.tacticalConfig, ...config }
       })),
+      setEnabledStrategies: (ids) => {
+        const enabledStrategyIds = [...new Set(ids)].filter(id => getStrategy(id));
+        if (enabledStrategyIds.length === 0) return; // Always keep one strategy running
+        set({ enabledStrategyIds });
+      },
+      updateStrategyState: (id, patch) => set((state) => {
+        if (id === DEFAULT_STRATEGY_ID) {
+          return {
+            ...(patch.config && { tacticalConfig: { ...state.tacticalConfig, ...patch.config } }),
+            ...(patch.signalHistory && { signalHistory: patch.signalHistory }),
+            ...(patch.patternLearning && { patternLearning: patch.patternLearning })
+          };
+        }
+        const current = state.strategyStates[id] ?? EMPTY_STRATEGY_STATE;
+        return {
+          strategyStates: {
+            ...state.strategyStates,
+            [id]: { ...current, ...patch, config: { ...current.config, ...patch.config } }
+          }
+        };
+      }),
+      applyStrategyConfig: (id, patch) => {
+        const current = getStrategyState(get(), id).config;
+        const defaults = getStrategy(id)?.defaultConfig;
+        // One audit entry per changed field, as for risk policies
+        (Object.keys(patch) as (keyof TacticalConfigV33)[]).forEach((key) => {
+          const previous = current[key] ?? defaults?.[key];
+          if (patch[key] !== undefined && patch[key] !== previous) {
+            logSettingChange(`strategy.${id}.${key}`, previous, patch[key]);
+          }
+        });
+        get().updateStrategyState(id, { config: patch });
+      },
 
       setIsLiveMode: (isLiveMode) => {
         const state = get();
@@ -386,14 +572,56 @@ export const useStore = create<AppState>()(
           isCircuitBreakerTripped: isTripped
         };
       }),
+      // Books one scale-out slice; the rest of the position stays open
+      closePartialPosition: (id, size, pnl, patch) => set((state) => {
+        const newDailyPnL = state.dailyPnL + pnl;
+
+        return {
+          positions: state.positions.map((p) =>
+            p.id === id
+              ? { ...p, ...patch, size: Math.max(0, p.size - size), realizedPnl: (p.realizedPnl || 0) + pnl }
+              : p
+          ),
+          balance: state.balance + pnl,
+          dailyPnL: newDailyPnL,
+          isCircuitBreakerTripped: newDailyPnL <= -state.dailyLossLimit
+        };
+      }),
       updatePositionPnl: (id, pnl, pnlPercent) => set((state) => ({
         positions: state.positions.map((p) =>
           p.id === id ? { ...p, pnl, pnlPercent } : p
         )
       })),
+      addPendingOrders: (orders) => set((state) => ({ pendingOrders: [...orders, ...state.pendingOrders] })),
+      updatePendingOrder: (id, patch) => set((state) => ({
+        pendingOrders: state.pendingOrders.map((o) =>
+          o.id === id ? { ...o, ...patch } : o
+        )
+      })),
+      removePendingOrder: (id) => set((state) => ({
+        pendingOrders: state.pendingOrders.filter((o) => o.id !== id)
+      })),
       addJournalEntry: (entry) => set((state) => ({
         journal: [normalizeJournalEntry(entry), ...state.journal.map(normalizeJournalEntry)]
       })),
+      recordTradeClose: (entry) => {
+        // Only real closes drive loss streaks and automatic cooldowns - manual journal notes don't
+        get().addJournalEntry(entry);
+        const state = get();
+        const normalized = state.journal[0];
+        // A partial take-profit is one slice of a trade, so it neither ends nor extends a loss streak
+        const isPartial = normalized.tags.includes('PARTIAL');
+        const { state: riskOfficer, started } = applyTradeResult(
+          state.riskOfficer,
+          { result: isPartial ? 'BE' : normalized.result || 'BE', pnl: normalized.pnl || 0 },
+          { balance: state.balance, dailyPnL: state.dailyPnL, dailyLossLimit: state.dailyLossLimit, journal: state.journal },
+          getActiveRiskPolicy(state.riskPolicies, state.activeRiskPolicyId)
+        );
+        set({ riskOfficer });
+        if (started) {
+          logRiskAlert('COOLDOWN_STARTED', 'HIGH', { reason: started.reason, endsAt: started.endsAt });
+        }
+      },
       setDailyLossLimit: (limit) => set({ dailyLossLimit: limit }),
       resetDailyPnL: () => set({
         dailyPnL: 0,
@@ -428,6 +656,44 @@ export const useStore = create<AppState>()(
         riskOfficer: { ...state.riskOfficer, ...riskState }
       })),
 
+      setActiveRiskPolicy: (id) => {
+        const { activeRiskPolicyId, riskPolicies } = get();
+        if (id === activeRiskPolicyId || !riskPolicies.some(p => p.id === id)) return;
+        logSettingChange('riskPolicy.active', activeRiskPolicyId, id);
+        set({ activeRiskPolicyId: id });
+      },
+      updateRiskPolicy: (id, patch) => {
+        const policy = get().riskPolicies.find(p => p.id === id);
+        if (!policy) return;
+        // One audit entry per changed field
+        (Object.keys(patch) as (keyof typeof patch)[]).forEach((key) => {
+          if (patch[key] !== undefined && patch[key] !== policy[key]) {
+            logSettingChange(`riskPolicy.${id}.${key}`, policy[key], patch[key]);
+          }
+        });
+        set((state) => ({
+          riskPolicies: state.riskPolicies.map(p => p.id === id ? { ...p, ...patch } : p)
+        }));
+      },
+      createRiskPolicy: (name, basedOnId) => {
+        const { riskPolicies } = get();
+        const base = riskPolicies.find(p => p.id === basedOnId) || riskPolicies[0];
+        const policy: RiskPolicy = { ...base, id: `policy-${Date.now()}`, name, builtIn: false };
+        logSettingChange('riskPolicy.created', null, policy);
+        set({ riskPolicies: [...riskPolicies, policy] });
+        return policy.id;
+      },
+      deleteRiskPolicy: (id) => {
+        const { riskPolicies, activeRiskPolicyId } = get();
+        const policy = riskPolicies.find(p => p.id === id);
+        if (!policy || policy.builtIn) return;
+        logSettingChange('riskPolicy.deleted', policy, null);
+        set({
+          riskPolicies: riskPolicies.filter(p => p.id !== id),
+          activeRiskPolicyId: activeRiskPolicyId === id ? DEFAULT_RISK_POLICY_ID : activeRiskPolicyId
+        });
+      },
+
       setConfluenceWeights: (weights) => set((state) => {
         const newWeights = { ...state.confluenceWeights, ...weights };
         // Sync with global confluence engine
@@ -576,12 +842,16 @@ export const useStore = create<AppState>()(
       },
       // Persist critical user data (not live market data)
       partialize: (state) => ({
+        activeSymbol: state.activeSymbol,
         balance: state.balance,
         positions: state.positions,
+        pendingOrders: state.pendingOrders,
         journal: state.journal,
         signals: state.signals,
         activeTradeSetup: state.activeTradeSetup,
         riskOfficer: state.riskOfficer,
+        riskPolicies: state.riskPolicies,
+        activeRiskPolicyId: state.activeRiskPolicyId,
         confluenceWeights: state.confluenceWeights,
         dailyLossLimit: state.dailyLossLimit,
         dailyPnL: state.dailyPnL,
@@ -591,7 +861,9 @@ export const useStore = create<AppState>()(
         // V3.3.1: Pattern Learning (persisted)
         signalHistory: state.signalHistory,
         patternLearning: state.patternLearning,
-        tacticalConfig: state.tacticalConfig
+        tacticalConfig: state.tacticalConfig,
+        enabledStrategyIds: state.enabledStrategyIds,
+        strategyStates: state.strategyStates
       }),
       // Sync confluence weights on rehydrate
       onRehydrateStorage: () => (state) => {
@@ -57,6 +57,7 @@ export interface TradeSignal {
   source: 'tactical' | 'ai' | 'hybrid'; // Where signal originated
   approvalStatus: 'active' | 'pending_review'; // Human approval status
   approvedAt?: number; // Timestamp of human approval
+  strategyId?: string; // Registered strategy that produced a tactical signal (see strategyRegistry)
   // Stage 2: Transparent AI
   consensus?: {
     votes: AgentVote[];
@@ -121,6 +122,50 @@ export interface Position {
   pnl: number; // Unrealized PnL USD
   pnlPercent: number;
   timestamp: number;
+  fees?: number; // Commission paid so far (USD), from exchange fills
+  exchangeOrderId?: string; // Live mode: exchange id of the entry order
+  targetLevels?: TargetLevel[]; // Multi-target plan from the originating signal
+  bracket?: ExchangeBracket; // Live mode: exchange-native stop / take-profit orders
+  realizedPnl?: number; // Booked by partial take-profits so far (USD)
+  funding?: number; // Paper mode: cumulative funding paid (+) / received (-) USD
+  signalId?: string; // Originating signal, if the trade came from one
+  entrySize?: number; // Filled size before any partial take-profit (targets are sized off this)
+  trailingStopActive?: boolean; // Stop is trailing price by ATR after the configured target
+}
+
+/**
+ * Exchange-side protection attached after a live entry fills
+ */
+export interface ExchangeBracket {
+  stopOrderId: string;
+  stopPrice: number;
+  entrySize: number; // Filled entry size the bracket was sized for
+  takeProfitOrderIds: (string | null)[]; // Aligned with targetLevels; null = placement failed
+  breakevenApplied: boolean;
+}
+
+/**
+ * Resting entry order: limit at the zone edge, stop entry on breakout, or one rung of a ladder.
+ * Becomes a Position when it fills.
+ */
+export interface PendingOrder {
+  id: string; // Also the exchange newClientOrderId and the resulting position id
+  pair: string;
+  type: 'LONG' | 'SHORT';
+  orderType: 'LIMIT' | 'STOP';
+  price: number; // Limit price, or trigger price for stop entries
+  size: number;
+  leverage: number;
+  stopLoss: number;
+  takeProfit: number;
+  targetLevels?: TargetLevel[];
+  signalId?: string; // Cancelled when this signal is invalidated or expires
+  ladderId?: string; // Shared by the rungs of one scaled entry
+  expiresAt: number | null; // null = good till cancelled
+  mode: 'PAPER' | 'LIVE';
+  status: 'WORKING' | 'TRIGGERED';
+  exchangeOrderId?: string; // Live mode only
+  createdAt: number;
 }
 
 export interface JournalEntry {
@@ -341,6 +386,12 @@ export interface TacticalConfigV33 {
   useStructureLevels: boolean;
   srProximityThreshold: number;
 
+  // Multi-timeframe confluence
+  useHigherTimeframes: boolean;
+  htfTrendGate: boolean;       // Reject signals against any higher-timeframe trend
+  htfAlignmentBoost: number;   // Confidence points per higher timeframe trending with the signal
+  htfOpposedPenalty: number;   // Confidence points per opposed higher timeframe (gate off)
+
   // V3.3.1: Asset-specific session handling
   assetType: 'CRYPTO' | 'FX' | 'STOCKS';
   disableWeekendPenalty: boolean;
@@ -403,6 +454,11 @@ export const DEFAULT_CONFIG_V33: TacticalConfigV33 = {
   useStructureLevels: true,
   srProximityThreshold: 0.3,
 
+  useHigherTimeframes: true,
+  htfTrendGate: true,
+  htfAlignmentBoost: 4,
+  htfOpposedPenalty: 8,
+
   assetType: 'CRYPTO',
   disableWeekendPenalty: true,
   disableSessionPenalty: true
@@ -447,6 +503,9 @@ export interface EnhancedTradeSignal extends TradeSignal {
   nearestResistance: number | null;
   nearestSupport: number | null;
 
+  // Higher-timeframe trends the signal was scored against
+  higherTimeframes?: HigherTimeframeTrend[];
+
   // Partial fill tracking
   positionRemaining: number;
   realizedPnL: number;
@@ -605,7 +664,38 @@ export interface StructureLevel {
   type: 'SUPPORT' | 'RESISTANCE';
   strength: number;
   lastTouchTime: number;
-  source: 'SWING' | 'VOLUME_PROFILE' | 'ROUND_NUMBER' | 'PREVIOUS_TP_SL';
+  source: 'SWING' | 'VOLUME_PROFILE' | 'VWAP' | 'ROUND_NUMBER' | 'PREVIOUS_TP_SL';
+  timeframe?: string; // Set when the level comes from a higher timeframe
+}
+
+// ============================================================================
+// HIGHER TIMEFRAME TYPES
+// ============================================================================
+
+/**
+ * Candles for one higher timeframe, passed alongside the trading timeframe's chartData
+ */
+export interface HigherTimeframeData {
+  timeframe: string; // e.g. '1h', '4h'
+  chartData: ChartDataPoint[];
+}
+
+/**
+ * Trend read of one higher timeframe and how it scored against the signal direction
+ */
+export interface HigherTimeframeTrend {
+  timeframe: string;
+  direction: 'UP' | 'DOWN' | 'NEUTRAL';
+  emaFast: number;
+  emaSlow: number;
+  alignment: 'ALIGNED' | 'OPPOSED' | 'NEUTRAL';
+  confidenceAdjustment: number;
+}
+
+export interface HigherTimeframeAnalysis {
+  trends: HigherTimeframeTrend[];
+  confidenceAdjustment: number;
+  gated: boolean; // Signal was rejected by the HTF trend gate
 }
 
 // ============================================================================
@@ -706,6 +796,10 @@ export interface OrderFlowScore {
   absorptionSide: 'BUY' | 'SELL' | null;
   liquidationCascade: boolean;
   cascadeSide: 'LONG_LIQS' | 'SHORT_LIQS' | null;
+  stackedImbalanceSide: 'BUY' | 'SELL' | null;
+  pocBias: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+  liquidationMagnet: 'ABOVE' | 'BELOW' | null;
+  magnetPrice: number | null;
   signalStrength: number;
 }
 
@@ -783,6 +877,8 @@ export interface TacticalResultV33 {
     patternWinRate: number | null;
   };
 
+  higherTimeframeAnalysis: HigherTimeframeAnalysis;
+
   regime: string;
   reasoning: string[];
   updatedHistory: SignalHistoryState;
@@ -118,6 +118,15 @@ export interface AggrStats {
 
   // Data Freshness Timestamp
   lastUpdate?: number; // Unix timestamp of last data update
+
+  // Symbol the stats were aggregated for (e.g. 'ETHUSDT'); absent = active symbol
+  symbol?: string;
+
+  // Volume-at-price features over the last few minutes of trades
+  footprint?: FootprintFeatures;
+
+  // Estimated liquidation clusters ahead of price (from OI history)
+  liquidationMagnets?: Pick<LiquidationMap, 'timestamp' | 'magnetAbove' | 'magnetBelow'>;
 }
 
 export interface CascadeEvent {
@@ -129,3 +138,118 @@ export interface CascadeEvent {
   priceImpact: number; // % price moved
   severity: 'minor' | 'moderate' | 'major' | 'extreme';
 }
+
+// ============================================================================
+// ORDER BOOK (L2) - maintained by the data processor worker
+// ============================================================================
+
+export interface LiquidityBand {
+  price: number; // Lower edge of the band
+  bidUsd: number;
+  askUsd: number;
+}
+
+export interface OrderBookWall {
+  exchange: string;
+  side: 'bid' | 'ask';
+  price: number;
+  sizeUsd: number;
+  since: number; // When the wall first appeared
+}
+
+export interface SpoofEvent {
+  exchange: string;
+  side: 'bid' | 'ask';
+  price: number;
+  sizeUsd: number;
+  appearedAt: number;
+  pulledAt: number;
+  distancePercent: number; // Distance from mid when pulled
+}
+
+export interface OrderBookStats {
+  symbol: string;
+  timestamp: number;
+  exchanges: string[]; // Books currently in sync
+  midPrice: number;
+  spreadPercent: number;
+  bidDepthUsd: number; // Resting bids within the analysis range of mid
+  askDepthUsd: number;
+  imbalance: number; // (bid - ask) / (bid + ask) near the touch, -1..1
+  bandSize: number;
+  bands: LiquidityBand[]; // Ascending by price
+  walls: OrderBookWall[];
+  spoofEvents: SpoofEvent[]; // Walls pulled before price reached them, most recent last
+}
+
+export interface FootprintLevel {
+  price: number; // Lower edge of the tick
+  buyVolume: number; // Aggressive buys (USD)
+  sellVolume: number; // Aggressive sells (USD)
+}
+
+export interface StackedImbalance {
+  side: 'buy' | 'sell';
+  fromPrice: number;
+  toPrice: number;
+  levels: number; // Consecutive imbalanced ticks
+}
+
+export interface FootprintCandle {
+  time: number; // Bar open (ms)
+  tickSize: number;
+  levels: FootprintLevel[]; // Ascending by price
+  buyVolume: number;
+  sellVolume: number;
+  delta: number;
+  poc: number; // Price level with the most traded volume
+  stackedImbalances: StackedImbalance[];
+}
+
+export interface FootprintFeatures {
+  windowMs: number; // Trades covered, ending now
+  delta: number;
+  deltaPercent: number; // delta / total volume, -1..1
+  poc: number;
+  pocPosition: number; // 0 = POC at the low of the window's range, 1 = at the high
+  buyStacks: number; // Stacked buy imbalances in the window
+  sellStacks: number;
+}
+
+export interface LiquidationBin {
+  price: number; // Lower edge of the bin
+  longUsd: number; // Estimated long liquidations resting here (below entry)
+  shortUsd: number; // Estimated short liquidations resting here (above entry)
+}
+
+export interface LiquidationMagnet {
+  price: number; // Bin centre
+  usd: number;
+}
+
+export interface LiquidationMap {
+  symbol: string;
+  timestamp: number;
+  referencePrice: number; // Last price the estimate was built at
+  binSize: number;
+  bins: LiquidationBin[]; // Ascending by price
+  magnetAbove: LiquidationMagnet | null; // Largest short-liquidation cluster above price, within reach
+  magnetBelow: LiquidationMagnet | null; // Largest long-liquidation cluster below price, within reach
+}
+
+export interface PriceTick {
+  timestamp: number; // ms
+  price: number;
+}
+
+// One broadcast interval of the data-processor worker's stream, as recorded to the tape
+export interface TapeBatch {
+  symbol: string;
+  startTime: number; // ms, end of the previous batch
+  endTime: number; // ms
+  trades: AggrTrade[];
+  liquidations: AggrLiquidation[];
+  cascades?: CascadeEvent[]; // Cascade alerts, by endTime (absent in tapes recorded before they were)
+  ticks: PriceTick[]; // Last price per sampling bucket
+  stats: AggrStats | null; // Snapshot broadcast at endTime
+}
@@ -346,6 +346,7 @@ export class IncrementalMACD {
 export class IncrementalVWAP {
   private cumulativeVolume: number = 0;
   private cumulativeVolumePrice: number = 0;
+  private cumulativeVolumePriceSq: number = 0;
 
   /**
    * Update with new candle data - O(1)
@@ -355,6 +356,7 @@ export class IncrementalVWAP {
   update(typicalPrice: number, volume: number): number {
     this.cumulativeVolume += volume;
     this.cumulativeVolumePrice += typicalPrice * volume;
+    this.cumulativeVolumePriceSq += typicalPrice * typicalPrice * volume;
 
     if (this.cumulativeVolume === 0) return typicalPrice;
     return this.cumulativeVolumePrice / this.cumulativeVolume;
@@ -368,12 +370,23 @@ export class IncrementalVWAP {
     return this.cumulativeVolumePrice / this.cumulativeVolume;
   }
 
+  /**
+   * Volume-weighted standard deviation of price around VWAP (for bands)
+   */
+  getStdDev(): number {
+    if (this.cumulativeVolume === 0) return 0;
+    const vwap = this.cumulativeVolumePrice / this.cumulativeVolume;
+    const variance = this.cumulativeVolumePriceSq / this.cumulativeVolume - vwap * vwap;
+    return variance > 0 ? Math.sqrt(variance) : 0;
+  }
+
   /**
    * Reset (typically at session start)
    */
   reset(): void {
     this.cumulativeVolume = 0;
     this.cumulativeVolumePrice = 0;
+    this.cumulativeVolumePriceSq = 0;
   }
 }
 
@@ -0,0 +1,19 @@
+/**
+ * Seeded Random
+ * Reproducible random numbers for simulations (walk-forward search, Monte Carlo)
+ */
+
+/**
+ * Mulberry32 - small, fast seeded PRNG returning floats in [0, 1).
+ * The same seed always yields the same sequence.
+ */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
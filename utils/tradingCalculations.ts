@@ -158,12 +158,14 @@ export function checkPositionClose(
 ): { shouldClose: boolean; reason: 'STOP_LOSS' | 'TAKE_PROFIT' | 'LIQUIDATED' | null } {
   const { type, stopLoss, takeProfit, liquidationPrice } = position;
 
-  // Check liquidation first (most critical)
-  if (type === 'LONG' && currentPrice <= liquidationPrice) {
-    return { shouldClose: true, reason: 'LIQUIDATED' };
-  }
-  if (type === 'SHORT' && currentPrice >= liquidationPrice) {
-    return { shouldClose: true, reason: 'LIQUIDATED' };
+  // Check liquidation first (most critical); 0 means no liquidation price is known
+  if (liquidationPrice > 0) {
+    if (type === 'LONG' && currentPrice <= liquidationPrice) {
+      return { shouldClose: true, reason: 'LIQUIDATED' };
+    }
+    if (type === 'SHORT' && currentPrice >= liquidationPrice) {
+      return { shouldClose: true, reason: 'LIQUIDATED' };
+    }
   }
 
   // Check stop loss